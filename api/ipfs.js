@@ -0,0 +1,82 @@
+/**
+ * Proxy for adding listing previews to IPFS
+ * Route: /api/ipfs/api/v0/add
+ *
+ * The pinning endpoint and its token stay on the server (IPFS_API_URL,
+ * IPFS_API_TOKEN), so they never ship in the browser bundle. Point
+ * VITE_IPFS_API_URL at /api/ipfs to use it. Only `add` is forwarded, and only
+ * for files up to MAX_PREVIEW_BYTES, since previews are small teasers.
+ */
+const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+export default async function handler(req, res) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.status(200).end();
+    return;
+  }
+
+  // Get the path after /api/ipfs/
+  const path = req.url.replace('/api/ipfs', '');
+  if (req.method !== 'POST' || !path.startsWith('/api/v0/add')) {
+    res.status(404).json({ error: 'Only POST /api/v0/add is supported' });
+    return;
+  }
+
+  const apiUrl = process.env.IPFS_API_URL;
+  if (!apiUrl) {
+    res.status(503).json({ error: 'No IPFS node configured (IPFS_API_URL)' });
+    return;
+  }
+  if (Number(req.headers['content-length'] || 0) > MAX_PREVIEW_BYTES) {
+    res.status(413).json({ error: `Previews are limited to ${MAX_PREVIEW_BYTES} bytes` });
+    return;
+  }
+
+  // Query is fixed so callers can't change pinning options
+  const targetUrl = `${apiUrl.replace(/\/+$/, '')}/api/v0/add?pin=true&cid-version=1`;
+
+  console.log(`[IPFS Proxy] ${req.method} ${req.url} -> ${targetUrl}`);
+
+  try {
+    // Read the multipart body as it came, stopping at the size limit
+    const chunks = [];
+    let received = 0;
+    for await (const chunk of req) {
+      received += chunk.length;
+      if (received > MAX_PREVIEW_BYTES) {
+        res.status(413).json({ error: `Previews are limited to ${MAX_PREVIEW_BYTES} bytes` });
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    const headers = { 'content-type': req.headers['content-type'] };
+    if (process.env.IPFS_API_TOKEN) {
+      headers.Authorization = `Bearer ${process.env.IPFS_API_TOKEN}`;
+    }
+
+    const response = await fetch(targetUrl, {
+      method: 'POST',
+      headers,
+      body: Buffer.concat(chunks),
+    });
+    const data = await response.text();
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.status(response.status);
+
+    // Handle JSON or text
+    try {
+      res.json(JSON.parse(data));
+    } catch {
+      res.send(data);
+    }
+  } catch (error) {
+    console.error('Proxy error:', error);
+    res.status(500).json({ error: 'Proxy request failed', details: error.message });
+  }
+}
@@ -1,5 +1,51 @@
-use near_sdk::{env, near, AccountId};
-use near_sdk::store::{Vector, UnorderedMap};
+use near_sdk::{env, near, AccountId, Gas, NearToken, Promise, PromiseOrValue, PromiseResult};
+use near_sdk::json_types::U128;
+use near_sdk::serde_json;
+use near_sdk::store::{Vector, UnorderedMap, LookupMap};
+
+// Listing prices are stored in hundredths of a NEAR (price 250 = 2.5 NEAR)
+const YOCTO_PER_PRICE_UNIT: u128 = 10_000_000_000_000_000_000_000;
+// The first deployed version stored prices in whole NEAR
+const PRICE_UNITS_PER_OLD_UNIT: u32 = 100;
+
+const GAS_FOR_FT_TRANSFER: Gas = Gas::from_tgas(10);
+// Callback that rolls an escrow back if its payout failed (see on_escrow_payout)
+const GAS_FOR_PAYOUT_CALLBACK: Gas = Gas::from_tgas(5);
+const ONE_YOCTO: NearToken = NearToken::from_yoctonear(1);
+
+// How long a buyer waits for access before they can reclaim an escrowed payment
+const DEFAULT_ESCROW_TIMEOUT_MS: u64 = 7 * 24 * 60 * 60 * 1000;
+// How long a dispute can go without a new event before the seller may close it
+const DISPUTE_STALE_MS: u64 = 14 * 24 * 60 * 60 * 1000;
+
+// Cap on buyers per batch grant/revoke; each released wNEAR escrow reserves
+// GAS_FOR_FT_TRANSFER plus GAS_FOR_PAYOUT_CALLBACK, so this keeps a full
+// batch under the 300 TGas limit
+const MAX_BATCH_BUYERS: usize = 15;
+
+// Longest description a seller can attach to a listing, in bytes
+const MAX_DESCRIPTION_LEN: usize = 2000;
+// Limits on the searchable metadata, in bytes / count
+const MAX_TITLE_LEN: usize = 120;
+const MAX_TAGS: usize = 10;
+const MAX_TAG_LEN: usize = 32;
+// Longest review text, in bytes
+const MAX_REVIEW_LEN: usize = 1000;
+// Longest dispute reason or note, in bytes
+const MAX_DISPUTE_NOTE_LEN: usize = 1000;
+// Longest custom usage license, in bytes
+const MAX_LICENSE_TEXT_LEN: usize = 4000;
+// Most files a bundle listing's manifest can describe
+const MAX_BUNDLE_FILES: u32 = 1000;
+// Longest preview cid / MIME type, in bytes
+const MAX_PREVIEW_FIELD_LEN: usize = 128;
+// Longest group id / cid / hash of a buyer's fingerprinted copy, in bytes
+const MAX_COPY_FIELD_LEN: usize = 128;
+
+// Page size used when a paginated view is called without a limit,
+// and the hard cap that keeps a single page within view gas
+const DEFAULT_PAGE_LIMIT: u32 = 50;
+const MAX_PAGE_LIMIT: u32 = 100;
 
 #[near(serializers = [json, borsh])]
 #[derive(Clone)] 
@@ -10,9 +56,275 @@ pub enum ListingKind {
     Other,
 }
 
+// Describes the listed file. title and tags can be edited by the owner;
+// the file fields are fixed at upload so downloads get the original name and type.
+// Empty strings / 0 mean unknown (listings created without metadata)
+#[near(serializers = [json, borsh])]
+#[derive(Clone, Default)]
+pub struct ListingMetadata {
+    pub title: String,
+    pub tags: Vec<String>,
+    pub file_name: String,
+    pub mime_type: String,
+    pub size: u64,
+    // Hash of the plaintext file as reported by NOVA on upload
+    pub file_hash: String,
+    // Files in a bundle listing. For bundles, cid / file_hash point at the
+    // manifest and size is the total. 0 (older listings) and 1 mean a single file
+    #[serde(default)]
+    pub file_count: u32,
+    // Encrypted chunks a large file was uploaded in; cid / file_hash then
+    // point at the chunk manifest. 0 means the file was uploaded whole
+    #[serde(default)]
+    pub chunk_count: u32,
+}
+
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum LicenseKind {
+    // Access never expires
+    Perpetual,
+    // Access lapses `duration_ms` after it is first granted
+    FixedTerm,
+    // Like FixedTerm, but the buyer can pay the price again to extend it
+    Subscription,
+}
+
+// How long a purchase grants access for. duration_ms is unused for Perpetual
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct LicenseTerms {
+    pub kind: LicenseKind,
+    pub duration_ms: u64,
+}
+
+impl Default for LicenseTerms {
+    fn default() -> Self {
+        Self {
+            kind: LicenseKind::Perpetual,
+            duration_ms: 0,
+        }
+    }
+}
+
+// What a buyer may do with the file. The template texts live in the frontend
+// (usageLicenseService.ts); only Custom stores its text on-chain
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum UsageLicenseKind {
+    Personal,
+    Commercial,
+    CcBy,
+    CcBySa,
+    CcByNc,
+    Cc0,
+    Custom,
+}
+
+// Fixed at upload, so every buyer's license receipt matches the listing
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct UsageLicense {
+    pub kind: UsageLicenseKind,
+    // Seller's own terms; empty unless kind is Custom
+    pub custom_text: String,
+    // Lowercase hex SHA-256 of the full license text
+    pub text_hash: String,
+}
+
+// Public teaser generated at upload (thumbnail, short clip or sample rows).
+// Stored unencrypted on IPFS, so anyone can see it before buying
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct ListingPreview {
+    pub cid: String,
+    pub mime_type: String,
+}
+
+// Seller opt-in for single images: each buyer is granted their own copy,
+// watermarked with their account id, in a NOVA group of its own, so a
+// leaked file can be traced back to the buyer
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct FingerprintSettings {
+    // Also stamp "Licensed to <account>" on the image
+    pub visible: bool,
+}
+
+// A buyer's fingerprinted copy, recorded with the grant that gives access to it
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct BuyerCopy {
+    pub buyer: AccountId,
+    pub nova_group_id: String,
+    pub cid: String,
+    // Hash of the watermarked plaintext as reported by NOVA on upload
+    pub file_hash: String,
+}
+
 #[near(serializers = [json, borsh])]
 #[derive(Clone)] 
 pub struct Listing {
+    pub product_id: u64,
+    pub price: u32,
+    pub nova_group_id: String,
+    pub owner: AccountId,
+    pub purchase_number: u32,
+    pub list_type: ListingKind,
+    pub cid: String,
+    pub description: String,
+    pub metadata: ListingMetadata,
+    // Inactive listings can't be bought; past buyers keep their access
+    pub is_active: bool,
+    pub buyers: Vec<AccountId>,
+    pub buyers_with_access: Vec<AccountId>,
+    pub is_tee_verified: bool,
+    pub tee_signature: Option<String>,
+    // Running totals of buyer reviews, so cards can show the average
+    // rating without loading every review
+    pub review_count: u32,
+    pub rating_total: u32,
+    pub license: LicenseTerms,
+    // None for listings created before usage licenses
+    pub usage_license: Option<UsageLicense>,
+    // None when the seller skipped it or the asset type has no preview
+    pub preview: Option<ListingPreview>,
+    // None unless the seller fingerprints buyer copies
+    pub fingerprint: Option<FingerprintSettings>,
+}
+
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum EscrowStatus {
+    Held,
+    Released,
+    Refunded,
+    // Refund transfer failed: the purchase is already undone and the payment
+    // is still with the contract, owed to the buyer
+    RefundFailed,
+}
+
+// Token the buyer paid with, so a release or refund pays out the same way
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum PaymentAsset {
+    Near,
+    WrappedNear,
+}
+
+// Who sent a refunded payment back to the buyer
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum RefundReason {
+    // Buyer claimed it after the seller didn't grant access in time
+    Timeout,
+    // Seller refunded a dispute
+    Seller,
+    // Arbiter ruled for the buyer
+    Arbiter,
+}
+
+// A purchase payment held by the contract until the seller grants access
+// (released to the seller) or the timeout passes (refundable to the buyer)
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct Escrow {
+    pub p_id: u64,
+    pub buyer: AccountId,
+    pub seller: AccountId,
+    pub amount: U128,
+    pub asset: PaymentAsset,
+    pub status: EscrowStatus,
+    pub purchased_at_ms: u64,
+    pub refundable_at_ms: u64,
+    // When the seller first granted access (and was paid); None until then
+    pub granted_at_ms: Option<u64>,
+    // Set with status Refunded
+    pub refund_reason: Option<RefundReason>,
+}
+
+#[near(serializers = [json, borsh])]
+#[derive(Clone, PartialEq)]
+pub enum DisputeStatus {
+    Open,
+    // Buyer got their payment back (from the seller or by the arbiter)
+    Refunded,
+    // Arbiter sided with the seller
+    Rejected,
+    // Buyer closed it themselves
+    Withdrawn,
+    // Seller closed it after DISPUTE_STALE_MS without a new event
+    Expired,
+}
+
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub enum DisputeAction {
+    Opened,
+    Note,
+    Refunded,
+    Rejected,
+    Withdrawn,
+    Expired,
+}
+
+// One step in a dispute's timeline
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct DisputeEvent {
+    pub action: DisputeAction,
+    pub actor: AccountId,
+    pub note: String,
+    pub at_ms: u64,
+}
+
+// A buyer's complaint about one purchase. While it is open the escrowed
+// payment stays held even if access is granted, so a refund can still be paid
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct Dispute {
+    pub p_id: u64,
+    pub buyer: AccountId,
+    pub seller: AccountId,
+    pub status: DisputeStatus,
+    pub events: Vec<DisputeEvent>,
+}
+
+// A buyer's verdict on a listing they were granted access to (one per buyer)
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct Review {
+    pub p_id: u64,
+    pub reviewer: AccountId,
+    // 1 to 5
+    pub rating: u8,
+    pub text: String,
+    pub created_at_ms: u64,
+}
+
+// One entry per purchase, in order. Its position is a stable cursor for
+// off-chain agents that follow new purchases (see get_purchases)
+#[near(serializers = [json, borsh])]
+#[derive(Clone)]
+pub struct PurchaseRecord {
+    pub p_id: u64,
+    pub buyer: AccountId,
+    pub seller: AccountId,
+    pub purchased_at_ms: u64,
+}
+
+// `msg` of the wNEAR ft_transfer_call that settles a cross-chain (1Click) purchase
+#[near(serializers = [json])]
+pub struct IntentPurchaseMsg {
+    pub p_id: u64,
+    pub buyer: AccountId,
+    pub nova_account_id: String,
+}
+
+// Listing as stored by the first deployed version of the contract, read once by `migrate`
+#[near(serializers = [borsh])]
+#[derive(Clone)]
+pub struct OldListing {
     pub product_id: u64,
     pub price: u32,
     pub nova_group_id: String,
@@ -27,6 +339,12 @@ pub struct Listing {
     pub tee_signature: Option<String>,
 }
 
+#[near(serializers = [borsh])]
+pub struct OldContract {
+    listings: Vector<OldListing>,
+    nova_account_map: UnorderedMap<AccountId, String>,
+}
+
 #[near(contract_state)]
 pub struct Contract {
     listings: Vector<Listing>,
@@ -34,6 +352,39 @@ pub struct Contract {
     // Key: NEAR wallet (e.g., "buyer.near")
     // Value: NOVA account (e.g., "buyer123.nova-sdk.near")
     nova_account_map: UnorderedMap<AccountId, String>,
+    // Indexes so lookups don't scan every listing
+    // product_id → position in `listings`
+    listing_index: LookupMap<u64, u32>,
+    // owner → product_ids they created, in creation order
+    listings_by_owner: LookupMap<AccountId, Vec<u64>>,
+    // buyer → product_ids they bought, in purchase order
+    listings_by_buyer: LookupMap<AccountId, Vec<u64>>,
+    // (product_id, buyer) → payment held for that purchase
+    escrows: LookupMap<(u64, AccountId), Escrow>,
+    escrow_timeout_ms: u64,
+    // Append-only purchase log
+    purchases: Vector<PurchaseRecord>,
+    // product_id → every buyer that paid into escrow, including refunded ones
+    escrow_buyers: LookupMap<u64, Vec<AccountId>>,
+    // product_id → settled escrows replaced when their buyer bought again, oldest first
+    escrow_history: LookupMap<u64, Vec<Escrow>>,
+    // product_id → reviews, oldest first
+    reviews: LookupMap<u64, Vec<Review>>,
+    // (product_id, buyer) → dispute; at most one per purchase
+    disputes: LookupMap<(u64, AccountId), Dispute>,
+    // product_id → buyers who opened a dispute on it
+    disputes_by_listing: LookupMap<u64, Vec<AccountId>>,
+    // Every dispute in the order it was opened, for the arbiter's queue
+    dispute_log: Vector<(u64, AccountId)>,
+    // Account that may settle disputes the buyer and seller can't; none by default
+    arbiter: Option<AccountId>,
+    // (product_id, buyer) → when their time-limited license lapses (ms)
+    license_expiry: LookupMap<(u64, AccountId), u64>,
+    // (product_id, buyer) → their fingerprinted copy, on fingerprinted listings
+    buyer_copies: LookupMap<(u64, AccountId), BuyerCopy>,
+    // (product_id, buyer) → when the seller first granted this purchase (ms).
+    // Kept after a revoke, so clients can tell a revoked buyer from one still waiting
+    access_granted_at: LookupMap<(u64, AccountId), u64>,
 }
 
 impl Default for Contract {
@@ -41,12 +392,466 @@ impl Default for Contract {
         Self {
             listings: Vector::new(b"l"),
             nova_account_map: UnorderedMap::new(b"n"),
+            listing_index: LookupMap::new(b"i"),
+            listings_by_owner: LookupMap::new(b"o"),
+            listings_by_buyer: LookupMap::new(b"b"),
+            escrows: LookupMap::new(b"e"),
+            escrow_timeout_ms: DEFAULT_ESCROW_TIMEOUT_MS,
+            purchases: Vector::new(b"p"),
+            escrow_buyers: LookupMap::new(b"x"),
+            escrow_history: LookupMap::new(b"h"),
+            reviews: LookupMap::new(b"r"),
+            disputes: LookupMap::new(b"d"),
+            disputes_by_listing: LookupMap::new(b"y"),
+            dispute_log: Vector::new(b"q"),
+            arbiter: None,
+            license_expiry: LookupMap::new(b"t"),
+            buyer_copies: LookupMap::new(b"w"),
+            access_granted_at: LookupMap::new(b"g"),
+        }
+    }
+}
+
+// Internal helpers (not exposed as contract methods)
+impl Contract {
+    fn find_index(&self, p_id: u64) -> Option<u32> {
+        self.listing_index.get(&p_id).copied()
+    }
+
+    fn page_range(total: u32, from_index: Option<u32>, limit: Option<u32>) -> std::ops::Range<u32> {
+        let start = from_index.unwrap_or(0).min(total);
+        let limit = limit.unwrap_or(DEFAULT_PAGE_LIMIT).min(MAX_PAGE_LIMIT);
+        start..start.saturating_add(limit).min(total)
+    }
+
+    fn listings_for_ids(&self, ids: &[u64], from_index: Option<u32>, limit: Option<u32>) -> Vec<Listing> {
+        Self::page_range(ids.len() as u32, from_index, limit)
+            .filter_map(|i| self.get_listing(ids[i as usize]))
+            .collect()
+    }
+
+    fn price_in_yocto(price: u32) -> u128 {
+        price as u128 * YOCTO_PER_PRICE_UNIT
+    }
+
+    // Cross-chain settlements arrive as wNEAR from the token contract of this network
+    fn wnear_contract() -> AccountId {
+        if env::current_account_id().as_str().ends_with(".testnet") {
+            "wrap.testnet".parse().unwrap()
+        } else {
+            "wrap.near".parse().unwrap()
+        }
+    }
+
+    // Adds `buyer` to the listing once payment has been verified by the caller.
+    // Doesn't touch nova_account_map: see buy and ft_on_transfer
+    fn record_purchase(&mut self, p_id: u64, buyer: AccountId) -> Listing {
+        let i = self.find_index(p_id).expect("Listing not found");
+        let mut updated_item = self.listings[i].clone();
+        
+        assert!(updated_item.is_active, "Listing is not active");
+        assert!(
+            !updated_item.buyers.contains(&buyer),
+            "Account has already purchased this listing"
+        );
+        
+        updated_item.purchase_number += 1;
+        updated_item.buyers.push(buyer.clone());
+        
+        self.listings.set(i, updated_item.clone());
+        Self::index_account(&mut self.listings_by_buyer, buyer.clone(), p_id);
+        
+        // NEP-297 event so indexers can pick up purchases too
+        env::log_str(&format!(
+            "EVENT_JSON:{}",
+            serde_json::json!({
+                "standard": "singlelibrary",
+                "version": "1.0.0",
+                "event": "listing_purchased",
+                "data": [{ "p_id": p_id, "buyer": buyer, "seller": updated_item.owner }],
+            })
+        ));
+        self.purchases.push(PurchaseRecord {
+            p_id,
+            buyer,
+            seller: updated_item.owner.clone(),
+            purchased_at_ms: env::block_timestamp_ms(),
+        });
+        
+        updated_item
+    }
+
+    fn hold_in_escrow(&mut self, listing: &Listing, buyer: AccountId, amount: u128, asset: PaymentAsset) {
+        let previous = self.escrows.get(&(listing.product_id, buyer.clone())).cloned();
+        // A refund whose transfer failed is still owed to the buyer
+        assert!(
+            previous.as_ref().map_or(true, |escrow| escrow.status != EscrowStatus::RefundFailed),
+            "A refund of your earlier payment is still in escrow: claim it first"
+        );
+        // A lapsed license whose payment a dispute still holds
+        assert!(
+            previous.as_ref().map_or(true, |escrow| escrow.status != EscrowStatus::Held),
+            "Your earlier payment for this listing is still in escrow"
+        );
+        // Keep the settled escrow of the earlier purchase for the seller's track record
+        if let Some(previous) = previous {
+            match self.escrow_history.get_mut(&listing.product_id) {
+                Some(history) => history.push(previous),
+                None => {
+                    self.escrow_history.insert(listing.product_id, vec![previous]);
+                }
+            }
+        }
+        let now = env::block_timestamp_ms();
+        let escrow = Escrow {
+            p_id: listing.product_id,
+            buyer: buyer.clone(),
+            seller: listing.owner.clone(),
+            amount: U128(amount),
+            asset,
+            status: EscrowStatus::Held,
+            purchased_at_ms: now,
+            refundable_at_ms: now + self.escrow_timeout_ms,
+            granted_at_ms: None,
+            refund_reason: None,
+        };
+        match self.escrow_buyers.get_mut(&listing.product_id) {
+            Some(buyers) if !buyers.contains(&buyer) => buyers.push(buyer.clone()),
+            Some(_) => {}
+            None => {
+                self.escrow_buyers.insert(listing.product_id, vec![buyer.clone()]);
+            }
+        }
+        self.escrows.insert((listing.product_id, buyer), escrow);
+    }
+    
+    // Pays the seller if this purchase is still in escrow; no-op otherwise.
+    // Held back while the buyer has an open dispute
+    fn release_escrow(&mut self, p_id: u64, buyer: &AccountId) {
+        if self.has_open_dispute(p_id, buyer) {
+            return;
+        }
+        if let Some(escrow) = self.escrows.get_mut(&(p_id, buyer.clone())) {
+            if escrow.status == EscrowStatus::Held {
+                escrow.status = EscrowStatus::Released;
+                escrow.granted_at_ms = Some(env::block_timestamp_ms());
+                Self::pay_out_escrow(escrow, escrow.seller.clone());
+            }
+        }
+    }
+    
+    // None when there is nothing to pay
+    fn pay_out(asset: &PaymentAsset, receiver: AccountId, amount: u128) -> Option<Promise> {
+        if amount == 0 {
+            return None;
+        }
+        match asset {
+            PaymentAsset::Near => Some(Promise::new(receiver).transfer(NearToken::from_yoctonear(amount))),
+            // Receiver must be registered with the wNEAR contract
+            PaymentAsset::WrappedNear => Some(Promise::new(Self::wnear_contract()).function_call(
+                "ft_transfer".to_string(),
+                serde_json::to_vec(&serde_json::json!({
+                    "receiver_id": receiver,
+                    "amount": U128(amount),
+                }))
+                .unwrap(),
+                ONE_YOCTO,
+                GAS_FOR_FT_TRANSFER,
+            )),
+        }
+    }
+
+    // Pays out an escrow already marked Released or Refunded. A failed transfer
+    // leaves the funds with the contract, so on_escrow_payout puts it back to Held
+    fn pay_out_escrow(escrow: &Escrow, receiver: AccountId) {
+        if let Some(payout) = Self::pay_out(&escrow.asset, receiver, escrow.amount.0) {
+            payout.then(
+                Self::ext(env::current_account_id())
+                    .with_static_gas(GAS_FOR_PAYOUT_CALLBACK)
+                    .on_escrow_payout(escrow.p_id, escrow.buyer.clone()),
+            );
+        }
+    }
+
+    fn promise_succeeded() -> bool {
+        env::promise_results_count() == 1 && matches!(env::promise_result(0), PromiseResult::Successful(_))
+    }
+
+    // Listing position and a copy of it, if the caller owns it
+    fn owned_listing(&self, p_id: u64) -> (u32, Listing) {
+        let i = self.find_index(p_id).expect("Listing not found");
+        let listing = self.listings[i].clone();
+        assert_eq!(
+            listing.owner,
+            env::predecessor_account_id(),
+            "Only the listing owner can change this listing"
+        );
+        (i, listing)
+    }
+    
+    fn assert_valid_description(description: &str) {
+        assert!(
+            description.len() <= MAX_DESCRIPTION_LEN,
+            "Description is longer than {} bytes",
+            MAX_DESCRIPTION_LEN
+        );
+    }
+
+    fn assert_valid_title(title: &str) {
+        assert!(title.len() <= MAX_TITLE_LEN, "Title is longer than {} bytes", MAX_TITLE_LEN);
+    }
+    
+    fn assert_valid_tags(tags: &[String]) {
+        assert!(tags.len() <= MAX_TAGS, "At most {} tags per listing", MAX_TAGS);
+        for tag in tags {
+            assert!(
+                !tag.is_empty() && tag.len() <= MAX_TAG_LEN,
+                "Tags must be 1 to {} bytes",
+                MAX_TAG_LEN
+            );
+        }
+    }
+
+    fn has_open_dispute(&self, p_id: u64, buyer: &AccountId) -> bool {
+        self.disputes
+            .get(&(p_id, buyer.clone()))
+            .map_or(false, |dispute| dispute.status == DisputeStatus::Open)
+    }
+    
+    fn assert_valid_note(note: &str) {
+        assert!(note.len() <= MAX_DISPUTE_NOTE_LEN, "Note is longer than {} bytes", MAX_DISPUTE_NOTE_LEN);
+    }
+    
+    // Open dispute on (p_id, buyer), checking the caller is allowed to act on it
+    fn open_dispute_for(&self, p_id: u64, buyer: &AccountId) -> Dispute {
+        let dispute = self.disputes.get(&(p_id, buyer.clone())).cloned().expect("No dispute for this purchase");
+        assert!(dispute.status == DisputeStatus::Open, "Dispute is already closed");
+        dispute
+    }
+    
+    fn close_dispute(&mut self, mut dispute: Dispute, status: DisputeStatus, action: DisputeAction, note: String) {
+        dispute.status = status;
+        dispute.events.push(DisputeEvent {
+            action,
+            actor: env::predecessor_account_id(),
+            note,
+            at_ms: env::block_timestamp_ms(),
+        });
+        self.disputes.insert((dispute.p_id, dispute.buyer.clone()), dispute);
+    }
+    
+    // Removes the buyer from a listing after their payment was returned
+    fn undo_purchase(&mut self, p_id: u64, buyer: &AccountId) {
+        let i = self.find_index(p_id).expect("Listing not found");
+        let mut updated_item = self.listings[i].clone();
+        
+        updated_item.buyers.retain(|b| b != buyer);
+        updated_item.buyers_with_access.retain(|b| b != buyer);
+        updated_item.purchase_number = updated_item.purchase_number.saturating_sub(1);
+        self.listings.set(i, updated_item);
+        
+        if let Some(ids) = self.listings_by_buyer.get_mut(buyer) {
+            ids.retain(|id| *id != p_id);
+        }
+        self.license_expiry.remove(&(p_id, buyer.clone()));
+        self.access_granted_at.remove(&(p_id, buyer.clone()));
+    }
+    
+    fn assert_valid_license(license: &LicenseTerms) {
+        assert!(
+            license.kind == LicenseKind::Perpetual || license.duration_ms > 0,
+            "Time-limited licenses need a duration"
+        );
+    }
+    
+    // Starts the license clock on first grant. A buyer re-granted while their
+    // license is still running keeps the original expiry
+    fn start_license(&mut self, listing: &Listing, buyer: &AccountId) {
+        if listing.license.kind == LicenseKind::Perpetual {
+            return;
+        }
+        let now = env::block_timestamp_ms();
+        let key = (listing.product_id, buyer.clone());
+        if self.license_expiry.get(&key).map_or(false, |expires_at| *expires_at > now) {
+            return;
+        }
+        self.license_expiry.insert(key, now + listing.license.duration_ms);
+    }
+    
+    // First grant of this purchase; a re-grant after a revoke keeps the time
+    fn record_grant(&mut self, p_id: u64, buyer: &AccountId) {
+        let key = (p_id, buyer.clone());
+        if self.access_granted_at.get(&key).is_none() {
+            self.access_granted_at.insert(key, env::block_timestamp_ms());
+        }
+    }
+    
+    // Granted access at some point, whether or not their license has lapsed since
+    fn was_granted(&self, p_id: u64, buyer: &AccountId) -> bool {
+        self.get_listing(p_id)
+            .map_or(false, |listing| listing.buyers_with_access.contains(buyer))
+    }
+    
+    // False once a time-limited license has lapsed, even before the seller's
+    // sweep revokes it; perpetual licenses have no expiry and never lapse
+    fn license_active(&self, p_id: u64, buyer: &AccountId) -> bool {
+        self.license_expiry
+            .get(&(p_id, buyer.clone()))
+            .map_or(true, |expires_at| *expires_at > env::block_timestamp_ms())
+    }
+    
+    // A lapsed license ends the purchase: the buyer leaves the listing (so
+    // they can buy again) but still counts towards its sales
+    fn end_lapsed_license(&mut self, listing: &mut Listing, buyer: &AccountId) {
+        let key = (listing.product_id, buyer.clone());
+        let lapsed = self
+            .license_expiry
+            .get(&key)
+            .map_or(false, |expires_at| *expires_at <= env::block_timestamp_ms());
+        if !lapsed {
+            return;
+        }
+        self.license_expiry.remove(&key);
+        self.access_granted_at.remove(&key);
+        listing.buyers.retain(|b| b != buyer);
+        if let Some(ids) = self.listings_by_buyer.get_mut(buyer) {
+            ids.retain(|id| *id != listing.product_id);
+        }
+    }
+    
+    fn sha256_hex(bytes: &[u8]) -> String {
+        env::sha256(bytes).iter().map(|b| format!("{:02x}", b)).collect()
+    }
+    
+    fn assert_valid_usage_license(license: &UsageLicense) {
+        assert!(
+            license.text_hash.len() == 64
+                && license.text_hash.chars().all(|c| c.is_ascii_digit() || ('a'..='f').contains(&c)),
+            "License hash must be a lowercase hex SHA-256"
+        );
+        if license.kind == UsageLicenseKind::Custom {
+            assert!(
+                !license.custom_text.trim().is_empty() && license.custom_text.len() <= MAX_LICENSE_TEXT_LEN,
+                "Custom license text must be 1 to {} bytes",
+                MAX_LICENSE_TEXT_LEN
+            );
+            // The text is on-chain here, so the hash can be checked
+            assert_eq!(
+                license.text_hash,
+                Self::sha256_hex(license.custom_text.as_bytes()),
+                "License hash does not match the custom text"
+            );
+        } else {
+            assert!(license.custom_text.is_empty(), "Only custom licenses carry their own text");
+        }
+    }
+    
+    fn assert_valid_preview(preview: &ListingPreview) {
+        assert!(
+            !preview.cid.is_empty() && preview.cid.len() <= MAX_PREVIEW_FIELD_LEN,
+            "Preview cid must be 1 to {} bytes",
+            MAX_PREVIEW_FIELD_LEN
+        );
+        assert!(
+            preview.mime_type.len() <= MAX_PREVIEW_FIELD_LEN,
+            "Preview MIME type is longer than {} bytes",
+            MAX_PREVIEW_FIELD_LEN
+        );
+    }
+    
+    fn assert_valid_buyer_copy(copy: &BuyerCopy) {
+        for field in [&copy.nova_group_id, &copy.cid, &copy.file_hash] {
+            assert!(
+                !field.is_empty() && field.len() <= MAX_COPY_FIELD_LEN,
+                "Buyer copy group id, cid and hash must be 1 to {} bytes",
+                MAX_COPY_FIELD_LEN
+            );
+        }
+    }
+    
+    // Fingerprinted listings only grant buyers who have their own copy: the
+    // one passed with this grant, or the one recorded by an earlier grant
+    fn record_buyer_copy(&mut self, listing: &Listing, buyer: &AccountId, copy: Option<BuyerCopy>) {
+        let key = (listing.product_id, buyer.clone());
+        match copy {
+            Some(copy) => {
+                assert!(listing.fingerprint.is_some(), "This listing does not fingerprint buyer copies");
+                assert!(&copy.buyer == buyer, "Copy is for {}, not {}", copy.buyer, buyer);
+                Self::assert_valid_buyer_copy(&copy);
+                self.buyer_copies.insert(key, copy);
+            }
+            None => assert!(
+                listing.fingerprint.is_none() || self.buyer_copies.contains_key(&key),
+                "Listing is fingerprinted: grant {} together with their copy",
+                buyer
+            ),
+        }
+    }
+    
+    fn index_account(index: &mut LookupMap<AccountId, Vec<u64>>, account: AccountId, p_id: u64) {
+        if let Some(ids) = index.get_mut(&account) {
+            if !ids.contains(&p_id) {
+                ids.push(p_id);
+            }
+        } else {
+            index.insert(account, vec![p_id]);
         }
     }
 }
 
 #[near]
 impl Contract {
+    // One-off upgrade from the first deployed layout (listings + nova_account_map).
+    // Call once, in the same transaction as the deploy. Listings keep their
+    // position and buyers, new fields get their defaults and the lookup
+    // indexes are rebuilt. Prices are converted from whole NEAR to hundredths,
+    // so every listing keeps its price. Already-migrated state doesn't deserialize as
+    // OldContract, so a second call panics instead of corrupting it
+    #[private]
+    #[init(ignore_state)]
+    pub fn migrate() -> Self {
+        let OldContract { listings: mut old_listings, nova_account_map } =
+            env::state_read().expect("No state to migrate");
+        let old: Vec<OldListing> = old_listings.iter().cloned().collect();
+        // Both layouts store listings under b"l": clear the old entries before re-pushing
+        old_listings.clear();
+        drop(old_listings);
+
+        let mut contract = Self { nova_account_map, ..Self::default() };
+        for listing in old {
+            let p_id = listing.product_id;
+            let position = contract.listings.len();
+            for buyer in &listing.buyers {
+                Self::index_account(&mut contract.listings_by_buyer, buyer.clone(), p_id);
+            }
+            Self::index_account(&mut contract.listings_by_owner, listing.owner.clone(), p_id);
+            contract.listing_index.insert(p_id, position);
+            contract.listings.push(Listing {
+                product_id: p_id,
+                price: listing.price.saturating_mul(PRICE_UNITS_PER_OLD_UNIT),
+                nova_group_id: listing.nova_group_id,
+                owner: listing.owner,
+                purchase_number: listing.purchase_number,
+                list_type: listing.list_type,
+                cid: listing.cid,
+                description: String::new(),
+                metadata: ListingMetadata::default(),
+                is_active: listing.is_active,
+                buyers: listing.buyers,
+                buyers_with_access: listing.buyers_with_access,
+                is_tee_verified: listing.is_tee_verified,
+                tee_signature: listing.tee_signature,
+                review_count: 0,
+                rating_total: 0,
+                license: LicenseTerms::default(),
+                usage_license: None,
+                preview: None,
+                fingerprint: None,
+            });
+        }
+        contract
+    }
+
     pub fn create_listing(
         &mut self,
         product_id: u64,
@@ -57,7 +862,41 @@ impl Contract {
         gp_owner: AccountId,
         is_tee_verified: bool,
         tee_signature: Option<String>,
+        description: Option<String>,
+        metadata: Option<ListingMetadata>,
+        license: Option<LicenseTerms>,
+        usage_license: Option<UsageLicense>,
+        preview: Option<ListingPreview>,
+        fingerprint: Option<FingerprintSettings>,
     ) {
+        assert!(
+            self.find_index(product_id).is_none(),
+            "A listing with this product_id already exists"
+        );
+        assert!(price > 0, "Price must be greater than zero");
+        let description = description.unwrap_or_default();
+        Self::assert_valid_description(&description);
+        let metadata = metadata.unwrap_or_default();
+        Self::assert_valid_title(&metadata.title);
+        Self::assert_valid_tags(&metadata.tags);
+        assert!(
+            metadata.file_count <= MAX_BUNDLE_FILES,
+            "A bundle can hold at most {} files",
+            MAX_BUNDLE_FILES
+        );
+        let license = license.unwrap_or_default();
+        Self::assert_valid_license(&license);
+        if let Some(usage_license) = &usage_license {
+            Self::assert_valid_usage_license(usage_license);
+        }
+        if let Some(preview) = &preview {
+            Self::assert_valid_preview(preview);
+        }
+        assert!(
+            fingerprint.is_none() || (metadata.file_count <= 1 && metadata.chunk_count == 0),
+            "Only single files uploaded whole can be fingerprinted"
+        );
+        
         let new_list = Listing {
             product_id,
             price,
@@ -66,43 +905,184 @@ impl Contract {
             purchase_number: 0,
             list_type,
             cid,
+            description,
+            metadata,
             is_active: true,
             buyers: Vec::new(),
             buyers_with_access: Vec::new(),
             is_tee_verified,
             tee_signature,
+            review_count: 0,
+            rating_total: 0,
+            license,
+            usage_license,
+            preview,
+            fingerprint,
         };
         
+        let owner = new_list.owner.clone();
         self.listings.push(new_list);
+        self.listing_index.insert(product_id, self.listings.len() - 1);
+        Self::index_account(&mut self.listings_by_owner, owner, product_id);
     }
 
+    // Stop new sales; buyers who already paid keep access and can still be granted
+    pub fn deactivate_listing(&mut self, p_id: u64) {
+        let (i, mut listing) = self.owned_listing(p_id);
+        listing.is_active = false;
+        self.listings.set(i, listing);
+    }
+    
+    pub fn reactivate_listing(&mut self, p_id: u64) {
+        let (i, mut listing) = self.owned_listing(p_id);
+        listing.is_active = true;
+        self.listings.set(i, listing);
+    }
+    
+    // Only the fields passed are changed. A new price applies to future
+    // purchases; payments already in escrow keep the amount paid. New license
+    // terms apply from the next grant; running licenses keep their expiry
+    pub fn update_listing(
+        &mut self,
+        p_id: u64,
+        price: Option<u32>,
+        list_type: Option<ListingKind>,
+        description: Option<String>,
+        title: Option<String>,
+        tags: Option<Vec<String>>,
+        license: Option<LicenseTerms>,
+    ) {
+        let (i, mut listing) = self.owned_listing(p_id);
+        
+        if let Some(price) = price {
+            assert!(price > 0, "Price must be greater than zero");
+            listing.price = price;
+        }
+        if let Some(list_type) = list_type {
+            listing.list_type = list_type;
+        }
+        if let Some(description) = description {
+            Self::assert_valid_description(&description);
+            listing.description = description;
+        }
+        if let Some(title) = title {
+            Self::assert_valid_title(&title);
+            listing.metadata.title = title;
+        }
+        if let Some(tags) = tags {
+            Self::assert_valid_tags(&tags);
+            listing.metadata.tags = tags;
+        }
+        if let Some(license) = license {
+            Self::assert_valid_license(&license);
+            listing.license = license;
+        }
+        
+        self.listings.set(i, listing);
+    }
+
+    // Full scan - prefer the paginated views below
     pub fn get_listings(&self) -> Vec<Listing> {
         self.listings.iter().map(|l| l.clone()).collect()
     }
     
-    // UPDATED: Now requires buyer's NOVA account ID
+    pub fn get_listings_count(&self) -> u32 {
+        self.listings.len()
+    }
+    
+    pub fn get_listings_paginated(&self, from_index: Option<u32>, limit: Option<u32>) -> Vec<Listing> {
+        Self::page_range(self.listings.len(), from_index, limit)
+            .filter_map(|i| self.listings.get(i).cloned())
+            .collect()
+    }
+    
+    pub fn get_listings_by_owner(&self, owner: AccountId, from_index: Option<u32>, limit: Option<u32>) -> Vec<Listing> {
+        match self.listings_by_owner.get(&owner) {
+            Some(ids) => self.listings_for_ids(ids, from_index, limit),
+            None => Vec::new(),
+        }
+    }
+    
+    pub fn get_listings_by_buyer(&self, buyer: AccountId, from_index: Option<u32>, limit: Option<u32>) -> Vec<Listing> {
+        match self.listings_by_buyer.get(&buyer) {
+            Some(ids) => self.listings_for_ids(ids, from_index, limit),
+            None => Vec::new(),
+        }
+    }
+    
+    // Payable: the attached deposit must cover the listing price.
+    // The price is held in escrow until access is granted and any excess refunded to the buyer.
+    #[payable]
     pub fn buy(&mut self, p_id: u64, nova_account_id: String) {
         let buyer_account: AccountId = env::predecessor_account_id();
+        let deposit = env::attached_deposit().as_yoctonear();
+        
+        let listing = self.record_purchase(p_id, buyer_account.clone());
+        let price = Self::price_in_yocto(listing.price);
         
-        // Store the mapping: NEAR wallet → NOVA account
+        // The caller is the buyer, so they may set (or change) their own NOVA account
         self.nova_account_map.insert(buyer_account.clone(), nova_account_id);
         
-        for i in 0..self.listings.len() {
-            if let Some(item) = self.listings.get(i) {
-                if item.product_id == p_id {
-                    let mut updated_item = item.clone();
-                    
-                    updated_item.purchase_number += 1;
-                    
-                    if !updated_item.buyers.contains(&buyer_account) {
-                        updated_item.buyers.push(buyer_account.clone());
-                    }
-                    
-                    self.listings.set(i, updated_item);
-                    break;
-                }
+        assert!(
+            deposit >= price,
+            "Attached deposit {} yoctoNEAR is less than the listing price {} yoctoNEAR",
+            deposit,
+            price
+        );
+        
+        self.hold_in_escrow(&listing, buyer_account.clone(), price, PaymentAsset::Near);
+        if deposit > price {
+            Promise::new(buyer_account).transfer(NearToken::from_yoctonear(deposit - price));
+        }
+    }
+    
+    // NEP-141 receiver: cross-chain purchases settle here as a wNEAR ft_transfer_call
+    // from the 1Click intent, with an IntentPurchaseMsg as `msg`. Only the wNEAR
+    // contract can call this, so the amount is a verified settlement rather than a
+    // claim by the caller. Panicking refunds the full amount to the sender.
+    pub fn ft_on_transfer(&mut self, sender_id: AccountId, amount: U128, msg: String) -> PromiseOrValue<U128> {
+        assert_eq!(
+            env::predecessor_account_id(),
+            Self::wnear_contract(),
+            "Only wNEAR settlements are accepted"
+        );
+        
+        let purchase: IntentPurchaseMsg = serde_json::from_str(&msg).expect("Invalid purchase message");
+        env::log_str(&format!(
+            "Intent settlement from {} for listing {} on behalf of {}",
+            sender_id, purchase.p_id, purchase.buyer
+        ));
+        
+        let buyer = purchase.buyer.clone();
+        let listing = self.record_purchase(purchase.p_id, purchase.buyer);
+        let price = Self::price_in_yocto(listing.price);
+        
+        // `buyer` and `nova_account_id` come from the untrusted msg: anyone could
+        // pay on behalf of another account. Only a first mapping is taken from
+        // it; an existing one is never replaced, or grants to that account
+        // would add the sender's NOVA account to the seller's group
+        match self.nova_account_map.get(&buyer).cloned() {
+            None => {
+                self.nova_account_map.insert(buyer.clone(), purchase.nova_account_id);
             }
+            Some(existing) if existing != purchase.nova_account_id => env::log_str(&format!(
+                "Kept the existing NOVA account of {}; settlements can't change it",
+                buyer
+            )),
+            Some(_) => {}
         }
+        
+        assert!(
+            amount.0 >= price,
+            "Settled amount {} is less than the listing price {}",
+            amount.0,
+            price
+        );
+        
+        self.hold_in_escrow(&listing, buyer, price, PaymentAsset::WrappedNear);
+        
+        // Unused amount is refunded to the sender by the wNEAR contract
+        PromiseOrValue::Value(U128(amount.0 - price))
     }
     
     // NEW: Get NOVA account ID for a NEAR wallet
@@ -125,55 +1105,534 @@ impl Contract {
         }
     }
     
-    pub fn grant_buyer_access(&mut self, p_id: u64, buyer: AccountId) {
+    // `copy` is required on fingerprinted listings the first time a buyer is granted
+    pub fn grant_buyer_access(&mut self, p_id: u64, buyer: AccountId, copy: Option<BuyerCopy>) {
         let caller = env::predecessor_account_id();
         
-        for i in 0..self.listings.len() {
-            if let Some(item) = self.listings.get(i) {
-                if item.product_id == p_id {
-                    assert_eq!(
-                        item.owner, caller,
-                        "Only the listing owner can grant access"
-                    );
-                    
-                    assert!(
-                        item.buyers.contains(&buyer),
-                        "Account has not purchased this listing"
-                    );
-                    
-                    let mut updated_item = item.clone();
-                    
-                    if !updated_item.buyers_with_access.contains(&buyer) {
-                        updated_item.buyers_with_access.push(buyer);
-                    }
-                    
-                    self.listings.set(i, updated_item);
-                    break;
-                }
+        if let Some(i) = self.find_index(p_id) {
+            let item = &self.listings[i];
+            
+            assert_eq!(
+                item.owner, caller,
+                "Only the listing owner can grant access"
+            );
+            
+            assert!(
+                item.buyers.contains(&buyer),
+                "Account has not purchased this listing"
+            );
+            
+            let mut updated_item = item.clone();
+            self.record_buyer_copy(&updated_item, &buyer, copy);
+            
+            if !updated_item.buyers_with_access.contains(&buyer) {
+                updated_item.buyers_with_access.push(buyer.clone());
             }
+            
+            self.start_license(&updated_item, &buyer);
+            self.record_grant(p_id, &buyer);
+            self.listings.set(i, updated_item);
+            
+            // Granting access is what earns the seller the escrowed payment
+            self.release_escrow(p_id, &buyer);
         }
     }
     
-    pub fn revoke_buyer_access(&mut self, p_id: u64, buyer: AccountId) {
+    // Grant several buyers in one transaction (one wallet signature for the seller).
+    // On fingerprinted listings `copies` holds the copy of each buyer granted for the first time
+    pub fn grant_buyer_access_many(&mut self, p_id: u64, buyers: Vec<AccountId>, copies: Option<Vec<BuyerCopy>>) {
+        assert!(
+            buyers.len() <= MAX_BATCH_BUYERS,
+            "At most {} buyers per batch",
+            MAX_BATCH_BUYERS
+        );
+        let caller = env::predecessor_account_id();
+        let i = self.find_index(p_id).expect("Listing not found");
+        let mut updated_item = self.listings[i].clone();
+        
+        assert_eq!(
+            updated_item.owner, caller,
+            "Only the listing owner can grant access"
+        );
+        
+        let mut copies = copies.unwrap_or_default();
+        for buyer in &buyers {
+            let copy = copies.iter().position(|c| &c.buyer == buyer).map(|pos| copies.swap_remove(pos));
+            self.record_buyer_copy(&updated_item, buyer, copy);
+        }
+        assert!(copies.is_empty(), "Copies were passed for accounts not in this batch");
+        
+        for buyer in &buyers {
+            assert!(
+                updated_item.buyers.contains(buyer),
+                "Account {} has not purchased this listing",
+                buyer
+            );
+            if !updated_item.buyers_with_access.contains(buyer) {
+                updated_item.buyers_with_access.push(buyer.clone());
+            }
+        }
+        
+        for buyer in &buyers {
+            self.start_license(&updated_item, buyer);
+            self.record_grant(p_id, buyer);
+        }
+        self.listings.set(i, updated_item);
+        
+        for buyer in &buyers {
+            self.release_escrow(p_id, buyer);
+        }
+    }
+    
+    pub fn revoke_buyer_access_many(&mut self, p_id: u64, buyers: Vec<AccountId>) {
+        assert!(
+            buyers.len() <= MAX_BATCH_BUYERS,
+            "At most {} buyers per batch",
+            MAX_BATCH_BUYERS
+        );
+        let caller = env::predecessor_account_id();
+        let i = self.find_index(p_id).expect("Listing not found");
+        let mut updated_item = self.listings[i].clone();
+        
+        assert_eq!(
+            updated_item.owner, caller,
+            "Only the listing owner can revoke access"
+        );
+        
+        updated_item.buyers_with_access.retain(|b| !buyers.contains(b));
+        for buyer in &buyers {
+            self.end_lapsed_license(&mut updated_item, buyer);
+        }
+        
+        self.listings.set(i, updated_item);
+    }
+    
+    // Callback of an escrow release or refund. A failed transfer leaves the
+    // payment with the contract. A failed release goes back to Held, so the
+    // seller gets it by granting the buyer again. A failed refund becomes
+    // RefundFailed and keeps its reason: the purchase is already undone, so
+    // the buyer only has to claim the payout again
+    #[private]
+    pub fn on_escrow_payout(&mut self, p_id: u64, buyer: AccountId) -> bool {
+        if Self::promise_succeeded() {
+            return true;
+        }
+        if let Some(escrow) = self.escrows.get_mut(&(p_id, buyer)) {
+            escrow.status = match escrow.status {
+                EscrowStatus::Refunded => EscrowStatus::RefundFailed,
+                _ => EscrowStatus::Held,
+            };
+        }
+        false
+    }
+    
+    // Buyer reclaims an escrowed payment the seller never released.
+    // Undoes the purchase so the listing no longer counts them as a buyer.
+    // Not once access was granted (the payment is held by a dispute then),
+    // nor while a dispute is open: the seller or arbiter settles those.
+    // A refund whose transfer failed is only sent again
+    pub fn claim_refund(&mut self, p_id: u64) {
+        let buyer = env::predecessor_account_id();
+        let key = (p_id, buyer.clone());
+        let mut escrow = self.escrows.get(&key).cloned().expect("No escrowed payment for this purchase");
+        
+        if escrow.status == EscrowStatus::RefundFailed {
+            escrow.status = EscrowStatus::Refunded;
+            Self::pay_out_escrow(&escrow, buyer);
+            self.escrows.insert(key, escrow);
+            return;
+        }
+        
+        assert!(escrow.status == EscrowStatus::Held, "Escrowed payment has already been settled");
+        assert!(
+            env::block_timestamp_ms() >= escrow.refundable_at_ms,
+            "Refund is available from {} ms",
+            escrow.refundable_at_ms
+        );
+        let listing = self.get_listing(p_id).expect("Listing not found");
+        assert!(
+            !listing.buyers_with_access.contains(&buyer),
+            "Access was granted for this purchase; open a dispute instead"
+        );
+        assert!(
+            !self.has_open_dispute(p_id, &buyer),
+            "This purchase has an open dispute; withdraw it to claim a refund"
+        );
+        
+        self.undo_purchase(p_id, &buyer);
+        
+        escrow.status = EscrowStatus::Refunded;
+        escrow.refund_reason = Some(RefundReason::Timeout);
+        Self::pay_out_escrow(&escrow, buyer.clone());
+        self.escrows.insert(key, escrow);
+    }
+    
+    // Buyer complains about a purchase (bad file, access never granted, ...)
+    pub fn open_dispute(&mut self, p_id: u64, reason: String) {
+        let buyer = env::predecessor_account_id();
+        let listing = self.get_listing(p_id).expect("Listing not found");
+        assert!(listing.buyers.contains(&buyer), "Account has not purchased this listing");
+        assert!(
+            self.disputes.get(&(p_id, buyer.clone())).is_none(),
+            "A dispute was already filed for this purchase"
+        );
+        Self::assert_valid_note(&reason);
+        
+        self.disputes.insert(
+            (p_id, buyer.clone()),
+            Dispute {
+                p_id,
+                buyer: buyer.clone(),
+                seller: listing.owner,
+                status: DisputeStatus::Open,
+                events: vec![DisputeEvent {
+                    action: DisputeAction::Opened,
+                    actor: buyer.clone(),
+                    note: reason,
+                    at_ms: env::block_timestamp_ms(),
+                }],
+            },
+        );
+        match self.disputes_by_listing.get_mut(&p_id) {
+            Some(buyers) => buyers.push(buyer.clone()),
+            None => {
+                self.disputes_by_listing.insert(p_id, vec![buyer.clone()]);
+            }
+        }
+        self.dispute_log.push((p_id, buyer));
+    }
+    
+    // Buyer, seller or arbiter adds to the timeline of an open dispute
+    pub fn add_dispute_note(&mut self, p_id: u64, buyer: AccountId, note: String) {
         let caller = env::predecessor_account_id();
+        let mut dispute = self.open_dispute_for(p_id, &buyer);
+        assert!(
+            caller == dispute.buyer || caller == dispute.seller || Some(&caller) == self.arbiter.as_ref(),
+            "Only the buyer, seller or arbiter can comment on this dispute"
+        );
+        assert!(!note.trim().is_empty(), "Note is empty");
+        Self::assert_valid_note(&note);
         
-        for i in 0..self.listings.len() {
-            if let Some(item) = self.listings.get(i) {
-                if item.product_id == p_id {
-                    assert_eq!(
-                        item.owner, caller,
-                        "Only the listing owner can revoke access"
-                    );
-                    
-                    let mut updated_item = item.clone();
-                    
-                    updated_item.buyers_with_access.retain(|b| b != &buyer);
-                    
-                    self.listings.set(i, updated_item);
-                    break;
+        dispute.events.push(DisputeEvent {
+            action: DisputeAction::Note,
+            actor: caller,
+            note,
+            at_ms: env::block_timestamp_ms(),
+        });
+        self.disputes.insert((p_id, buyer), dispute);
+    }
+    
+    // Seller refunds a disputed purchase. A payment still in escrow is returned
+    // from escrow; one already released to the seller must be attached again
+    // (in NEAR), as must the price of a purchase made before escrow existed.
+    #[payable]
+    pub fn refund_dispute(&mut self, p_id: u64, buyer: AccountId) {
+        let dispute = self.open_dispute_for(p_id, &buyer);
+        assert_eq!(
+            dispute.seller,
+            env::predecessor_account_id(),
+            "Only the seller can refund this purchase"
+        );
+        let deposit = env::attached_deposit().as_yoctonear();
+        let key = (p_id, buyer.clone());
+        
+        match self.escrows.get(&key).cloned() {
+            Some(mut escrow) if escrow.status == EscrowStatus::Held => {
+                escrow.status = EscrowStatus::Refunded;
+                escrow.refund_reason = Some(RefundReason::Seller);
+                Self::pay_out_escrow(&escrow, buyer.clone());
+                Self::pay_out(&PaymentAsset::Near, dispute.seller.clone(), deposit);
+                self.escrows.insert(key, escrow);
+            }
+            escrow => {
+                let owed = match &escrow {
+                    Some(escrow) => escrow.amount.0,
+                    None => Self::price_in_yocto(self.get_listing(p_id).expect("Listing not found").price),
+                };
+                assert!(
+                    deposit >= owed,
+                    "Attach {} yoctoNEAR to refund this purchase",
+                    owed
+                );
+                Self::pay_out(&PaymentAsset::Near, buyer.clone(), owed);
+                Self::pay_out(&PaymentAsset::Near, dispute.seller.clone(), deposit - owed);
+                if let Some(mut escrow) = escrow {
+                    escrow.status = EscrowStatus::Refunded;
+                    escrow.refund_reason = Some(RefundReason::Seller);
+                    self.escrows.insert(key, escrow);
                 }
             }
         }
+        
+        self.undo_purchase(p_id, &buyer);
+        self.close_dispute(dispute, DisputeStatus::Refunded, DisputeAction::Refunded, String::new());
+    }
+    
+    // Arbiter settles a dispute. Refunds can only come from a payment still in
+    // escrow; siding with the seller releases it if access was granted
+    pub fn resolve_dispute(&mut self, p_id: u64, buyer: AccountId, refund: bool, note: String) {
+        assert_eq!(
+            Some(env::predecessor_account_id()),
+            self.arbiter.clone(),
+            "Only the arbiter can resolve disputes"
+        );
+        Self::assert_valid_note(&note);
+        let dispute = self.open_dispute_for(p_id, &buyer);
+        let key = (p_id, buyer.clone());
+        
+        if refund {
+            let mut escrow = self
+                .escrows
+                .get(&key)
+                .cloned()
+                .filter(|escrow| escrow.status == EscrowStatus::Held)
+                .expect("Payment is no longer in escrow; only the seller can refund it");
+            escrow.status = EscrowStatus::Refunded;
+            escrow.refund_reason = Some(RefundReason::Arbiter);
+            Self::pay_out_escrow(&escrow, buyer.clone());
+            self.escrows.insert(key, escrow);
+            self.undo_purchase(p_id, &buyer);
+            self.close_dispute(dispute, DisputeStatus::Refunded, DisputeAction::Refunded, note);
+        } else {
+            self.close_dispute(dispute, DisputeStatus::Rejected, DisputeAction::Rejected, note);
+            if self.was_granted(p_id, &buyer) {
+                self.release_escrow(p_id, &buyer);
+            }
+        }
+    }
+    
+    // Buyer drops their complaint; a held payment goes to the seller if they granted access
+    pub fn withdraw_dispute(&mut self, p_id: u64) {
+        let buyer = env::predecessor_account_id();
+        let dispute = self.open_dispute_for(p_id, &buyer);
+        self.close_dispute(dispute, DisputeStatus::Withdrawn, DisputeAction::Withdrawn, String::new());
+        if self.was_granted(p_id, &buyer) {
+            self.release_escrow(p_id, &buyer);
+        }
+    }
+    
+    // Seller closes a dispute that saw no new event for DISPUTE_STALE_MS, so a
+    // buyer who went quiet can't hold the payment forever. Like a withdrawal,
+    // a held payment goes to the seller if they granted access; otherwise the
+    // buyer can still claim their refund
+    pub fn close_stale_dispute(&mut self, p_id: u64, buyer: AccountId) {
+        let dispute = self.open_dispute_for(p_id, &buyer);
+        assert_eq!(
+            dispute.seller,
+            env::predecessor_account_id(),
+            "Only the seller can close a stale dispute"
+        );
+        let last_event_ms = dispute.events.last().map_or(0, |event| event.at_ms);
+        assert!(
+            env::block_timestamp_ms() >= last_event_ms + DISPUTE_STALE_MS,
+            "Dispute can be closed from {} ms",
+            last_event_ms + DISPUTE_STALE_MS
+        );
+        
+        self.close_dispute(dispute, DisputeStatus::Expired, DisputeAction::Expired, String::new());
+        if self.was_granted(p_id, &buyer) {
+            self.release_escrow(p_id, &buyer);
+        }
+    }
+    
+    pub fn get_dispute(&self, p_id: u64, buyer: AccountId) -> Option<Dispute> {
+        self.disputes.get(&(p_id, buyer)).cloned()
+    }
+    
+    pub fn get_listing_disputes(&self, p_id: u64) -> Vec<Dispute> {
+        match self.disputes_by_listing.get(&p_id) {
+            Some(buyers) => buyers
+                .iter()
+                .filter_map(|buyer| self.disputes.get(&(p_id, buyer.clone())).cloned())
+                .collect(),
+            None => Vec::new(),
+        }
+    }
+    
+    pub fn get_disputes_count(&self) -> u32 {
+        self.dispute_log.len()
+    }
+    
+    // Disputes in the order they were opened
+    pub fn get_disputes(&self, from_index: Option<u32>, limit: Option<u32>) -> Vec<Dispute> {
+        Self::page_range(self.dispute_log.len(), from_index, limit)
+            .filter_map(|i| self.dispute_log.get(i))
+            .filter_map(|key| self.disputes.get(key).cloned())
+            .collect()
+    }
+    
+    pub fn get_arbiter(&self) -> Option<AccountId> {
+        self.arbiter.clone()
+    }
+    
+    // Only the contract account itself can appoint (or remove) the arbiter
+    pub fn set_arbiter(&mut self, arbiter: Option<AccountId>) {
+        assert_eq!(
+            env::predecessor_account_id(),
+            env::current_account_id(),
+            "Only the contract account can set the arbiter"
+        );
+        self.arbiter = arbiter;
+    }
+    
+    pub fn get_purchases_count(&self) -> u32 {
+        self.purchases.len()
+    }
+    
+    // Purchases from `from_index` on, oldest first
+    pub fn get_purchases(&self, from_index: Option<u32>, limit: Option<u32>) -> Vec<PurchaseRecord> {
+        Self::page_range(self.purchases.len(), from_index, limit)
+            .filter_map(|i| self.purchases.get(i).cloned())
+            .collect()
+    }
+    
+    pub fn get_escrow(&self, p_id: u64, buyer: AccountId) -> Option<Escrow> {
+        self.escrows.get(&(p_id, buyer)).cloned()
+    }
+    
+    // Every escrowed purchase of a listing, refunded ones and earlier purchases
+    // by a buyer who bought again included, so clients can work out how
+    // quickly (or whether) the seller grants access
+    pub fn get_listing_escrows(&self, p_id: u64) -> Vec<Escrow> {
+        let mut escrows = self.escrow_history.get(&p_id).cloned().unwrap_or_default();
+        if let Some(buyers) = self.escrow_buyers.get(&p_id) {
+            escrows.extend(buyers.iter().filter_map(|buyer| self.escrows.get(&(p_id, buyer.clone())).cloned()));
+        }
+        escrows
+    }
+    
+    pub fn get_escrow_timeout(&self) -> u64 {
+        self.escrow_timeout_ms
+    }
+    
+    // Only the contract account itself can change the refund timeout;
+    // purchases already in escrow keep the deadline they were made with
+    pub fn set_escrow_timeout(&mut self, timeout_ms: u64) {
+        assert_eq!(
+            env::predecessor_account_id(),
+            env::current_account_id(),
+            "Only the contract account can set the escrow timeout"
+        );
+        self.escrow_timeout_ms = timeout_ms;
+    }
+    
+    pub fn revoke_buyer_access(&mut self, p_id: u64, buyer: AccountId) {
+        let caller = env::predecessor_account_id();
+        
+        if let Some(i) = self.find_index(p_id) {
+            let item = &self.listings[i];
+            
+            assert_eq!(
+                item.owner, caller,
+                "Only the listing owner can revoke access"
+            );
+            
+            let mut updated_item = item.clone();
+            
+            updated_item.buyers_with_access.retain(|b| b != &buyer);
+            self.end_lapsed_license(&mut updated_item, &buyer);
+            
+            self.listings.set(i, updated_item);
+        }
+    }
+    
+    // Subscriber pays the listing price again to extend their license by one
+    // term. Goes straight to the seller: access is already granted, so there
+    // is nothing to hold in escrow. Excess deposit is refunded
+    #[payable]
+    pub fn renew_license(&mut self, p_id: u64) {
+        let buyer = env::predecessor_account_id();
+        let listing = self.get_listing(p_id).expect("Listing not found");
+        let deposit = env::attached_deposit().as_yoctonear();
+        let price = Self::price_in_yocto(listing.price);
+        
+        assert!(listing.license.kind == LicenseKind::Subscription, "This listing is not a subscription");
+        assert!(
+            listing.buyers_with_access.contains(&buyer),
+            "Only subscribers with access can renew"
+        );
+        assert!(
+            deposit >= price,
+            "Attached deposit {} yoctoNEAR is less than the listing price {} yoctoNEAR",
+            deposit,
+            price
+        );
+        
+        let key = (p_id, buyer.clone());
+        let now = env::block_timestamp_ms();
+        let current = self.license_expiry.get(&key).copied().unwrap_or(now);
+        self.license_expiry.insert(key, current.max(now) + listing.license.duration_ms);
+        
+        if let Some(payout) = Self::pay_out(&PaymentAsset::Near, listing.owner, price) {
+            payout.then(
+                Self::ext(env::current_account_id())
+                    .with_static_gas(GAS_FOR_PAYOUT_CALLBACK)
+                    .on_renewal_payout(p_id, buyer.clone(), listing.license.duration_ms, U128(price)),
+            );
+        }
+        if deposit > price {
+            Promise::new(buyer).transfer(NearToken::from_yoctonear(deposit - price));
+        }
+    }
+    
+    // Callback of renew_license. The seller couldn't be paid, so the renewal
+    // is undone and the price returned to the buyer
+    #[private]
+    pub fn on_renewal_payout(&mut self, p_id: u64, buyer: AccountId, term_ms: u64, price: U128) -> bool {
+        if Self::promise_succeeded() {
+            return true;
+        }
+        if let Some(expiry) = self.license_expiry.get_mut(&(p_id, buyer.clone())) {
+            *expiry = expiry.saturating_sub(term_ms);
+        }
+        Promise::new(buyer).transfer(NearToken::from_yoctonear(price.0));
+        false
+    }
+    
+    // The buyer's fingerprinted copy; None on other listings or before the first grant
+    pub fn get_buyer_copy(&self, p_id: u64, buyer: AccountId) -> Option<BuyerCopy> {
+        self.buyer_copies.get(&(p_id, buyer)).cloned()
+    }
+    
+    // None for perpetual licenses and for buyers not yet granted access
+    pub fn get_license_expiry(&self, p_id: u64, buyer: AccountId) -> Option<u64> {
+        self.license_expiry.get(&(p_id, buyer)).copied()
+    }
+    
+    // Expiry of every buyer currently holding a time-limited license
+    pub fn get_license_expiries(&self, p_id: u64) -> Vec<(AccountId, u64)> {
+        match self.get_listing(p_id) {
+            Some(listing) => listing
+                .buyers_with_access
+                .into_iter()
+                .filter_map(|buyer| {
+                    let expires_at = self.license_expiry.get(&(p_id, buyer.clone())).copied()?;
+                    Some((buyer, expires_at))
+                })
+                .collect(),
+            None => Vec::new(),
+        }
+    }
+    
+    // None until the seller grants this purchase; still set after a revoke
+    pub fn get_access_granted_at(&self, p_id: u64, buyer: AccountId) -> Option<u64> {
+        self.access_granted_at.get(&(p_id, buyer)).copied()
+    }
+    
+    // When each current buyer was first granted, revoked ones included.
+    // Buyers granted before the upgrade that added this record are missing
+    pub fn get_access_grants(&self, p_id: u64) -> Vec<(AccountId, u64)> {
+        match self.get_listing(p_id) {
+            Some(listing) => listing
+                .buyers
+                .into_iter()
+                .filter_map(|buyer| {
+                    let granted_at = self.access_granted_at.get(&(p_id, buyer.clone())).copied()?;
+                    Some((buyer, granted_at))
+                })
+                .collect(),
+            None => Vec::new(),
+        }
     }
     
     pub fn get_pending_access_buyers(&self, p_id: u64) -> Vec<AccountId> {
@@ -187,29 +1646,78 @@ impl Contract {
         }
     }
     
+    // Leaves out buyers whose license lapsed but who haven't been revoked yet
     pub fn get_buyers_with_access(&self, p_id: u64) -> Vec<AccountId> {
         if let Some(listing) = self.get_listing(p_id) {
             listing.buyers_with_access
+                .into_iter()
+                .filter(|buyer| self.license_active(p_id, buyer))
+                .collect()
         } else {
             Vec::new()
         }
     }
     
     pub fn has_access(&self, p_id: u64, buyer: AccountId) -> bool {
-        if let Some(listing) = self.get_listing(p_id) {
-            listing.buyers_with_access.contains(&buyer)
-        } else {
-            false
-        }
+        self.was_granted(p_id, &buyer) && self.license_active(p_id, &buyer)
     }
     
-    pub fn get_listing(&self, p_id: u64) -> Option<Listing> {
-        for item in self.listings.iter() {
-            if item.product_id == p_id {
-                return Some(item.clone());
+    // Only buyers with access (and a license still running) can review, once per listing
+    pub fn submit_review(&mut self, p_id: u64, rating: u8, text: String) {
+        let reviewer = env::predecessor_account_id();
+        let i = self.find_index(p_id).expect("Listing not found");
+        let mut updated_item = self.listings[i].clone();
+        
+        assert!(
+            updated_item.buyers_with_access.contains(&reviewer) && self.license_active(p_id, &reviewer),
+            "Only buyers with access can review this listing"
+        );
+        assert!((1..=5).contains(&rating), "Rating must be between 1 and 5");
+        assert!(text.len() <= MAX_REVIEW_LEN, "Review is longer than {} bytes", MAX_REVIEW_LEN);
+        
+        let review = Review {
+            p_id,
+            reviewer: reviewer.clone(),
+            rating,
+            text,
+            created_at_ms: env::block_timestamp_ms(),
+        };
+        match self.reviews.get_mut(&p_id) {
+            Some(reviews) => {
+                assert!(
+                    !reviews.iter().any(|r| r.reviewer == reviewer),
+                    "Account has already reviewed this listing"
+                );
+                reviews.push(review);
+            }
+            None => {
+                self.reviews.insert(p_id, vec![review]);
             }
         }
-        None
+        
+        updated_item.review_count += 1;
+        updated_item.rating_total += rating as u32;
+        self.listings.set(i, updated_item);
+    }
+    
+    // Reviews of a listing, oldest first
+    pub fn get_reviews(&self, p_id: u64, from_index: Option<u32>, limit: Option<u32>) -> Vec<Review> {
+        match self.reviews.get(&p_id) {
+            Some(reviews) => Self::page_range(reviews.len() as u32, from_index, limit)
+                .map(|i| reviews[i as usize].clone())
+                .collect(),
+            None => Vec::new(),
+        }
+    }
+    
+    pub fn get_review(&self, p_id: u64, reviewer: AccountId) -> Option<Review> {
+        self.reviews
+            .get(&p_id)
+            .and_then(|reviews| reviews.iter().find(|r| r.reviewer == reviewer).cloned())
+    }
+    
+    pub fn get_listing(&self, p_id: u64) -> Option<Listing> {
+        self.find_index(p_id).and_then(|i| self.listings.get(i).cloned())
     }
     
     pub fn has_purchased(&self, p_id: u64, account_id: AccountId) -> bool {
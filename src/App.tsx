@@ -14,7 +14,11 @@ import Index from "./pages/Index";
 import Upload from "./pages/Upload";
 import Marketplace from "./pages/Marketplace";
 import Profile from "./pages/Profile";
+import ListingDetail from "./pages/ListingDetail";
+import SellerStorefront from "./pages/SellerStorefront";
+import VerifyFingerprint from "./pages/VerifyFingerprint";
 import NotFound from "./pages/NotFound";
+import { marketplaceConfig } from "./services/marketplaceConfig";
 
 const queryClient = new QueryClient();
 
@@ -22,9 +26,9 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <NearProvider 
       config={{
-        network: "mainnet",
+        network: marketplaceConfig.network,
         providers: {
-          testnet: ["https://rpc.mainnet.near.org"]
+          [marketplaceConfig.network]: [marketplaceConfig.rpcUrl]
         }
       }}
     >
@@ -38,6 +42,32 @@ const App = () => (
               {/* Public route - accessible without wallet */}
               <Route path="/" element={<Index />} />
               
+              {/* Soft-gated: browsable anonymously, the wallet is requested on Buy */}
+              <Route 
+                path="/listing/:productId" 
+                element={
+                  <ProtectedRoute soft>
+                    <ListingDetail />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/seller/:accountId" 
+                element={
+                  <ProtectedRoute soft>
+                    <SellerStorefront />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/verify" 
+                element={
+                  <ProtectedRoute soft>
+                    <VerifyFingerprint />
+                  </ProtectedRoute>
+                } 
+              />
+              
               {/* Protected routes - require wallet connection */}
               <Route 
                 path="/upload" 
@@ -50,7 +80,7 @@ const App = () => (
               <Route 
                 path="/marketplace" 
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute soft>
                     <Marketplace />
                   </ProtectedRoute>
                 } 
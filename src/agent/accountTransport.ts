@@ -0,0 +1,33 @@
+import { Account, JsonRpcProvider } from 'near-api-js';
+import type { FinalExecutionOutcome, KeyPairString } from 'near-api-js';
+import type { MarketplaceContractTransport } from '../services/marketplaceContract';
+
+/**
+ * Contract transport backed by a key-holding near-api-js Account,
+ * for running the marketplace client without a browser wallet.
+ */
+export const createAccountTransport = (
+  accountId: string,
+  privateKey: string,
+  rpcUrl: string
+): MarketplaceContractTransport => {
+  const provider = new JsonRpcProvider({ url: rpcUrl });
+  const account = new Account(accountId, provider, privateKey as KeyPairString);
+
+  return {
+    viewFunction: ({ contractId, method, args }) =>
+      provider.callFunction({ contractId, method, args: args ?? {} }),
+
+    // Throws if the transaction fails, like the wallet's callFunction
+    callFunction: async ({ contractId, method, args, gas, deposit }) => {
+      const outcome = await account.callFunctionRaw({
+        contractId,
+        methodName: method,
+        args: args ?? {},
+        gas,
+        deposit,
+      });
+      return outcome as unknown as FinalExecutionOutcome;
+    },
+  };
+};
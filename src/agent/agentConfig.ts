@@ -0,0 +1,75 @@
+import { resolveMarketplaceConfig } from '../services/marketplaceConfig';
+import type { MarketplaceConfig, MarketplaceEnv } from '../services/marketplaceConfig';
+import type { NovaCredentials } from '../services/novaCredentialsService';
+
+/**
+ * Seller auto-grant agent configuration
+ *
+ * Read from process.env when the agent starts. The marketplace contract,
+ * network and RPC come from the same VITE_* variables as the app; on top of
+ * those the agent needs:
+ *
+ * - AGENT_SELLER_ACCOUNT_ID    (NEAR account that owns the listings)
+ * - AGENT_SELLER_PRIVATE_KEY   (ed25519:... key of that account, signs grant_buyer_access)
+ * - AGENT_NOVA_ACCOUNT_ID      (seller's NOVA account, e.g. seller.nova-sdk.near)
+ * - AGENT_NOVA_API_KEY         (seller's NOVA API key, nova_sk_...)
+ * - AGENT_STATE_DIR            (cursor, retry queue and grant log, default: .agent)
+ * - AGENT_POLL_INTERVAL_MS     (default: 15000)
+ * - AGENT_MAX_ATTEMPTS         (grant attempts per purchase before giving up, default: 6)
+ * - AGENT_RETRY_BASE_MS        (first retry delay, doubled per attempt, default: 30000)
+ */
+
+export interface AgentConfig {
+  sellerAccountId: string;
+  sellerPrivateKey: string;
+  nova: NovaCredentials;
+  stateDir: string;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  marketplace: MarketplaceConfig;
+}
+
+export class AgentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentConfigError';
+  }
+}
+
+const requireString = (env: MarketplaceEnv, key: string): string => {
+  const value = env[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AgentConfigError(`${key} is required`);
+  }
+  return value.trim();
+};
+
+const readPositiveInt = (env: MarketplaceEnv, key: string, fallback: number): number => {
+  const value = env[key];
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new AgentConfigError(`${key} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const resolveAgentConfig = (env: MarketplaceEnv): AgentConfig => {
+  return {
+    sellerAccountId: requireString(env, 'AGENT_SELLER_ACCOUNT_ID'),
+    sellerPrivateKey: requireString(env, 'AGENT_SELLER_PRIVATE_KEY'),
+    nova: {
+      accountId: requireString(env, 'AGENT_NOVA_ACCOUNT_ID'),
+      apiKey: requireString(env, 'AGENT_NOVA_API_KEY'),
+    },
+    stateDir: typeof env.AGENT_STATE_DIR === 'string' && env.AGENT_STATE_DIR.trim()
+      ? env.AGENT_STATE_DIR.trim()
+      : '.agent',
+    pollIntervalMs: readPositiveInt(env, 'AGENT_POLL_INTERVAL_MS', 15_000),
+    maxAttempts: readPositiveInt(env, 'AGENT_MAX_ATTEMPTS', 6),
+    retryBaseMs: readPositiveInt(env, 'AGENT_RETRY_BASE_MS', 30_000),
+    marketplace: resolveMarketplaceConfig(env),
+  };
+};
@@ -0,0 +1,79 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/** A purchase waiting for the agent to grant access */
+export interface GrantJob {
+  productId: number;
+  buyer: string;
+  attempts: number;
+  /** Unix ms; the job is skipped until then */
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export interface AgentState {
+  /** Index into the contract's purchase log of the next purchase to read */
+  cursor: number;
+  queue: GrantJob[];
+}
+
+// 'revoked' records an expired license the agent took access back for
+export type GrantOutcome = 'granted' | 'skipped' | 'retrying' | 'failed' | 'revoked';
+
+export interface GrantLogEntry {
+  at: string;
+  productId: number;
+  buyer: string;
+  outcome: GrantOutcome;
+  attempt: number;
+  novaAccountId?: string;
+  reason?: string;
+}
+
+export interface AgentStore {
+  load(): Promise<AgentState>;
+  save(state: AgentState): Promise<void>;
+  appendLog(entry: GrantLogEntry): Promise<void>;
+}
+
+const STATE_FILE = 'state.json';
+const LOG_FILE = 'grants.jsonl';
+
+const emptyState = (): AgentState => ({ cursor: 0, queue: [] });
+
+/**
+ * Persist agent state as JSON and the grant log as JSON lines under `dir`.
+ * State is written to a temp file and renamed so a crash mid-write
+ * can't leave a truncated cursor behind.
+ */
+export const createFileAgentStore = (dir: string): AgentStore => {
+  const statePath = path.join(dir, STATE_FILE);
+  const logPath = path.join(dir, LOG_FILE);
+
+  return {
+    load: async () => {
+      try {
+        const raw = JSON.parse(await readFile(statePath, 'utf8')) as Partial<AgentState>;
+        return {
+          cursor: typeof raw.cursor === 'number' ? raw.cursor : 0,
+          queue: Array.isArray(raw.queue) ? raw.queue : [],
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyState();
+        throw error;
+      }
+    },
+
+    save: async (state) => {
+      await mkdir(dir, { recursive: true });
+      const tmpPath = `${statePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(state, null, 2));
+      await rename(tmpPath, statePath);
+    },
+
+    appendLog: async (entry) => {
+      await mkdir(dir, { recursive: true });
+      await appendFile(logPath, `${JSON.stringify(entry)}\n`);
+    },
+  };
+};
@@ -0,0 +1,281 @@
+import { getListingsByOwner } from '../services/listingQueryService';
+import { sweepExpiredLicenses } from '../services/licenseService';
+import type { RevokeExpiredLicense } from '../services/licenseService';
+import type { MarketplaceContractClient } from '../services/marketplaceContract';
+import type { AgentState, AgentStore, GrantJob, GrantLogEntry } from './agentStore';
+
+// Must not exceed MAX_PAGE_LIMIT in listingContract.rs
+const PURCHASES_PAGE_SIZE = 100;
+
+/** The novaService calls the agent needs, injected so they can be faked in tests */
+export interface AgentNovaClient {
+  addGroupMember(groupId: string, memberId: string, nearWallet?: string): Promise<string>;
+  isAuthorized(groupId: string, userId?: string, nearWallet?: string): Promise<boolean>;
+}
+
+export interface AutoGrantAgentOptions {
+  contract: MarketplaceContractClient;
+  nova: AgentNovaClient;
+  store: AgentStore;
+  sellerAccountId: string;
+  maxAttempts: number;
+  retryBaseMs: number;
+  /** When set, every tick also revokes lapsed fixed-term / subscription licenses */
+  revokeLicense?: RevokeExpiredLicense;
+  now?: () => number;
+}
+
+export interface AutoGrantAgent {
+  /** Queue every buyer still waiting on the seller's listings (catches purchases from before the log) */
+  sweepPending(): Promise<void>;
+  /** Read new purchases from the cursor, work through due grants, then revoke lapsed licenses */
+  tick(): Promise<void>;
+  /** sweepPending once, then tick every pollIntervalMs until the signal aborts */
+  run(signal: AbortSignal, pollIntervalMs: number): Promise<void>;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Seller-side agent that grants NOVA + contract access as soon as a purchase lands,
+ * so buyers don't wait for the seller to open Profile and click "Grant Access".
+ *
+ * Follows the contract's purchase log with a persisted cursor; failed grants are
+ * retried with exponential backoff and every outcome is appended to the grant log.
+ */
+export const createAutoGrantAgent = ({
+  contract,
+  nova,
+  store,
+  sellerAccountId,
+  maxAttempts,
+  retryBaseMs,
+  revokeLicense,
+  now = Date.now,
+}: AutoGrantAgentOptions): AutoGrantAgent => {
+  let state: AgentState | null = null;
+
+  const getState = async (): Promise<AgentState> => {
+    if (!state) state = await store.load();
+    return state;
+  };
+
+  const log = (job: GrantJob, entry: Omit<GrantLogEntry, 'at' | 'productId' | 'buyer' | 'attempt'>) =>
+    store.appendLog({
+      at: new Date(now()).toISOString(),
+      productId: job.productId,
+      buyer: job.buyer,
+      attempt: job.attempts,
+      ...entry,
+    });
+
+  const enqueue = (current: AgentState, productId: number, buyer: string): boolean => {
+    const queued = current.queue.some((job) => job.productId === productId && job.buyer === buyer);
+    if (queued) return false;
+
+    current.queue.push({ productId, buyer, attempts: 0, nextAttemptAt: now(), lastError: null });
+    return true;
+  };
+
+  const readNewPurchases = async (current: AgentState) => {
+    for (;;) {
+      const page = await contract.getPurchases({ from_index: current.cursor, limit: PURCHASES_PAGE_SIZE });
+      if (page.length === 0) return;
+
+      for (const purchase of page) {
+        if (purchase.seller === sellerAccountId && enqueue(current, purchase.p_id, purchase.buyer)) {
+          console.log(`🛒 New purchase of #${purchase.p_id} by ${purchase.buyer}`);
+        }
+      }
+
+      // Save per page so a restart resumes here instead of re-reading the log
+      current.cursor += page.length;
+      await store.save(current);
+    }
+  };
+
+  // Same steps as grantBuyerAccess, but safe to repeat after a partial failure
+  const grant = async (job: GrantJob, novaGroupId: string): Promise<string> => {
+    const novaAccountId = await contract.getNovaAccount({ near_wallet: job.buyer });
+    if (!novaAccountId) {
+      throw new Error(`No NOVA account recorded for ${job.buyer}`);
+    }
+
+    // An earlier attempt may have added the member before the contract call failed
+    const alreadyMember = await nova.isAuthorized(novaGroupId, novaAccountId, sellerAccountId);
+    if (!alreadyMember) {
+      await nova.addGroupMember(novaGroupId, novaAccountId, sellerAccountId);
+    }
+
+    await contract.grantBuyerAccess({ p_id: job.productId, buyer: job.buyer });
+    return novaAccountId;
+  };
+
+  /** Returns true when the job is finished (granted, skipped or given up) */
+  const processJob = async (job: GrantJob): Promise<boolean> => {
+    const listing = await contract.getListing({ p_id: job.productId });
+
+    // Refunded purchases drop the buyer from the listing
+    if (!listing || !listing.buyers.includes(job.buyer)) {
+      await log(job, { outcome: 'skipped', reason: 'no longer a buyer of this listing' });
+      return true;
+    }
+    if (listing.buyers_with_access.includes(job.buyer)) {
+      await log(job, { outcome: 'skipped', reason: 'already has access' });
+      return true;
+    }
+    // A buyer granted before and no longer in buyers_with_access was revoked by the seller
+    const [grantedAt, escrow] = await Promise.all([
+      contract.getAccessGrantedAt({ p_id: job.productId, buyer: job.buyer }),
+      contract.getEscrow({ p_id: job.productId, buyer: job.buyer }),
+    ]);
+    if (!escrow) {
+      await log(job, { outcome: 'skipped', reason: 'bought before escrow, grant from Profile' });
+      return true;
+    }
+    if (grantedAt !== null || escrow.granted_at_ms !== null || escrow.status !== 'Held') {
+      await log(job, { outcome: 'skipped', reason: 'access was revoked, grant again from Profile' });
+      return true;
+    }
+    // Granting would release the escrow the buyer is disputing
+    const dispute = await contract.getDispute({ p_id: job.productId, buyer: job.buyer });
+    if (dispute?.status === 'Open') {
+      await log(job, { outcome: 'skipped', reason: 'open dispute, settle it first' });
+      return true;
+    }
+    // Buyer copies are watermarked on a canvas, so only the seller's browser can make them
+    if (listing.fingerprint) {
+      await log(job, { outcome: 'skipped', reason: 'fingerprinted listing, grant from Profile' });
+      return true;
+    }
+
+    job.attempts += 1;
+    try {
+      const novaAccountId = await grant(job, listing.nova_group_id);
+      console.log(`✅ Granted #${job.productId} to ${job.buyer} (${novaAccountId})`);
+      await log(job, { outcome: 'granted', novaAccountId });
+      return true;
+    } catch (error) {
+      job.lastError = errorMessage(error);
+
+      if (job.attempts >= maxAttempts) {
+        console.error(`❌ Giving up on #${job.productId} for ${job.buyer}: ${job.lastError}`);
+        await log(job, { outcome: 'failed', reason: job.lastError });
+        return true;
+      }
+
+      const delay = retryBaseMs * 2 ** (job.attempts - 1);
+      job.nextAttemptAt = now() + delay;
+      console.warn(`⚠️ Grant #${job.productId} for ${job.buyer} failed, retrying in ${delay}ms: ${job.lastError}`);
+      await log(job, { outcome: 'retrying', reason: job.lastError });
+      return false;
+    }
+  };
+
+  const processDueJobs = async (current: AgentState) => {
+    const due = current.queue.filter((job) => job.nextAttemptAt <= now());
+
+    for (const job of due) {
+      let done: boolean;
+      try {
+        done = await processJob(job);
+      } catch (error) {
+        // Listing lookup failed (RPC down); leave the job as-is for the next tick
+        console.error(`Failed to process #${job.productId} for ${job.buyer}:`, errorMessage(error));
+        continue;
+      }
+
+      if (done) {
+        current.queue = current.queue.filter((queued) => queued !== job);
+      }
+      await store.save(current);
+    }
+  };
+
+  const sweepPending = async () => {
+    const current = await getState();
+    const listings = await getListingsByOwner(contract, sellerAccountId);
+
+    let added = 0;
+    for (const listing of listings) {
+      const waiting = listing.buyers.filter((buyer) => !listing.buyers_with_access.includes(buyer));
+      if (waiting.length === 0) continue;
+
+      // Leave out buyers the seller revoked; processJob checks the rest against their escrow
+      const grants = await contract.getAccessGrants({ p_id: listing.product_id });
+      const revoked = new Set(grants.map(([buyer]) => buyer));
+      for (const buyer of waiting) {
+        if (!revoked.has(buyer) && enqueue(current, listing.product_id, buyer)) {
+          added += 1;
+        }
+      }
+    }
+
+    if (added > 0) {
+      console.log(`📋 Queued ${added} buyer(s) already waiting for access`);
+      await store.save(current);
+    }
+  };
+
+  // Failures are logged and picked up again by the next tick's sweep
+  const revokeExpiredLicenses = async () => {
+    if (!revokeLicense) return;
+
+    const listings = await getListingsByOwner(contract, sellerAccountId);
+    const { revoked, failed } = await sweepExpiredLicenses(listings, contract, revokeLicense, now());
+    const at = new Date(now()).toISOString();
+
+    for (const license of revoked) {
+      console.log(`⌛ Revoked expired license on #${license.productId} for ${license.buyer}`);
+      await store.appendLog({ at, productId: license.productId, buyer: license.buyer, attempt: 1, outcome: 'revoked' });
+    }
+    for (const { license, error } of failed) {
+      console.warn(`⚠️ Revoking expired license on #${license.productId} for ${license.buyer} failed: ${error}`);
+      await store.appendLog({
+        at,
+        productId: license.productId,
+        buyer: license.buyer,
+        attempt: 1,
+        outcome: 'failed',
+        reason: `revoke expired license: ${error}`,
+      });
+    }
+  };
+
+  const tick = async () => {
+    const current = await getState();
+    await readNewPurchases(current);
+    await processDueJobs(current);
+    await revokeExpiredLicenses();
+  };
+
+  const run = async (signal: AbortSignal, pollIntervalMs: number) => {
+    try {
+      await sweepPending();
+    } catch (error) {
+      // Not fatal: new purchases still arrive through the log
+      console.error('Initial sweep of pending buyers failed:', errorMessage(error));
+    }
+
+    while (!signal.aborted) {
+      try {
+        await tick();
+      } catch (error) {
+        console.error('Agent tick failed:', errorMessage(error));
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { sweepPending, tick, run };
+};
@@ -0,0 +1,50 @@
+import { addGroupMember, isAuthorized, primeNovaSDK } from '../services/novaService';
+import { createMarketplaceContract } from '../services/marketplaceContract';
+import { revokeBuyerAccess } from '../services/buyerAccessService';
+import { createAccountTransport } from './accountTransport';
+import { resolveAgentConfig } from './agentConfig';
+import { createFileAgentStore } from './agentStore';
+import { createAutoGrantAgent } from './autoGrantAgent';
+
+/**
+ * Headless seller agent: `npm run agent` (see agentConfig.ts for the env it reads)
+ */
+const main = async () => {
+  // VITE_* values from .env (loaded by vite-node), overridable from the shell
+  const config = resolveAgentConfig({ ...import.meta.env, ...process.env });
+
+  // novaService normally reads credentials from browser storage
+  primeNovaSDK(config.sellerAccountId, config.nova);
+
+  const contract = createMarketplaceContract(
+    createAccountTransport(config.sellerAccountId, config.sellerPrivateKey, config.marketplace.rpcUrl),
+    config.marketplace
+  );
+
+  const agent = createAutoGrantAgent({
+    contract,
+    nova: { addGroupMember, isAuthorized },
+    store: createFileAgentStore(config.stateDir),
+    sellerAccountId: config.sellerAccountId,
+    maxAttempts: config.maxAttempts,
+    retryBaseMs: config.retryBaseMs,
+    revokeLicense: (license) =>
+      revokeBuyerAccess(license.productId, license.novaGroupId, license.buyer, contract, config.sellerAccountId),
+  });
+
+  const controller = new AbortController();
+  const stop = () => {
+    console.log('Stopping after the current tick...');
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`🤖 Auto-grant agent for ${config.sellerAccountId} on ${config.marketplace.contractId} (${config.marketplace.network})`);
+  await agent.run(controller.signal, config.pollIntervalMs);
+};
+
+main().catch((error) => {
+  console.error('Agent failed to start:', error);
+  process.exit(1);
+});
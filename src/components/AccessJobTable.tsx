@@ -0,0 +1,101 @@
+import { Loader2, Play, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  BUYER_JOB_STATE_LABELS,
+  countBuyerStates,
+  isAccessJobResumable,
+  isAccessJobRunning,
+} from '@/services/accessJobService';
+import type { AccessJob, BuyerJobState } from '@/services/accessJobService';
+import { cn } from '@/lib/utils';
+
+interface AccessJobTableProps {
+  job: AccessJob;
+  onResume: (job: AccessJob) => void;
+  onRetryFailed: (job: AccessJob) => void;
+  onDismiss: (job: AccessJob) => void;
+  disabled?: boolean;
+}
+
+const STATE_STYLES: Record<BuyerJobState, string> = {
+  pending: 'bg-gray-500/20 text-gray-500',
+  nova_added: 'bg-blue-500/20 text-blue-500',
+  nova_removed: 'bg-blue-500/20 text-blue-500',
+  contract_updated: 'bg-green-500/20 text-green-500',
+  skipped: 'bg-gray-500/20 text-gray-500',
+  failed: 'bg-red-500/20 text-red-500',
+};
+
+const AccessJobTable = ({ job, onResume, onRetryFailed, onDismiss, disabled = false }: AccessJobTableProps) => {
+  const counts = countBuyerStates(job);
+  const running = isAccessJobRunning(job.id);
+  const resumable = isAccessJobResumable(job);
+
+  return (
+    <div className="pt-2 mt-2 border-t border-border/50">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-xs text-muted-foreground">
+          {job.action === 'grant' ? 'Grant' : 'Revoke'} job · {counts.contract_updated}/{job.buyers.length} done
+          {counts.skipped > 0 && ` · ${counts.skipped} skipped`}
+          {counts.failed > 0 && ` · ${counts.failed} failed`}
+          {resumable && ' · interrupted'}
+        </p>
+        <div className="flex items-center gap-1">
+          {running && <Loader2 className="h-3 w-3 animate-spin text-primary" />}
+          {resumable && (
+            <Button variant="outline" size="sm" className="text-xs h-auto py-1 px-2" onClick={() => onResume(job)} disabled={disabled}>
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+            </Button>
+          )}
+          {!running && counts.failed > 0 && (
+            <Button variant="outline" size="sm" className="text-xs h-auto py-1 px-2" onClick={() => onRetryFailed(job)} disabled={disabled}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry failed
+            </Button>
+          )}
+          {!running && !resumable && (
+            <Button variant="ghost" size="sm" className="text-xs h-auto p-1" onClick={() => onDismiss(job)}>
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 text-xs">Buyer</TableHead>
+              <TableHead className="h-8 text-xs">NOVA account</TableHead>
+              <TableHead className="h-8 text-xs">State</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {job.buyers.map((entry) => (
+              <TableRow key={entry.buyer}>
+                <TableCell className="py-1 text-xs font-mono">{entry.buyer}</TableCell>
+                <TableCell className="py-1 text-xs font-mono text-muted-foreground">
+                  {entry.novaAccountId ?? '—'}
+                </TableCell>
+                <TableCell className="py-1 text-xs">
+                  <span className={cn('px-2 py-0.5 rounded', STATE_STYLES[entry.state])}>
+                    {BUYER_JOB_STATE_LABELS[entry.state]}
+                  </span>
+                  {entry.error && (
+                    <p className={cn('mt-1 break-words', entry.state === 'skipped' ? 'text-muted-foreground' : 'text-red-500')}>
+                      {entry.error}
+                    </p>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AccessJobTable;
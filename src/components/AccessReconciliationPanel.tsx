@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, RefreshCw, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DRIFT_LABELS,
+  isBulkRepairable,
+  reconcileListings,
+  repairAllDrift,
+  repairDrift,
+} from '@/services/reconciliationService';
+import type { BuyerDrift, ReconciliationReport } from '@/services/reconciliationService';
+import type { Listing, MarketplaceContractClient } from '@/services/marketplaceContract';
+import { toast } from 'sonner';
+
+interface AccessReconciliationPanelProps {
+  listings: Listing[];
+  contract: MarketplaceContractClient;
+  ownerWallet: string;
+  /** Called after a repair so the page can refresh listing access counts */
+  onRepaired?: () => void;
+}
+
+const driftKey = (drift: BuyerDrift) => `${drift.productId}:${drift.buyer}`;
+
+const AccessReconciliationPanel = ({ listings, contract, ownerWallet, onRepaired }: AccessReconciliationPanelProps) => {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [repairingKey, setRepairingKey] = useState<string | null>(null);
+  const [repairingAll, setRepairingAll] = useState(false);
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      const result = await reconcileListings(listings, contract, ownerWallet);
+      setReport(result);
+
+      if (result.drift.length === 0 && result.errors.length === 0) {
+        toast.success('NOVA and contract access are in sync');
+      } else if (result.drift.length > 0) {
+        toast.warning(`Found ${result.drift.length} buyer(s) out of sync`);
+      }
+    } catch (error) {
+      console.error('Reconciliation failed:', error);
+      toast.error(`Reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const removeFromReport = (repaired: BuyerDrift[]) => {
+    const keys = new Set(repaired.map(driftKey));
+    setReport((current) => current && {
+      ...current,
+      drift: current.drift.filter((drift) => !keys.has(driftKey(drift))),
+    });
+  };
+
+  const handleRepair = async (drift: BuyerDrift) => {
+    setRepairingKey(driftKey(drift));
+    try {
+      await repairDrift(drift, contract, ownerWallet);
+      removeFromReport([drift]);
+      toast.success(`Repaired access for ${drift.buyer} on #${drift.productId}`);
+      onRepaired?.();
+    } catch (error) {
+      toast.error(`Repair failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRepairingKey(null);
+    }
+  };
+
+  const handleRepairAll = async () => {
+    if (!report) return;
+
+    setRepairingAll(true);
+    try {
+      const result = await repairAllDrift(report.drift.filter(isBulkRepairable), contract, ownerWallet, (current, total, drift) => {
+        toast.info(`Repairing ${current}/${total}: ${drift.buyer}`);
+      });
+      removeFromReport(result.repaired);
+
+      if (result.repaired.length > 0) {
+        toast.success(`✅ Repaired ${result.repaired.length} buyer(s)`);
+        onRepaired?.();
+      }
+      if (result.failed.length > 0) {
+        toast.error(`❌ Failed to repair ${result.failed.length} buyer(s)`);
+      }
+    } finally {
+      setRepairingAll(false);
+    }
+  };
+
+  const busy = checking || repairingAll || repairingKey !== null;
+  const bulkRepairable = report?.drift.filter(isBulkRepairable).length ?? 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-sm text-muted-foreground">
+          Compare NOVA group membership with contract access for every buyer.
+        </p>
+        <div className="flex gap-2">
+          {bulkRepairable > 0 && (
+            <Button variant="default" size="sm" onClick={handleRepairAll} disabled={busy}>
+              {repairingAll ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <Wrench className="h-3 w-3 mr-1" />
+              )}
+              Repair all ({bulkRepairable})
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={runCheck} disabled={busy}>
+            {checking ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3 w-3 mr-1" />
+            )}
+            {report ? 'Re-check' : 'Check sync'}
+          </Button>
+        </div>
+      </div>
+
+      {report && report.drift.length === 0 && report.errors.length === 0 && (
+        <p className="flex items-center gap-1 text-xs text-green-500">
+          <CheckCircle className="h-3 w-3" />
+          All {report.listings.reduce((sum, l) => sum + l.buyersChecked, 0)} buyer(s) in sync
+        </p>
+      )}
+
+      {report && report.drift.length > 0 && (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {report.drift.map((drift) => (
+            <div
+              key={driftKey(drift)}
+              className="p-3 rounded-lg bg-secondary flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium">Product #{drift.productId}</span>
+                  <span className="text-xs px-2 py-0.5 rounded bg-yellow-500/20 text-yellow-500">
+                    {DRIFT_LABELS[drift.kind]}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground font-mono truncate">
+                  {drift.buyer} → {drift.novaAccountId}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs h-auto py-1 px-2"
+                onClick={() => handleRepair(drift)}
+                disabled={busy}
+              >
+                {repairingKey === driftKey(drift) ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Wrench className="h-3 w-3 mr-1" />
+                )}
+                {isBulkRepairable(drift) ? 'Repair' : 'Grant'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && report.errors.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {report.errors.map((error) => (
+            <p key={`${error.productId}:${error.buyer}`} className="flex items-center gap-1 text-xs text-orange-500">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              #{error.productId} {error.buyer}: {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessReconciliationPanel;
@@ -17,6 +17,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { formatLicense, formatListingPrice, isTimeLimitedLicense } from '@/services/listingModel';
+import { USAGE_LICENSE_TEMPLATES } from '@/services/usageLicenseService';
+import type { Listing } from '@/services/listingModel';
+import { marketplaceConfig } from '@/services/marketplaceConfig';
 
 export type OriginOption = 'op-usdc' | 'op-eth' | 'eth-eth' | 'arb-usdc' | 'arb-eth' | 'eth-usdc' | 'near-wnear';
 
@@ -35,17 +39,6 @@ export interface BuyOptions {
   refundTo: string;
 }
 
-export interface Listing {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  purchase_number: number;
-  list_type: string;
-  cid: string;
-  is_active: boolean;
-}
-
 interface BuyModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -54,11 +47,6 @@ interface BuyModalProps {
   isBuying?: boolean;
 }
 
-const formatPrice = (price: number): string => {
-  if (price >= 1000000) return `$${(price / 1000000).toFixed(2)} USDC`;
-  return `$${(price / 100).toFixed(2)}`;
-};
-
 export function BuyModal({ open, onOpenChange, listing, onConfirm, isBuying = false }: BuyModalProps) {
   const [origin, setOrigin] = useState<OriginOption>('near-wnear');
   const [refundTo, setRefundTo] = useState('');
@@ -110,15 +98,27 @@ export function BuyModal({ open, onOpenChange, listing, onConfirm, isBuying = fa
           </DialogTitle>
           <DialogDescription>
             {isNearDirect 
-              ? 'Direct payment from your NEAR wallet to the seller.'
-              : 'Choose your origin chain and token, and where to refund if needed. Payment will go to the listing owner on NEAR.'}
+              ? 'Pay the listing price from your NEAR wallet. The marketplace contract holds it in escrow until the seller grants access, and you can reclaim it if they never do.'
+              : 'Choose your origin chain and token, and where to refund if needed. The swap settles with the marketplace contract on NEAR, which holds payment in escrow until the listing owner grants access.'}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label>Product</Label>
-            <p className="text-sm font-medium">Product #{listing.product_id} — {formatPrice(listing.price)}</p>
+            <p className="text-sm font-medium">Product #{listing.product_id} — {formatListingPrice(listing.price)}</p>
+            {isTimeLimitedLicense(listing.license) && (
+              <p className="text-xs text-muted-foreground">
+                License: {formatLicense(listing.license)}. Access ends when the term runs out, counted from when the
+                seller grants it.
+              </p>
+            )}
+            {listing.usage_license && (
+              <p className="text-xs text-muted-foreground">
+                Usage rights: {USAGE_LICENSE_TEMPLATES[listing.usage_license.kind].name}. Buying means you accept
+                these terms; see the listing page for the full text.
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -158,15 +158,16 @@ export function BuyModal({ open, onOpenChange, listing, onConfirm, isBuying = fa
             </Label>
             {isNearDirect ? (
               <>
-                <p className="text-sm font-medium">Direct NEAR transfer</p>
-                <p className="text-sm font-medium">Token: wNEAR</p>
-                <p className="text-sm font-medium">To: <span className="font-mono text-xs">{listing.owner}</span></p>
+                <p className="text-sm font-medium">Payable contract call</p>
+                <p className="text-sm font-medium">Amount: {formatListingPrice(listing.price)}</p>
+                <p className="text-sm font-medium">Seller: <span className="font-mono text-xs">{listing.owner}</span></p>
               </>
             ) : (
               <>
                 <p className="text-sm font-medium">Chain: NEAR</p>
                 <p className="text-sm font-medium">Token: wNEAR</p>
-                <p className="text-sm font-medium">Recipient (listing owner): <span className="font-mono text-xs">{listing.owner}</span></p>
+                <p className="text-sm font-medium">Recipient (marketplace contract): <span className="font-mono text-xs">{marketplaceConfig.contractId}</span></p>
+                <p className="text-sm font-medium">Seller: <span className="font-mono text-xs">{listing.owner}</span></p>
               </>
             )}
           </div>
@@ -8,10 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import GlowCard from '@/components/GlowCard';
 import { useNearWallet } from 'near-connect-hooks';
+import { useMarketplaceContract } from '@/components/useMarketplaceContract';
+import type { CreateListingArgs, ListingKind } from '@/services/marketplaceContract';
+import { nearToListingPrice } from '@/services/listingModel';
 import { toast } from 'sonner';
 
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
-
 interface CreateListingProps {
   uploadedCid?: string;
   uploadedGroupId?: string;
@@ -20,13 +21,14 @@ interface CreateListingProps {
 }
 
 const CreateListing = ({ uploadedCid, uploadedGroupId, teeVerified, teeScore }: CreateListingProps) => {
-  const { callFunction, signedAccountId } = useNearWallet();
+  const { signedAccountId } = useNearWallet();
+  const contract = useMarketplaceContract();
   
   const [formData, setFormData] = useState({
     productId: '1001',  // Pre-filled test data
     price: '5',         // Pre-filled test data
     novaGroupId: 'test_image_group_001',  // Pre-filled test data
-    listType: 'Image' as 'Image' | 'Dataset' | 'Audio' | 'Other',
+    listType: 'Image' as ListingKind,
     cid: 'QmTestCID123456789abcdef',  // Pre-filled test CID
     gpOwner: '',  // Will be filled with connected wallet
     isTeeVerified: false,
@@ -86,9 +88,9 @@ const handleCreateListing = async () => {
   setSuccess(false);
 
   try {
-    const args = {
+    const args: CreateListingArgs = {
       product_id: parseInt(formData.productId),
-      price: Math.abs(parseInt(formData.price)), // Ensure positive
+      price: nearToListingPrice(parseFloat(formData.price)),
       nova_group_id: formData.novaGroupId,
       list_type: formData.listType,
       cid: formData.cid,
@@ -97,15 +99,17 @@ const handleCreateListing = async () => {
       tee_signature: formData.isTeeVerified && formData.teeSignature !== null 
         ? formData.teeSignature.toString() // Convert number to string!
         : null,
+      description: null,
+      metadata: null,
+      license: null,
+      usage_license: null,
+      preview: null,
+      fingerprint: null,
     };
 
     console.log('Creating listing with args:', args);
 
-    await callFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'create_listing',
-      args,
-    });
+    await contract.createListing(args);
 
     setSuccess(true);
     toast.success('Listing created successfully!');
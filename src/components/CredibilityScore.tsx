@@ -0,0 +1,46 @@
+import { ShieldCheck } from 'lucide-react';
+
+interface CredibilityScoreProps {
+  score: number;
+}
+
+const getScoreColor = (score: number): string => {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-yellow-400';
+  if (score >= 40) return 'text-orange-400';
+  return 'text-red-400';
+};
+
+const getScoreBgColor = (score: number): string => {
+  if (score >= 80) return 'bg-green-500/10';
+  if (score >= 60) return 'bg-yellow-500/10';
+  if (score >= 40) return 'bg-orange-500/10';
+  return 'bg-red-500/10';
+};
+
+/**
+ * AI credibility score panel shown for TEE-verified listings
+ */
+const CredibilityScore = ({ score }: CredibilityScoreProps) => {
+  return (
+    <div className={`p-3 rounded-lg ${getScoreBgColor(score)}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">AI Credibility Score</p>
+          <p className={`text-2xl font-bold ${getScoreColor(score)}`}>
+            {score}/100
+          </p>
+        </div>
+        <ShieldCheck className={`h-8 w-8 ${getScoreColor(score)}`} />
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {score >= 80 && "Highly trustworthy product"}
+        {score >= 60 && score < 80 && "Good quality product"}
+        {score >= 40 && score < 60 && "Moderate quality"}
+        {score < 40 && "Low credibility - buy with caution"}
+      </p>
+    </div>
+  );
+};
+
+export default CredibilityScore;
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { CheckCircle, Clock, Flag, Gavel, Loader2, MessageSquare, RotateCcw, Undo2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DISPUTE_STATUS_LABELS, getStaleDisputeCountdown } from '@/services/disputeService';
+import type { DisputeRole } from '@/services/disputeService';
+import { MAX_DISPUTE_NOTE_LENGTH } from '@/services/marketplaceContract';
+import type { ContractDispute, DisputeAction } from '@/services/marketplaceContract';
+import { cn } from '@/lib/utils';
+
+interface DisputePanelProps {
+  dispute: ContractDispute;
+  /** The viewer's side; decides which actions are offered while the dispute is open */
+  role: DisputeRole | null;
+  onNote: (note: string) => void;
+  /** Seller */
+  onRefund?: () => void;
+  /** Seller, offered once the dispute has gone quiet for DISPUTE_STALE_MS */
+  onCloseStale?: () => void;
+  /** Arbiter */
+  onResolve?: (refund: boolean, note: string) => void;
+  /** Buyer */
+  onWithdraw?: () => void;
+  busy?: boolean;
+}
+
+const ACTION_LABELS: Record<DisputeAction, string> = {
+  Opened: 'opened the dispute',
+  Note: 'commented',
+  Refunded: 'refunded the buyer',
+  Rejected: 'resolved it for the seller',
+  Withdrawn: 'withdrew the dispute',
+  Expired: 'closed it after no reply',
+};
+
+const ACTION_ICONS: Record<DisputeAction, typeof Flag> = {
+  Opened: Flag,
+  Note: MessageSquare,
+  Refunded: RotateCcw,
+  Rejected: Gavel,
+  Withdrawn: Undo2,
+  Expired: Clock,
+};
+
+const getStatusColor = (status: ContractDispute['status']): string => {
+  switch (status) {
+    case 'Open':
+      return 'bg-orange-500/20 text-orange-500';
+    case 'Refunded':
+      return 'bg-green-500/20 text-green-500';
+    default:
+      return 'bg-gray-500/20 text-gray-500';
+  }
+};
+
+/**
+ * Timeline of a dispute plus the actions the viewer's role allows
+ */
+const DisputePanel = ({
+  dispute,
+  role,
+  onNote,
+  onRefund,
+  onCloseStale,
+  onResolve,
+  onWithdraw,
+  busy = false,
+}: DisputePanelProps) => {
+  const [note, setNote] = useState('');
+  const isOpen = dispute.status === 'Open';
+
+  const submitNote = () => {
+    if (!note.trim()) return;
+    onNote(note.trim());
+    setNote('');
+  };
+
+  return (
+    <div className="pt-2 mt-2 border-t border-border/50 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium">Dispute</span>
+        <span className={cn('text-xs px-2 py-0.5 rounded', getStatusColor(dispute.status))}>
+          {DISPUTE_STATUS_LABELS[dispute.status]}
+        </span>
+        {role !== 'buyer' && (
+          <span className="text-xs text-muted-foreground font-mono truncate">{dispute.buyer}</span>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <ol className="space-y-2 border-l border-border pl-3">
+        {dispute.events.map((event, index) => {
+          const Icon = ACTION_ICONS[event.action];
+          return (
+            <li key={index} className="text-xs">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Icon className="h-3 w-3" />
+                <span className="font-mono truncate">{event.actor}</span>
+                <span>{ACTION_LABELS[event.action]}</span>
+                <span className="ml-auto flex-shrink-0">{new Date(event.at_ms).toLocaleString()}</span>
+              </div>
+              {event.note && <p className="mt-0.5 whitespace-pre-line">{event.note}</p>}
+            </li>
+          );
+        })}
+      </ol>
+
+      {isOpen && role && (
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={busy}
+            rows={2}
+            maxLength={MAX_DISPUTE_NOTE_LENGTH}
+            placeholder={role === 'arbiter' ? 'Reason for your ruling or a question' : 'Add a reply'}
+            className="w-full rounded-md border bg-background px-3 py-2 text-xs resize-none"
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground self-center" />}
+            <Button variant="ghost" size="sm" className="text-xs h-auto py-1 px-2" onClick={submitNote} disabled={busy || !note.trim()}>
+              <MessageSquare className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+            {role === 'buyer' && onWithdraw && (
+              <Button variant="outline" size="sm" className="text-xs h-auto py-1 px-2" onClick={onWithdraw} disabled={busy}>
+                <Undo2 className="h-3 w-3 mr-1" />
+                Withdraw
+              </Button>
+            )}
+            {role === 'seller' && onCloseStale && getStaleDisputeCountdown(dispute) === 0 && (
+              <Button variant="ghost" size="sm" className="text-xs h-auto py-1 px-2" onClick={onCloseStale} disabled={busy}>
+                <Clock className="h-3 w-3 mr-1" />
+                Close, no reply
+              </Button>
+            )}
+            {role === 'seller' && onRefund && (
+              <Button variant="outline" size="sm" className="text-xs h-auto py-1 px-2" onClick={onRefund} disabled={busy}>
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Refund buyer
+              </Button>
+            )}
+            {role === 'arbiter' && onResolve && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs h-auto py-1 px-2"
+                  onClick={() => onResolve(false, note.trim())}
+                  disabled={busy}
+                >
+                  <XCircle className="h-3 w-3 mr-1" />
+                  Side with seller
+                </Button>
+                <Button
+                  size="sm"
+                  className="text-xs h-auto py-1 px-2"
+                  onClick={() => onResolve(true, note.trim())}
+                  disabled={busy}
+                >
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Refund buyer
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputePanel;
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, RotateCcw, Unlock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatCountdown, getRefundCountdown, isRefundClaimable } from '@/services/escrowService';
+import type { RefundBlockers } from '@/services/escrowService';
+import type { ContractEscrow } from '@/services/marketplaceContract';
+
+interface EscrowCountdownProps extends RefundBlockers {
+  escrow: ContractEscrow;
+  onClaimRefund: () => void;
+  claiming?: boolean;
+}
+
+const EscrowCountdown = ({ escrow, hasAccess, hasOpenDispute, onClaimRefund, claiming = false }: EscrowCountdownProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while the payment is held and the deadline is ahead
+  useEffect(() => {
+    setNow(Date.now());
+    if (escrow.status !== 'Held') return;
+
+    const timer = window.setInterval(() => {
+      const next = Date.now();
+      setNow(next);
+      if (getRefundCountdown(escrow, next) === 0) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [escrow]);
+
+  if (escrow.status === 'Released') {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+        <Unlock className="h-3 w-3" />
+        Payment released to the seller
+      </p>
+    );
+  }
+
+  if (escrow.status === 'Refunded') {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+        <RotateCcw className="h-3 w-3" />
+        Payment refunded
+      </p>
+    );
+  }
+
+  if (escrow.status === 'RefundFailed') {
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="flex items-center gap-1 text-xs text-orange-500">
+          <RotateCcw className="h-3 w-3" />
+          Refund transfer failed · the payment is still owed to you
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs h-auto py-1 px-2"
+          onClick={onClaimRefund}
+          disabled={claiming}
+        >
+          {claiming ? (
+            <>
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Retrying...
+            </>
+          ) : (
+            <>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry refund
+            </>
+          )}
+        </Button>
+      </div>
+    );
+  }
+
+  // Access granted while a dispute holds the payment, or the buyer's dispute is still open
+  if (hasAccess || hasOpenDispute) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+        <Lock className="h-3 w-3" />
+        Payment held in escrow until the dispute is settled
+      </p>
+    );
+  }
+
+  if (!isRefundClaimable(escrow, { hasAccess, hasOpenDispute }, now)) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+        <Lock className="h-3 w-3" />
+        Payment held in escrow · refund available in {formatCountdown(getRefundCountdown(escrow, now))}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 mt-2">
+      <p className="flex items-center gap-1 text-xs text-orange-500">
+        <Lock className="h-3 w-3" />
+        Seller did not grant access in time · you can reclaim your payment
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-xs h-auto py-1 px-2"
+        onClick={onClaimRefund}
+        disabled={claiming}
+      >
+        {claiming ? (
+          <>
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Claiming...
+          </>
+        ) : (
+          <>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Claim refund
+          </>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default EscrowCountdown;
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { Hourglass, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatCountdown } from '@/services/escrowService';
+import { getLicenseRemaining } from '@/services/licenseService';
+
+interface LicenseCountdownProps {
+  expiresAtMs: number;
+  /** Subscriptions can be extended by paying the price again */
+  renewable: boolean;
+  onRenew: () => void;
+  renewing?: boolean;
+}
+
+const LicenseCountdown = ({ expiresAtMs, renewable, onRenew, renewing = false }: LicenseCountdownProps) => {
+  const [remaining, setRemaining] = useState(() => getLicenseRemaining(expiresAtMs));
+
+  // Minute resolution is plenty for terms measured in days
+  useEffect(() => {
+    setRemaining(getLicenseRemaining(expiresAtMs));
+    const timer = window.setInterval(() => {
+      const next = getLicenseRemaining(expiresAtMs);
+      setRemaining(next);
+      if (next === 0) window.clearInterval(timer);
+    }, 60_000);
+    return () => window.clearInterval(timer);
+  }, [expiresAtMs]);
+
+  return (
+    <div className="flex items-center justify-between gap-2 mt-2">
+      {remaining > 0 ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Hourglass className="h-3 w-3" />
+          License expires in {formatCountdown(remaining)}
+        </p>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-orange-500">
+          <Hourglass className="h-3 w-3" />
+          License expired · access will be revoked{renewable ? ' unless you renew' : ''}
+        </p>
+      )}
+      {renewable && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs h-auto py-1 px-2"
+          onClick={onRenew}
+          disabled={renewing}
+        >
+          {renewing ? (
+            <>
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Renewing...
+            </>
+          ) : (
+            <>
+              <RefreshCw className="h-3 w-3 mr-1" />
+              Renew
+            </>
+          )}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LicenseCountdown;
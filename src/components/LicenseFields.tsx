@@ -0,0 +1,79 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DAY_MS, LICENSE_KINDS } from '@/services/listingModel';
+import type { LicenseKind, LicenseTerms } from '@/services/listingModel';
+
+interface LicenseFieldsProps {
+  value: LicenseTerms;
+  onChange: (license: LicenseTerms) => void;
+  /** Keeps input ids unique when several forms are on the page */
+  idPrefix: string;
+  disabled?: boolean;
+  labelClassName?: string;
+}
+
+const LICENSE_LABELS: Record<LicenseKind, string> = {
+  Perpetual: 'Perpetual',
+  FixedTerm: 'Fixed term',
+  Subscription: 'Subscription',
+};
+
+const DEFAULT_TERM_DAYS = 30;
+
+/**
+ * License model picker shared by the upload and edit forms. The duration is
+ * entered in whole days and stored on-chain in ms.
+ */
+const LicenseFields = ({ value, onChange, idPrefix, disabled = false, labelClassName }: LicenseFieldsProps) => {
+  const days = Math.round(value.duration_ms / DAY_MS);
+
+  const handleKindChange = (kind: LicenseKind) => {
+    if (kind === 'Perpetual') {
+      onChange({ kind, duration_ms: 0 });
+    } else {
+      onChange({ kind, duration_ms: value.duration_ms || DEFAULT_TERM_DAYS * DAY_MS });
+    }
+  };
+
+  const handleDaysChange = (input: string) => {
+    const parsed = Math.floor(Number(input));
+    onChange({ ...value, duration_ms: Number.isFinite(parsed) && parsed > 0 ? parsed * DAY_MS : 0 });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <Label className={labelClassName}>License</Label>
+        <Select value={value.kind} onValueChange={(kind) => handleKindChange(kind as LicenseKind)} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LICENSE_KINDS.map((kind) => (
+              <SelectItem key={kind} value={kind}>{LICENSE_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.kind !== 'Perpetual' && (
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-license-days`} className={labelClassName}>
+            {value.kind === 'Subscription' ? 'Term (days)' : 'Access for (days)'}
+          </Label>
+          <Input
+            id={`${idPrefix}-license-days`}
+            type="number"
+            min="1"
+            step="1"
+            value={days > 0 ? String(days) : ''}
+            onChange={(e) => handleDaysChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LicenseFields;
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LISTING_KINDS, MAX_DESCRIPTION_LENGTH, MAX_TAGS, MAX_TITLE_LENGTH } from '@/services/marketplaceContract';
+import type { ListingKind } from '@/services/marketplaceContract';
+import { PRICE_UNITS_PER_NEAR, nearToListingPrice, parseTags } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
+import type { ListingChanges } from '@/services/listingLifecycleService';
+import LicenseFields from '@/components/LicenseFields';
+
+interface ListingEditFormProps {
+  listing: Listing;
+  onSave: (changes: ListingChanges) => void;
+  onCancel: () => void;
+  saving?: boolean;
+}
+
+const ListingEditForm = ({ listing, onSave, onCancel, saving = false }: ListingEditFormProps) => {
+  const [price, setPrice] = useState(String(listing.price / PRICE_UNITS_PER_NEAR));
+  const [listType, setListType] = useState<ListingKind>(listing.list_type);
+  const [description, setDescription] = useState(listing.description);
+  const [title, setTitle] = useState(listing.metadata.title);
+  const [tags, setTags] = useState(listing.metadata.tags.join(', '));
+  const [license, setLicense] = useState(listing.license);
+
+  const priceValue = parseFloat(price);
+  const priceValid = Number.isFinite(priceValue) && nearToListingPrice(priceValue) > 0;
+  const licenseValid = license.kind === 'Perpetual' || license.duration_ms > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!priceValid || !licenseValid) return;
+    onSave({
+      price: nearToListingPrice(priceValue),
+      list_type: listType,
+      description: description.trim(),
+      title: title.trim(),
+      tags: parseTags(tags).slice(0, MAX_TAGS),
+      license,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="pt-2 mt-2 border-t border-border/50 space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`title-${listing.product_id}`} className="text-xs">Title</Label>
+        <Input
+          id={`title-${listing.product_id}`}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={MAX_TITLE_LENGTH}
+          disabled={saving}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`price-${listing.product_id}`} className="text-xs">Price (in NEAR)</Label>
+          <Input
+            id={`price-${listing.product_id}`}
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Asset Type</Label>
+          <Select value={listType} onValueChange={(value) => setListType(value as ListingKind)} disabled={saving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LISTING_KINDS.map((kind) => (
+                <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`description-${listing.product_id}`} className="text-xs">Description</Label>
+        <textarea
+          id={`description-${listing.product_id}`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={saving}
+          rows={3}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`tags-${listing.product_id}`} className="text-xs">Tags (comma-separated)</Label>
+        <Input
+          id={`tags-${listing.product_id}`}
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          disabled={saving}
+        />
+      </div>
+
+      <LicenseFields
+        value={license}
+        onChange={setLicense}
+        idPrefix={String(listing.product_id)}
+        disabled={saving}
+        labelClassName="text-xs"
+      />
+
+      <p className="text-xs text-muted-foreground">
+        A new price only applies to future purchases. New license terms apply from the next grant.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving || !priceValid || !licenseValid}>
+          {saving ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Save className="h-3 w-3 mr-1" />
+          )}
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ListingEditForm;
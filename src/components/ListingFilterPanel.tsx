@@ -0,0 +1,140 @@
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LISTING_KINDS } from '@/services/listingModel';
+import type { ListingKind } from '@/services/listingModel';
+import type { ListingFilters } from '@/services/listingFilterService';
+import { cn } from '@/lib/utils';
+
+interface ListingFilterPanelProps {
+  filters: ListingFilters;
+  onChange: (changes: Partial<ListingFilters>) => void;
+  onReset: () => void;
+  /** "Not yet purchased" needs to know who is looking */
+  signedIn: boolean;
+}
+
+const SCORE_OPTIONS = [40, 60, 80];
+
+const toNumberOrNull = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+const ListingFilterPanel = ({ filters, onChange, onReset, signedIn }: ListingFilterPanelProps) => {
+  const toggleKind = (kind: ListingKind) => {
+    const kinds = filters.kinds.includes(kind)
+      ? filters.kinds.filter((k) => k !== kind)
+      : [...filters.kinds, kind];
+    onChange({ kinds });
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-border bg-secondary/30 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {/* Asset type */}
+        <div className="space-y-2">
+          <Label className="text-xs">Asset type</Label>
+          <div className="flex flex-wrap gap-1">
+            {LISTING_KINDS.map((kind) => (
+              <Button
+                key={kind}
+                type="button"
+                variant="outline"
+                size="sm"
+                className={cn('h-7 text-xs', filters.kinds.includes(kind) && 'border-primary bg-primary/10 text-primary')}
+                onClick={() => toggleKind(kind)}
+              >
+                {kind}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Price range */}
+        <div className="space-y-2">
+          <Label className="text-xs">Price (NEAR)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Min"
+              value={filters.minPrice ?? ''}
+              onChange={(e) => onChange({ minPrice: toNumberOrNull(e.target.value) })}
+              className="h-8"
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Max"
+              value={filters.maxPrice ?? ''}
+              onChange={(e) => onChange({ maxPrice: toNumberOrNull(e.target.value) })}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        {/* Credibility */}
+        <div className="space-y-2">
+          <Label className="text-xs">Minimum credibility score</Label>
+          <Select
+            value={filters.minScore === null ? 'any' : String(filters.minScore)}
+            onValueChange={(value) => onChange({ minScore: value === 'any' ? null : Number(value) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              {SCORE_OPTIONS.map((score) => (
+                <SelectItem key={score} value={String(score)}>{score}+</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Checkbox
+              checked={filters.teeOnly}
+              onCheckedChange={(checked) => onChange({ teeOnly: checked === true })}
+            />
+            TEE verified only
+          </label>
+        </div>
+
+        {/* Seller / ownership */}
+        <div className="space-y-2">
+          <Label className="text-xs">Seller</Label>
+          <Input
+            placeholder="seller.near"
+            value={filters.seller}
+            onChange={(e) => onChange({ seller: e.target.value })}
+            className="h-8"
+          />
+          <label className={cn('flex items-center gap-2 text-xs text-muted-foreground', !signedIn && 'opacity-50')}>
+            <Checkbox
+              checked={filters.notPurchased}
+              onCheckedChange={(checked) => onChange({ notPurchased: checked === true })}
+              disabled={!signedIn}
+            />
+            Not yet purchased by me
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" className="gap-2 text-xs" onClick={onReset}>
+          <RotateCcw className="h-3 w-3" />
+          Reset filters
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ListingFilterPanel;
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Flag, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { MAX_DISPUTE_NOTE_LENGTH } from '@/services/marketplaceContract';
+
+interface OpenDisputeFormProps {
+  productId: number;
+  onSubmit: (reason: string) => void;
+  onCancel: () => void;
+  submitting?: boolean;
+}
+
+const OpenDisputeForm = ({ productId, onSubmit, onCancel, submitting = false }: OpenDisputeFormProps) => {
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    onSubmit(reason.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="pt-2 mt-2 border-t border-border/50 space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`dispute-${productId}`} className="text-xs">
+          What went wrong? ({reason.length}/{MAX_DISPUTE_NOTE_LENGTH})
+        </Label>
+        <textarea
+          id={`dispute-${productId}`}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={submitting}
+          rows={3}
+          maxLength={MAX_DISPUTE_NOTE_LENGTH}
+          placeholder="e.g. the file is corrupt, or it doesn't match the description"
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none"
+        />
+        <p className="text-xs text-muted-foreground">
+          A payment still in escrow stays there until the dispute is settled.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" variant="destructive" className="gap-1" disabled={submitting || !reason.trim()}>
+          {submitting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Flag className="h-3 w-3" />}
+          Open dispute
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default OpenDisputeForm;
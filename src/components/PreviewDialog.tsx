@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getListingTitle } from '@/services/listingModel';
+import type { Listing, ListingPreview } from '@/services/listingModel';
+import { fetchDatasetPreview } from '@/services/previewService';
+import type { DatasetPreview } from '@/services/previewService';
+import { getPreviewUrl } from '@/services/previewStorageService';
+
+interface PreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listing: Listing | null;
+}
+
+const DatasetTable = ({ preview }: { preview: ListingPreview }) => {
+  const [dataset, setDataset] = useState<DatasetPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDataset(null);
+    setError(null);
+    fetchDatasetPreview(preview)
+      .then((result) => !cancelled && setDataset(result))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [preview]);
+
+  if (error) return <p className="text-sm text-destructive">Could not load the preview: {error}</p>;
+  if (!dataset) return <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {dataset.format.toUpperCase()}, {dataset.columns.length} columns. First {dataset.rows.length} rows
+        {dataset.total_rows !== null && ` of ${dataset.total_rows}`}
+      </p>
+      <div className="max-h-96 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {dataset.columns.map((column, i) => (
+                <TableHead key={i} className="whitespace-nowrap">
+                  {column.name}
+                  <span className="ml-1 text-xs font-normal text-muted-foreground">{column.type}</span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dataset.rows.map((row, i) => (
+              <TableRow key={i}>
+                {row.map((cell, j) => (
+                  <TableCell key={j} className="whitespace-nowrap font-mono text-xs">
+                    {cell === null ? <span className="text-muted-foreground">null</span> : String(cell)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+/** Shows a listing's public preview: watermarked thumbnail, audio clip or sample rows */
+export function PreviewDialog({ open, onOpenChange, listing }: PreviewDialogProps) {
+  if (!listing?.preview) return null;
+  const { preview } = listing;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Preview: {getListingTitle(listing)}</DialogTitle>
+          <DialogDescription>
+            A public sample generated when the file was uploaded. The full file stays encrypted until you buy it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.mime_type.startsWith('image/') ? (
+          <img
+            src={getPreviewUrl(preview.cid)}
+            alt={`Preview of ${getListingTitle(listing)}`}
+            className="max-h-[60vh] mx-auto rounded-md"
+          />
+        ) : preview.mime_type.startsWith('audio/') ? (
+          <audio controls src={getPreviewUrl(preview.cid)} className="w-full" />
+        ) : (
+          <DatasetTable preview={preview} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,25 +1,24 @@
-import { Lock, Download, Eye, ShieldCheck, Shield } from 'lucide-react';
+import { Lock, Download, Eye, ShieldCheck, Shield, Clock, FileIcon, Scale } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import GlowCard from '@/components/GlowCard';
-
-interface Listing {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  purchase_number: number;
-  list_type: 'Image' | 'Dataset' | 'Audio' | 'Other';
-  cid: string;
-  is_active: boolean;
-  is_tee_verified: boolean;
-  tee_signature: number | null;
-}
+import CredibilityScore from '@/components/CredibilityScore';
+import StarRating from '@/components/StarRating';
+import { formatFileSize, formatListingPrice, getAverageRating, getListingTitle, isBundle } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
+import { USAGE_LICENSE_TEMPLATES } from '@/services/usageLicenseService';
+import { getPreviewUrl } from '@/services/previewStorageService';
 
 interface ProductCardProps {
   listing: Listing;
   onBuy: (listing: Listing) => void;
   onPreview?: (listing: Listing) => void;
   isBuying?: boolean;
+  /** The viewer already bought this listing, so it offers a download instead of Buy */
+  purchased?: boolean;
+  hasAccess?: boolean;
+  onDownload?: (listing: Listing) => void;
+  isDownloading?: boolean;
 }
 
 const getTypeColor = (type: string): string => {
@@ -32,31 +31,36 @@ const getTypeColor = (type: string): string => {
   return colors[type] || 'bg-primary/10 text-primary';
 };
 
-const formatPrice = (price: number): string => {
-  if (price >= 1000000) {
-    return `$${(price / 1000000).toFixed(2)} USDC`;
-  }
-  return `$${(price / 100).toFixed(2)}`;
-};
+const Spinner = () => (
+  <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
+);
 
-const getScoreColor = (score: number): string => {
-  if (score >= 80) return 'text-green-400';
-  if (score >= 60) return 'text-yellow-400';
-  if (score >= 40) return 'text-orange-400';
-  return 'text-red-400';
-};
+export const ProductCard = ({
+  listing,
+  onBuy,
+  onPreview,
+  isBuying = false,
+  purchased = false,
+  hasAccess = false,
+  onDownload,
+  isDownloading = false,
+}: ProductCardProps) => {
+  const averageRating = getAverageRating(listing);
 
-const getScoreBgColor = (score: number): string => {
-  if (score >= 80) return 'bg-green-500/10';
-  if (score >= 60) return 'bg-yellow-500/10';
-  if (score >= 40) return 'bg-orange-500/10';
-  return 'bg-red-500/10';
-};
-
-export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: ProductCardProps) => {
   return (
     <GlowCard className="h-full">
       <div className="space-y-4">
+        {/* Image preview thumbnail */}
+        {listing.preview?.mime_type.startsWith('image/') && (
+          <img
+            src={getPreviewUrl(listing.preview.cid)}
+            alt={`Preview of ${getListingTitle(listing)}`}
+            loading="lazy"
+            className="w-full h-40 object-cover rounded-lg cursor-pointer"
+            onClick={() => onPreview?.(listing)}
+          />
+        )}
+
         {/* Header */}
         <div className="flex items-start justify-between">
           <div className="flex-1">
@@ -70,7 +74,7 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
               </span>
               
               {/* TEE Verification Badge */}
-              {listing.is_tee_verified && listing.tee_signature !== null ? (
+              {listing.is_tee_verified && listing.credibility_score !== null ? (
                 <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-green-500/10 text-green-400">
                   <ShieldCheck className="h-3 w-3" />
                   TEE Verified
@@ -81,8 +85,36 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
                   Unverified
                 </span>
               )}
+
+              {!listing.is_active && (
+                <span className="inline-block px-2 py-1 rounded-md text-xs font-medium bg-gray-500/10 text-gray-400">
+                  Delisted
+                </span>
+              )}
             </div>
-            <h3 className="font-semibold text-lg">Product #{listing.product_id}</h3>
+            <h3 className="font-semibold text-lg break-words">
+              <Link to={`/listing/${listing.product_id}`} className="hover:text-primary hover:underline">
+                {getListingTitle(listing)}
+              </Link>
+            </h3>
+            {listing.metadata.title && (
+              <p className="text-xs text-muted-foreground">Product #{listing.product_id}</p>
+            )}
+            {averageRating !== null && (
+              <StarRating value={averageRating} count={listing.review_count} className="mt-1" />
+            )}
+            {listing.description && (
+              <p className="text-sm text-muted-foreground mt-1 line-clamp-3">{listing.description}</p>
+            )}
+            {listing.metadata.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {listing.metadata.tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-secondary text-muted-foreground">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           <div className="p-2 rounded-lg bg-primary/10">
             <Lock className="h-4 w-4 text-primary" />
@@ -90,23 +122,37 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
         </div>
 
         {/* TEE Credibility Score */}
-        {listing.is_tee_verified && listing.tee_signature !== null && (
-          <div className={`p-3 rounded-lg ${getScoreBgColor(listing.tee_signature)}`}>
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-xs text-muted-foreground mb-1">AI Credibility Score</p>
-                <p className={`text-2xl font-bold ${getScoreColor(listing.tee_signature)}`}>
-                  {listing.tee_signature}/100
-                </p>
-              </div>
-              <ShieldCheck className={`h-8 w-8 ${getScoreColor(listing.tee_signature)}`} />
+        {listing.is_tee_verified && listing.credibility_score !== null && (
+          <CredibilityScore score={listing.credibility_score} />
+        )}
+
+        {/* File */}
+        {listing.metadata.file_name && (
+          <div className="flex items-center gap-2 text-sm">
+            <FileIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <span className="truncate">
+              {isBundle(listing) ? `Bundle of ${listing.metadata.file_count} files` : listing.metadata.file_name}
+            </span>
+            {listing.metadata.size > 0 && (
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {formatFileSize(listing.metadata.size)}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Usage rights */}
+        {listing.usage_license && (
+          <div className="flex items-start gap-2 text-sm">
+            <Scale className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <p className="font-medium">{USAGE_LICENSE_TEMPLATES[listing.usage_license.kind].name}</p>
+              <p className="text-xs text-muted-foreground line-clamp-2">
+                {listing.usage_license.kind === 'Custom'
+                  ? listing.usage_license.custom_text
+                  : USAGE_LICENSE_TEMPLATES[listing.usage_license.kind].summary}
+              </p>
             </div>
-            <p className="text-xs text-muted-foreground mt-2">
-              {listing.tee_signature >= 80 && "Highly trustworthy product"}
-              {listing.tee_signature >= 60 && listing.tee_signature < 80 && "Good quality product"}
-              {listing.tee_signature >= 40 && listing.tee_signature < 60 && "Moderate quality"}
-              {listing.tee_signature < 40 && "Low credibility - buy with caution"}
-            </p>
           </div>
         )}
 
@@ -120,7 +166,7 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
         <div className="flex items-center justify-between text-sm">
           <div>
             <p className="text-xs text-muted-foreground">Price</p>
-            <p className="font-semibold text-primary">{formatPrice(listing.price)}</p>
+            <p className="font-semibold text-primary">{formatListingPrice(listing.price)}</p>
           </div>
           <div className="text-right">
             <p className="text-xs text-muted-foreground">Purchases</p>
@@ -137,7 +183,12 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
         {/* Owner */}
         <div>
           <p className="text-xs text-muted-foreground mb-1">Owner</p>
-          <p className="font-mono text-xs truncate">{listing.owner}</p>
+          <Link
+            to={`/seller/${encodeURIComponent(listing.owner)}`}
+            className="block font-mono text-xs truncate hover:text-primary"
+          >
+            {listing.owner}
+          </Link>
         </div>
 
         {/* Actions */}
@@ -147,28 +198,56 @@ export const ProductCard = ({ listing, onBuy, onPreview, isBuying = false }: Pro
             size="sm" 
             className="flex-1 gap-2"
             onClick={() => onPreview?.(listing)}
+            disabled={!listing.preview || !onPreview}
+            title={listing.preview ? undefined : 'The seller did not publish a preview'}
           >
             <Eye className="h-4 w-4" />
             Preview
           </Button>
-          <Button 
-            size="sm" 
-            className="flex-1 gap-2" 
-            onClick={() => onBuy(listing)}
-            disabled={isBuying}
-          >
-            {isBuying ? (
-              <>
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
-                Processing...
-              </>
-            ) : (
-              <>
-                <Download className="h-4 w-4" />
-                Buy
-              </>
-            )}
-          </Button>
+          {purchased ? (
+            <Button
+              size="sm"
+              className="flex-1 gap-2"
+              onClick={() => onDownload?.(listing)}
+              disabled={!hasAccess || isDownloading}
+            >
+              {isDownloading ? (
+                <>
+                  <Spinner />
+                  Downloading...
+                </>
+              ) : hasAccess ? (
+                <>
+                  <Download className="h-4 w-4" />
+                  Download
+                </>
+              ) : (
+                <>
+                  <Clock className="h-4 w-4" />
+                  Awaiting access
+                </>
+              )}
+            </Button>
+          ) : (
+            <Button 
+              size="sm" 
+              className="flex-1 gap-2" 
+              onClick={() => onBuy(listing)}
+              disabled={isBuying || !listing.is_active}
+            >
+              {isBuying ? (
+                <>
+                  <Spinner />
+                  Processing...
+                </>
+              ) : (
+                <>
+                  <Download className="h-4 w-4" />
+                  Buy
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </GlowCard>
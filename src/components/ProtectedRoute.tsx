@@ -1,16 +1,94 @@
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useMemo, useState } from 'react';
 import { useNearWallet } from 'near-connect-hooks';
 import { Wallet, Shield, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { motion } from 'framer-motion';
+import { WalletGateContext } from './useWalletGate';
+import type { WalletGate } from './useWalletGate';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  /**
+   * Soft gating: render the page for anonymous visitors and only ask for a
+   * wallet when they trigger an action wrapped with useWalletGate()
+   */
+  soft?: boolean;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+interface PendingAction {
+  reason: string;
+  action: () => void;
+}
+
+const SoftWalletGate = ({ children }: { children: ReactNode }) => {
+  const { signedAccountId, signIn } = useNearWallet();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  // Finish what the user was doing once their wallet connects
+  useEffect(() => {
+    if (signedAccountId && pending) {
+      setPending(null);
+      pending.action();
+    }
+  }, [signedAccountId, pending]);
+
+  const gate = useMemo<WalletGate>(
+    () => ({
+      requireWallet: (reason, action) => {
+        if (signedAccountId) {
+          action();
+        } else {
+          setPending({ reason, action });
+        }
+      },
+    }),
+    [signedAccountId]
+  );
+
+  return (
+    <WalletGateContext.Provider value={gate}>
+      {children}
+      <Dialog open={pending !== null && !signedAccountId} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-primary" />
+              LOGIN Required
+            </DialogTitle>
+            <DialogDescription>
+              Connect your NEAR wallet to {pending?.reason ?? 'continue'}.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button onClick={signIn} className="gap-2">
+              <Wallet className="h-4 w-4" />
+              LOGIN
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </WalletGateContext.Provider>
+  );
+};
+
+const ProtectedRoute = ({ children, soft = false }: ProtectedRouteProps) => {
   const { signedAccountId, loading, signIn } = useNearWallet();
 
+  if (soft) {
+    return <SoftWalletGate>{children}</SoftWalletGate>;
+  }
+
   // Show loading state while checking wallet connection
   if (loading) {
     return (
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import StarRating from '@/components/StarRating';
+import { MAX_REVIEW_LENGTH } from '@/services/marketplaceContract';
+
+interface ReviewFormProps {
+  productId: number;
+  onSubmit: (rating: number, text: string) => void;
+  onCancel: () => void;
+  submitting?: boolean;
+}
+
+const ReviewForm = ({ productId, onSubmit, onCancel, submitting = false }: ReviewFormProps) => {
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) return;
+    onSubmit(rating, text.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="pt-2 mt-2 border-t border-border/50 space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Rating</Label>
+        <div>
+          <StarRating value={rating} onChange={submitting ? undefined : setRating} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`review-${productId}`} className="text-xs">
+          Did the file match its description? ({text.length}/{MAX_REVIEW_LENGTH})
+        </Label>
+        <textarea
+          id={`review-${productId}`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={submitting}
+          rows={3}
+          maxLength={MAX_REVIEW_LENGTH}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" className="gap-1" disabled={submitting || rating === 0}>
+          {submitting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+          Post review
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReviewForm;
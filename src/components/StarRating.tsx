@@ -0,0 +1,50 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  /** 0-5, fractions round to the nearest star */
+  value: number;
+  /** Shown as "(n)" after the stars */
+  count?: number;
+  /** Makes the stars clickable */
+  onChange?: (rating: number) => void;
+  className?: string;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * Five-star rating display, or a picker when `onChange` is set
+ */
+const StarRating = ({ value, count, onChange, className }: StarRatingProps) => {
+  const filled = Math.round(value);
+
+  return (
+    <div className={cn('inline-flex items-center gap-0.5', className)}>
+      {STARS.map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              onChange ? 'h-5 w-5' : 'h-3.5 w-3.5',
+              star <= filled ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+            )}
+          />
+        );
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star${star === 1 ? '' : 's'}`}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+      {count !== undefined && (
+        <span className="ml-1 text-xs text-muted-foreground">
+          {value.toFixed(1)} ({count})
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default StarRating;
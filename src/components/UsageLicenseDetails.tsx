@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { USAGE_LICENSE_TEMPLATES, getUsageLicenseText, verifyUsageLicense } from '@/services/usageLicenseService';
+import type { UsageLicense } from '@/services/listingModel';
+
+interface UsageLicenseDetailsProps {
+  license: UsageLicense;
+}
+
+/**
+ * Full license text with its on-chain hash, and whether the two still match
+ */
+const UsageLicenseDetails = ({ license }: UsageLicenseDetailsProps) => {
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerified(null);
+    verifyUsageLicense(license)
+      .then((matches) => !cancelled && setVerified(matches))
+      .catch(() => !cancelled && setVerified(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [license]);
+
+  const template = USAGE_LICENSE_TEMPLATES[license.kind];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{template.name}</p>
+        <p className="text-sm text-muted-foreground">{template.summary}</p>
+      </div>
+      <p className="text-sm whitespace-pre-line p-3 rounded-md bg-secondary">{getUsageLicenseText(license)}</p>
+      <div>
+        <p className="text-xs text-muted-foreground mb-1">License hash (SHA-256)</p>
+        <p className="text-xs font-mono break-all">{license.text_hash}</p>
+        {verified === true && (
+          <p className="flex items-center gap-1 text-xs text-green-500 mt-1">
+            <CheckCircle className="h-3 w-3" />
+            Matches the text above
+          </p>
+        )}
+        {verified === false && (
+          <p className="flex items-center gap-1 text-xs text-orange-500 mt-1">
+            <AlertTriangle className="h-3 w-3" />
+            Does not match the text above; ask the seller for the original terms
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageLicenseDetails;
@@ -1,5 +1,20 @@
 import OpenAI from 'openai';
 
+// Bytes per String.fromCharCode call, well under the engine's argument limit
+const BASE64_BLOCK_SIZE = 0x8000;
+
+/**
+ * btoa over binary data, converted in blocks instead of one string
+ * concatenation per byte
+ */
+function toBase64(bytes: Uint8Array): string {
+  const blocks: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_BLOCK_SIZE) {
+    blocks.push(String.fromCharCode(...bytes.subarray(i, i + BASE64_BLOCK_SIZE)));
+  }
+  return btoa(blocks.join(''));
+}
+
 export async function getFileCredibilityScoreFromBuffer(
   fileBuffer: ArrayBuffer | Uint8Array, 
   description: string
@@ -16,9 +31,7 @@ export async function getFileCredibilityScoreFromBuffer(
       ? new Uint8Array(fileBuffer) 
       : fileBuffer;
     
-    const base64Image = btoa(
-      uint8Array.reduce((data, byte) => data + String.fromCharCode(byte), '')
-    );
+    const base64Image = toBase64(uint8Array);
 
     const response = await openai.chat.completions.create({
       model: 'deepseek-ai/DeepSeek-V3.1',
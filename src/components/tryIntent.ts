@@ -49,6 +49,15 @@ const convertToSmallestUnits = (amount: string, decimals: number): string => {
   return smallestUnits.toString();
 };
 
+export interface DryRunOptions {
+  /** EXACT_INPUT (default) quotes `amount` of the origin asset, EXACT_OUTPUT quotes `amount` of the destination asset */
+  swapType?: QuoteRequest.swapType;
+  /** Set when `amount` is already in smallest units of the quoted asset */
+  amountInSmallestUnits?: boolean;
+  /** Makes 1Click deliver via ft_transfer_call with this msg, so a NEAR contract can settle on receipt */
+  customRecipientMsg?: string;
+}
+
 export const dryRun = async (
   originBlockchain: string,
   originSymbol: string,
@@ -56,7 +65,8 @@ export const dryRun = async (
   destSymbol: string,
   amount: string,
   refundTo: string,
-  recipient: string
+  recipient: string,
+  options: DryRunOptions = {}
 ) => {
   const originAsset = getAssetInfo(originBlockchain, originSymbol);
   const destAsset = getAssetInfo(destBlockchain, destSymbol);
@@ -68,9 +78,14 @@ export const dryRun = async (
   console.log('originAsset decimals:', originAsset.decimals);
   console.log('raw amount:', amount);
   
-  // Convert amount to smallest units if needed (based on origin asset decimals)
-  const originDecimals = originAsset.decimals || 6; // Default to 6 for USDC
-  const amountInSmallestUnits = convertToSmallestUnits(amount, originDecimals);
+  const swapType = options.swapType ?? QuoteRequest.swapType.EXACT_INPUT;
+  const isExactOutput = swapType === QuoteRequest.swapType.EXACT_OUTPUT;
+
+  // Convert amount to smallest units if needed (based on the decimals of the quoted asset)
+  const quotedDecimals = (isExactOutput ? destAsset.decimals : originAsset.decimals) || 6; // Default to 6 for USDC
+  const amountInSmallestUnits = options.amountInSmallestUnits
+    ? amount
+    : convertToSmallestUnits(amount, quotedDecimals);
   console.log('amount in smallest units:', amountInSmallestUnits);
   // Set deadline to 1 hour from now
   const deadline = new Date();
@@ -79,7 +94,7 @@ export const dryRun = async (
 
   const quoteRequest: QuoteRequest = {
     dry: false,
-    swapType: QuoteRequest.swapType.EXACT_INPUT,
+    swapType,
     slippageTolerance: 100, // 1%
     originAsset: originAssetId,
     depositType: QuoteRequest.depositType.ORIGIN_CHAIN,
@@ -90,6 +105,7 @@ export const dryRun = async (
     recipient,
     recipientType: QuoteRequest.recipientType.DESTINATION_CHAIN,
     deadline: deadlineISO,
+    ...(options.customRecipientMsg ? { customRecipientMsg: options.customRecipientMsg } : {}),
   };
 
   console.log('Quote request payload:', JSON.stringify(quoteRequest, null, 2));
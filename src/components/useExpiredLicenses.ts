@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { findExpiredLicenses } from '@/services/licenseService';
+import type { ExpiredLicense } from '@/services/licenseService';
+import { isTimeLimitedLicense } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
+
+const EXPIRED_LICENSE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Lapsed licenses on the seller's listings that still hold access, re-checked
+ * whenever the listings change and every few minutes. Only view calls: the
+ * seller revokes them from Profile, or leaves it to the auto-grant agent.
+ */
+export const useExpiredLicenses = (listings: Listing[]): ExpiredLicense[] => {
+  const contract = useMarketplaceContract();
+  const [expired, setExpired] = useState<ExpiredLicense[]>([]);
+
+  useEffect(() => {
+    if (!listings.some((listing) => isTimeLimitedLicense(listing.license))) {
+      setExpired([]);
+      return;
+    }
+
+    let cancelled = false;
+    const check = () =>
+      findExpiredLicenses(listings, contract)
+        .then((found) => {
+          if (!cancelled) setExpired(found);
+        })
+        .catch((error) => console.error('Expired license check failed:', error));
+
+    check();
+    const timer = window.setInterval(check, EXPIRED_LICENSE_CHECK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [listings, contract]);
+
+  return expired;
+};
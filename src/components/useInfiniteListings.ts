@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { getAllListings, getListingsPage, LISTINGS_PAGE_SIZE } from '@/services/listingQueryService';
+import type { Listing } from '@/services/listingModel';
+
+// Shared so purchase/listing mutations can invalidate the catalog
+export const LISTINGS_QUERY_KEY = ['listings'] as const;
+
+/**
+ * Page through the marketplace catalog with React Query, newest first.
+ * Call fetchNextPage() when the user nears the end of the list.
+ */
+export const useInfiniteListings = (pageSize = LISTINGS_PAGE_SIZE) => {
+  const contract = useMarketplaceContract();
+
+  const query = useInfiniteQuery({
+    queryKey: [...LISTINGS_QUERY_KEY, contract.contractId, pageSize],
+    queryFn: ({ pageParam }) => getListingsPage(contract, pageParam, pageSize),
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextIndex ?? undefined,
+  });
+
+  const listings = useMemo<Listing[]>(
+    () => query.data?.pages.flatMap((page) => page.listings) ?? [],
+    [query.data]
+  );
+
+  return {
+    listings,
+    total: query.data?.pages[0]?.total ?? 0,
+    loading: query.isLoading,
+    error: query.error ? 'Failed to load listings from the blockchain' : null,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+    refetchListings: query.refetch,
+  };
+};
+
+/**
+ * The whole catalog in one query, for searches, filters and sorts that have
+ * to see every listing. Nothing is fetched while `enabled` is false.
+ */
+export const useAllListings = (enabled: boolean) => {
+  const contract = useMarketplaceContract();
+
+  const query = useQuery({
+    queryKey: [...LISTINGS_QUERY_KEY, contract.contractId, 'all'],
+    queryFn: () => getAllListings(contract),
+    enabled,
+  });
+
+  return {
+    listings: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error ? 'Failed to load listings from the blockchain' : null,
+  };
+};
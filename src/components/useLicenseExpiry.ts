@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { getLicenseExpiry } from '@/services/licenseService';
+import { isTimeLimitedLicense } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
+
+/**
+ * When an account's license to a listing lapses. Only looked up for
+ * time-limited listings the account has access to; null otherwise.
+ */
+export const useLicenseExpiry = (listing: Listing | null, accountId: string | null | undefined) => {
+  const contract = useMarketplaceContract();
+  const enabled =
+    !!listing && !!accountId && isTimeLimitedLicense(listing.license) && listing.buyers_with_access.includes(accountId);
+
+  const query = useQuery({
+    queryKey: ['license-expiry', contract.contractId, listing?.product_id, accountId],
+    queryFn: () => getLicenseExpiry(listing?.product_id as number, accountId as string, contract),
+    enabled,
+  });
+
+  return {
+    licenseExpiresAt: query.data ?? null,
+    loading: query.isLoading,
+  };
+};
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useNearWallet } from 'near-connect-hooks';
+import { Buffer } from 'buffer';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import type { LicenseReceiptSigner } from '@/services/usageLicenseService';
+
+/**
+ * Signs license receipts with the connected wallet (NEP-413), addressed to
+ * the marketplace contract so the signature can't be replayed elsewhere.
+ */
+export const useLicenseReceiptSigner = (): LicenseReceiptSigner => {
+  const { signNEP413Message } = useNearWallet();
+  const contract = useMarketplaceContract();
+
+  return useCallback<LicenseReceiptSigner>(
+    async (message) => {
+      const nonce = crypto.getRandomValues(new Uint8Array(32));
+      const signed = await signNEP413Message({ message, recipient: contract.contractId, nonce });
+      return {
+        account_id: signed.accountId,
+        public_key: signed.publicKey,
+        signature: signed.signature,
+        nonce: Buffer.from(nonce).toString('base64'),
+        recipient: contract.contractId,
+      };
+    },
+    [signNEP413Message, contract.contractId]
+  );
+};
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMarketplaceContract } from './useMarketplaceContract';
+
+// Shared so purchase/listing mutations can invalidate open detail pages
+export const LISTING_QUERY_KEY = ['listing'] as const;
+
+/**
+ * Load one listing via get_listing. Works without a signed-in wallet.
+ * `listing` is null once loaded if the product id does not exist.
+ */
+export const useListing = (productId: number | null) => {
+  const contract = useMarketplaceContract();
+
+  const query = useQuery({
+    queryKey: [...LISTING_QUERY_KEY, contract.contractId, productId],
+    queryFn: () => contract.getListing({ p_id: productId as number }),
+    enabled: productId !== null,
+  });
+
+  return {
+    listing: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? 'Failed to load listing from the blockchain' : null,
+    refetchListing: query.refetch,
+  };
+};
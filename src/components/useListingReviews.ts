@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { getListingReviews } from '@/services/reviewService';
+
+/**
+ * Load the reviews of one listing, newest first. Works without a signed-in wallet.
+ */
+export const useListingReviews = (productId: number | null) => {
+  const contract = useMarketplaceContract();
+
+  const query = useQuery({
+    queryKey: ['listing-reviews', contract.contractId, productId],
+    queryFn: () => getListingReviews(contract, productId as number),
+    enabled: productId !== null,
+  });
+
+  return {
+    reviews: query.data ?? [],
+    loading: query.isLoading,
+    refetchReviews: query.refetch,
+  };
+};
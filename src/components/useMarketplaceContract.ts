@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useNearWallet } from 'near-connect-hooks';
+import { createMarketplaceContract, MarketplaceContractClient } from '@/services/marketplaceContract';
+import { readOnlyTransport } from '@/services/readOnlyTransport';
+
+/**
+ * Typed marketplace contract client.
+ * Views go through the read-only RPC provider, so they work for anonymous
+ * visitors and don't wait for the wallet to load; change calls are signed by
+ * the connected wallet.
+ */
+export const useMarketplaceContract = (): MarketplaceContractClient => {
+  const { callFunction } = useNearWallet();
+
+  return useMemo(
+    () => createMarketplaceContract({ viewFunction: readOnlyTransport.viewFunction, callFunction }),
+    [callFunction]
+  );
+};
@@ -1,8 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useNearWallet } from 'near-connect-hooks';
 import { toast } from 'sonner';
 import { getNovaCredentials } from '@/services/novaCredentialsService';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { LISTINGS_QUERY_KEY, useInfiniteListings } from './useInfiniteListings';
+import { LISTING_QUERY_KEY } from './useListing';
+import { SELLER_PROFILE_QUERY_KEY } from './useSellerProfile';
+import { formatListingPrice, listingPriceToYocto } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
 import { dryRun, submitDepositTx, getExecutionStatus } from './tryIntent';
+import { QuoteRequest } from '@defuse-protocol/one-click-sdk-typescript';
 import {
   connectMetaMask,
   connectMetaMaskToChain,
@@ -14,135 +22,86 @@ import {
 import { sendArbEth, sendArbUsdc, sendEthUsdc } from './opWallet';
 import type { BuyOptions } from './BuyModal';
 
-// Manual NEAR amount conversion
-const parseNearAmount = (amount: string): string => {
-  // 1 NEAR = 10^24 yoctoNEAR
-  const amountFloat = parseFloat(amount);
-  if (isNaN(amountFloat)) {
-    throw new Error('Invalid NEAR amount');
-  }
-  // Multiply by 10^24 and convert to string
-  const yoctoAmount = BigInt(Math.floor(amountFloat * 1e24));
-  return yoctoAmount.toString();
-};
-
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
-
-const THIRTY_TGAS = '30000000000000';
-const NO_DEPOSIT = '0';
-
-export interface Listing {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  purchase_number: number;
-  list_type: 'Image' | 'Dataset' | 'Audio' | 'Other';
-  cid: string;
-  is_active: boolean;
-}
-
-export const useMarketplaceListings = () => {
-  const { viewFunction, signAndSendTransaction, signedAccountId } = useNearWallet();
-  const [listings, setListings] = useState<Listing[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+/**
+ * Buy a listing with NEAR or cross-chain via 1Click.
+ * Used on its own by pages that show a single listing, so they don't page in the catalog.
+ */
+export const useBuyListing = () => {
+  const { signedAccountId } = useNearWallet();
+  const contract = useMarketplaceContract();
+  const queryClient = useQueryClient();
   const [buyingListingId, setBuyingListingId] = useState<number | null>(null);
   const [depositAddress, setDepositAddress] = useState<string | null>(null);
 
-  // Fetch listings from the contract
-  const fetchListings = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const result = await viewFunction({
-        contractId: MARKETPLACE_CONTRACT,
-        method: 'get_listings'
-      });
-      
-      console.log('Fetched listings:', result);
-      setListings(result as Listing[]);
-    } catch (err) {
-      console.error('Failed to fetch listings:', err);
-      setError('Failed to load listings from the blockchain');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Initial fetch on mount
-  useEffect(() => {
-    fetchListings();
-  }, [viewFunction]);
-
   /**
    * Handle direct NEAR payment
-   * Transfers NEAR to seller
+   * A single payable `buy` call - the contract checks the deposit against the
+   * listing price and forwards it to the seller atomically
    */
-  const handleNearDirectPayment = async (listing: Listing) => {
+  const handleNearDirectPayment = async (listing: Listing, novaAccountId: string) => {
     if (!signedAccountId) {
       throw new Error('Wallet not connected');
     }
 
-    // Convert price from cents to NEAR
-    // Assuming 1 NEAR = $1 (you may need to adjust this conversion rate)
-    const priceInDollars = listing.price / 100;
-    const amountInNear = priceInDollars.toString();
-    
-    // Convert to yoctoNEAR (1 NEAR = 10^24 yoctoNEAR)
-    const amountYocto = parseNearAmount(amountInNear);
+    const amountYocto = listingPriceToYocto(listing.price);
 
-    console.log(`💰 Direct NEAR payment: ${amountInNear} NEAR to ${listing.owner}`);
+    console.log(`💰 Direct NEAR payment: ${formatListingPrice(listing.price)} for listing ${listing.product_id}`);
     console.log(`   Amount in yoctoNEAR: ${amountYocto}`);
 
-    toast.info('Preparing NEAR transfer...');
-
-    // Transfer NEAR to seller
-    const transferResult = await signAndSendTransaction({
-      receiverId: listing.owner,
-      actions: [
-        {
-          type: 'Transfer',
-          params: {
-            deposit: amountYocto
-          }
-        }
-      ]
-    });
+    toast.info('Confirm the purchase in your NEAR wallet...');
 
-    console.log('✅ NEAR transfer successful:', transferResult);
-    toast.success(`Transferred ${amountInNear} NEAR to seller!`);
+    const buyResult = await contract.buy(
+      {
+        p_id: listing.product_id,
+        nova_account_id: novaAccountId
+      },
+      { deposit: amountYocto }
+    );
 
-    return transferResult;
+    console.log('✅ Marketplace purchase successful:', buyResult);
+    return buyResult;
   };
 
   /**
    * Handle cross-chain payment via 1Click intent
+   * The intent delivers exactly the listing price in wNEAR to the marketplace
+   * contract via ft_transfer_call; the contract records the purchase on receipt,
+   * so there is no separate (trusting) `buy` call
    */
   const handleCrossChainPayment = async (
     listing: Listing, 
-    options: BuyOptions
+    options: BuyOptions,
+    novaAccountId: string
   ) => {
     const { originBlockchain, originSymbol, refundTo } = options;
     const destBlockchain = 'near';
     const destSymbol = 'wNEAR';
-    const recipient = listing.owner; // Payment goes to listing owner on NEAR
+    const recipient = contract.contractId; // Contract settles and forwards to the listing owner
 
-    // Convert listing.price (cents) to human-readable amount
-    const usdcAmount = listing.price / 100;
-    const amount = usdcAmount.toString();
+    const purchaseMsg = JSON.stringify({
+      p_id: listing.product_id,
+      buyer: signedAccountId,
+      nova_account_id: novaAccountId,
+    });
 
     const { quote, depositAddress } = await dryRun(
       originBlockchain,
       originSymbol,
       destBlockchain,
       destSymbol,
-      amount,
+      listingPriceToYocto(listing.price),
       refundTo,
-      recipient
+      recipient,
+      {
+        swapType: QuoteRequest.swapType.EXACT_OUTPUT,
+        amountInSmallestUnits: true,
+        customRecipientMsg: purchaseMsg,
+      }
     );
 
+    // Origin amount the user has to send for the exact wNEAR output
+    const amount = quote.quote.amountInFormatted;
+
     console.log('1Click quote for marketplace purchase:', quote);
     console.log('1Click deposit address:', depositAddress);
     setDepositAddress(depositAddress || null);
@@ -202,7 +161,7 @@ export const useMarketplaceListings = () => {
     const status = await getExecutionStatus(depositAddress);
     console.log('1Click execution status:', status);
 
-    toast.success('Cross-chain payment completed!');
+    toast.success('Cross-chain payment submitted! Your purchase is recorded once the swap settles on NEAR.');
     console.log('Cross-chain payment flow completed.');
   };
 
@@ -233,46 +192,26 @@ export const useMarketplaceListings = () => {
       const { originBlockchain, originSymbol } = options;
       const isNearDirect = originBlockchain === 'near' && originSymbol === 'wNEAR';
 
-      // Execute payment based on method
+      // Execute payment based on method - both record the purchase on-chain
       if (isNearDirect) {
         // Direct NEAR payment
         console.log('🔷 Using direct NEAR payment method');
-        await handleNearDirectPayment(listing);
+        await handleNearDirectPayment(listing, novaCredentials.accountId);
       } else {
         // Cross-chain payment via 1Click
         console.log('🔷 Using cross-chain payment method');
-        await handleCrossChainPayment(listing, options);
+        await handleCrossChainPayment(listing, options, novaCredentials.accountId);
       }
 
-      // After payment is done (either method), call marketplace buy function ONCE
-      toast.info('Completing marketplace purchase...');
-      
-      const buyResult = await signAndSendTransaction({
-        receiverId: MARKETPLACE_CONTRACT,
-        actions: [
-          {
-            type: 'FunctionCall',
-            params: {
-              methodName: 'buy',
-              args: { 
-                p_id: listing.product_id,
-                nova_account_id: novaCredentials.accountId
-              },
-              gas: THIRTY_TGAS,
-              deposit: NO_DEPOSIT
-            }
-          }
-        ]
-      });
-
-      console.log('✅ Marketplace purchase successful:', buyResult);
       toast.success(`Successfully purchased Product #${listing.product_id}!`);
       toast.info('Owner will grant you NOVA access to decrypt the file');
 
-      // Refresh listings
-      await fetchListings();
-
-      return buyResult;
+      // Refresh the catalog and any open detail page or storefront
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: LISTINGS_QUERY_KEY }),
+        queryClient.invalidateQueries({ queryKey: LISTING_QUERY_KEY }),
+        queryClient.invalidateQueries({ queryKey: SELLER_PROFILE_QUERY_KEY }),
+      ]);
       
     } catch (err: any) {
       console.error('Failed to purchase:', err);
@@ -293,13 +232,36 @@ export const useMarketplaceListings = () => {
     }
   };
 
+  return { 
+    buyListing,
+    buyingListingId,
+    depositAddress,
+  };
+};
+
+export const useMarketplaceListings = () => {
+  // Listings are paged in through React Query instead of a full get_listings scan
+  const {
+    listings,
+    loading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refetchListings,
+  } = useInfiniteListings();
+  const { buyListing, buyingListingId, depositAddress } = useBuyListing();
+
   return { 
     listings, 
     loading, 
     error, 
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
     buyListing,
     buyingListingId,
     depositAddress,
-    refetchListings: fetchListings
+    refetchListings
   };
 };
\ No newline at end of file
@@ -2,25 +2,13 @@ import { useState, useEffect } from 'react';
 import { useNearWallet } from 'near-connect-hooks';
 import { toast } from 'sonner';
 import { getNovaCredentials } from '@/services/novaCredentialsService';
-
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
-
-const THIRTY_TGAS = '30000000000000';
-const NO_DEPOSIT = '0';
-
-export interface Listing {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  purchase_number: number;
-  list_type: 'Image' | 'Dataset' | 'Audio' | 'Other';
-  cid: string;
-  is_active: boolean;
-}
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { listingPriceToYocto } from '@/services/listingModel';
+import type { Listing } from '@/services/listingModel';
 
 export const useMarketplaceListings = () => {
-  const { viewFunction, signAndSendTransaction, signedAccountId } = useNearWallet();
+  const { signedAccountId } = useNearWallet();
+  const contract = useMarketplaceContract();
   const [listings, setListings] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,13 +20,10 @@ export const useMarketplaceListings = () => {
       setLoading(true);
       setError(null);
       
-      const result = await viewFunction({
-        contractId: MARKETPLACE_CONTRACT,
-        method: 'get_listings'
-      });
+      const result = await contract.getListings();
       
       console.log('Fetched listings:', result);
-      setListings(result as Listing[]);
+      setListings(result);
     } catch (err) {
       console.error('Failed to fetch listings:', err);
       setError('Failed to load listings from the blockchain');
@@ -50,7 +35,7 @@ export const useMarketplaceListings = () => {
   // Initial fetch on mount
   useEffect(() => {
     fetchListings();
-  }, [viewFunction]);
+  }, [contract]);
 
   // Buy listing function with all the logic
   const buyListing = async (listing: Listing) => {
@@ -76,23 +61,14 @@ export const useMarketplaceListings = () => {
     try {
       // Execute the buy transaction
       // NOW PASSING: nova_account_id so the contract can map NEAR wallet → NOVA account
-      const res = await signAndSendTransaction({
-        receiverId: MARKETPLACE_CONTRACT,
-        actions: [
-          {
-            type: 'FunctionCall',
-            params: {
-              methodName: 'buy',
-              args: { 
-                p_id: listing.product_id,
-                nova_account_id: novaCredentials.accountId  // NEW: Pass NOVA account ID
-              },
-              gas: THIRTY_TGAS,
-              deposit: NO_DEPOSIT
-            }
-          }
-        ]
-      });
+      // buy is payable: attach the exact listing price
+      const res = await contract.buy(
+        {
+          p_id: listing.product_id,
+          nova_account_id: novaCredentials.accountId  // NEW: Pass NOVA account ID
+        },
+        { deposit: listingPriceToYocto(listing.price) }
+      );
       
       console.log('Purchase transaction successful:', res);
       toast.success(`Successfully purchased Product #${listing.product_id}!`);
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMarketplaceContract } from './useMarketplaceContract';
+import { getSellerProfile } from '@/services/sellerProfileService';
+
+// Shared so a purchase can refresh an open storefront
+export const SELLER_PROFILE_QUERY_KEY = ['seller-profile'] as const;
+
+/**
+ * Load a seller's storefront (active listings and reputation).
+ * Works without a signed-in wallet.
+ */
+export const useSellerProfile = (accountId: string | undefined) => {
+  const contract = useMarketplaceContract();
+
+  const query = useQuery({
+    queryKey: [...SELLER_PROFILE_QUERY_KEY, contract.contractId, accountId],
+    queryFn: () => getSellerProfile(contract, accountId as string),
+    enabled: !!accountId,
+  });
+
+  return {
+    profile: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? 'Failed to load seller from the blockchain' : null,
+  };
+};
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { useNearWallet } from 'near-connect-hooks';
+
+export interface WalletGate {
+  /**
+   * Run `action` now if a wallet is connected. Otherwise ask the user to
+   * connect (explaining `reason`, e.g. "buy this item") and run it once they do.
+   */
+  requireWallet: (reason: string, action: () => void) => void;
+}
+
+// Provided by <ProtectedRoute soft>
+export const WalletGateContext = createContext<WalletGate | null>(null);
+
+/**
+ * Gate a single action behind a wallet connection.
+ * Outside a soft ProtectedRoute it falls back to opening the wallet selector.
+ */
+export const useWalletGate = (): WalletGate => {
+  const gate = useContext(WalletGateContext);
+  const { signedAccountId, signIn } = useNearWallet();
+
+  if (gate) return gate;
+  return {
+    requireWallet: (_reason, action) => (signedAccountId ? action() : signIn()),
+  };
+};
@@ -0,0 +1,397 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, Clock, Copy, Download, Eye, Link2, Lock, Search, ShieldCheck, Shield, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import PageTransition from '@/components/PageTransition';
+import GlowCard from '@/components/GlowCard';
+import CredibilityScore from '@/components/CredibilityScore';
+import StarRating from '@/components/StarRating';
+import ReviewForm from '@/components/ReviewForm';
+import UsageLicenseDetails from '@/components/UsageLicenseDetails';
+import { BuyModal } from '@/components/BuyModal';
+import { PreviewDialog } from '@/components/PreviewDialog';
+import { useListing } from '@/components/useListing';
+import { useListingReviews } from '@/components/useListingReviews';
+import { useLicenseExpiry } from '@/components/useLicenseExpiry';
+import { useMarketplaceContract } from '@/components/useMarketplaceContract';
+import { useBuyListing } from '@/components/useMarketplaceListingIntent';
+import { useWalletGate } from '@/components/useWalletGate';
+import { useLicenseReceiptSigner } from '@/components/useLicenseReceiptSigner';
+import {
+  formatFileSize,
+  formatListingPrice,
+  getAverageRating,
+  getListingTitle,
+  isBundle,
+  parseProductId,
+} from '@/services/listingModel';
+import { getViewerStatus } from '@/services/listingLifecycleService';
+import { canReview, submitReview } from '@/services/reviewService';
+import { retrieveAndDownloadFile } from '@/services/profileService';
+import { isNovaConfigured } from '@/services/novaService';
+import { useNearWallet } from 'near-connect-hooks';
+import { toast } from 'sonner';
+
+const ListingDetail = () => {
+  const { productId: productIdParam } = useParams();
+  const productId = parseProductId(productIdParam);
+  const { signedAccountId } = useNearWallet();
+  const signReceipt = useLicenseReceiptSigner();
+  const { requireWallet } = useWalletGate();
+  const contract = useMarketplaceContract();
+  const { listing, loading, error, refetchListing } = useListing(productId);
+  const { reviews, loading: reviewsLoading, refetchReviews } = useListingReviews(productId);
+  const { licenseExpiresAt, loading: licenseLoading } = useLicenseExpiry(listing, signedAccountId);
+  const { buyListing, buyingListingId } = useBuyListing();
+
+  const [buyModalOpen, setBuyModalOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [submittingReview, setSubmittingReview] = useState(false);
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success(`${label} copied to clipboard`);
+  };
+
+  const handleDownload = async () => {
+    if (!listing || !signedAccountId) return;
+    if (!isNovaConfigured(signedAccountId)) {
+      toast.error('NOVA not configured. Please set up your credentials.');
+      return;
+    }
+
+    setDownloading(true);
+    try {
+      await retrieveAndDownloadFile(listing, signedAccountId, signReceipt);
+    } catch (error) {
+      console.error('Download failed:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleSubmitReview = async (rating: number, text: string) => {
+    if (!listing) return;
+
+    setSubmittingReview(true);
+    try {
+      toast.info('Confirm the review in your NEAR wallet...');
+      await submitReview(listing.product_id, rating, text, contract);
+      toast.success(`Review posted for ${getListingTitle(listing)}`);
+      setReviewing(false);
+      await Promise.all([refetchReviews(), refetchListing()]);
+    } catch (error) {
+      toast.error(`Review failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-24">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent mb-4"></div>
+        <p className="text-muted-foreground">Loading listing from blockchain...</p>
+      </div>
+    );
+  }
+
+  if (error || !listing) {
+    return (
+      <PageTransition>
+        <div className="text-center py-24 px-4">
+          <div className="p-4 rounded-full bg-secondary inline-block mb-4">
+            {error ? <Lock className="h-8 w-8 text-red-500" /> : <Search className="h-8 w-8 text-muted-foreground" />}
+          </div>
+          <h3 className="text-lg font-semibold mb-2">{error ? 'Error Loading Listing' : 'Listing not found'}</h3>
+          <p className="text-muted-foreground mb-6">
+            {error ?? `There is no listing with product id ${productIdParam}.`}
+          </p>
+          <Link to="/marketplace">
+            <Button variant="outline" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Marketplace
+            </Button>
+          </Link>
+        </div>
+      </PageTransition>
+    );
+  }
+
+  const status = getViewerStatus(listing, signedAccountId);
+  const ownReview = reviews.find((review) => review.reviewer === signedAccountId) ?? null;
+  const reviewable =
+    !reviewsLoading && !licenseLoading && canReview(listing, signedAccountId, ownReview, licenseExpiresAt);
+
+  const { metadata } = listing;
+  const averageRating = getAverageRating(listing);
+  const bundle = isBundle(listing);
+  const fileFacts = [
+    { label: bundle ? 'Download name' : 'File name', value: metadata.file_name },
+    { label: 'Files', value: bundle ? `${metadata.file_count}, downloaded as one zip` : '' },
+    { label: 'Type', value: metadata.mime_type },
+    { label: bundle ? 'Total size' : 'Size', value: metadata.size > 0 ? formatFileSize(metadata.size) : '' },
+    { label: bundle ? 'Manifest hash' : 'File hash', value: metadata.file_hash, mono: true },
+  ].filter((fact) => fact.value);
+
+  return (
+    <PageTransition>
+      <div className="px-4 py-12 sm:px-6 lg:px-8">
+        <div className="mx-auto max-w-4xl">
+          <Link to="/marketplace" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+            <ArrowLeft className="h-4 w-4" />
+            Marketplace
+          </Link>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <div className="flex items-center gap-2 mb-3 flex-wrap">
+              <span className="px-2 py-1 rounded-md text-xs font-medium bg-primary/10 text-primary">
+                {listing.list_type}
+              </span>
+              {listing.is_tee_verified && listing.credibility_score !== null ? (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-green-500/10 text-green-400">
+                  <ShieldCheck className="h-3 w-3" />
+                  TEE Verified
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-gray-500/10 text-gray-400">
+                  <Shield className="h-3 w-3" />
+                  Unverified
+                </span>
+              )}
+              {!listing.is_active && (
+                <span className="px-2 py-1 rounded-md text-xs font-medium bg-gray-500/10 text-gray-400">
+                  Delisted
+                </span>
+              )}
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h1 className="text-3xl sm:text-4xl font-bold mb-2 break-words">{getListingTitle(listing)}</h1>
+                <p className="text-sm text-muted-foreground">Product #{listing.product_id}</p>
+                {averageRating !== null && (
+                  <StarRating value={averageRating} count={listing.review_count} className="mt-2" />
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 flex-shrink-0"
+                onClick={() => copyToClipboard(window.location.href, 'Link')}
+              >
+                <Link2 className="h-4 w-4" />
+                Share
+              </Button>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Details */}
+            <div className="md:col-span-2 space-y-6">
+              <GlowCard glowOnHover={false}>
+                <div className="space-y-4">
+                  <h2 className="text-lg font-semibold">About this item</h2>
+                  <p className="text-muted-foreground whitespace-pre-line">
+                    {listing.description || 'The seller has not added a description.'}
+                  </p>
+                  {metadata.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {metadata.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-secondary text-muted-foreground">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </GlowCard>
+
+              {fileFacts.length > 0 && (
+                <GlowCard glowOnHover={false}>
+                  <h2 className="text-lg font-semibold mb-4">File</h2>
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {fileFacts.map((fact) => (
+                      <div key={fact.label} className="min-w-0">
+                        <dt className="text-xs text-muted-foreground mb-1">{fact.label}</dt>
+                        <dd className={`text-sm truncate ${fact.mono ? 'font-mono' : ''}`}>{fact.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </GlowCard>
+              )}
+
+              <GlowCard glowOnHover={false}>
+                <h2 className="text-lg font-semibold mb-4">Usage rights</h2>
+                {listing.usage_license ? (
+                  <UsageLicenseDetails license={listing.usage_license} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    The seller has not attached a license. Ask them before using this file beyond personal use.
+                  </p>
+                )}
+              </GlowCard>
+
+              <GlowCard glowOnHover={false}>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <h2 className="text-lg font-semibold">Reviews</h2>
+                  {reviewable && !reviewing && (
+                    <Button variant="outline" size="sm" className="text-xs h-auto py-1 px-2 gap-1" onClick={() => setReviewing(true)}>
+                      <Star className="h-3 w-3" />
+                      Write a review
+                    </Button>
+                  )}
+                </div>
+                {reviewable && reviewing && (
+                  <div className="mb-4">
+                    <ReviewForm
+                      productId={listing.product_id}
+                      onSubmit={handleSubmitReview}
+                      onCancel={() => setReviewing(false)}
+                      submitting={submittingReview}
+                    />
+                  </div>
+                )}
+                {reviews.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No reviews yet. Buyers can review once the seller grants them access.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {reviews.map((review) => (
+                      <div key={review.reviewer} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <StarRating value={review.rating} />
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(review.created_at_ms).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {review.text && <p className="text-sm whitespace-pre-line">{review.text}</p>}
+                        <p className="text-xs text-muted-foreground font-mono truncate">{review.reviewer}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </GlowCard>
+
+              <GlowCard glowOnHover={false}>
+                <h2 className="text-lg font-semibold mb-4">Storage</h2>
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">NOVA Group</p>
+                    <p className="text-sm font-mono break-all">{listing.nova_group_id}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">CID</p>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-mono break-all">{listing.cid}</p>
+                      <Button variant="ghost" size="sm" className="h-auto p-1" onClick={() => copyToClipboard(listing.cid, 'CID')}>
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </GlowCard>
+            </div>
+
+            {/* Purchase */}
+            <div className="space-y-6">
+              <GlowCard glowOnHover={false}>
+                <div className="space-y-4">
+                  <div className="flex items-end justify-between">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Price</p>
+                      <p className="text-2xl font-bold text-primary">{formatListingPrice(listing.price)}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs text-muted-foreground">Purchases</p>
+                      <p className="font-semibold">{listing.purchase_number}</p>
+                    </div>
+                  </div>
+
+                  {listing.preview && (
+                    <Button variant="outline" className="w-full gap-2" onClick={() => setPreviewOpen(true)}>
+                      <Eye className="h-4 w-4" />
+                      Preview
+                    </Button>
+                  )}
+                  {status === 'none' && (
+                    <Button
+                      className="w-full gap-2"
+                      onClick={() => requireWallet('buy this item', () => setBuyModalOpen(true))}
+                      disabled={!listing.is_active || buyingListingId === listing.product_id}
+                    >
+                      <Download className="h-4 w-4" />
+                      {!listing.is_active ? 'No longer for sale' : buyingListingId === listing.product_id ? 'Processing...' : 'Buy'}
+                    </Button>
+                  )}
+                  {status === 'owner' && (
+                    <p className="text-sm text-muted-foreground">
+                      This is your listing. Manage it from your <Link to="/profile" className="text-primary underline">profile</Link>.
+                    </p>
+                  )}
+                  {status === 'pending' && (
+                    <div className="flex items-center gap-2 text-sm text-yellow-500">
+                      <Clock className="h-4 w-4" />
+                      Purchased - waiting for the seller to grant access
+                    </div>
+                  )}
+                  {status === 'granted' && (
+                    <>
+                      <div className="flex items-center gap-2 text-sm text-green-500">
+                        <CheckCircle className="h-4 w-4" />
+                        You have access to this file
+                      </div>
+                      <Button className="w-full gap-2" onClick={handleDownload} disabled={downloading}>
+                        <Download className="h-4 w-4" />
+                        {downloading ? 'Downloading...' : 'Download'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </GlowCard>
+
+              {listing.is_tee_verified && listing.credibility_score !== null && (
+                <CredibilityScore score={listing.credibility_score} />
+              )}
+
+              <GlowCard glowOnHover={false}>
+                <p className="text-xs text-muted-foreground mb-1">Seller</p>
+                <div className="flex items-center gap-2">
+                  <Link
+                    to={`/seller/${encodeURIComponent(listing.owner)}`}
+                    className="text-sm font-mono truncate hover:text-primary"
+                  >
+                    {listing.owner}
+                  </Link>
+                  <Button variant="ghost" size="sm" className="h-auto p-1" onClick={() => copyToClipboard(listing.owner, 'Seller account')}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              </GlowCard>
+            </div>
+          </div>
+
+          <BuyModal
+            open={buyModalOpen}
+            onOpenChange={setBuyModalOpen}
+            listing={listing}
+            onConfirm={(options) => buyListing(listing, options)}
+            isBuying={buyingListingId !== null}
+          />
+
+          <PreviewDialog open={previewOpen} onOpenChange={setPreviewOpen} listing={listing} />
+        </div>
+      </div>
+    </PageTransition>
+  );
+};
+
+export default ListingDetail;
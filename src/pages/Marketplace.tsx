@@ -1,13 +1,35 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Search, Filter, Grid, List, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import PageTransition from '@/components/PageTransition';
 import { useMarketplaceListings } from '@/components/useMarketplaceListingIntent';
+import { useAllListings } from '@/components/useInfiniteListings';
+import { useWalletGate } from '@/components/useWalletGate';
+import { useLicenseReceiptSigner } from '@/components/useLicenseReceiptSigner';
 import { ProductCard } from '@/components/ProductCard';
 import { BuyModal } from '@/components/BuyModal';
-import type { Listing } from '@/components/useMarketplaceListingIntent';
+import { PreviewDialog } from '@/components/PreviewDialog';
+import ListingFilterPanel from '@/components/ListingFilterPanel';
+import type { Listing } from '@/services/listingModel';
+import { isListingVisibleTo } from '@/services/listingLifecycleService';
+import {
+  DEFAULT_LISTING_FILTERS,
+  LISTING_SORT_LABELS,
+  applyListingFilters,
+  countActiveFilters,
+  needsFullCatalog,
+  parseListingFilters,
+  serializeListingFilters,
+} from '@/services/listingFilterService';
+import type { ListingFilters, ListingSort } from '@/services/listingFilterService';
+import { retrieveAndDownloadFile } from '@/services/profileService';
+import { isNovaConfigured } from '@/services/novaService';
+import { useNearWallet } from 'near-connect-hooks';
+import { toast } from 'sonner';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -29,16 +51,58 @@ const itemVariants = {
 };
 
 const Marketplace = () => {
-  const [searchQuery, setSearchQuery] = useState('');
+  const { signedAccountId } = useNearWallet();
+  const signReceipt = useLicenseReceiptSigner();
+  const { requireWallet } = useWalletGate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [buyModalOpen, setBuyModalOpen] = useState(false);
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const [previewListing, setPreviewListing] = useState<Listing | null>(null);
+  const [downloadingListingId, setDownloadingListingId] = useState<number | null>(null);
 
-  const { listings, loading, error, buyListing, buyingListingId } = useMarketplaceListings();
+  // Filters live in the query string so a search can be shared
+  const filters = useMemo(() => parseListingFilters(searchParams), [searchParams]);
+  const activeFilterCount = countActiveFilters(filters);
 
+  const paged = useMarketplaceListings();
+  const { buyListing, buyingListingId } = paged;
+
+  // Searching, filtering or re-sorting only a few pages would miss matches, so load them all
+  const fullCatalog = needsFullCatalog(filters);
+  const all = useAllListings(fullCatalog);
+  const { listings, loading, error } = fullCatalog ? all : paged;
+  const hasNextPage = !fullCatalog && paged.hasNextPage;
+  const isFetchingNextPage = !fullCatalog && paged.isFetchingNextPage;
+  const { fetchNextPage } = paged;
+
+  // Infinite scroll: load the next page when the sentinel below the grid comes into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Browsing is anonymous; the wallet is only asked for when buying
   const handleBuyClick = (listing: Listing) => {
-    setSelectedListing(listing);
-    setBuyModalOpen(true);
+    requireWallet('buy this item', () => {
+      setSelectedListing(listing);
+      setBuyModalOpen(true);
+    });
   };
 
   const handleBuyConfirm = (options: Parameters<typeof buyListing>[1]) => {
@@ -46,12 +110,55 @@ const Marketplace = () => {
     buyListing(selectedListing, options);
   };
 
-  const filteredListings = listings.filter(
-    (listing) =>
-      listing.is_active && (
-        listing.nova_group_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        listing.cid.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+  // Past buyers can still download a listing after the seller deactivates it
+  const handleDownload = async (listing: Listing) => {
+    if (!signedAccountId || !isNovaConfigured(signedAccountId)) {
+      toast.error('NOVA not configured. Please set up your credentials.');
+      return;
+    }
+
+    setDownloadingListingId(listing.product_id);
+    try {
+      await retrieveAndDownloadFile(listing, signedAccountId, signReceipt);
+    } catch (error) {
+      console.error('Download failed:', error);
+    } finally {
+      setDownloadingListingId(null);
+    }
+  };
+
+  const updateFilters = (changes: Partial<ListingFilters>) => {
+    setSearchParams(serializeListingFilters({ ...filters, ...changes }), { replace: true });
+  };
+
+  const resetFilters = () => {
+    setSearchParams(serializeListingFilters({ ...DEFAULT_LISTING_FILTERS, query: filters.query, sort: filters.sort }), {
+      replace: true,
+    });
+  };
+
+  const filteredListings = useMemo(
+    () =>
+      applyListingFilters(
+        listings.filter((listing) => isListingVisibleTo(listing, signedAccountId)),
+        filters,
+        signedAccountId
+      ),
+    [listings, filters, signedAccountId]
+  );
+  const isFiltered = filters.query !== '' || activeFilterCount > 0;
+
+  const renderCard = (listing: Listing) => (
+    <ProductCard
+      listing={listing}
+      onBuy={handleBuyClick}
+      onPreview={setPreviewListing}
+      isBuying={buyingListingId === listing.product_id}
+      purchased={!!signedAccountId && listing.buyers.includes(signedAccountId)}
+      hasAccess={!!signedAccountId && listing.buyers_with_access.includes(signedAccountId)}
+      onDownload={handleDownload}
+      isDownloading={downloadingListingId === listing.product_id}
+    />
   );
 
   return (
@@ -82,16 +189,33 @@ const Marketplace = () => {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by group ID or CID..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by title, tag, description or file name..."
+                value={filters.query}
+                onChange={(e) => updateFilters({ query: e.target.value })}
                 className="pl-10"
               />
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" className="gap-2">
+              <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as ListingSort })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LISTING_SORT_LABELS).map(([sort, label]) => (
+                    <SelectItem key={sort} value={sort}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant={showFilters ? 'default' : 'outline'}
+                className="gap-2"
+                onClick={() => setShowFilters((open) => !open)}
+              >
                 <Filter className="h-4 w-4" />
                 Filter
+                {activeFilterCount > 0 && (
+                  <span className="rounded-full bg-primary/20 px-1.5 text-xs">{activeFilterCount}</span>
+                )}
               </Button>
               <div className="flex border border-border rounded-lg overflow-hidden">
                 <Button
@@ -114,6 +238,23 @@ const Marketplace = () => {
             </div>
           </motion.div>
 
+          {(showFilters || activeFilterCount > 0) && (
+            <div className="mb-8 -mt-4">
+              {showFilters ? (
+                <ListingFilterPanel
+                  filters={filters}
+                  onChange={updateFilters}
+                  onReset={resetFilters}
+                  signedIn={!!signedAccountId}
+                />
+              ) : (
+                <button className="text-xs text-muted-foreground hover:text-foreground" onClick={resetFilters}>
+                  {activeFilterCount} filter{activeFilterCount === 1 ? '' : 's'} active · clear
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Loading State */}
           {loading && (
             <div className="text-center py-16">
@@ -143,11 +284,7 @@ const Marketplace = () => {
             >
               {filteredListings.map((listing) => (
                 <motion.div key={listing.product_id} variants={itemVariants}>
-                  <ProductCard
-                    listing={listing}
-                    onBuy={handleBuyClick}
-                    isBuying={buyingListingId === listing.product_id}
-                  />
+                  {renderCard(listing)}
                 </motion.div>
               ))}
             </motion.div>
@@ -161,6 +298,12 @@ const Marketplace = () => {
             isBuying={!!buyingListingId}
           />
 
+          <PreviewDialog
+            open={previewListing !== null}
+            onOpenChange={(open) => !open && setPreviewListing(null)}
+            listing={previewListing}
+          />
+
           {/* Items List */}
           {!loading && !error && viewMode === 'list' && (
             <motion.div
@@ -171,18 +314,23 @@ const Marketplace = () => {
             >
               {filteredListings.map((listing) => (
                 <motion.div key={listing.product_id} variants={itemVariants}>
-                  <ProductCard
-                    listing={listing}
-                    onBuy={handleBuyClick}
-                    isBuying={buyingListingId === listing.product_id}
-                  />
+                  {renderCard(listing)}
                 </motion.div>
               ))}
             </motion.div>
           )}
 
+          {/* Infinite scroll sentinel */}
+          {!loading && !error && (
+            <div ref={loadMoreRef} className="py-8 text-center">
+              {isFetchingNextPage && (
+                <div className="inline-block h-6 w-6 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              )}
+            </div>
+          )}
+
           {/* Empty State */}
-          {!loading && !error && filteredListings.length === 0 && (
+          {!loading && !error && !hasNextPage && filteredListings.length === 0 && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -192,10 +340,10 @@ const Marketplace = () => {
                 <Search className="h-8 w-8 text-muted-foreground" />
               </div>
               <h3 className="text-lg font-semibold mb-2">
-                {searchQuery ? 'No results found' : 'No listings available'}
+                {isFiltered ? 'No results found' : 'No listings available'}
               </h3>
               <p className="text-muted-foreground">
-                {searchQuery 
+                {isFiltered 
                   ? 'Try adjusting your search or filters' 
                   : 'Be the first to create a listing!'}
               </p>
@@ -1,9 +1,21 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { User, Wallet, Shield, Activity, Copy, ExternalLink, RefreshCw, AlertCircle, Package, ShoppingCart, TrendingUp, Clock, CheckCircle, XCircle, Download, Loader2, UserPlus, TestTube } from 'lucide-react';
+import { User, Wallet, Shield, Activity, Copy, ExternalLink, RefreshCw, AlertCircle, Package, ShoppingCart, TrendingUp, Clock, CheckCircle, XCircle, Download, Loader2, UserPlus, TestTube, Pencil, Power, PowerOff, Star, Flag, Gavel, ShieldCheck, ShieldAlert, ShieldQuestion, Hourglass } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import PageTransition from '@/components/PageTransition';
 import GlowCard from '@/components/GlowCard';
+import EscrowCountdown from '@/components/EscrowCountdown';
+import AccessReconciliationPanel from '@/components/AccessReconciliationPanel';
+import AccessJobTable from '@/components/AccessJobTable';
+import ListingEditForm from '@/components/ListingEditForm';
+import ReviewForm from '@/components/ReviewForm';
+import StarRating from '@/components/StarRating';
+import DisputePanel from '@/components/DisputePanel';
+import OpenDisputeForm from '@/components/OpenDisputeForm';
+import LicenseCountdown from '@/components/LicenseCountdown';
+import { useExpiredLicenses } from '@/components/useExpiredLicenses';
+import { useLicenseReceiptSigner } from '@/components/useLicenseReceiptSigner';
 import { isNovaConfigured, getBalance, authStatus, getNetworkInfo, getTransactionsForGroup } from '@/services/novaService';
 import { 
   getUserProfileData,
@@ -12,15 +24,50 @@ import {
   PurchasedItemWithAccessInfo,
   retrieveAndDownloadFile 
 } from '@/services/profileService';
+import { getDownloadVerification } from '@/services/integrityService';
+import type { DownloadVerification } from '@/services/integrityService';
 import { 
   grantAccessToAllPendingBuyers,
+  revokeAccessForBuyers,
   testGrantAccessContractOnly
 } from '@/services/buyerAccessService';
+import { claimRefund, getPurchaseEscrow } from '@/services/escrowService';
+import {
+  addDisputeNote,
+  closeStaleDispute,
+  getArbiter,
+  getDisputeRole,
+  getOpenDisputes,
+  getSellerRefundDeposit,
+  openDispute,
+  refundDispute,
+  resolveDispute,
+  withdrawDispute,
+} from '@/services/disputeService';
+import type { ContractDispute } from '@/services/marketplaceContract';
+import { canReview, submitReview } from '@/services/reviewService';
+import { canRenewLicense, groupExpiredLicenses, renewLicense } from '@/services/licenseService';
+import { deactivateListing, reactivateListing, updateListing } from '@/services/listingLifecycleService';
+import type { ListingChanges } from '@/services/listingLifecycleService';
+import {
+  DEFAULT_ACCESS_JOB_CONCURRENCY,
+  countBuyerStates,
+  getLatestAccessJobs,
+  retryFailedBuyers,
+  runAccessJob,
+} from '@/services/accessJobService';
+import type { AccessJob, AccessJobEvent } from '@/services/accessJobService';
+import { accessJobStore } from '@/services/accessJobStore';
+import { getFingerprintSource } from '@/services/fingerprintService';
 import { useNearWallet } from 'near-connect-hooks';
+import { useMarketplaceContract } from '@/components/useMarketplaceContract';
+import { formatLicense, formatListingPrice, getListingTitle, isTimeLimitedLicense } from '@/services/listingModel';
 import { toast } from 'sonner';
 
 const Profile = () => {
-  const { viewFunction, signedAccountId, callFunction } = useNearWallet();
+  const { signedAccountId } = useNearWallet();
+  const signReceipt = useLicenseReceiptSigner();
+  const contract = useMarketplaceContract();
   
   const [isConfigured, setIsConfigured] = useState(false);
   const [balance, setBalance] = useState<string | null>(null);
@@ -40,8 +87,33 @@ const Profile = () => {
   const [grantingAccessProductId, setGrantingAccessProductId] = useState<number | null>(null);
   const [testingAccessProductId, setTestingAccessProductId] = useState<number | null>(null);
   
+  // Batch access jobs (latest per product, restored from IndexedDB)
+  const [accessJobs, setAccessJobs] = useState<Record<number, AccessJob>>({});
+  const [jobConcurrency, setJobConcurrency] = useState(DEFAULT_ACCESS_JOB_CONCURRENCY);
+  const [revokingExpired, setRevokingExpired] = useState(false);
+  
+  // Listing edit / activation state
+  const [editingProductId, setEditingProductId] = useState<number | null>(null);
+  const [updatingProductId, setUpdatingProductId] = useState<number | null>(null);
+  
   // Download state
   const [downloadingProductId, setDownloadingProductId] = useState<number | null>(null);
+  
+  // Refund state
+  const [refundingProductId, setRefundingProductId] = useState<number | null>(null);
+
+  // License renewal state
+  const [renewingProductId, setRenewingProductId] = useState<number | null>(null);
+
+  // Review form state
+  const [reviewingProductId, setReviewingProductId] = useState<number | null>(null);
+  const [submittingReviewProductId, setSubmittingReviewProductId] = useState<number | null>(null);
+
+  // Dispute state; busy key is `${product_id}:${buyer}`
+  const [disputingProductId, setDisputingProductId] = useState<number | null>(null);
+  const [busyDisputeKey, setBusyDisputeKey] = useState<string | null>(null);
+  const [arbiter, setArbiter] = useState<string | null>(null);
+  const [arbitrationQueue, setArbitrationQueue] = useState<ContractDispute[]>([]);
 
 
   useEffect(() => {
@@ -57,12 +129,23 @@ const Profile = () => {
     }
   }, [signedAccountId]);
 
+  // Restore batch jobs left over from earlier visits (interrupted ones can be resumed)
+  useEffect(() => {
+    if (!signedAccountId) return;
+    getLatestAccessJobs(signedAccountId)
+      .then(setAccessJobs)
+      .catch((e) => console.warn('Could not load saved access jobs:', e));
+  }, [signedAccountId]);
+
   // Fetch marketplace stats when user connects wallet
   useEffect(() => {
-    if (signedAccountId && viewFunction) {
+    if (signedAccountId) {
       fetchMarketplaceStats();
     }
-  }, [signedAccountId, viewFunction]);
+  }, [signedAccountId, contract]);
+
+  // Lapsed licenses on the seller's own listings, revoked on request (each needs a signature)
+  const expiredLicenses = useExpiredLicenses(createdListings);
 
   const fetchAccountInfo = async () => {
     if (!isConfigured) return;
@@ -85,17 +168,22 @@ const Profile = () => {
   };
 
   const fetchMarketplaceStats = async () => {
-    if (!signedAccountId || !viewFunction) return;
+    if (!signedAccountId) return;
     
     setLoadingStats(true);
     try {
       // Use the comprehensive profile data function
-      const profileData = await getUserProfileData(viewFunction, signedAccountId);
+      const profileData = await getUserProfileData(contract, signedAccountId);
       
       setUserStats(profileData.stats);
       setCreatedListings(profileData.createdListings);
       setPurchasedItems(profileData.purchasedItems);
       
+      // The arbiter also sees every open dispute on the marketplace
+      const currentArbiter = await getArbiter(contract);
+      setArbiter(currentArbiter);
+      setArbitrationQueue(currentArbiter === signedAccountId ? await getOpenDisputes(contract) : []);
+      
     } catch (e: any) {
       console.error('Failed to fetch marketplace stats:', e);
       toast.error('Failed to load marketplace data');
@@ -131,17 +219,166 @@ const Profile = () => {
     setDownloadingProductId(item.product_id);
     
     try {
-      await retrieveAndDownloadFile(
-        item.nova_group_id,
-        item.cid,
-        item.product_id,
-        item.list_type,
-        signedAccountId
-      );
+      await retrieveAndDownloadFile(item, signedAccountId, signReceipt);
     } catch (error) {
       console.error('Download failed:', error);
     } finally {
       setDownloadingProductId(null);
+      // Show the hash check of this download, pass or fail
+      const verification = getDownloadVerification(signedAccountId, item.product_id);
+      setPurchasedItems((items) =>
+        items.map((i) => (i.product_id === item.product_id ? { ...i, verification } : i))
+      );
+    }
+  };
+
+  const handleClaimRefund = async (item: PurchasedItemWithAccessInfo) => {
+    setRefundingProductId(item.product_id);
+    
+    try {
+      toast.info('Confirm the refund in your NEAR wallet...');
+      await claimRefund(item.product_id, contract);
+      toast.success(`Refund claimed for Product #${item.product_id}`);
+      
+      // The purchase is removed on-chain, refresh the list
+      await fetchMarketplaceStats();
+      
+    } catch (error) {
+      toast.error(`Refund failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRefundingProductId(null);
+    }
+  };
+
+  const handleRenewLicense = async (item: PurchasedItemWithAccessInfo) => {
+    setRenewingProductId(item.product_id);
+    
+    try {
+      toast.info(`Confirm the ${formatListingPrice(item.price)} renewal in your NEAR wallet...`);
+      await renewLicense(item, contract);
+      toast.success(`License renewed for ${getListingTitle(item)}`);
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Renewal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRenewingProductId(null);
+    }
+  };
+
+  const handleSubmitReview = async (item: PurchasedItemWithAccessInfo, rating: number, text: string) => {
+    setSubmittingReviewProductId(item.product_id);
+    
+    try {
+      toast.info('Confirm the review in your NEAR wallet...');
+      await submitReview(item.product_id, rating, text, contract);
+      toast.success(`Review posted for ${getListingTitle(item)}`);
+      setReviewingProductId(null);
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Review failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSubmittingReviewProductId(null);
+    }
+  };
+
+  const disputeKey = (dispute: Pick<ContractDispute, 'p_id' | 'buyer'>) => `${dispute.p_id}:${dispute.buyer}`;
+
+  // Runs one dispute action with a wallet prompt, then reloads everything
+  const runDisputeAction = async (
+    dispute: Pick<ContractDispute, 'p_id' | 'buyer'>,
+    action: () => Promise<void>,
+    successMessage: string
+  ) => {
+    setBusyDisputeKey(disputeKey(dispute));
+    
+    try {
+      toast.info('Confirm in your NEAR wallet...');
+      await action();
+      toast.success(successMessage);
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Dispute update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyDisputeKey(null);
+    }
+  };
+
+  const handleOpenDispute = async (item: PurchasedItemWithAccessInfo, reason: string) => {
+    if (!signedAccountId) return;
+    await runDisputeAction(
+      { p_id: item.product_id, buyer: signedAccountId },
+      async () => {
+        await openDispute(item.product_id, reason, contract);
+        setDisputingProductId(null);
+      },
+      `Dispute opened for ${getListingTitle(item)}`
+    );
+  };
+
+  const handleDisputeNote = (dispute: ContractDispute, note: string) =>
+    runDisputeAction(dispute, () => addDisputeNote(dispute, note, contract), 'Reply added');
+
+  const handleWithdrawDispute = (dispute: ContractDispute) =>
+    runDisputeAction(dispute, () => withdrawDispute(dispute.p_id, contract), 'Dispute withdrawn');
+
+  // A payment already released to the seller has to be attached again
+  const handleRefundDispute = (listing: ListingWithAccessInfo, dispute: ContractDispute) =>
+    runDisputeAction(
+      dispute,
+      async () => {
+        const escrow = await getPurchaseEscrow(dispute.p_id, dispute.buyer, contract);
+        const deposit = getSellerRefundDeposit(escrow, listing);
+        if (deposit !== '0') {
+          toast.info('The payment was already released to you, so the refund is attached from your wallet');
+        }
+        await refundDispute(dispute, deposit, contract);
+      },
+      `Refunded ${dispute.buyer}`
+    );
+
+  const handleCloseStaleDispute = (dispute: ContractDispute) =>
+    runDisputeAction(dispute, () => closeStaleDispute(dispute, contract), 'Dispute closed');
+
+  const handleResolveDispute = (dispute: ContractDispute, refund: boolean, note: string) =>
+    runDisputeAction(
+      dispute,
+      () => resolveDispute(dispute, refund, note, contract),
+      refund ? 'Buyer refunded from escrow' : 'Dispute resolved for the seller'
+    );
+
+  const handleSaveListing = async (listing: ListingWithAccessInfo, changes: ListingChanges) => {
+    setUpdatingProductId(listing.product_id);
+    
+    try {
+      toast.info('Confirm the update in your NEAR wallet...');
+      const changed = await updateListing(listing, changes, contract);
+      toast.success(changed ? `Product #${listing.product_id} updated` : 'Nothing to update');
+      setEditingProductId(null);
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setUpdatingProductId(null);
+    }
+  };
+
+  const handleToggleActive = async (listing: ListingWithAccessInfo) => {
+    setUpdatingProductId(listing.product_id);
+    
+    try {
+      toast.info('Confirm in your NEAR wallet...');
+      if (listing.is_active) {
+        await deactivateListing(listing.product_id, contract);
+        toast.success(`Product #${listing.product_id} removed from the marketplace`);
+      } else {
+        await reactivateListing(listing.product_id, contract);
+        toast.success(`Product #${listing.product_id} is on sale again`);
+      }
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Failed to update listing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setUpdatingProductId(null);
     }
   };
 
@@ -151,7 +388,7 @@ const Profile = () => {
       return;
     }
 
-    if (!callFunction || !viewFunction) {
+    if (!signedAccountId) {
       toast.error('Wallet not connected');
       return;
     }
@@ -167,24 +404,18 @@ const Profile = () => {
       toast.info(`Granting access to ${listing.pendingBuyers} buyer(s)...`);
       
       // Use the service function for full grant access (NOVA + Contract)
-      const result = await grantAccessToAllPendingBuyers(
+      const job = await grantAccessToAllPendingBuyers(
         listing.product_id,
         listing.nova_group_id,
-        viewFunction,
-        callFunction,
+        contract,
         signedAccountId!,
-        (current, total, nearWallet, novaId) => {
-          toast.info(`Processing ${current}/${total}: ${nearWallet}`);
-        }
+        trackAccessJob,
+        jobConcurrency,
+        getFingerprintSource(listing)
       );
       
-      if (result.success.length > 0) {
-        toast.success(`✅ Granted access to ${result.success.length} buyer(s)`);
-      }
-      
-      if (result.failed.length > 0) {
-        toast.error(`❌ Failed to grant access to ${result.failed.length} buyer(s)`);
-        console.error('Failed buyers:', result.failed);
+      if (job) {
+        reportJobResult(job);
       }
       
       // Refresh listings to show updated status
@@ -198,8 +429,74 @@ const Profile = () => {
     }
   };
 
+  // Copy the mutated job so React re-renders the table on every step
+  const trackAccessJob = (event: AccessJobEvent) => {
+    const { job } = event;
+    setAccessJobs((prev) => ({
+      ...prev,
+      [job.productId]: { ...job, buyers: job.buyers.map((entry) => ({ ...entry })) },
+    }));
+  };
+
+  const reportJobResult = (job: AccessJob) => {
+    const counts = countBuyerStates(job);
+    const verb = job.action === 'grant' ? 'Granted access to' : 'Revoked access from';
+    if (counts.contract_updated > 0) {
+      toast.success(`✅ ${verb} ${counts.contract_updated} buyer(s)`);
+    }
+    if (counts.skipped > 0) {
+      toast.info(`${counts.skipped} buyer(s) were refunded before the grant and were skipped`);
+    }
+    if (counts.failed > 0) {
+      toast.error(`❌ ${counts.failed} buyer(s) failed - see the job table to retry`);
+    }
+  };
+
+  const continueAccessJob = async (job: AccessJob, retryFailed: boolean) => {
+    setGrantingAccessProductId(job.productId);
+    try {
+      const finished = retryFailed
+        ? await retryFailedBuyers(job, contract, { onEvent: trackAccessJob })
+        : await runAccessJob(job, contract, { onEvent: trackAccessJob });
+      reportJobResult(finished);
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Access job failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setGrantingAccessProductId(null);
+    }
+  };
+
+  // One revoke_buyer_access_many job per listing; failures stay in the job table to retry
+  const handleRevokeExpiredLicenses = async () => {
+    if (!signedAccountId) return;
+    setRevokingExpired(true);
+    try {
+      for (const { productId, novaGroupId, buyers } of groupExpiredLicenses(expiredLicenses)) {
+        const job = await revokeAccessForBuyers(
+          productId, novaGroupId, buyers, contract, signedAccountId, trackAccessJob, jobConcurrency
+        );
+        reportJobResult(job);
+      }
+      await fetchMarketplaceStats();
+    } catch (error) {
+      toast.error(`Failed to revoke expired licenses: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRevokingExpired(false);
+    }
+  };
+
+  const handleDismissJob = async (job: AccessJob) => {
+    setAccessJobs((prev) => {
+      const next = { ...prev };
+      delete next[job.productId];
+      return next;
+    });
+    await accessJobStore.delete(job.id).catch((e) => console.warn('Failed to delete access job:', e));
+  };
+
   const handleTestGrantAccess = async (listing: ListingWithAccessInfo) => {
-    if (!callFunction || !viewFunction) {
+    if (!signedAccountId) {
       toast.error('Wallet not connected');
       return;
     }
@@ -217,8 +514,7 @@ const Profile = () => {
       // Use the service function for test grant access
       const result = await testGrantAccessContractOnly(
         listing.product_id,
-        viewFunction,
-        callFunction,
+        contract,
         (current, total, nearWallet, novaId) => {
           toast.info(`Processing ${current}/${total}: ${nearWallet}`);
         }
@@ -275,7 +571,7 @@ const Profile = () => {
     toast.success(`${label} copied to clipboard`);
   };
 
-  const getAccessBadge = (accessStatus: 'pending' | 'granted' | 'unknown') => {
+  const getAccessBadge = (accessStatus: PurchasedItemWithAccessInfo['accessStatus']) => {
     switch (accessStatus) {
       case 'granted':
         return (
@@ -291,6 +587,13 @@ const Profile = () => {
             Pending Access
           </div>
         );
+      case 'expired':
+        return (
+          <div className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-orange-500/20 text-orange-500">
+            <Hourglass className="h-3 w-3" />
+            License Expired
+          </div>
+        );
       case 'unknown':
         return (
           <div className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-gray-500/20 text-gray-500">
@@ -301,6 +604,33 @@ const Profile = () => {
     }
   };
 
+  const getVerificationBadge = (verification: DownloadVerification) => {
+    const checkedAt = `Last download checked ${new Date(verification.checkedAt).toLocaleString()}`;
+    switch (verification.status) {
+      case 'verified':
+        return (
+          <div title={checkedAt} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-green-500/20 text-green-500">
+            <ShieldCheck className="h-3 w-3" />
+            Verified
+          </div>
+        );
+      case 'mismatch':
+        return (
+          <div title={checkedAt} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-500">
+            <ShieldAlert className="h-3 w-3" />
+            Hash mismatch
+          </div>
+        );
+      case 'unverified':
+        return (
+          <div title={checkedAt} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-gray-500/20 text-gray-500">
+            <ShieldQuestion className="h-3 w-3" />
+            Unverified
+          </div>
+        );
+    }
+  };
+
   return (
     <PageTransition>
       <div className="px-4 py-12 sm:px-6 lg:px-8">
@@ -376,7 +706,7 @@ const Profile = () => {
                     <div>
                       <p className="text-sm text-muted-foreground mb-1">Total Spent</p>
                       <p className="text-3xl font-bold text-primary">
-                        {loadingStats ? '...' : userStats?.totalSpent || 0} <span className="text-lg">NEAR</span>
+                        {loadingStats ? '...' : formatListingPrice(userStats?.totalSpent || 0)}
                       </p>
                     </div>
                     <div className="p-3 rounded-lg bg-primary/10">
@@ -402,6 +732,34 @@ const Profile = () => {
                     <Package className="h-5 w-5 text-primary" />
                   </div>
                   <h2 className="text-lg font-semibold">Your Listings</h2>
+                  <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+                    Parallel grants
+                    <select
+                      className="rounded border border-border bg-secondary px-1 py-0.5"
+                      value={jobConcurrency}
+                      onChange={(e) => setJobConcurrency(Number(e.target.value))}
+                    >
+                      {[1, 2, 3, 5].map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {expiredLicenses.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs h-auto py-1 px-2"
+                      onClick={handleRevokeExpiredLicenses}
+                      disabled={revokingExpired || !isConfigured}
+                    >
+                      {revokingExpired ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <Hourglass className="h-3 w-3 mr-1" />
+                      )}
+                      Revoke {expiredLicenses.length} expired license{expiredLicenses.length === 1 ? '' : 's'}
+                    </Button>
+                  )}
                 </div>
                 <div className="space-y-2 max-h-96 overflow-y-auto">
                   {createdListings.map((listing) => (
@@ -412,23 +770,86 @@ const Profile = () => {
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1">
-                            <span className="font-medium">Product #{listing.product_id}</span>
+                            <Link to={`/listing/${listing.product_id}`} className="font-medium truncate hover:text-primary hover:underline">
+                              {getListingTitle(listing)}
+                            </Link>
                             <span className="text-xs px-2 py-0.5 rounded bg-primary/20 text-primary">
                               {listing.list_type}
                             </span>
+                            {isTimeLimitedLicense(listing.license) && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-500">
+                                {formatLicense(listing.license)}
+                              </span>
+                            )}
+                            {!listing.is_active && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-gray-500/20 text-gray-500">
+                                Inactive
+                              </span>
+                            )}
+                            {listing.fingerprint && (
+                              <Link
+                                to={`/verify?product=${listing.product_id}`}
+                                title="Trace a leaked copy back to its buyer"
+                                className="text-xs px-2 py-0.5 rounded bg-purple-500/20 text-purple-500 hover:underline"
+                              >
+                                Fingerprinted
+                              </Link>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground font-mono truncate">
                             {listing.nova_group_id}
                           </p>
+                          {listing.description && (
+                            <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                              {listing.description}
+                            </p>
+                          )}
                         </div>
                         <div className="text-right ml-4">
-                          <p className="font-semibold text-primary">{listing.price} NEAR</p>
+                          <p className="font-semibold text-primary">{formatListingPrice(listing.price)}</p>
                           <p className="text-xs text-muted-foreground">
                             {listing.purchase_number} {listing.purchase_number === 1 ? 'sale' : 'sales'}
                           </p>
+                          <div className="flex justify-end gap-1 mt-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs h-auto p-1"
+                              onClick={() => setEditingProductId(editingProductId === listing.product_id ? null : listing.product_id)}
+                              disabled={updatingProductId === listing.product_id}
+                            >
+                              <Pencil className="h-3 w-3 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs h-auto p-1"
+                              onClick={() => handleToggleActive(listing)}
+                              disabled={updatingProductId === listing.product_id}
+                            >
+                              {updatingProductId === listing.product_id && editingProductId !== listing.product_id ? (
+                                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              ) : listing.is_active ? (
+                                <PowerOff className="h-3 w-3 mr-1" />
+                              ) : (
+                                <Power className="h-3 w-3 mr-1" />
+                              )}
+                              {listing.is_active ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          </div>
                         </div>
                       </div>
                       
+                      {editingProductId === listing.product_id && (
+                        <ListingEditForm
+                          listing={listing}
+                          onSave={(changes) => handleSaveListing(listing, changes)}
+                          onCancel={() => setEditingProductId(null)}
+                          saving={updatingProductId === listing.product_id}
+                        />
+                      )}
+                      
                       {/* Buyer Access Status */}
                       {listing.buyers.length > 0 && (
                         <div className="pt-2 border-t border-border/50">
@@ -485,6 +906,32 @@ const Profile = () => {
                           )}
                         </div>
                       )}
+                      
+                      {/* Latest batch job with per-buyer state */}
+                      {accessJobs[listing.product_id] && (
+                        <AccessJobTable
+                          job={accessJobs[listing.product_id]}
+                          onResume={(job) => continueAccessJob(job, false)}
+                          onRetryFailed={(job) => continueAccessJob(job, true)}
+                          onDismiss={handleDismissJob}
+                          disabled={grantingAccessProductId !== null || !isConfigured}
+                        />
+                      )}
+                      
+                      {/* Open disputes from buyers of this listing */}
+                      {listing.disputes
+                        .filter((dispute) => dispute.status === 'Open')
+                        .map((dispute) => (
+                          <DisputePanel
+                            key={dispute.buyer}
+                            dispute={dispute}
+                            role="seller"
+                            onNote={(note) => handleDisputeNote(dispute, note)}
+                            onRefund={() => handleRefundDispute(listing, dispute)}
+                            onCloseStale={() => handleCloseStaleDispute(dispute)}
+                            busy={busyDisputeKey === disputeKey(dispute)}
+                          />
+                        ))}
                     </div>
                   ))}
                 </div>
@@ -492,6 +939,72 @@ const Profile = () => {
             </motion.div>
           )}
 
+          {/* Arbitration queue, only for the marketplace arbiter */}
+          {signedAccountId && arbiter === signedAccountId && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.22 }}
+              className="mb-8"
+            >
+              <GlowCard>
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <Gavel className="h-5 w-5 text-primary" />
+                  </div>
+                  <h2 className="text-lg font-semibold">Open Disputes</h2>
+                  <span className="ml-auto text-xs text-muted-foreground">You are the marketplace arbiter</span>
+                </div>
+                {arbitrationQueue.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No disputes are waiting for a ruling.</p>
+                ) : (
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {arbitrationQueue.map((dispute) => (
+                      <div key={disputeKey(dispute)} className="p-3 rounded-lg bg-secondary">
+                        <Link to={`/listing/${dispute.p_id}`} className="text-sm font-medium hover:text-primary hover:underline">
+                          Product #{dispute.p_id}
+                        </Link>
+                        <p className="text-xs text-muted-foreground font-mono truncate">Seller: {dispute.seller}</p>
+                        <DisputePanel
+                          dispute={dispute}
+                          role={getDisputeRole(dispute, signedAccountId, arbiter)}
+                          onNote={(note) => handleDisputeNote(dispute, note)}
+                          onResolve={(refund, note) => handleResolveDispute(dispute, refund, note)}
+                          busy={busyDisputeKey === disputeKey(dispute)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </GlowCard>
+            </motion.div>
+          )}
+
+          {/* NOVA vs contract access reconciliation */}
+          {signedAccountId && isConfigured && createdListings.some((listing) => listing.buyers.length > 0) && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+              className="mb-8"
+            >
+              <GlowCard glowOnHover={false}>
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <Shield className="h-5 w-5 text-primary" />
+                  </div>
+                  <h2 className="text-lg font-semibold">Access Sync</h2>
+                </div>
+                <AccessReconciliationPanel
+                  listings={createdListings}
+                  contract={contract}
+                  ownerWallet={signedAccountId}
+                  onRepaired={fetchMarketplaceStats}
+                />
+              </GlowCard>
+            </motion.div>
+          )}
+
           {/* Purchased Items Summary with Access Status */}
           {signedAccountId && purchasedItems.length > 0 && (
             <motion.div
@@ -516,23 +1029,38 @@ const Profile = () => {
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1">
-                            <span className="font-medium">Product #{item.product_id}</span>
+                            <Link to={`/listing/${item.product_id}`} className="font-medium truncate hover:text-primary hover:underline">
+                              {getListingTitle(item)}
+                            </Link>
                             <span className="text-xs px-2 py-0.5 rounded bg-primary/20 text-primary">
                               {item.list_type}
                             </span>
+                            {isTimeLimitedLicense(item.license) && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-500">
+                                {formatLicense(item.license)}
+                              </span>
+                            )}
+                            {!item.is_active && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-gray-500/20 text-gray-500">
+                                Delisted
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground font-mono truncate">
                             {item.nova_group_id}
                           </p>
                         </div>
                         <div className="text-right ml-4">
-                          <p className="font-semibold">{item.price} NEAR</p>
+                          <p className="font-semibold">{formatListingPrice(item.price)}</p>
                         </div>
                       </div>
                       
                       {/* Access Status and Actions */}
                       <div className="pt-2 border-t border-border/50 flex items-center justify-between gap-2">
-                        {getAccessBadge(item.accessStatus)}
+                        <div className="flex items-center gap-2">
+                          {getAccessBadge(item.accessStatus)}
+                          {item.verification && getVerificationBadge(item.verification)}
+                        </div>
                         
                         <div className="flex items-center gap-2">
                           <Button
@@ -545,6 +1073,18 @@ const Profile = () => {
                             Copy CID
                           </Button>
                           
+                          {!item.dispute && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs h-auto p-1"
+                              onClick={() => setDisputingProductId(disputingProductId === item.product_id ? null : item.product_id)}
+                            >
+                              <Flag className="h-3 w-3 mr-1" />
+                              Report a problem
+                            </Button>
+                          )}
+                          
                           {/* Download Button - Only show if access is granted */}
                           {item.accessStatus === 'granted' && (
                             <Button
@@ -581,6 +1121,72 @@ const Profile = () => {
                           ✓ You can decrypt and download this file
                         </p>
                       )}
+                      
+                      {/* Time left on a fixed-term or subscription license */}
+                      {item.licenseExpiresAt !== null && (
+                        <LicenseCountdown
+                          expiresAtMs={item.licenseExpiresAt}
+                          renewable={canRenewLicense(item, signedAccountId)}
+                          onRenew={() => handleRenewLicense(item)}
+                          renewing={renewingProductId === item.product_id}
+                        />
+                      )}
+                      
+                      {/* Review, once access is granted and while the license runs */}
+                      {item.review ? (
+                        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                          Your review:
+                          <StarRating value={item.review.rating} />
+                        </div>
+                      ) : canReview(item, signedAccountId, item.review, item.licenseExpiresAt) && (
+                        reviewingProductId === item.product_id ? (
+                          <ReviewForm
+                            productId={item.product_id}
+                            onSubmit={(rating, text) => handleSubmitReview(item, rating, text)}
+                            onCancel={() => setReviewingProductId(null)}
+                            submitting={submittingReviewProductId === item.product_id}
+                          />
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs h-auto py-1 px-2 mt-2 gap-1"
+                            onClick={() => setReviewingProductId(item.product_id)}
+                          >
+                            <Star className="h-3 w-3" />
+                            Write a review
+                          </Button>
+                        )
+                      )}
+                      
+                      {/* Escrow status, countdown and refund */}
+                      {item.escrow && (
+                        <EscrowCountdown
+                          escrow={item.escrow}
+                          hasAccess={item.accessStatus === 'granted' || item.accessStatus === 'expired'}
+                          hasOpenDispute={item.dispute?.status === 'Open'}
+                          onClaimRefund={() => handleClaimRefund(item)}
+                          claiming={refundingProductId === item.product_id}
+                        />
+                      )}
+                      
+                      {/* Dispute timeline, or the form to open one */}
+                      {item.dispute ? (
+                        <DisputePanel
+                          dispute={item.dispute}
+                          role="buyer"
+                          onNote={(note) => handleDisputeNote(item.dispute as ContractDispute, note)}
+                          onWithdraw={() => handleWithdrawDispute(item.dispute as ContractDispute)}
+                          busy={busyDisputeKey === disputeKey(item.dispute)}
+                        />
+                      ) : disputingProductId === item.product_id && (
+                        <OpenDisputeForm
+                          productId={item.product_id}
+                          onSubmit={(reason) => handleOpenDispute(item, reason)}
+                          onCancel={() => setDisputingProductId(null)}
+                          submitting={busyDisputeKey === `${item.product_id}:${signedAccountId}`}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
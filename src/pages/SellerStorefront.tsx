@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ArrowLeft, Clock, Copy, Lock, Package, ShieldCheck, ShoppingBag, Star, Store } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import PageTransition from '@/components/PageTransition';
+import GlowCard from '@/components/GlowCard';
+import { ProductCard } from '@/components/ProductCard';
+import { BuyModal } from '@/components/BuyModal';
+import { PreviewDialog } from '@/components/PreviewDialog';
+import { useSellerProfile } from '@/components/useSellerProfile';
+import { useBuyListing } from '@/components/useMarketplaceListingIntent';
+import { useWalletGate } from '@/components/useWalletGate';
+import { useLicenseReceiptSigner } from '@/components/useLicenseReceiptSigner';
+import type { Listing } from '@/services/listingModel';
+import { formatCountdown } from '@/services/escrowService';
+import { retrieveAndDownloadFile } from '@/services/profileService';
+import { isNovaConfigured } from '@/services/novaService';
+import { useNearWallet } from 'near-connect-hooks';
+import { toast } from 'sonner';
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: {
+      staggerChildren: 0.05,
+    },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: {
+    opacity: 1,
+    y: 0,
+    transition: { duration: 0.4 },
+  },
+};
+
+const SellerStorefront = () => {
+  const { accountId } = useParams();
+  const { signedAccountId } = useNearWallet();
+  const signReceipt = useLicenseReceiptSigner();
+  const { requireWallet } = useWalletGate();
+  const { profile, loading, error } = useSellerProfile(accountId);
+  const { buyListing, buyingListingId } = useBuyListing();
+
+  const [buyModalOpen, setBuyModalOpen] = useState(false);
+  const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const [previewListing, setPreviewListing] = useState<Listing | null>(null);
+  const [downloadingListingId, setDownloadingListingId] = useState<number | null>(null);
+
+  const handleBuyClick = (listing: Listing) => {
+    requireWallet('buy this item', () => {
+      setSelectedListing(listing);
+      setBuyModalOpen(true);
+    });
+  };
+
+  const handleDownload = async (listing: Listing) => {
+    if (!signedAccountId || !isNovaConfigured(signedAccountId)) {
+      toast.error('NOVA not configured. Please set up your credentials.');
+      return;
+    }
+
+    setDownloadingListingId(listing.product_id);
+    try {
+      await retrieveAndDownloadFile(listing, signedAccountId, signReceipt);
+    } catch (error) {
+      console.error('Download failed:', error);
+    } finally {
+      setDownloadingListingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-24">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent mb-4"></div>
+        <p className="text-muted-foreground">Loading seller from blockchain...</p>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <PageTransition>
+        <div className="text-center py-24 px-4">
+          <div className="p-4 rounded-full bg-red-500/10 inline-block mb-4">
+            <Lock className="h-8 w-8 text-red-500" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">Error Loading Seller</h3>
+          <p className="text-muted-foreground mb-6">{error ?? 'Unknown seller'}</p>
+          <Link to="/marketplace">
+            <Button variant="outline" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Marketplace
+            </Button>
+          </Link>
+        </div>
+      </PageTransition>
+    );
+  }
+
+  const { reputation } = profile;
+  const stats = [
+    { label: 'Active listings', value: String(reputation.activeListings), icon: Package },
+    { label: 'Total sales', value: String(reputation.totalSales), icon: ShoppingBag },
+    {
+      label: 'Avg. credibility',
+      value: reputation.averageCredibilityScore === null ? '-' : `${Math.round(reputation.averageCredibilityScore)}/100`,
+      icon: ShieldCheck,
+    },
+    {
+      label: `Buyer rating (${reputation.reviewCount})`,
+      value: reputation.averageRating === null ? '-' : `${reputation.averageRating.toFixed(1)}/5`,
+      icon: Star,
+    },
+    {
+      label: 'Avg. time to grant access',
+      value: reputation.averageGrantLatencyMs === null ? '-' : formatCountdown(reputation.averageGrantLatencyMs),
+      icon: Clock,
+    },
+  ];
+
+  return (
+    <PageTransition>
+      <div className="px-4 py-12 sm:px-6 lg:px-8">
+        <div className="mx-auto max-w-7xl">
+          <Link to="/marketplace" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+            <ArrowLeft className="h-4 w-4" />
+            Marketplace
+          </Link>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <Store className="h-8 w-8 text-primary flex-shrink-0" />
+              <h1 className="text-3xl sm:text-4xl font-bold font-mono break-all">{profile.accountId}</h1>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto p-1 flex-shrink-0"
+                onClick={() => {
+                  navigator.clipboard.writeText(profile.accountId);
+                  toast.success('Seller account copied to clipboard');
+                }}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-muted-foreground">
+              {reputation.grantedPurchases} purchase{reputation.grantedPurchases === 1 ? '' : 's'} granted
+              {reputation.pendingPurchases > 0 && ` · ${reputation.pendingPurchases} awaiting access`}
+              {reputation.overduePurchases > 0 && ` · ${reputation.overduePurchases} past the escrow timeout`}
+            </p>
+          </motion.div>
+
+          {reputation.neverGrants && (
+            <div className="flex items-start gap-3 p-4 mb-8 rounded-lg border border-red-500/30 bg-red-500/10">
+              <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold text-red-500">This seller has never granted access</p>
+                <p className="text-sm text-muted-foreground">
+                  Buyers have waited past the escrow timeout without receiving their files. Your payment stays in
+                  escrow and can be refunded, but expect to wait for it.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Reputation */}
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-10">
+            {stats.map(({ label, value, icon: Icon }) => (
+              <GlowCard key={label} glowOnHover={false}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">{label}</p>
+                    <p className="text-2xl font-bold">{value}</p>
+                  </div>
+                  <Icon className="h-6 w-6 text-primary" />
+                </div>
+              </GlowCard>
+            ))}
+          </div>
+
+          {/* Listings */}
+          <h2 className="text-xl font-semibold mb-4">Listings</h2>
+          {profile.listings.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="p-4 rounded-full bg-secondary inline-block mb-4">
+                <Package className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground">This seller has no active listings</p>
+            </div>
+          ) : (
+            <motion.div
+              variants={containerVariants}
+              initial="hidden"
+              animate="visible"
+              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
+            >
+              {profile.listings.map((listing) => (
+                <motion.div key={listing.product_id} variants={itemVariants}>
+                  <ProductCard
+                    listing={listing}
+                    onBuy={handleBuyClick}
+                    onPreview={setPreviewListing}
+                    isBuying={buyingListingId === listing.product_id}
+                    purchased={!!signedAccountId && listing.buyers.includes(signedAccountId)}
+                    hasAccess={!!signedAccountId && listing.buyers_with_access.includes(signedAccountId)}
+                    onDownload={handleDownload}
+                    isDownloading={downloadingListingId === listing.product_id}
+                  />
+                </motion.div>
+              ))}
+            </motion.div>
+          )}
+
+          <BuyModal
+            open={buyModalOpen}
+            onOpenChange={setBuyModalOpen}
+            listing={selectedListing}
+            onConfirm={(options) => selectedListing && buyListing(selectedListing, options)}
+            isBuying={buyingListingId !== null}
+          />
+
+          <PreviewDialog
+            open={previewListing !== null}
+            onOpenChange={(open) => !open && setPreviewListing(null)}
+            listing={previewListing}
+          />
+        </div>
+      </div>
+    </PageTransition>
+  );
+};
+
+export default SellerStorefront;
@@ -1,30 +1,81 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload as UploadIcon, File, CheckCircle, AlertCircle, Loader2, Copy, ExternalLink, Package } from 'lucide-react';
+import { Upload as UploadIcon, File, CheckCircle, AlertCircle, Loader2, Copy, ExternalLink, Package, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
 import PageTransition from '@/components/PageTransition';
 import GlowCard from '@/components/GlowCard';
 import { isNovaConfigured } from '@/services/novaService';
-import { uploadAndCreateListing, CombinedUploadResult, CombinedUploadProgress } from '@/services/combinedUploadService';
+import { CHUNKED_UPLOAD_THRESHOLD, findUploadSession, getUploadedBytes } from '@/services/chunkedFileService';
+import type { UploadSession } from '@/services/chunkedFileService';
+import { getPreviewKind } from '@/services/previewService';
+import { isPreviewStorageConfigured } from '@/services/previewStorageService';
+import { canFingerprint } from '@/services/fingerprintService';
+import {
+  uploadAndCreateListing,
+  uploadBundleAndCreateListing,
+  CombinedUploadResult,
+  CombinedUploadProgress,
+} from '@/services/combinedUploadService';
 import { toast } from 'sonner';
 import { useNearWallet } from 'near-connect-hooks';
+import { useMarketplaceContract } from '@/components/useMarketplaceContract';
+import {
+  MAX_BUNDLE_FILES,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_LICENSE_TEXT_LENGTH,
+  MAX_TAGS,
+  MAX_TITLE_LENGTH,
+  USAGE_LICENSE_KINDS,
+} from '@/services/marketplaceContract';
+import type { ListingKind, UsageLicenseKind } from '@/services/marketplaceContract';
+import { USAGE_LICENSE_TEMPLATES, createUsageLicense } from '@/services/usageLicenseService';
+import { PERPETUAL_LICENSE, formatFileSize, nearToListingPrice, parseTags } from '@/services/listingModel';
+import type { LicenseTerms } from '@/services/listingModel';
 import CreateListing from '@/components/CreateListing';
+import LicenseFields from '@/components/LicenseFields';
 
 const Upload = () => {
-  const { callFunction, signedAccountId } = useNearWallet();
+  const { signedAccountId } = useNearWallet();
+  const contract = useMarketplaceContract();
   
   const [isDragging, setIsDragging] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-  const [assetType, setAssetType] = useState<'Image' | 'Dataset' | 'Audio' | 'Other'>('Image');
+  // More than one file is uploaded as a bundle
+  const [files, setFiles] = useState<File[]>([]);
+  const [assetType, setAssetType] = useState<ListingKind>('Image');
   const [price, setPrice] = useState('');
+  const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [license, setLicense] = useState<LicenseTerms>(PERPETUAL_LICENSE);
+  const [usageKind, setUsageKind] = useState<UsageLicenseKind>('Personal');
+  const [customLicenseText, setCustomLicenseText] = useState('');
+  const [withPreview, setWithPreview] = useState(true);
+  const [withFingerprint, setWithFingerprint] = useState(false);
+  const [visibleFingerprint, setVisibleFingerprint] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<CombinedUploadProgress | null>(null);
   const [uploadResult, setUploadResult] = useState<CombinedUploadResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Saved progress from an earlier attempt at uploading the selected file
+  const [resumable, setResumable] = useState<UploadSession | null>(null);
+
+  useEffect(() => {
+    setResumable(null);
+    if (files.length !== 1 || files[0].size <= CHUNKED_UPLOAD_THRESHOLD || !signedAccountId) return;
+
+    let cancelled = false;
+    findUploadSession(files[0], signedAccountId).then((session) => {
+      if (!cancelled) setResumable(session);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [files, signedAccountId]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -36,33 +87,52 @@ const Upload = () => {
     setIsDragging(false);
   }, []);
 
+  const addFiles = useCallback((added: FileList) => {
+    if (added.length === 0) return;
+    setFiles((current) => [...current, ...Array.from(added)]);
+    setUploadResult(null);
+    setError(null);
+  }, []);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      setFile(droppedFile);
-      setUploadResult(null);
-      setError(null);
-    }
-  }, []);
+    addFiles(e.dataTransfer.files);
+  }, [addFiles]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      setUploadResult(null);
-      setError(null);
+    if (e.target.files) {
+      addFiles(e.target.files);
     }
-  }, []);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  }, [addFiles]);
+
+  const removeFile = (index: number) => {
+    setFiles((current) => current.filter((_, i) => i !== index));
+  };
+
+  // Bundles are previewed from their first image, audio or dataset file
+  const previewable = isPreviewStorageConfigured() && files.some((f) => getPreviewKind(f) !== null);
+  const fingerprintable = canFingerprint(files);
 
   const handleUpload = async () => {
     //
-    if (!file || !price.trim()) {
+    if (files.length === 0 || !price.trim()) {
       toast.error('Please select a file and enter a price');
       return;
     }
 
+    if (files.length > MAX_BUNDLE_FILES) {
+      toast.error(`A bundle can hold at most ${MAX_BUNDLE_FILES} files`);
+      return;
+    }
+
+    if (license.kind !== 'Perpetual' && license.duration_ms <= 0) {
+      toast.error('Please enter how many days the license lasts');
+      return;
+    }
+
     if (!signedAccountId) {
       toast.error('Please connect your NEAR wallet first');
       return;
@@ -81,36 +151,51 @@ const Upload = () => {
     setUploadResult(null);
 
     try {
-      const result = await uploadAndCreateListing(
+      const usageLicense = await createUsageLicense(usageKind, customLicenseText);
+      const details = {
+        title,
         description,
-        file,
-        assetType,
-        parseInt(price),
-        signedAccountId,
-        callFunction,
-        (progress) => {
-          setUploadProgress(progress);
-          
-          // Show toast for each step
-          switch (progress.step) {
-            case 'registering_group':
-              toast.info('Creating NOVA group...');
-              break;
-            case 'uploading_to_nova':
-              toast.info('Uploading to IPFS...');
-              break;
-            case 'creating_listing':
-              toast.info('Creating marketplace listing...');
-              break;
-            case 'complete':
-              toast.success('Upload complete!');
-              break;
-          }
+        tags: parseTags(tagsInput).slice(0, MAX_TAGS),
+        license,
+        usageLicense,
+        publishPreview: previewable && withPreview,
+        fingerprint: fingerprintable && withFingerprint ? { visible: visibleFingerprint } : null,
+      };
+      const listingPrice = nearToListingPrice(parseFloat(price));
+      if (listingPrice === 0) {
+        throw new Error('Price must be at least 0.01 NEAR');
+      }
+      let lastStep: CombinedUploadProgress['step'] | null = null;
+      const onProgress = (progress: CombinedUploadProgress) => {
+        setUploadProgress(progress);
+        
+        // Show toast for each step; bundles report every file under the same step
+        if (progress.step === lastStep) return;
+        lastStep = progress.step;
+        switch (progress.step) {
+          case 'registering_group':
+            toast.info('Creating NOVA group...');
+            break;
+          case 'uploading_to_nova':
+            toast.info('Uploading to IPFS...');
+            break;
+          case 'publishing_preview':
+            toast.info('Publishing preview...');
+            break;
+          case 'creating_listing':
+            toast.info('Creating marketplace listing...');
+            break;
+          case 'complete':
+            toast.success('Upload complete!');
+            break;
         }
-      );
+      };
+      const result = files.length > 1
+        ? await uploadBundleAndCreateListing(details, files, assetType, listingPrice, signedAccountId, contract, onProgress)
+        : await uploadAndCreateListing(details, files[0], assetType, listingPrice, signedAccountId, contract, onProgress);
       
       setUploadResult(result);
-      toast.success('File uploaded and listed successfully!');
+      toast.success(files.length > 1 ? 'Bundle uploaded and listed successfully!' : 'File uploaded and listed successfully!');
     } catch (e: any) {
       setError(e.message || 'Upload failed');
       toast.error('Upload failed: ' + e.message);
@@ -125,14 +210,6 @@ const Upload = () => {
     toast.success(`${label} copied to clipboard`);
   };
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <PageTransition>
       <div className="px-4 py-12 sm:px-6 lg:px-8">
@@ -194,13 +271,30 @@ const Upload = () => {
                 </p>
               </div>
 
+              {/* Title Input */}
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  placeholder="e.g. Sunset over the bay, 4K"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={MAX_TITLE_LENGTH}
+                  disabled={isUploading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Shown on the marketplace card instead of the product number
+                </p>
+              </div>
+
               {/* Price Input */}
               <div className="space-y-2">
                 <Label htmlFor="price">Price (in NEAR)</Label>
                 <Input
                   id="price"
                   type="number"
-                  placeholder="Enter price (e.g., 5)"
+                  step="0.01"
+                  placeholder="Enter price (e.g., 2.5)"
                   value={price}
                   onChange={(e) => setPrice(e.target.value)}
                   disabled={isUploading}
@@ -210,6 +304,55 @@ const Upload = () => {
                 </p>
               </div>
 
+              {/* License */}
+              <div className="space-y-2">
+                <LicenseFields value={license} onChange={setLicense} idPrefix="upload" disabled={isUploading} />
+                <p className="text-xs text-muted-foreground">
+                  {license.kind === 'Perpetual'
+                    ? 'Buyers keep access forever'
+                    : license.kind === 'Subscription'
+                      ? 'Access lapses after each term unless the buyer renews at the listing price'
+                      : 'Access lapses once the term is over, counted from when you grant it'}
+                </p>
+              </div>
+
+              {/* Usage rights */}
+              <div className="space-y-2">
+                <Label>Usage rights</Label>
+                <Select
+                  value={usageKind}
+                  onValueChange={(value) => setUsageKind(value as UsageLicenseKind)}
+                  disabled={isUploading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USAGE_LICENSE_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>{USAGE_LICENSE_TEMPLATES[kind].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {usageKind === 'Custom' ? (
+                  <textarea
+                    placeholder="What buyers may and may not do with this file"
+                    value={customLicenseText}
+                    onChange={(e) => setCustomLicenseText(e.target.value)}
+                    disabled={isUploading}
+                    rows={5}
+                    maxLength={MAX_LICENSE_TEXT_LENGTH}
+                    className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none"
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground whitespace-pre-line p-3 rounded-md bg-secondary">
+                    {USAGE_LICENSE_TEMPLATES[usageKind].text}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Shown to buyers before they pay and saved with every download as a signed receipt. It can't be changed later
+                </p>
+              </div>
+
               {/* Description Input */}
               <div className="space-y-2">
                 <Label htmlFor="description">Description (optional)</Label>
@@ -220,6 +363,7 @@ const Upload = () => {
                   onChange={(e) => setDescription(e.target.value)}
                   disabled={isUploading}
                   rows={4}
+                  maxLength={MAX_DESCRIPTION_LENGTH}
                   className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none"
                 />
                 <p className="text-xs text-muted-foreground">
@@ -227,6 +371,21 @@ const Upload = () => {
                 </p>
               </div>
 
+              {/* Tags Input */}
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags (optional)</Label>
+                <Input
+                  id="tags"
+                  placeholder="landscape, 4k, nature"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  disabled={isUploading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated, up to {MAX_TAGS}. Buyers can search by tag
+                </p>
+              </div>
+
               {/* Drop Zone */}
               <div
                 onDragOver={handleDragOver}
@@ -240,6 +399,7 @@ const Upload = () => {
               >
                 <input
                   type="file"
+                  multiple
                   onChange={handleFileSelect}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                   disabled={isUploading}
@@ -254,36 +414,131 @@ const Upload = () => {
                     <UploadIcon className="h-8 w-8 text-primary" />
                   </motion.div>
                   <p className="text-lg font-medium mb-1">
-                    {isDragging ? 'Drop your file here' : 'Drag & drop your file'}
+                    {isDragging ? 'Drop your files here' : 'Drag & drop your file'}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    or click to browse
+                    or click to browse. Add several files to sell them as one bundle
                   </p>
                 </div>
               </div>
 
-              {/* Selected File */}
+              {/* Selected Files */}
               <AnimatePresence>
-                {file && (
+                {files.length > 0 && (
                   <motion.div
                     initial={{ opacity: 0, height: 0 }}
                     animate={{ opacity: 1, height: 'auto' }}
                     exit={{ opacity: 0, height: 0 }}
-                    className="overflow-hidden"
+                    className="overflow-hidden space-y-2"
                   >
-                    <div className="flex items-center gap-3 p-4 rounded-lg bg-secondary">
-                      <File className="h-5 w-5 text-primary flex-shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium truncate">{file.name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {formatBytes(file.size)}
-                        </p>
-                      </div>
+                    {files.length > 1 && (
+                      <p className="text-sm text-muted-foreground">
+                        Bundle of {files.length} files, {formatFileSize(files.reduce((total, f) => total + f.size, 0))} total.
+                        Buyers download them as one zip.
+                      </p>
+                    )}
+                    <div className="max-h-64 overflow-y-auto space-y-2">
+                      {files.map((f, index) => (
+                        <div key={`${f.name}-${index}`} className="flex items-center gap-3 p-4 rounded-lg bg-secondary">
+                          <File className="h-5 w-5 text-primary flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{f.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {formatFileSize(f.size)}
+                            </p>
+                          </div>
+                          {!isUploading && (
+                            <Button variant="ghost" size="sm" onClick={() => removeFile(index)} aria-label={`Remove ${f.name}`}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   </motion.div>
                 )}
               </AnimatePresence>
 
+              {previewable && (
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="withPreview"
+                      checked={withPreview}
+                      onCheckedChange={(checked) => setWithPreview(checked === true)}
+                      disabled={isUploading}
+                    />
+                    <Label htmlFor="withPreview" className="text-sm font-normal cursor-pointer">
+                      Publish a public preview
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    A watermarked thumbnail, a 15-second clip or the first rows of a dataset, stored unencrypted so
+                    anyone can see it before buying
+                  </p>
+                </div>
+              )}
+
+              {fingerprintable && (
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="withFingerprint"
+                      checked={withFingerprint}
+                      onCheckedChange={(checked) => setWithFingerprint(checked === true)}
+                      disabled={isUploading}
+                    />
+                    <Label htmlFor="withFingerprint" className="text-sm font-normal cursor-pointer">
+                      Fingerprint each buyer's copy
+                    </Label>
+                  </div>
+                  {withFingerprint && (
+                    <div className="flex items-center space-x-2 pl-6">
+                      <Checkbox
+                        id="visibleFingerprint"
+                        checked={visibleFingerprint}
+                        onCheckedChange={(checked) => setVisibleFingerprint(checked === true)}
+                        disabled={isUploading}
+                      />
+                      <Label htmlFor="visibleFingerprint" className="text-sm font-normal cursor-pointer">
+                        Also stamp "Licensed to &lt;buyer&gt;" on the image
+                      </Label>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Buyers get their own copy with their account id hidden in the pixels, so a leaked file can be
+                    traced on the Verify page. Copies are made in your browser when you grant access.
+                  </p>
+                </div>
+              )}
+
+              {resumable && !isUploading && (
+                <p className="text-sm text-muted-foreground">
+                  An earlier upload of this file stopped after {formatFileSize(getUploadedBytes(resumable))} of{' '}
+                  {formatFileSize(resumable.size)}. Uploading again picks up from there.
+                </p>
+              )}
+
+              {/* Large File Upload Progress */}
+              {uploadProgress?.bytes && (
+                <div className="space-y-1">
+                  <Progress value={(uploadProgress.bytes.uploaded / uploadProgress.bytes.total) * 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(uploadProgress.bytes.uploaded)} of {formatFileSize(uploadProgress.bytes.total)} uploaded
+                  </p>
+                </div>
+              )}
+
+              {/* Bundle Upload Progress */}
+              {uploadProgress?.file && (
+                <div className="space-y-1">
+                  <Progress value={(uploadProgress.file.index / uploadProgress.file.count) * 100} />
+                  <p className="text-xs text-muted-foreground truncate">
+                    File {uploadProgress.file.index + 1} of {uploadProgress.file.count}: {uploadProgress.file.name}
+                  </p>
+                </div>
+              )}
+
               {/* Error Message */}
               <AnimatePresence>
                 {error && (
@@ -304,7 +559,7 @@ const Upload = () => {
               {/* Upload Button */}
               <Button
                 onClick={handleUpload}
-                disabled={!file || !price.trim() || isUploading || !signedAccountId || !isNovaConfigured(signedAccountId)}
+                disabled={files.length === 0 || !price.trim() || isUploading || !signedAccountId || !isNovaConfigured(signedAccountId)}
                 className="w-full glow"
                 size="lg"
               >
@@ -431,7 +686,7 @@ const Upload = () => {
                     <div className="grid grid-cols-2 gap-4">
                       <div className="p-3 rounded-lg bg-secondary">
                         <span className="text-sm text-muted-foreground">File Size</span>
-                        <p className="font-medium">{formatBytes(uploadResult.size)}</p>
+                        <p className="font-medium">{formatFileSize(uploadResult.size)}</p>
                       </div>
                       <div className="p-3 rounded-lg bg-secondary">
                         <span className="text-sm text-muted-foreground">Uploaded</span>
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Fingerprint, Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import PageTransition from '@/components/PageTransition';
+import GlowCard from '@/components/GlowCard';
+import { useMarketplaceContract } from '@/components/useMarketplaceContract';
+import { readFingerprint } from '@/services/watermarkService';
+import type { BuyerCopy } from '@/services/marketplaceContract';
+import { toast } from 'sonner';
+
+interface VerifyResult {
+  fileName: string;
+  /** null when no fingerprint could be read */
+  buyer: string | null;
+  /** Checked against the listing when a product id was entered */
+  listing: { productId: number; copy: BuyerCopy | null } | null;
+}
+
+/**
+ * Reads the buyer fingerprint out of a leaked image (see watermarkService),
+ * and optionally checks that account against a listing's buyer copies
+ */
+const VerifyFingerprint = () => {
+  const contract = useMarketplaceContract();
+  const [searchParams] = useSearchParams();
+  const [file, setFile] = useState<File | null>(null);
+  const [productId, setProductId] = useState(searchParams.get('product') ?? '');
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+
+  const handleCheck = async () => {
+    if (!file) return;
+
+    setChecking(true);
+    setResult(null);
+    try {
+      const buyer = await readFingerprint(file);
+      const pId = Number(productId);
+      const listing =
+        buyer && productId.trim() && Number.isInteger(pId)
+          ? { productId: pId, copy: await contract.getBuyerCopy({ p_id: pId, buyer }) }
+          : null;
+      setResult({ fileName: file.name, buyer, listing });
+    } catch (error) {
+      console.error('Failed to read fingerprint:', error);
+      toast.error(`Could not read the image: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <PageTransition>
+      <div className="px-4 py-12 sm:px-6 lg:px-8">
+        <div className="mx-auto max-w-2xl">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+            <div className="flex items-center gap-3 mb-2">
+              <Fingerprint className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl sm:text-4xl font-bold">Trace a Leaked Image</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Fingerprinted listings give every buyer a copy with their account id hidden in the pixels. Drop a copy
+              found elsewhere to see who it was sold to. The check runs in your browser; the image is not uploaded.
+            </p>
+          </motion.div>
+
+          <GlowCard glowOnHover={false}>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="leakedFile">Image</Label>
+                <Input
+                  id="leakedFile"
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null);
+                    setResult(null);
+                  }}
+                  disabled={checking}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="productId">Listing ID (optional)</Label>
+                <Input
+                  id="productId"
+                  inputMode="numeric"
+                  placeholder="Check the buyer against this listing"
+                  value={productId}
+                  onChange={(e) => setProductId(e.target.value)}
+                  disabled={checking}
+                />
+              </div>
+              <Button onClick={handleCheck} disabled={!file || checking} className="w-full gap-2">
+                {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Fingerprint className="h-4 w-4" />}
+                {checking ? 'Reading fingerprint...' : 'Read fingerprint'}
+              </Button>
+            </div>
+          </GlowCard>
+
+          {result && (
+            <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="mt-6">
+              {result.buyer === null ? (
+                <div className="flex items-start gap-3 p-4 rounded-lg border border-border bg-secondary/50">
+                  <ShieldQuestion className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-semibold">No fingerprint found in {result.fileName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      The image was not fingerprinted, or it was cropped, resized or rotated since, which the
+                      fingerprint does not survive. Try the largest, least edited copy you can find.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start gap-3 p-4 rounded-lg border border-primary/30 bg-primary/10">
+                  {result.listing && !result.listing.copy ? (
+                    <ShieldAlert className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <ShieldCheck className="h-5 w-5 text-primary flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-semibold">
+                      Licensed to <span className="font-mono break-all">{result.buyer}</span>
+                    </p>
+                    {result.listing &&
+                      (result.listing.copy ? (
+                        <p className="text-sm text-muted-foreground">
+                          Matches the copy granted to this buyer on listing #{result.listing.productId}.
+                        </p>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          This account has no fingerprinted copy of listing #{result.listing.productId}. The image may
+                          come from another listing.
+                        </p>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </PageTransition>
+  );
+};
+
+export default VerifyFingerprint;
@@ -0,0 +1,414 @@
+import { addGroupMember, isAuthorized, revokeGroupMember } from './novaService';
+import { accessJobStore } from './accessJobStore';
+import type { AccessJobStore } from './accessJobStore';
+import { createOriginalLoader, getBuyerNovaGroup, getOrCreateBuyerCopy } from './fingerprintService';
+import type { FingerprintSource, OriginalLoader } from './fingerprintService';
+import { MAX_BATCH_BUYERS } from './marketplaceContract';
+import type { BuyerCopy, MarketplaceContractClient } from './marketplaceContract';
+
+// ============================================================================
+// BATCH ACCESS JOBS
+// A grant/revoke over many buyers is a job persisted after every step, so a
+// reload resumes where it stopped instead of starting over. Each buyer moves
+//   grant:  pending → nova_added   → contract_updated
+//   revoke: pending → nova_removed → contract_updated
+// and a failure records the step it failed from, so retrying skips work that
+// already succeeded. Batch jobs do the NOVA step for every buyer first, then
+// update the contract with one *_many call per MAX_BATCH_BUYERS buyers, so the
+// seller signs one transaction instead of one per buyer. If a batch grant
+// fails, buyers refunded since the job started are taken back out of NOVA and
+// skipped, and the rest are granted one by one.
+// On fingerprinted listings the NOVA step of a grant first makes the buyer's
+// copy (see fingerprintService) and adds them to its group instead.
+// ============================================================================
+
+export type AccessJobAction = 'grant' | 'revoke';
+
+export type BuyerJobState = 'pending' | 'nova_added' | 'nova_removed' | 'contract_updated' | 'skipped' | 'failed';
+
+export type AccessJobStatus = 'running' | 'completed' | 'failed';
+
+export interface BuyerJobEntry {
+  buyer: string;
+  novaAccountId: string | null;
+  /** Grants on fingerprinted listings: the buyer's copy, once made */
+  copy?: BuyerCopy | null;
+  state: BuyerJobState;
+  /** State to resume from when a failed entry is retried */
+  resumeFrom: BuyerJobState | null;
+  error: string | null;
+  attempts: number;
+  updatedAt: number;
+}
+
+export interface AccessJob {
+  id: string;
+  action: AccessJobAction;
+  productId: number;
+  novaGroupId: string;
+  ownerWallet: string;
+  concurrency: number;
+  /** Contract step via grant/revoke_buyer_access_many (absent on jobs saved before batching) */
+  batch?: boolean;
+  /** Set on grants for fingerprinted listings */
+  fingerprint?: FingerprintSource | null;
+  /** 'running' in storage with no run in this tab means the page was closed mid-job */
+  status: AccessJobStatus;
+  buyers: BuyerJobEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AccessJobEvent =
+  | { type: 'job_started'; job: AccessJob }
+  | { type: 'buyer_updated'; job: AccessJob; entry: BuyerJobEntry }
+  | { type: 'job_finished'; job: AccessJob };
+
+export type AccessJobListener = (event: AccessJobEvent) => void;
+
+export interface RunAccessJobOptions {
+  store?: AccessJobStore;
+  onEvent?: AccessJobListener;
+}
+
+export const DEFAULT_ACCESS_JOB_CONCURRENCY = 2;
+
+export const BUYER_JOB_STATE_LABELS: Record<BuyerJobState, string> = {
+  pending: 'Pending',
+  nova_added: 'Added to NOVA',
+  nova_removed: 'Removed from NOVA',
+  contract_updated: 'Done',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+// Jobs currently running in this tab, so a job is never run twice at once
+const activeRuns = new Map<string, Promise<AccessJob>>();
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const isFinished = (entry: BuyerJobEntry) =>
+  entry.state === 'contract_updated' || entry.state === 'skipped' || entry.state === 'failed';
+
+export const isAccessJobRunning = (jobId: string): boolean => activeRuns.has(jobId);
+
+/** A job left 'running' by a closed tab (or with no run in progress) can be resumed */
+export const isAccessJobResumable = (job: AccessJob): boolean =>
+  job.status === 'running' && !isAccessJobRunning(job.id);
+
+export const countBuyerStates = (job: AccessJob): Record<BuyerJobState, number> => {
+  const counts: Record<BuyerJobState, number> = {
+    pending: 0,
+    nova_added: 0,
+    nova_removed: 0,
+    contract_updated: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const entry of job.buyers) counts[entry.state] += 1;
+  return counts;
+};
+
+/**
+ * Create and persist a job. Buyers can come with their NOVA account already
+ * resolved (e.g. from get_pending_buyers_with_nova_accounts) or be looked up when run.
+ */
+export const createAccessJob = async (
+  params: {
+    action: AccessJobAction;
+    productId: number;
+    novaGroupId: string;
+    ownerWallet: string;
+    buyers: Array<{ nearWallet: string; novaAccountId?: string | null }>;
+    concurrency?: number;
+    batch?: boolean;
+    fingerprint?: FingerprintSource | null;
+  },
+  store: AccessJobStore = accessJobStore
+): Promise<AccessJob> => {
+  const now = Date.now();
+  const job: AccessJob = {
+    id: crypto.randomUUID(),
+    action: params.action,
+    productId: params.productId,
+    novaGroupId: params.novaGroupId,
+    ownerWallet: params.ownerWallet,
+    concurrency: Math.max(1, params.concurrency ?? DEFAULT_ACCESS_JOB_CONCURRENCY),
+    batch: params.batch ?? false,
+    fingerprint: params.fingerprint ?? null,
+    status: 'running',
+    buyers: params.buyers.map((buyer) => ({
+      buyer: buyer.nearWallet,
+      novaAccountId: buyer.novaAccountId ?? null,
+      state: 'pending',
+      resumeFrom: null,
+      error: null,
+      attempts: 0,
+      updatedAt: now,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.put(job);
+  return job;
+};
+
+/**
+ * NOVA step for one buyer. Checks current membership first, so repeating it
+ * after it already took effect is harmless.
+ */
+const runNovaStep = async (
+  job: AccessJob,
+  entry: BuyerJobEntry,
+  contract: MarketplaceContractClient,
+  loadOriginal: OriginalLoader | null
+): Promise<void> => {
+  if (!entry.novaAccountId) {
+    entry.novaAccountId = await contract.getNovaAccount({ near_wallet: entry.buyer });
+  }
+  if (!entry.novaAccountId) {
+    throw new Error(`No NOVA account mapped for ${entry.buyer}`);
+  }
+
+  if (job.action === 'grant') {
+    let groupId = job.novaGroupId;
+    if (job.fingerprint && loadOriginal) {
+      entry.copy ??= await getOrCreateBuyerCopy(
+        job.productId,
+        job.fingerprint,
+        entry.buyer,
+        contract,
+        job.ownerWallet,
+        loadOriginal
+      );
+      groupId = entry.copy.nova_group_id;
+    }
+    if (!(await isAuthorized(groupId, entry.novaAccountId, job.ownerWallet))) {
+      await addGroupMember(groupId, entry.novaAccountId, job.ownerWallet);
+    }
+    entry.state = 'nova_added';
+  } else {
+    // Buyers of fingerprinted listings are members of their copy's group only
+    const groupId = await getBuyerNovaGroup(job.productId, job.novaGroupId, entry.buyer, contract);
+    if (await isAuthorized(groupId, entry.novaAccountId, job.ownerWallet)) {
+      await revokeGroupMember(groupId, entry.novaAccountId, job.ownerWallet);
+    }
+    entry.state = 'nova_removed';
+  }
+};
+
+/**
+ * Undo the NOVA step of a grant for a buyer who was refunded before the
+ * contract step, so they don't keep decrypting what they got their money back for.
+ */
+const undoNovaGrant = async (job: AccessJob, entry: BuyerJobEntry): Promise<void> => {
+  const groupId = entry.copy?.nova_group_id ?? job.novaGroupId;
+  if (entry.novaAccountId && (await isAuthorized(groupId, entry.novaAccountId, job.ownerWallet))) {
+    await revokeGroupMember(groupId, entry.novaAccountId, job.ownerWallet);
+  }
+  entry.state = 'skipped';
+  entry.error = 'No longer a buyer (refunded)';
+};
+
+/**
+ * Contract step for one or more buyers that finished the NOVA step.
+ * Both the single and _many methods are idempotent on-chain.
+ */
+const runContractStep = async (
+  job: AccessJob,
+  entries: BuyerJobEntry[],
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  const copies = entries.flatMap((entry) => (entry.copy ? [entry.copy] : []));
+  if (entries.length === 1 && !job.batch) {
+    const args = { p_id: job.productId, buyer: entries[0].buyer };
+    await (job.action === 'grant'
+      ? contract.grantBuyerAccess(copies.length ? { ...args, copy: copies[0] } : args)
+      : contract.revokeBuyerAccess(args));
+  } else {
+    const args = { p_id: job.productId, buyers: entries.map((entry) => entry.buyer) };
+    await (job.action === 'grant'
+      ? contract.grantBuyerAccessMany(copies.length ? { ...args, copies } : args)
+      : contract.revokeBuyerAccessMany(args));
+  }
+  for (const entry of entries) entry.state = 'contract_updated';
+};
+
+/**
+ * Run (or resume) a job until every buyer is done or failed.
+ * Up to job.concurrency buyers are processed at once; the job is persisted and
+ * a buyer_updated event emitted after every step.
+ */
+export const runAccessJob = (
+  job: AccessJob,
+  contract: MarketplaceContractClient,
+  { store = accessJobStore, onEvent }: RunAccessJobOptions = {}
+): Promise<AccessJob> => {
+  const active = activeRuns.get(job.id);
+  if (active) return active;
+
+  // The original is decrypted once per run, however many copies are made from it
+  const loadOriginal = job.fingerprint ? createOriginalLoader(job.fingerprint, job.ownerWallet) : null;
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  let saving: Promise<void> = Promise.resolve();
+  const persist = () => {
+    job.updatedAt = Date.now();
+    saving = saving.then(() => store.put(job)).catch((error) => {
+      console.error(`Failed to persist access job ${job.id}:`, error);
+    });
+    return saving;
+  };
+
+  const fail = (entry: BuyerJobEntry, error: unknown) => {
+    entry.resumeFrom = entry.state;
+    entry.state = 'failed';
+    entry.error = errorMessage(error);
+    entry.attempts += 1;
+    console.error(`Access job ${job.action} failed for ${entry.buyer}:`, error);
+  };
+
+  // Persist, then tell the UI, after every state change
+  const updated = async (entries: BuyerJobEntry[]) => {
+    const now = Date.now();
+    for (const entry of entries) entry.updatedAt = now;
+    await persist();
+    for (const entry of entries) onEvent?.({ type: 'buyer_updated', job, entry });
+  };
+
+  const step = async (entries: BuyerJobEntry[], run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (error) {
+      for (const entry of entries) fail(entry, error);
+    }
+    await updated(entries);
+  };
+
+  // Run `work` over `items` with at most job.concurrency in flight
+  const withConcurrency = async <T>(items: T[], work: (item: T) => Promise<void>) => {
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        await work(items[next++]);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, items.length) }, worker));
+  };
+
+  const runPerBuyer = () =>
+    withConcurrency(job.buyers.filter((entry) => !isFinished(entry)), async (entry) => {
+      while (!isFinished(entry)) {
+        await step([entry], () =>
+          entry.state === 'pending' ? runNovaStep(job, entry, contract, loadOriginal) : runContractStep(job, [entry], contract)
+        );
+      }
+    });
+
+  // One ungrantable buyer fails the whole batch, so a retry would fail the same
+  // way. Skip buyers refunded since the NOVA step, then send the rest separately
+  const recoverBatchGrant = async (chunk: BuyerJobEntry[], batchError: unknown) => {
+    let buyers: Set<string> | null = null;
+    try {
+      const listing = await contract.getListing({ p_id: job.productId });
+      buyers = new Set(listing?.buyers ?? []);
+    } catch (error) {
+      // Can't tell who was refunded; the per-buyer calls still fail only for them
+      console.error(`Failed to re-check buyers of #${job.productId}:`, error);
+    }
+
+    const refunded = chunk.filter((entry) => buyers !== null && !buyers.has(entry.buyer));
+    const rest = chunk.filter((entry) => !refunded.includes(entry));
+    for (const entry of refunded) {
+      await step([entry], () => undoNovaGrant(job, entry));
+    }
+
+    // Sending a lone buyer again would just repeat the failed call
+    if (chunk.length === 1 && rest.length === 1) {
+      fail(rest[0], batchError);
+      await updated(rest);
+      return;
+    }
+    if (rest.length > 1) {
+      console.warn(`Batch grant on #${job.productId} failed, granting one by one:`, errorMessage(batchError));
+    }
+    for (const entry of rest) {
+      await step([entry], () => runContractStep(job, [entry], contract));
+    }
+  };
+
+  const runBatched = async () => {
+    // Phase 1: NOVA for everyone still pending
+    await withConcurrency(job.buyers.filter((entry) => entry.state === 'pending'), (entry) =>
+      step([entry], () => runNovaStep(job, entry, contract, loadOriginal))
+    );
+
+    // Phase 2: one contract transaction per chunk of buyers that made it through NOVA
+    const ready = job.buyers.filter((entry) => entry.state === 'nova_added' || entry.state === 'nova_removed');
+    for (let i = 0; i < ready.length; i += MAX_BATCH_BUYERS) {
+      const chunk = ready.slice(i, i + MAX_BATCH_BUYERS);
+      if (job.action === 'revoke') {
+        await step(chunk, () => runContractStep(job, chunk, contract));
+        continue;
+      }
+      try {
+        await runContractStep(job, chunk, contract);
+        await updated(chunk);
+      } catch (error) {
+        await recoverBatchGrant(chunk, error);
+      }
+    }
+  };
+
+
+  const run = async () => {
+    job.status = 'running';
+    await persist();
+    onEvent?.({ type: 'job_started', job });
+
+    await (job.batch ? runBatched() : runPerBuyer());
+
+    job.status = job.buyers.some((entry) => entry.state === 'failed') ? 'failed' : 'completed';
+    await persist();
+    onEvent?.({ type: 'job_finished', job });
+    return job;
+  };
+
+  const promise = run().finally(() => activeRuns.delete(job.id));
+  activeRuns.set(job.id, promise);
+  return promise;
+};
+
+/**
+ * Put failed buyers back at the step they failed on and run the job again
+ */
+export const retryFailedBuyers = (
+  job: AccessJob,
+  contract: MarketplaceContractClient,
+  options: RunAccessJobOptions = {}
+): Promise<AccessJob> => {
+  for (const entry of job.buyers) {
+    if (entry.state === 'failed') {
+      entry.state = entry.resumeFrom ?? 'pending';
+      entry.resumeFrom = null;
+      entry.error = null;
+    }
+  }
+  return runAccessJob(job, contract, options);
+};
+
+/**
+ * Latest job per product for a seller, used to restore job tables after a reload
+ */
+export const getLatestAccessJobs = async (
+  ownerWallet: string,
+  store: AccessJobStore = accessJobStore
+): Promise<Record<number, AccessJob>> => {
+  const latest: Record<number, AccessJob> = {};
+  for (const job of await store.listByOwner(ownerWallet)) {
+    latest[job.productId] = job;
+  }
+  return latest;
+};
@@ -0,0 +1,74 @@
+import type { AccessJob } from './accessJobService';
+
+/**
+ * Where batch access jobs are persisted so they survive a page reload
+ */
+export interface AccessJobStore {
+  put(job: AccessJob): Promise<void>;
+  get(id: string): Promise<AccessJob | undefined>;
+  listByOwner(ownerWallet: string): Promise<AccessJob[]>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = 'singlelibrary-access-jobs';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+const OWNER_INDEX = 'ownerWallet';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex(OWNER_INDEX, 'ownerWallet', { unique: false });
+  };
+  return promisify(request);
+};
+
+/**
+ * IndexedDB-backed job store. The database is opened on first use.
+ */
+export const createIndexedDbAccessJobStore = (): AccessJobStore => {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    if (!db) {
+      db = openDatabase().catch((error) => {
+        db = null;
+        throw error;
+      });
+    }
+    const store = (await db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(run(store));
+  };
+
+  return {
+    put: async (job) => {
+      await withStore('readwrite', (store) => store.put(job));
+    },
+    get: (id) => withStore('readonly', (store) => store.get(id) as IDBRequest<AccessJob | undefined>),
+    listByOwner: async (ownerWallet) => {
+      const jobs = await withStore('readonly', (store) =>
+        store.index(OWNER_INDEX).getAll(ownerWallet) as IDBRequest<AccessJob[]>
+      );
+      return jobs.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    delete: async (id) => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+export const accessJobStore: AccessJobStore = createIndexedDbAccessJobStore();
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { retrieveFile } from './novaService';
+import { MAX_BUNDLE_FILES } from './marketplaceContract';
+import { verifyHash } from './integrityService';
+import { retrieveChunk, retrieveChunkManifest } from './chunkedFileService';
+import type { Listing } from './listingModel';
+
+// ============================================================================
+// BUNDLES
+// Several files sold as one listing. Each file is encrypted and uploaded to
+// the listing's NOVA group on its own; a JSON manifest describing them is
+// uploaded last, and the listing's cid points at that manifest. Buyers with
+// group access can therefore decrypt every file with the same credentials.
+// Files above CHUNKED_UPLOAD_THRESHOLD are uploaded in chunks like a single
+// large listing (see chunkedFileService); their entry points at the chunk
+// manifest instead of the file.
+// ============================================================================
+
+export const bundleManifestEntrySchema = z.object({
+  name: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  mime_type: z.string(),
+  /** Hash of the plaintext file as reported by NOVA on upload */
+  file_hash: z.string(),
+  cid: z.string().min(1),
+  /** Set on files uploaded in chunks; cid and file_hash are then the chunk manifest's */
+  chunk_count: z.number().int().positive().optional(),
+});
+
+export const bundleManifestSchema = z.object({
+  type: z.literal('bundle-manifest'),
+  version: z.literal(1),
+  files: z.array(bundleManifestEntrySchema).min(1).max(MAX_BUNDLE_FILES),
+});
+
+export type BundleManifestEntry = z.infer<typeof bundleManifestEntrySchema>;
+export type BundleManifest = z.infer<typeof bundleManifestSchema>;
+
+export interface BundleFile {
+  entry: BundleManifestEntry;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+/** Which file is being fetched; index is 0-based */
+export interface BundleProgress {
+  index: number;
+  count: number;
+  name: string;
+}
+
+export const buildBundleManifest = (files: BundleManifestEntry[]): BundleManifest => {
+  return { type: 'bundle-manifest', version: 1, files };
+};
+
+export const getBundleSize = (manifest: BundleManifest): number => {
+  return manifest.files.reduce((total, file) => total + file.size, 0);
+};
+
+/** Throws if the bytes aren't a manifest this version understands */
+export const parseBundleManifest = (data: Uint8Array): BundleManifest => {
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error('Bundle manifest is not valid JSON');
+  }
+
+  const result = bundleManifestSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid bundle manifest: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+  return result.data;
+};
+
+/**
+ * Make names unique for extraction: a second "a.csv" becomes "a (1).csv".
+ * Comparison ignores case, since most file systems do.
+ */
+export const uniqueFileNames = (names: string[]): string[] => {
+  const taken = new Set<string>();
+  return names.map((name) => {
+    const dot = name.lastIndexOf('.');
+    const [base, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let candidate = name;
+    for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${ext}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+/**
+ * Decrypt a bundle file that was uploaded in chunks, joining its chunks in order
+ */
+const retrieveChunkedEntry = async (
+  groupId: string,
+  entry: BundleManifestEntry,
+  buyerWallet?: string
+): Promise<{ data: Uint8Array<ArrayBuffer>; verified: boolean }> => {
+  const { manifest, verified: manifestVerified } = await retrieveChunkManifest(
+    { nova_group_id: groupId, cid: entry.cid, metadata: { file_hash: entry.file_hash } },
+    buyerWallet
+  );
+  if (manifest.size !== entry.size) {
+    throw new Error(`${entry.name} is ${manifest.size} bytes in its chunk manifest, expected ${entry.size}`);
+  }
+
+  const data = new Uint8Array(manifest.size);
+  let verified = manifestVerified;
+  let offset = 0;
+  for (const chunk of manifest.chunks) {
+    const result = await retrieveChunk({ nova_group_id: groupId }, chunk, buyerWallet);
+    data.set(result.data, offset);
+    offset += chunk.size;
+    verified &&= result.verified;
+  }
+  return { data, verified };
+};
+
+/**
+ * Fetch and decrypt the manifest, then every file it lists, one at a time so
+ * only one encrypted payload is in flight. Each is checked against its hash
+ * (see integrityService); verified is false if any had no hash to check.
+ */
+export const retrieveBundleFiles = async (
+  listing: Pick<Listing, 'nova_group_id' | 'cid' | 'metadata'>,
+  buyerWallet?: string,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<{ manifest: BundleManifest; files: BundleFile[]; verified: boolean }> => {
+  const { data } = await retrieveFile(listing.nova_group_id, listing.cid, buyerWallet);
+  const manifestBytes = new Uint8Array(data);
+  let verified = await verifyHash(manifestBytes, listing.metadata.file_hash, 'Bundle manifest');
+  const manifest = parseBundleManifest(manifestBytes);
+
+  const files: BundleFile[] = [];
+  for (const [index, entry] of manifest.files.entries()) {
+    onProgress?.({ index, count: manifest.files.length, name: entry.name });
+    if (entry.chunk_count) {
+      const result = await retrieveChunkedEntry(listing.nova_group_id, entry, buyerWallet);
+      verified = result.verified && verified;
+      files.push({ entry, data: result.data });
+      continue;
+    }
+    const result = await retrieveFile(listing.nova_group_id, entry.cid, buyerWallet);
+    const fileData = new Uint8Array(result.data);
+    verified = (await verifyHash(fileData, entry.file_hash, entry.name)) && verified;
+    files.push({ entry, data: fileData });
+  }
+
+  return { manifest, files, verified };
+};
@@ -1,6 +1,9 @@
 import { addGroupMember, revokeGroupMember } from './novaService';
-
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
+import { createAccessJob, runAccessJob } from './accessJobService';
+import type { AccessJob, AccessJobListener } from './accessJobService';
+import { createOriginalLoader, ensureBuyerCopyAccess, getBuyerNovaGroup, getOrCreateBuyerCopy } from './fingerprintService';
+import type { FingerprintSource } from './fingerprintService';
+import type { MarketplaceContractClient } from './marketplaceContract';
 
 export interface BuyerAccessStatus {
   buyer: string;
@@ -20,23 +23,21 @@ export interface BuyerWithNovaAccount {
  * 1. Fetches buyer's NOVA account ID from contract
  * 2. Adds buyer's NOVA account to NOVA group (so they can decrypt the file)
  * 3. Updates contract to mark buyer as having access
+ * On fingerprinted listings (pass getFingerprintSource(listing)) step 2 makes
+ * the buyer's own watermarked copy and adds them to its group instead.
  */
 export const grantBuyerAccess = async (
   productId: number,
   novaGroupId: string,
   buyerNearWallet: string,
-  viewFunction: any,
-  callFunction: any,
-  ownerWallet?: string
+  contract: MarketplaceContractClient,
+  ownerWallet?: string,
+  fingerprint: FingerprintSource | null = null
 ): Promise<void> => {
   try {
     // Step 1: Get buyer's NOVA account ID from contract
     console.log(`Fetching NOVA account ID for ${buyerNearWallet}...`);
-    const buyerNovaAccountId = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_nova_account',
-      args: { near_wallet: buyerNearWallet },
-    });
+    const buyerNovaAccountId = await contract.getNovaAccount({ near_wallet: buyerNearWallet });
     
     if (!buyerNovaAccountId) {
       throw new Error(`No NOVA account found for ${buyerNearWallet}. Buyer must have purchased with NOVA account set up.`);
@@ -44,6 +45,24 @@ export const grantBuyerAccess = async (
     
     console.log(`✅ Found NOVA account: ${buyerNovaAccountId}`);
     
+    if (fingerprint) {
+      if (!ownerWallet) {
+        throw new Error('The seller wallet is needed to make a fingerprinted copy');
+      }
+      
+      // Step 2: Watermarked copy in the buyer's own NOVA group
+      console.log(`Making fingerprinted copy for ${buyerNearWallet}...`);
+      const loadOriginal = createOriginalLoader(fingerprint, ownerWallet);
+      const copy = await getOrCreateBuyerCopy(productId, fingerprint, buyerNearWallet, contract, ownerWallet, loadOriginal);
+      await ensureBuyerCopyAccess(copy, buyerNovaAccountId, ownerWallet);
+      console.log(`✅ Copy uploaded to group ${copy.nova_group_id}`);
+      
+      // Step 3: Record the grant together with the copy
+      await contract.grantBuyerAccess({ p_id: productId, buyer: buyerNearWallet, copy });
+      console.log('✅ Contract updated - buyer has access');
+      return;
+    }
+    
     // Step 2: Add buyer's NOVA account to NOVA group (MAINNET)
     console.log(`Adding NOVA account ${buyerNovaAccountId} to group ${novaGroupId}...`);
     await addGroupMember(novaGroupId, buyerNovaAccountId, ownerWallet);
@@ -51,13 +70,9 @@ export const grantBuyerAccess = async (
     
     // Step 3: Update contract to mark buyer as having access (TESTNET)
     console.log(`Updating contract to grant access to ${buyerNearWallet}...`);
-    await callFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'grant_buyer_access',
-      args: {
-        p_id: productId,
-        buyer: buyerNearWallet,
-      },
+    await contract.grantBuyerAccess({
+      p_id: productId,
+      buyer: buyerNearWallet,
     });
     console.log('✅ Contract updated - buyer has access');
     
@@ -68,43 +83,35 @@ export const grantBuyerAccess = async (
 };
 
 /**
- * Revoke NOVA access from a buyer
+ * Revoke NOVA access from a buyer (from their own copy's group on fingerprinted listings)
  */
 export const revokeBuyerAccess = async (
   productId: number,
   novaGroupId: string,
   buyerNearWallet: string,
-  viewFunction: any,
-  callFunction: any,
+  contract: MarketplaceContractClient,
   ownerWallet?: string
 ): Promise<void> => {
   try {
     // Step 1: Get buyer's NOVA account ID from contract
     console.log(`Fetching NOVA account ID for ${buyerNearWallet}...`);
-    const buyerNovaAccountId = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_nova_account',
-      args: { near_wallet: buyerNearWallet },
-    });
+    const buyerNovaAccountId = await contract.getNovaAccount({ near_wallet: buyerNearWallet });
     
     if (!buyerNovaAccountId) {
       console.warn(`No NOVA account found for ${buyerNearWallet}, skipping NOVA group removal`);
     } else {
       // Step 2: Remove buyer's NOVA account from NOVA group (MAINNET)
-      console.log(`Removing NOVA account ${buyerNovaAccountId} from group ${novaGroupId}...`);
-      await revokeGroupMember(novaGroupId, buyerNovaAccountId, ownerWallet);
+      const groupId = await getBuyerNovaGroup(productId, novaGroupId, buyerNearWallet, contract);
+      console.log(`Removing NOVA account ${buyerNovaAccountId} from group ${groupId}...`);
+      await revokeGroupMember(groupId, buyerNovaAccountId, ownerWallet);
       console.log('✅ Removed from NOVA group');
     }
     
     // Step 3: Update contract
     console.log(`Updating contract to revoke access from ${buyerNearWallet}...`);
-    await callFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'revoke_buyer_access',
-      args: {
-        p_id: productId,
-        buyer: buyerNearWallet,
-      },
+    await contract.revokeBuyerAccess({
+      p_id: productId,
+      buyer: buyerNearWallet,
     });
     console.log('✅ Contract updated - buyer access revoked');
     
@@ -120,15 +127,10 @@ export const revokeBuyerAccess = async (
  */
 export const getPendingAccessBuyers = async (
   productId: number,
-  viewFunction: any
+  contract: MarketplaceContractClient
 ): Promise<string[]> => {
   try {
-    const buyers = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_pending_access_buyers',
-      args: { p_id: productId },
-    });
-    return buyers as string[];
+    return await contract.getPendingAccessBuyers({ p_id: productId });
   } catch (error) {
     console.error('Failed to get pending buyers:', error);
     return [];
@@ -141,17 +143,13 @@ export const getPendingAccessBuyers = async (
  */
 export const getPendingBuyersWithNovaAccounts = async (
   productId: number,
-  viewFunction: any
+  contract: MarketplaceContractClient
 ): Promise<BuyerWithNovaAccount[]> => {
   try {
-    const result = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_pending_buyers_with_nova_accounts',
-      args: { p_id: productId },
-    });
+    const result = await contract.getPendingBuyersWithNovaAccounts({ p_id: productId });
     
     // Contract returns: [(near_wallet, nova_account), ...]
-    return result.map((item: [string, string]) => ({
+    return result.map((item) => ({
       nearWallet: item[0],
       novaAccountId: item[1],
     }));
@@ -166,15 +164,10 @@ export const getPendingBuyersWithNovaAccounts = async (
  */
 export const getBuyersWithAccess = async (
   productId: number,
-  viewFunction: any
+  contract: MarketplaceContractClient
 ): Promise<string[]> => {
   try {
-    const buyers = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_buyers_with_access',
-      args: { p_id: productId },
-    });
-    return buyers as string[];
+    return await contract.getBuyersWithAccess({ p_id: productId });
   } catch (error) {
     console.error('Failed to get buyers with access:', error);
     return [];
@@ -187,18 +180,13 @@ export const getBuyersWithAccess = async (
 export const checkBuyerAccess = async (
   productId: number,
   buyerAccountId: string,
-  viewFunction: any
+  contract: MarketplaceContractClient
 ): Promise<boolean> => {
   try {
-    const hasAccess = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'has_access',
-      args: {
-        p_id: productId,
-        buyer: buyerAccountId,
-      },
+    return await contract.hasAccess({
+      p_id: productId,
+      buyer: buyerAccountId,
     });
-    return hasAccess as boolean;
   } catch (error) {
     console.error('Failed to check buyer access:', error);
     return false;
@@ -211,26 +199,18 @@ export const checkBuyerAccess = async (
 export const getBuyerAccessStatus = async (
   productId: number,
   buyerAccountId: string,
-  viewFunction: any
+  contract: MarketplaceContractClient
 ): Promise<BuyerAccessStatus> => {
   try {
     const [hasPurchased, hasNovaAccess] = await Promise.all([
-      viewFunction({
-        contractId: MARKETPLACE_CONTRACT,
-        method: 'has_purchased',
-        args: { p_id: productId, account_id: buyerAccountId },
-      }),
-      viewFunction({
-        contractId: MARKETPLACE_CONTRACT,
-        method: 'has_access',
-        args: { p_id: productId, buyer: buyerAccountId },
-      }),
+      contract.hasPurchased({ p_id: productId, account_id: buyerAccountId }),
+      contract.hasAccess({ p_id: productId, buyer: buyerAccountId }),
     ]);
 
     return {
       buyer: buyerAccountId,
-      hasPurchased: hasPurchased as boolean,
-      hasNovaAccess: hasNovaAccess as boolean,
+      hasPurchased,
+      hasNovaAccess,
     };
   } catch (error) {
     console.error('Failed to get buyer access status:', error);
@@ -248,8 +228,7 @@ export const getBuyerAccessStatus = async (
  */
 export const testGrantAccessContractOnly = async (
   productId: number,
-  viewFunction: any,
-  callFunction: any,
+  contract: MarketplaceContractClient,
   onProgress?: (current: number, total: number, buyer: string, novaId: string) => void
 ): Promise<{
   success: Array<{ nearWallet: string; novaAccountId: string }>;
@@ -258,7 +237,7 @@ export const testGrantAccessContractOnly = async (
 }> => {
   try {
     // STEP 1: Fetch all pending buyers with their NOVA account IDs
-    const pendingBuyersWithNova = await getPendingBuyersWithNovaAccounts(productId, viewFunction);
+    const pendingBuyersWithNova = await getPendingBuyersWithNovaAccounts(productId, contract);
     
     if (pendingBuyersWithNova.length === 0) {
       return {
@@ -278,13 +257,9 @@ export const testGrantAccessContractOnly = async (
       
       try {
         // Update contract only (NO NOVA GROUP UPDATE)
-        await callFunction({
-          contractId: MARKETPLACE_CONTRACT,
-          method: 'grant_buyer_access',
-          args: {
-            p_id: productId,
-            buyer: buyer.nearWallet,
-          },
+        await contract.grantBuyerAccess({
+          p_id: productId,
+          buyer: buyer.nearWallet,
         });
         
         success.push(buyer);
@@ -308,68 +283,69 @@ export const testGrantAccessContractOnly = async (
 };
 
 /**
- * REAL FUNCTION: Grant full access (NOVA + Contract)
- * This grants REAL access - adds to NOVA group AND updates contract
+ * REAL FUNCTION: Grant full access (NOVA + Contract) to every pending buyer
+ * Adds every buyer to the NOVA group first, then updates the contract with
+ * grant_buyer_access_many: one wallet signature per 15 buyers instead of one each.
+ * Runs as a persisted job (see accessJobService), so progress survives a
+ * reload and failed buyers can be retried. Returns null if nobody is pending.
+ * Fingerprinted listings pass getFingerprintSource(listing) so each buyer gets their own copy.
  */
 export const grantAccessToAllPendingBuyers = async (
   productId: number,
   novaGroupId: string,
-  viewFunction: any,
-  callFunction: any,
+  contract: MarketplaceContractClient,
   ownerWallet: string,
-  onProgress?: (current: number, total: number, buyer: string, novaId: string) => void
-): Promise<{
-  success: Array<{ nearWallet: string; novaAccountId: string }>;
-  failed: Array<{ nearWallet: string; novaAccountId: string; error: string }>;
-}> => {
+  onEvent?: AccessJobListener,
+  concurrency?: number,
+  fingerprint: FingerprintSource | null = null
+): Promise<AccessJob | null> => {
   try {
     // STEP 1: Fetch all pending buyers with their NOVA account IDs
-    const pendingBuyersWithNova = await getPendingBuyersWithNovaAccounts(productId, viewFunction);
+    const pendingBuyersWithNova = await getPendingBuyersWithNovaAccounts(productId, contract);
     
     if (pendingBuyersWithNova.length === 0) {
-      return {
-        success: [],
-        failed: [],
-      };
+      return null;
     }
     
-    const success: Array<{ nearWallet: string; novaAccountId: string }> = [];
-    const failed: Array<{ nearWallet: string; novaAccountId: string; error: string }> = [];
-    
-    // STEP 2: Grant NOVA group access + Contract access
-    for (let i = 0; i < pendingBuyersWithNova.length; i++) {
-      const buyer = pendingBuyersWithNova[i];
-      onProgress?.(i + 1, pendingBuyersWithNova.length, buyer.nearWallet, buyer.novaAccountId);
-      
-      try {
-        // Add to NOVA group (MAINNET)
-        await addGroupMember(novaGroupId, buyer.novaAccountId, ownerWallet);
-        
-        // Update contract (TESTNET)
-        await callFunction({
-          contractId: MARKETPLACE_CONTRACT,
-          method: 'grant_buyer_access',
-          args: {
-            p_id: productId,
-            buyer: buyer.nearWallet,
-          },
-        });
-        
-        success.push(buyer);
-      } catch (error: any) {
-        failed.push({
-          ...buyer,
-          error: error.message || 'Unknown error',
-        });
-      }
-    }
-    
-    return {
-      success,
-      failed,
-    };
+    // STEP 2: NOVA group access for all, then one batched contract update
+    const job = await createAccessJob({
+      action: 'grant',
+      productId,
+      novaGroupId,
+      ownerWallet,
+      buyers: pendingBuyersWithNova,
+      concurrency,
+      batch: true,
+      fingerprint,
+    });
+    return await runAccessJob(job, contract, { onEvent });
   } catch (error: any) {
     console.error('Grant access to all failed:', error);
     throw new Error(`Failed to grant access: ${error.message}`);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Revoke access (NOVA + Contract) from several buyers as a persisted job,
+ * with a single revoke_buyer_access_many transaction per 15 buyers
+ */
+export const revokeAccessForBuyers = async (
+  productId: number,
+  novaGroupId: string,
+  buyers: string[],
+  contract: MarketplaceContractClient,
+  ownerWallet: string,
+  onEvent?: AccessJobListener,
+  concurrency?: number
+): Promise<AccessJob> => {
+  const job = await createAccessJob({
+    action: 'revoke',
+    productId,
+    novaGroupId,
+    ownerWallet,
+    buyers: buyers.map((nearWallet) => ({ nearWallet })),
+    concurrency,
+    batch: true,
+  });
+  return runAccessJob(job, contract, { onEvent });
+};
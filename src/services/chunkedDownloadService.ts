@@ -0,0 +1,177 @@
+import { retrieveChunk, retrieveChunkManifest } from './chunkedFileService';
+import { downloadSessionStore } from './downloadSessionStore';
+import type { DownloadSessionStore } from './downloadSessionStore';
+import type { Listing } from './listingModel';
+
+// ============================================================================
+// STREAMED DOWNLOADS
+// Chunked listings are written straight to a file the buyer picks (File
+// System Access API), one decrypted chunk at a time, so memory use stays at
+// one chunk whatever the file size. Browsers write to a temporary copy and
+// only commit it on close, so the file is closed on success, cancel and
+// failure alike, and the session records the chunks that were committed.
+// Downloading the same purchase again appends from there.
+// ============================================================================
+
+// Parts of the File System Access API that TypeScript's DOM lib leaves out
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+interface ResumableFileHandle extends FileSystemFileHandle {
+  queryPermission?(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission?(descriptor: PermissionMode): Promise<PermissionState>;
+}
+
+interface SaveFilePickerWindow {
+  showSaveFilePicker(options?: { suggestedName?: string }): Promise<FileSystemFileHandle>;
+}
+
+export interface DownloadSession {
+  /** One per buyer and purchase, see getDownloadSessionId */
+  id: string;
+  buyerWallet: string;
+  productId: number;
+  /** Chunk manifest cid; a different manifest means a different file */
+  cid: string;
+  /** The file being written */
+  handle: FileSystemFileHandle;
+  /** Chunks committed to the file so far */
+  chunksWritten: number;
+  bytesWritten: number;
+  size: number;
+  updatedAt: number;
+}
+
+export interface DownloadProgress {
+  received: number;
+  total: number;
+}
+
+export interface StreamDownloadOptions {
+  store?: DownloadSessionStore;
+  /** Aborting stops after the chunk being fetched and keeps what was written */
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/** The buyer cancelled, or dismissed the save dialog */
+export class DownloadCancelledError extends Error {
+  constructor(message = 'Download cancelled') {
+    super(message);
+    this.name = 'DownloadCancelledError';
+  }
+}
+
+/** Whether this browser can stream a download to disk */
+export const canStreamToDisk = (): boolean => {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+};
+
+export const getDownloadSessionId = (listing: Pick<Listing, 'product_id' | 'cid'>, buyerWallet: string): string => {
+  return `${buyerWallet}:${listing.product_id}:${listing.cid}`;
+};
+
+/** Progress is best effort: a session that isn't saved just can't resume */
+const saveSession = async (session: DownloadSession, store: DownloadSessionStore) => {
+  try {
+    await store.put(session);
+  } catch (error) {
+    console.warn(`Download session ${session.id} not saved, it won't resume:`, error);
+  }
+};
+
+const hasWritePermission = async (handle: ResumableFileHandle): Promise<boolean> => {
+  const descriptor: PermissionMode = { mode: 'readwrite' };
+  if ((await handle.queryPermission?.(descriptor)) === 'granted') return true;
+  return (await handle.requestPermission?.(descriptor)) === 'granted';
+};
+
+/** A saved session for this purchase whose file we may still write to */
+const findResumableSession = async (
+  id: string,
+  size: number,
+  store: DownloadSessionStore
+): Promise<DownloadSession | null> => {
+  try {
+    const session = await store.get(id);
+    if (!session || session.size !== size) return null;
+    return (await hasWritePermission(session.handle)) ? session : null;
+  } catch (error) {
+    console.warn('Could not resume download session:', error);
+    return null;
+  }
+};
+
+const pickFile = async (suggestedName: string): Promise<FileSystemFileHandle> => {
+  try {
+    return await (window as unknown as SaveFilePickerWindow).showSaveFilePicker({ suggestedName });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new DownloadCancelledError();
+    }
+    throw error;
+  }
+};
+
+/**
+ * Decrypt a chunked listing into a file on disk, resuming an earlier
+ * download of the same purchase when there is one. Throws
+ * DownloadCancelledError when the buyer cancels; the session is kept so the
+ * next call picks up where this one stopped. Every chunk is checked against
+ * its hash before it is written; resolves whether there were hashes to check.
+ */
+export const streamChunkedFileToDisk = async (
+  listing: Pick<Listing, 'product_id' | 'nova_group_id' | 'cid' | 'metadata'>,
+  buyerWallet: string,
+  suggestedName: string,
+  { store = downloadSessionStore, signal, onProgress }: StreamDownloadOptions = {}
+): Promise<boolean> => {
+  const { manifest, verified: manifestVerified } = await retrieveChunkManifest(listing, buyerWallet);
+  let verified = manifestVerified;
+  const id = getDownloadSessionId(listing, buyerWallet);
+
+  const session: DownloadSession = (await findResumableSession(id, manifest.size, store)) ?? {
+    id,
+    buyerWallet,
+    productId: listing.product_id,
+    cid: listing.cid,
+    handle: await pickFile(suggestedName),
+    chunksWritten: 0,
+    bytesWritten: 0,
+    size: manifest.size,
+    updatedAt: Date.now(),
+  };
+  await saveSession(session, store);
+
+  const writable = await session.handle.createWritable({ keepExistingData: session.chunksWritten > 0 });
+  let chunksWritten = session.chunksWritten;
+  let bytesWritten = session.bytesWritten;
+
+  try {
+    // Drop anything past the last committed chunk before appending
+    await writable.truncate(bytesWritten);
+    await writable.seek(bytesWritten);
+    onProgress?.({ received: bytesWritten, total: manifest.size });
+
+    for (const chunk of manifest.chunks.slice(chunksWritten)) {
+      if (signal?.aborted) throw new DownloadCancelledError('Download paused. Download again to resume.');
+
+      const result = await retrieveChunk(listing, chunk, buyerWallet);
+      await writable.write(result.data);
+      verified &&= result.verified;
+      chunksWritten += 1;
+      bytesWritten += chunk.size;
+      onProgress?.({ received: bytesWritten, total: manifest.size });
+    }
+  } finally {
+    // Commit what was written, finished or not
+    await writable.close();
+    await saveSession({ ...session, chunksWritten, bytesWritten, updatedAt: Date.now() }, store);
+  }
+
+  try {
+    await store.delete(id);
+  } catch (error) {
+    console.warn(`Download session ${id} not deleted:`, error);
+  }
+  return verified;
+};
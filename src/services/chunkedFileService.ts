@@ -0,0 +1,324 @@
+import { z } from 'zod';
+import { retrieveFile, uploadFile } from './novaService';
+import { uploadSessionStore } from './uploadSessionStore';
+import type { UploadSessionStore } from './uploadSessionStore';
+import { verifyHash } from './integrityService';
+import { formatFileSize } from './listingModel';
+import type { Listing, ListingMetadata } from './listingModel';
+
+// ============================================================================
+// CHUNKED FILES
+// Large files are never read whole. They are streamed from disk, cut into
+// CHUNK_SIZE pieces, and each piece is encrypted and uploaded to the
+// listing's NOVA group on its own. A JSON manifest listing the chunks in order
+// is uploaded last, and the listing's cid points at it.
+// Finished chunks are recorded in an upload session (IndexedDB), so selecting
+// the same file again after a reload or a failure skips what already uploaded.
+// ============================================================================
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+/** Files above this go through the chunked pipeline; smaller ones upload whole */
+export const CHUNKED_UPLOAD_THRESHOLD = 4 * CHUNK_SIZE;
+/**
+ * Largest file retrieveChunkedFile joins in memory. Browsers without the File
+ * System Access API (see chunkedDownloadService) can't download anything bigger.
+ */
+export const MAX_IN_MEMORY_DOWNLOAD_SIZE = 128 * CHUNK_SIZE;
+
+export const chunkManifestEntrySchema = z.object({
+  index: z.number().int().nonnegative(),
+  size: z.number().int().positive(),
+  cid: z.string().min(1),
+  /** Hash of the plaintext chunk as reported by NOVA on upload */
+  file_hash: z.string(),
+});
+
+export const chunkManifestSchema = z
+  .object({
+    type: z.literal('chunk-manifest'),
+    version: z.literal(1),
+    file_name: z.string(),
+    mime_type: z.string(),
+    size: z.number().int().nonnegative(),
+    chunk_size: z.number().int().positive(),
+    chunks: z.array(chunkManifestEntrySchema).min(1),
+  })
+  .refine((manifest) => manifest.chunks.every((chunk, i) => chunk.index === i), 'Chunks are out of order')
+  .refine(
+    (manifest) => manifest.chunks.reduce((total, chunk) => total + chunk.size, 0) === manifest.size,
+    'Chunk sizes do not add up to the file size'
+  );
+
+export type ChunkManifestEntry = z.infer<typeof chunkManifestEntrySchema>;
+export type ChunkManifest = z.infer<typeof chunkManifestSchema>;
+
+export interface UploadSession {
+  /** Same wallet and same file (name, size, modified time) give the same id */
+  id: string;
+  ownerWallet: string;
+  groupId: string;
+  productId: number;
+  groupRegistered: boolean;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  /** Chunks already encrypted and uploaded, in file order */
+  chunks: ChunkManifestEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Bytes of the file that are uploaded so far */
+export interface ChunkProgress {
+  uploaded: number;
+  total: number;
+}
+
+export interface UploadChunksOptions {
+  store?: UploadSessionStore;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+export const getUploadSessionId = (file: File, ownerWallet: string): string => {
+  return `${ownerWallet}:${file.name}:${file.size}:${file.lastModified}`;
+};
+
+export const getUploadedBytes = (session: Pick<UploadSession, 'chunks'>): number => {
+  return session.chunks.reduce((total, chunk) => total + chunk.size, 0);
+};
+
+/**
+ * Saving a session is best effort: without IndexedDB the upload still runs,
+ * it just can't resume.
+ */
+const saveSession = async (session: UploadSession, store: UploadSessionStore) => {
+  try {
+    await store.put(session);
+  } catch (error) {
+    console.warn(`Upload session ${session.id} not saved, it won't resume after a reload:`, error);
+  }
+};
+
+/** A saved session for this exact file, if an earlier upload of it stopped part way */
+export const findUploadSession = async (
+  file: File,
+  ownerWallet: string,
+  store: UploadSessionStore = uploadSessionStore
+): Promise<UploadSession | null> => {
+  try {
+    const session = await store.get(getUploadSessionId(file, ownerWallet));
+    return session && session.chunkSize === CHUNK_SIZE ? session : null;
+  } catch (error) {
+    console.warn('Could not read upload sessions:', error);
+    return null;
+  }
+};
+
+/**
+ * Resume the saved session for this file, or start one with the group and
+ * product ids from `create`
+ */
+export const openUploadSession = async (
+  file: File,
+  ownerWallet: string,
+  create: () => Pick<UploadSession, 'groupId' | 'productId'>,
+  store: UploadSessionStore = uploadSessionStore
+): Promise<UploadSession> => {
+  const existing = await findUploadSession(file, ownerWallet, store);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const session: UploadSession = {
+    id: getUploadSessionId(file, ownerWallet),
+    ownerWallet,
+    ...create(),
+    groupRegistered: false,
+    fileName: file.name,
+    size: file.size,
+    chunkSize: CHUNK_SIZE,
+    chunks: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveSession(session, store);
+  return session;
+};
+
+export const markGroupRegistered = async (
+  session: UploadSession,
+  store: UploadSessionStore = uploadSessionStore
+): Promise<void> => {
+  session.groupRegistered = true;
+  session.updatedAt = Date.now();
+  await saveSession(session, store);
+};
+
+/** Forget a session once its listing exists */
+export const closeUploadSession = async (
+  session: UploadSession,
+  store: UploadSessionStore = uploadSessionStore
+): Promise<void> => {
+  try {
+    await store.delete(session.id);
+  } catch (error) {
+    console.warn(`Upload session ${session.id} not deleted:`, error);
+  }
+};
+
+/**
+ * Cut a byte stream into `chunkSize` pieces (the last one may be shorter),
+ * holding at most one chunk in memory
+ */
+export async function* readChunks(stream: ReadableStream<Uint8Array>, chunkSize: number): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let chunk = new Uint8Array(chunkSize);
+  let filled = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let offset = 0;
+      while (offset < value.length) {
+        const take = Math.min(chunkSize - filled, value.length - offset);
+        chunk.set(value.subarray(offset, offset + take), filled);
+        filled += take;
+        offset += take;
+        if (filled === chunkSize) {
+          yield chunk;
+          chunk = new Uint8Array(chunkSize);
+          filled = 0;
+        }
+      }
+    }
+    if (filled > 0) {
+      yield chunk.slice(0, filled);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Encrypt and upload every chunk the session doesn't have yet, saving the
+ * session after each one. Chunks upload in order, so a resume streams the
+ * file from the end of the last finished chunk.
+ */
+export const uploadChunks = async (
+  file: File,
+  session: UploadSession,
+  { store = uploadSessionStore, onProgress }: UploadChunksOptions = {}
+): Promise<ChunkManifestEntry[]> => {
+  let uploaded = getUploadedBytes(session);
+  onProgress?.({ uploaded, total: file.size });
+
+  let index = session.chunks.length;
+  for await (const chunk of readChunks(file.slice(uploaded).stream(), session.chunkSize)) {
+    const result = await uploadFile(session.groupId, chunk, `${session.fileName}.part${index}`, session.ownerWallet);
+    session.chunks.push({ index, size: chunk.length, cid: result.cid, file_hash: result.file_hash });
+    session.updatedAt = Date.now();
+    await saveSession(session, store);
+
+    uploaded += chunk.length;
+    index += 1;
+    onProgress?.({ uploaded, total: file.size });
+  }
+
+  return session.chunks;
+};
+
+export const buildChunkManifest = (
+  file: Pick<File, 'name' | 'type' | 'size'>,
+  chunkSize: number,
+  chunks: ChunkManifestEntry[]
+): ChunkManifest => {
+  return {
+    type: 'chunk-manifest',
+    version: 1,
+    file_name: file.name,
+    mime_type: file.type,
+    size: file.size,
+    chunk_size: chunkSize,
+    chunks,
+  };
+};
+
+/** Throws if the bytes aren't a chunk manifest this version understands */
+export const parseChunkManifest = (data: Uint8Array): ChunkManifest => {
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error('Chunk manifest is not valid JSON');
+  }
+
+  const result = chunkManifestSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid chunk manifest: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+  return result.data;
+};
+
+/**
+ * Fetch, verify and decrypt a listing's chunk manifest (or a bundle file's,
+ * see bundleService). verified is false when there is no hash to check the
+ * manifest against.
+ */
+export const retrieveChunkManifest = async (
+  listing: Pick<Listing, 'nova_group_id' | 'cid'> & { metadata?: Pick<ListingMetadata, 'file_hash'> },
+  buyerWallet?: string
+): Promise<{ manifest: ChunkManifest; verified: boolean }> => {
+  const { data } = await retrieveFile(listing.nova_group_id, listing.cid, buyerWallet);
+  const bytes = new Uint8Array(data);
+  const verified = await verifyHash(bytes, listing.metadata?.file_hash, 'Chunk manifest');
+  return { manifest: parseChunkManifest(bytes), verified };
+};
+
+/** Decrypt one chunk, refusing it if it doesn't match the manifest */
+export const retrieveChunk = async (
+  listing: Pick<Listing, 'nova_group_id'>,
+  chunk: ChunkManifestEntry,
+  buyerWallet?: string
+): Promise<{ data: Uint8Array<ArrayBuffer>; verified: boolean }> => {
+  const result = await retrieveFile(listing.nova_group_id, chunk.cid, buyerWallet);
+  const data = new Uint8Array(result.data);
+  if (data.length !== chunk.size) {
+    throw new Error(`Chunk ${chunk.index} is ${data.length} bytes, expected ${chunk.size}`);
+  }
+  return { data, verified: await verifyHash(data, chunk.file_hash, `Chunk ${chunk.index}`) };
+};
+
+/**
+ * Fetch and decrypt the manifest, then every chunk in order, and join them
+ * into one Blob. Holds the whole file in memory, so files above
+ * MAX_IN_MEMORY_DOWNLOAD_SIZE are refused before any chunk is fetched; see
+ * chunkedDownloadService for streaming to disk.
+ */
+export const retrieveChunkedFile = async (
+  listing: Pick<Listing, 'nova_group_id' | 'cid' | 'metadata'>,
+  buyerWallet?: string,
+  onProgress?: (progress: { received: number; total: number }) => void
+): Promise<{ blob: Blob; verified: boolean }> => {
+  const { manifest, verified: manifestVerified } = await retrieveChunkManifest(listing, buyerWallet);
+  if (manifest.size > MAX_IN_MEMORY_DOWNLOAD_SIZE) {
+    throw new Error(
+      `This file is ${formatFileSize(manifest.size)}, and this browser can only download files up to ` +
+        `${formatFileSize(MAX_IN_MEMORY_DOWNLOAD_SIZE)}. Use Chrome or Edge, which save large files straight to disk`
+    );
+  }
+
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  let verified = manifestVerified;
+  let received = 0;
+  for (const chunk of manifest.chunks) {
+    onProgress?.({ received, total: manifest.size });
+    const result = await retrieveChunk(listing, chunk, buyerWallet);
+    parts.push(result.data);
+    verified &&= result.verified;
+    received += chunk.size;
+  }
+  onProgress?.({ received, total: manifest.size });
+
+  return { blob: new Blob(parts, { type: manifest.mime_type || 'application/octet-stream' }), verified };
+};
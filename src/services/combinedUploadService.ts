@@ -1,10 +1,31 @@
 import { getFileCredibilityScoreFromBuffer} from '@/components/nearai';
 import { uploadFile, registerGroup } from './novaService';
+import type { UploadResult } from './novaService';
+import { buildBundleManifest, getBundleSize, uniqueFileNames } from './bundleService';
+import type { BundleManifestEntry } from './bundleService';
+import {
+  CHUNKED_UPLOAD_THRESHOLD,
+  buildChunkManifest,
+  closeUploadSession,
+  markGroupRegistered,
+  openUploadSession,
+  uploadChunks,
+} from './chunkedFileService';
+import type { ChunkProgress } from './chunkedFileService';
+import { publishPreview } from './previewService';
+import { canFingerprint } from './fingerprintService';
+import { MAX_BUNDLE_FILES } from './marketplaceContract';
+import type {
+  FingerprintSettings,
+  LicenseTerms,
+  ListingKind,
+  ListingPreview,
+  MarketplaceContractClient,
+  UsageLicense,
+} from './marketplaceContract';
 import { Buffer } from 'buffer';
 
 
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
-
 export interface CombinedUploadResult {
   // NOVA upload results
   cid: string;
@@ -22,11 +43,32 @@ export interface CombinedUploadResult {
   uploadedAt: string;
 }
 
+/** What the seller types about the listing in the upload form */
+export interface ListingDetails {
+  title: string;
+  description: string;
+  tags: string[];
+  license: LicenseTerms;
+  /** Built with createUsageLicense, so the text hash is already computed */
+  usageLicense: UsageLicense;
+  /** Upload an unencrypted teaser of the file (see previewService) */
+  publishPreview: boolean;
+  /** Give each buyer a watermarked copy (see fingerprintService); single images only */
+  fingerprint: FingerprintSettings | null;
+}
+
 export interface CombinedUploadProgress {
-  step: 'registering_group' | 'uploading_to_nova' | 'creating_listing' | 'complete';
+  step: 'registering_group' | 'uploading_to_nova' | 'publishing_preview' | 'creating_listing' | 'complete';
   message: string;
+  /** Set while uploading each file of a bundle; index is 0-based */
+  file?: { index: number; count: number; name: string };
+  /** Set while uploading a large file in chunks */
+  bytes?: ChunkProgress;
 }
 
+// The credibility check only needs a sample; large files are never read whole
+const CREDIBILITY_SAMPLE_BYTES = 4 * 1024 * 1024;
+
 
 const generateGroupId = (filename: string): string => {
   // Remove file extension
@@ -46,6 +88,21 @@ const generateGroupId = (filename: string): string => {
 
 
 
+/** Best effort, see publishPreview: the listing is created without one on failure */
+const uploadPreview = async (
+  details: ListingDetails,
+  files: File[],
+  onProgress?: (progress: CombinedUploadProgress) => void
+): Promise<ListingPreview | null> => {
+  if (!details.publishPreview) return null;
+
+  onProgress?.({
+    step: 'publishing_preview',
+    message: 'Generating public preview...'
+  });
+  return publishPreview(files);
+};
+
 const generateProductId = (): number => {
   const timestampSeconds = Math.floor(Date.now() / 1000);
   const random = Math.floor(Math.random() * 1000);
@@ -57,14 +114,20 @@ const generateProductId = (): number => {
 
 
 export const uploadAndCreateListing = async (
-  description,
+  details: ListingDetails,
   file: File,
-  assetType: 'Image' | 'Dataset' | 'Audio' | 'Other',
+  assetType: ListingKind,
   price: number,
   ownerAccount: string,
-  callFunction: any,
+  contract: MarketplaceContractClient,
   onProgress?: (progress: CombinedUploadProgress) => void
 ): Promise<CombinedUploadResult> => {
+  if (details.fingerprint && !canFingerprint([file])) {
+    throw new Error('Only a single JPEG or PNG image can be fingerprinted');
+  }
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+    return uploadChunkedAndCreateListing(details, file, assetType, price, ownerAccount, contract, onProgress);
+  }
   
   // Use fixed group ID
   const groupId = generateGroupId(file.name);
@@ -76,7 +139,7 @@ export const uploadAndCreateListing = async (
       // Read file as ArrayBuffer and convert to Buffer (works in both environments)
     const arrayBuffer = await file.arrayBuffer();
     const fileBuffer = Buffer.from(arrayBuffer);
-    const aiScore=await getFileCredibilityScoreFromBuffer(fileBuffer,description) || null;
+    const aiScore=await getFileCredibilityScoreFromBuffer(fileBuffer,details.description) || null;
     console.log('ai score is ', aiScore);
     // Step 1: Register group on NOVA (COMMENTED OUT - using existing group)
     onProgress?.({
@@ -145,27 +208,39 @@ export const uploadAndCreateListing = async (
     //   aiScore = null;
     // }
 
+    const preview = await uploadPreview(details, [file], onProgress);
+
     // Step 3: Create marketplace listing
     onProgress?.({
       step: 'creating_listing',
       message: 'Creating marketplace listing on NEAR...'
     });
     
-    const listingResult = await callFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'create_listing',
-      args: {
-        product_id: productId,
-        price: price,
-        nova_group_id: groupId,
-        list_type: assetType,
-        cid: uploadResult.cid,
-        gp_owner: ownerAccount,
-        is_tee_verified: true,
-        tee_signature: aiScore !== null ? aiScore : null,
+    // tee_signature is Option<String> on-chain, so the score is sent as a string
+    const listingResult = await contract.createListing({
+      product_id: productId,
+      price: price,
+      nova_group_id: groupId,
+      list_type: assetType,
+      cid: uploadResult.cid,
+      gp_owner: ownerAccount,
+      is_tee_verified: true,
+      tee_signature: aiScore !== null ? String(aiScore) : null,
+      description: details.description.trim() || null,
+      metadata: {
+        title: details.title.trim(),
+        tags: details.tags,
+        file_name: file.name,
+        mime_type: file.type,
+        size: file.size,
+        file_hash: uploadResult.file_hash,
+        file_count: 1,
+        chunk_count: 0,
       },
-      gas: '30000000000000', // 30 TGas
-      deposit: '0',          // No deposit required for listing creation
+      license: details.license,
+      usage_license: details.usageLicense,
+      preview,
+      fingerprint: details.fingerprint,
     });
     
     console.log(`✅ Listing created on marketplace. Product ID: ${productId}`);
@@ -195,18 +270,298 @@ export const uploadAndCreateListing = async (
     
   } catch (error: any) {
     console.error('Combined upload failed:', error);
-    
-    // Provide more specific error messages
-    if (error.message?.includes('not authorized')) {
-      throw new Error('Not authorized. Check your NOVA credentials at nova-sdk.com');
-    } else if (error.message?.includes('Insufficient')) {
-      throw new Error('Insufficient NEAR balance. Please add funds to your NOVA account at nova-sdk.com');
-    } else if (error.message?.includes('Session token')) {
-      throw new Error('Session expired. Your API key may be invalid. Generate a new one at nova-sdk.com');
-    } else if (error.message?.includes('wallet connected')) {
-      throw new Error('NEAR wallet connection lost. Please reconnect your wallet.');
+    throw toUploadError(error);
+  }
+};
+
+/**
+ * Stream a large file to NOVA in encrypted chunks and list it. Resumes the
+ * saved upload session for this file, if there is one, so a reload or a
+ * failed chunk doesn't start over (see chunkedFileService).
+ */
+const uploadChunkedAndCreateListing = async (
+  details: ListingDetails,
+  file: File,
+  assetType: ListingKind,
+  price: number,
+  ownerAccount: string,
+  contract: MarketplaceContractClient,
+  onProgress?: (progress: CombinedUploadProgress) => void
+): Promise<CombinedUploadResult> => {
+  try {
+    const session = await openUploadSession(file, ownerAccount, () => ({
+      groupId: generateGroupId(file.name),
+      productId: generateProductId(),
+    }));
+    const { groupId, productId } = session;
+
+    const sample = new Uint8Array(await file.slice(0, CREDIBILITY_SAMPLE_BYTES).arrayBuffer());
+    const aiScore = await getFileCredibilityScoreFromBuffer(sample, details.description) || null;
+
+    if (!session.groupRegistered) {
+      onProgress?.({
+        step: 'registering_group',
+        message: `Creating NOVA group: ${groupId}`
+      });
+      await registerGroup(groupId, ownerAccount);
+      await markGroupRegistered(session);
     }
-    
-    throw new Error(`Upload failed: ${error.message || 'Unknown error'}`);
+
+    const chunks = await uploadChunks(file, session, {
+      onProgress: (bytes) => onProgress?.({
+        step: 'uploading_to_nova',
+        message: `Encrypting and uploading... ${Math.floor((bytes.uploaded / bytes.total) * 100)}%`,
+        bytes,
+      }),
+    });
+
+    onProgress?.({
+      step: 'uploading_to_nova',
+      message: 'Uploading chunk manifest...'
+    });
+    const manifest = buildChunkManifest(file, session.chunkSize, chunks);
+    const manifestUpload = await uploadFile(
+      groupId,
+      Buffer.from(JSON.stringify(manifest)),
+      `${file.name}.manifest.json`,
+      ownerAccount
+    );
+    console.log(`✅ ${chunks.length} chunks uploaded to NOVA. Manifest CID: ${manifestUpload.cid}`);
+    const preview = await uploadPreview(details, [file], onProgress);
+
+    onProgress?.({
+      step: 'creating_listing',
+      message: 'Creating marketplace listing on NEAR...'
+    });
+    const listingResult = await contract.createListing({
+      product_id: productId,
+      price: price,
+      nova_group_id: groupId,
+      list_type: assetType,
+      cid: manifestUpload.cid,
+      gp_owner: ownerAccount,
+      is_tee_verified: true,
+      tee_signature: aiScore !== null ? String(aiScore) : null,
+      description: details.description.trim() || null,
+      metadata: {
+        title: details.title.trim(),
+        tags: details.tags,
+        file_name: file.name,
+        mime_type: file.type,
+        size: file.size,
+        file_hash: manifestUpload.file_hash,
+        file_count: 1,
+        chunk_count: chunks.length,
+      },
+      license: details.license,
+      usage_license: details.usageLicense,
+      preview,
+      fingerprint: null,
+    });
+    await closeUploadSession(session);
+
+    onProgress?.({
+      step: 'complete',
+      message: 'Upload and listing creation complete!'
+    });
+
+    return {
+      cid: manifestUpload.cid,
+      trans_id: manifestUpload.trans_id,
+      file_hash: manifestUpload.file_hash,
+      groupId: groupId,
+      listingTransactionId: listingResult?.transaction?.hash || 'pending',
+      productId: productId,
+      filename: file.name,
+      size: file.size,
+      uploadedAt: manifestUpload.uploadedAt,
+    };
+  } catch (error) {
+    console.error('Chunked upload failed:', error);
+    throw toUploadError(error);
+  }
+};
+
+/**
+ * Stream one large bundle file into the bundle's group in chunks and upload
+ * its chunk manifest. A saved session for the file is only resumed if it
+ * uploaded into this same group.
+ */
+const uploadBundleFileInChunks = async (
+  file: File,
+  name: string,
+  groupId: string,
+  productId: number,
+  ownerAccount: string,
+  onChunkProgress: (bytes: ChunkProgress) => void
+): Promise<{ upload: UploadResult; chunkCount: number }> => {
+  let session = await openUploadSession(file, ownerAccount, () => ({ groupId, productId }));
+  if (session.groupId !== groupId) {
+    await closeUploadSession(session);
+    session = await openUploadSession(file, ownerAccount, () => ({ groupId, productId }));
+  }
+
+  const chunks = await uploadChunks(file, session, { onProgress: onChunkProgress });
+  const manifest = buildChunkManifest({ name, type: file.type, size: file.size }, session.chunkSize, chunks);
+  const upload = await uploadFile(groupId, Buffer.from(JSON.stringify(manifest)), `${name}.manifest.json`, ownerAccount);
+  await closeUploadSession(session);
+  return { upload, chunkCount: chunks.length };
+};
+
+/**
+ * Upload several files into one NOVA group and list them as a single bundle.
+ * Each file is encrypted separately, in chunks if it is above
+ * CHUNKED_UPLOAD_THRESHOLD; the manifest describing them is uploaded last and
+ * becomes the listing's cid (see bundleService).
+ */
+export const uploadBundleAndCreateListing = async (
+  details: ListingDetails,
+  files: File[],
+  assetType: ListingKind,
+  price: number,
+  ownerAccount: string,
+  contract: MarketplaceContractClient,
+  onProgress?: (progress: CombinedUploadProgress) => void
+): Promise<CombinedUploadResult> => {
+  if (files.length < 2) {
+    throw new Error('A bundle needs at least two files');
+  }
+  if (files.length > MAX_BUNDLE_FILES) {
+    throw new Error(`A bundle can hold at most ${MAX_BUNDLE_FILES} files`);
+  }
+  if (details.fingerprint) {
+    throw new Error('Bundles cannot be fingerprinted');
+  }
+
+  const bundleName = details.title.trim() || files[0].name.replace(/\.[^/.]+$/, '');
+  const groupId = generateGroupId(bundleName);
+  const productId = generateProductId();
+  const names = uniqueFileNames(files.map((file) => file.name));
+
+  try {
+    // Scored on a sample of the first file only; scoring every shard would take minutes
+    const sample = new Uint8Array(await files[0].slice(0, CREDIBILITY_SAMPLE_BYTES).arrayBuffer());
+    const aiScore = await getFileCredibilityScoreFromBuffer(sample, details.description) || null;
+
+    onProgress?.({
+      step: 'registering_group',
+      message: `Creating NOVA group: ${groupId}`
+    });
+    await registerGroup(groupId, ownerAccount);
+
+    const entries: BundleManifestEntry[] = [];
+    for (const [index, file] of files.entries()) {
+      const message = `Encrypting and uploading ${names[index]} (${index + 1} of ${files.length})...`;
+      const fileProgress = { index, count: files.length, name: names[index] };
+      onProgress?.({ step: 'uploading_to_nova', message, file: fileProgress });
+
+      if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+        const { upload, chunkCount } = await uploadBundleFileInChunks(
+          file, names[index], groupId, productId, ownerAccount,
+          (bytes) => onProgress?.({ step: 'uploading_to_nova', message, file: fileProgress, bytes })
+        );
+        entries.push({
+          name: names[index],
+          size: file.size,
+          mime_type: file.type,
+          file_hash: upload.file_hash,
+          cid: upload.cid,
+          chunk_count: chunkCount,
+        });
+        continue;
+      }
+
+      const upload = await uploadFile(groupId, Buffer.from(await file.arrayBuffer()), names[index], ownerAccount);
+      entries.push({
+        name: names[index],
+        size: file.size,
+        mime_type: file.type,
+        file_hash: upload.file_hash,
+        cid: upload.cid,
+      });
+    }
+
+    onProgress?.({
+      step: 'uploading_to_nova',
+      message: 'Uploading bundle manifest...'
+    });
+    const manifest = buildBundleManifest(entries);
+    const manifestUpload = await uploadFile(
+      groupId,
+      Buffer.from(JSON.stringify(manifest)),
+      `${groupId}.manifest.json`,
+      ownerAccount
+    );
+    console.log(`✅ Bundle of ${files.length} files uploaded to NOVA. Manifest CID: ${manifestUpload.cid}`);
+    const preview = await uploadPreview(details, files, onProgress);
+
+    onProgress?.({
+      step: 'creating_listing',
+      message: 'Creating marketplace listing on NEAR...'
+    });
+    const size = getBundleSize(manifest);
+    // Group id minus its random suffix, e.g. "lisbon_trees.zip"
+    const filename = `${groupId.replace(/_\d+$/, '')}.zip`;
+    const listingResult = await contract.createListing({
+      product_id: productId,
+      price: price,
+      nova_group_id: groupId,
+      list_type: assetType,
+      cid: manifestUpload.cid,
+      gp_owner: ownerAccount,
+      is_tee_verified: true,
+      tee_signature: aiScore !== null ? String(aiScore) : null,
+      description: details.description.trim() || null,
+      metadata: {
+        title: details.title.trim(),
+        tags: details.tags,
+        file_name: filename,
+        mime_type: 'application/zip',
+        size,
+        file_hash: manifestUpload.file_hash,
+        file_count: files.length,
+        chunk_count: 0,
+      },
+      license: details.license,
+      usage_license: details.usageLicense,
+      preview,
+      fingerprint: null,
+    });
+
+    onProgress?.({
+      step: 'complete',
+      message: 'Upload and listing creation complete!'
+    });
+
+    return {
+      cid: manifestUpload.cid,
+      trans_id: manifestUpload.trans_id,
+      file_hash: manifestUpload.file_hash,
+      groupId: groupId,
+      listingTransactionId: listingResult?.transaction?.hash || 'pending',
+      productId: productId,
+      filename,
+      size,
+      uploadedAt: manifestUpload.uploadedAt,
+    };
+  } catch (error) {
+    console.error('Bundle upload failed:', error);
+    throw toUploadError(error);
+  }
+};
+
+/** Turn NOVA / wallet failures into messages the seller can act on */
+const toUploadError = (error: unknown): Error => {
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not authorized')) {
+    return new Error('Not authorized. Check your NOVA credentials at nova-sdk.com');
+  } else if (message.includes('Insufficient')) {
+    return new Error('Insufficient NEAR balance. Please add funds to your NOVA account at nova-sdk.com');
+  } else if (message.includes('Session token')) {
+    return new Error('Session expired. Your API key may be invalid. Generate a new one at nova-sdk.com');
+  } else if (message.includes('wallet connected')) {
+    return new Error('NEAR wallet connection lost. Please reconnect your wallet.');
   }
-};
\ No newline at end of file
+
+  return new Error(`Upload failed: ${message || 'Unknown error'}`);
+};
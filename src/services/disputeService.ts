@@ -0,0 +1,208 @@
+import { DISPUTE_STALE_MS, MAX_DISPUTE_NOTE_LENGTH } from './marketplaceContract';
+import type { ContractDispute, ContractEscrow, DisputeStatus, MarketplaceContractClient } from './marketplaceContract';
+import { listingPriceToYocto } from './listingModel';
+import type { Listing } from './listingModel';
+
+// Must not exceed MAX_PAGE_LIMIT in listingContract.rs
+const DISPUTES_PAGE_SIZE = 100;
+
+export type DisputeRole = 'buyer' | 'seller' | 'arbiter';
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  Open: 'Open',
+  Refunded: 'Refunded',
+  Rejected: 'Resolved for seller',
+  Withdrawn: 'Withdrawn',
+  Expired: 'Closed, no reply',
+};
+
+/**
+ * Which side of a dispute an account is on, null if they have no say in it.
+ * The arbiter may also be one of the parties; their own role wins.
+ */
+export const getDisputeRole = (
+  dispute: Pick<ContractDispute, 'buyer' | 'seller'>,
+  accountId: string | null | undefined,
+  arbiter: string | null
+): DisputeRole | null => {
+  if (!accountId) return null;
+  if (accountId === dispute.buyer) return 'buyer';
+  if (accountId === dispute.seller) return 'seller';
+  if (accountId === arbiter) return 'arbiter';
+  return null;
+};
+
+/**
+ * Milliseconds until the seller can close an open dispute that has gone
+ * quiet (0 once they can). Mirrors the check in `close_stale_dispute`.
+ */
+export const getStaleDisputeCountdown = (dispute: Pick<ContractDispute, 'events'>, now = Date.now()): number => {
+  const lastEventMs = dispute.events.length > 0 ? dispute.events[dispute.events.length - 1].at_ms : 0;
+  return Math.max(0, lastEventMs + DISPUTE_STALE_MS - now);
+};
+
+/**
+ * Deposit (yoctoNEAR) the seller must attach to `refund_dispute`.
+ * Nothing while the payment is still in escrow; otherwise the amount that
+ * was paid out, or the current price for purchases made before escrow.
+ */
+export const getSellerRefundDeposit = (
+  escrow: ContractEscrow | null,
+  listing: Pick<Listing, 'price'>
+): string => {
+  if (escrow === null) return listingPriceToYocto(listing.price);
+  return escrow.status === 'Held' ? '0' : escrow.amount;
+};
+
+/**
+ * Throws with a user-facing message if the contract would reject the note
+ */
+export const validateDisputeNote = (note: string): void => {
+  if (!note.trim()) {
+    throw new Error('Please describe the problem');
+  }
+  if (new TextEncoder().encode(note).length > MAX_DISPUTE_NOTE_LENGTH) {
+    throw new Error(`Note is longer than ${MAX_DISPUTE_NOTE_LENGTH} bytes`);
+  }
+};
+
+/**
+ * The dispute on a purchase, null if there is none or the lookup fails
+ */
+export const getPurchaseDispute = async (
+  productId: number,
+  buyerAccountId: string,
+  contract: MarketplaceContractClient
+): Promise<ContractDispute | null> => {
+  try {
+    return await contract.getDispute({ p_id: productId, buyer: buyerAccountId });
+  } catch (error) {
+    console.error(`Failed to fetch dispute for product ${productId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Every dispute buyers opened on a listing; empty if the lookup fails
+ */
+export const getListingDisputes = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<ContractDispute[]> => {
+  try {
+    return await contract.getListingDisputes({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to fetch disputes for product ${productId}:`, error);
+    return [];
+  }
+};
+
+export const getArbiter = async (contract: MarketplaceContractClient): Promise<string | null> => {
+  try {
+    return await contract.getArbiter();
+  } catch (error) {
+    console.error('Failed to fetch arbiter:', error);
+    return null;
+  }
+};
+
+/**
+ * Open disputes across the marketplace, oldest first (the arbiter's queue)
+ */
+export const getOpenDisputes = async (contract: MarketplaceContractClient): Promise<ContractDispute[]> => {
+  const total = await contract.getDisputesCount();
+  const pages: Promise<ContractDispute[]>[] = [];
+  for (let fromIndex = 0; fromIndex < total; fromIndex += DISPUTES_PAGE_SIZE) {
+    pages.push(contract.getDisputes({ from_index: fromIndex, limit: DISPUTES_PAGE_SIZE }));
+  }
+  return (await Promise.all(pages)).flat().filter((dispute) => dispute.status === 'Open');
+};
+
+export const openDispute = async (
+  productId: number,
+  reason: string,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  validateDisputeNote(reason);
+  try {
+    await contract.openDispute({ p_id: productId, reason: reason.trim() });
+  } catch (error) {
+    console.error(`Failed to open dispute for product ${productId}:`, error);
+    throw error;
+  }
+};
+
+export const addDisputeNote = async (
+  dispute: ContractDispute,
+  note: string,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  validateDisputeNote(note);
+  try {
+    await contract.addDisputeNote({ p_id: dispute.p_id, buyer: dispute.buyer, note: note.trim() });
+  } catch (error) {
+    console.error(`Failed to add note to dispute on product ${dispute.p_id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Seller refunds the buyer. `deposit` comes from getSellerRefundDeposit.
+ */
+export const refundDispute = async (
+  dispute: ContractDispute,
+  deposit: string,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.refundDispute({ p_id: dispute.p_id, buyer: dispute.buyer }, { deposit });
+  } catch (error) {
+    console.error(`Failed to refund dispute on product ${dispute.p_id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Arbiter's ruling. A refund is only possible while the payment is in escrow.
+ */
+export const resolveDispute = async (
+  dispute: ContractDispute,
+  refund: boolean,
+  note: string,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.resolveDispute({ p_id: dispute.p_id, buyer: dispute.buyer, refund, note: note.trim() });
+  } catch (error) {
+    console.error(`Failed to resolve dispute on product ${dispute.p_id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Seller closes a dispute with no new event for DISPUTE_STALE_MS.
+ * A held payment is released if the buyer has access.
+ */
+export const closeStaleDispute = async (
+  dispute: ContractDispute,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.closeStaleDispute({ p_id: dispute.p_id, buyer: dispute.buyer });
+  } catch (error) {
+    console.error(`Failed to close dispute on product ${dispute.p_id}:`, error);
+    throw error;
+  }
+};
+
+export const withdrawDispute = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.withdrawDispute({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to withdraw dispute on product ${productId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+import type { DownloadSession } from './chunkedDownloadService';
+
+/**
+ * Where streamed downloads record how far they got so they can resume
+ */
+export interface DownloadSessionStore {
+  put(session: DownloadSession): Promise<void>;
+  get(id: string): Promise<DownloadSession | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = 'singlelibrary-download-sessions';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return promisify(request);
+};
+
+/**
+ * IndexedDB-backed session store. File handles are structured-cloneable, so
+ * the file being written survives a reload along with the progress.
+ */
+export const createIndexedDbDownloadSessionStore = (): DownloadSessionStore => {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    if (!db) {
+      db = openDatabase().catch((error) => {
+        db = null;
+        throw error;
+      });
+    }
+    const store = (await db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(run(store));
+  };
+
+  return {
+    put: async (session) => {
+      await withStore('readwrite', (store) => store.put(session));
+    },
+    get: (id) => withStore('readonly', (store) => store.get(id) as IDBRequest<DownloadSession | undefined>),
+    delete: async (id) => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+export const downloadSessionStore: DownloadSessionStore = createIndexedDbDownloadSessionStore();
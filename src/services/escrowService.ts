@@ -0,0 +1,87 @@
+import type { ContractEscrow, MarketplaceContractClient } from './marketplaceContract';
+
+/**
+ * Fetch the escrowed payment for a purchase.
+ * Returns null for purchases made before escrow existed or if the lookup fails.
+ */
+export const getPurchaseEscrow = async (
+  productId: number,
+  buyerAccountId: string,
+  contract: MarketplaceContractClient
+): Promise<ContractEscrow | null> => {
+  try {
+    return await contract.getEscrow({
+      p_id: productId,
+      buyer: buyerAccountId,
+    });
+  } catch (error) {
+    console.error(`Failed to fetch escrow for product ${productId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Milliseconds until the buyer can claim a refund (0 once it is claimable)
+ */
+export const getRefundCountdown = (escrow: ContractEscrow, now = Date.now()): number => {
+  return Math.max(0, escrow.refundable_at_ms - now);
+};
+
+/** What `claim_refund` checks about the purchase besides its escrow */
+export interface RefundBlockers {
+  hasAccess: boolean;
+  hasOpenDispute: boolean;
+}
+
+/**
+ * A refund can be claimed while the payment is still held and the timeout has
+ * passed, unless access was granted or a dispute is open. A refund whose
+ * transfer failed can always be claimed again.
+ * Mirrors the checks in `claim_refund`.
+ */
+export const isRefundClaimable = (
+  escrow: ContractEscrow | null,
+  { hasAccess, hasOpenDispute }: RefundBlockers,
+  now = Date.now()
+): boolean => {
+  if (escrow?.status === 'RefundFailed') return true;
+  return (
+    escrow !== null &&
+    escrow.status === 'Held' &&
+    !hasAccess &&
+    !hasOpenDispute &&
+    getRefundCountdown(escrow, now) === 0
+  );
+};
+
+/**
+ * Reclaim an escrowed payment the seller never released.
+ * The contract removes the purchase, so the item drops out of the buyer's list.
+ */
+export const claimRefund = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.claimRefund({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to claim refund for product ${productId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Format a countdown as "2d 4h", "3h 12m" or "45s"
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
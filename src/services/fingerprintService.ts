@@ -0,0 +1,133 @@
+import { addGroupMember, getGroupOwner, isAuthorized, registerGroup, retrieveFile, uploadFile } from './novaService';
+import { sha256Hex, verifyHash } from './integrityService';
+import { CHUNKED_UPLOAD_THRESHOLD } from './chunkedFileService';
+import { fingerprintImage } from './watermarkService';
+import type { BuyerCopy, MarketplaceContractClient } from './marketplaceContract';
+import type { Listing } from './listingModel';
+
+// ============================================================================
+// BUYER FINGERPRINTING
+// On a fingerprinted listing no buyer is given the seller's file. When the
+// seller grants access, the original is decrypted once and each buyer gets a
+// copy watermarked with their account id (see watermarkService), uploaded to
+// a NOVA group of their own that only they are added to. The contract records
+// the copy with the grant, so downloads, revokes and reconciliation know which
+// group and file belong to the buyer. Copies are made in the browser (canvas),
+// so the Node auto-grant agent leaves fingerprinted listings to the seller.
+// ============================================================================
+
+export const FINGERPRINTABLE_TYPES = ['image/jpeg', 'image/png'];
+
+/** What a grant needs to make buyer copies of a fingerprinted listing */
+export interface FingerprintSource {
+  novaGroupId: string;
+  cid: string;
+  fileHash: string;
+  fileName: string;
+  mimeType: string;
+  visible: boolean;
+}
+
+/** Decrypts the original once and hands the same bytes to every copy made from it */
+export type OriginalLoader = () => Promise<Blob>;
+
+/** A single JPEG or PNG small enough to be uploaded whole */
+export const canFingerprint = (files: Array<Pick<File, 'type' | 'size'>>): boolean =>
+  files.length === 1 && FINGERPRINTABLE_TYPES.includes(files[0].type) && files[0].size <= CHUNKED_UPLOAD_THRESHOLD;
+
+export const getFingerprintSource = (
+  listing: Pick<Listing, 'nova_group_id' | 'cid' | 'metadata' | 'fingerprint'>
+): FingerprintSource | null => {
+  if (!listing.fingerprint) return null;
+  return {
+    novaGroupId: listing.nova_group_id,
+    cid: listing.cid,
+    fileHash: listing.metadata.file_hash,
+    fileName: listing.metadata.file_name,
+    mimeType: listing.metadata.mime_type,
+    visible: listing.fingerprint.visible,
+  };
+};
+
+/** Derived from the buyer, so a retried grant reuses the group an earlier attempt registered */
+export const getBuyerCopyGroupId = async (novaGroupId: string, buyer: string): Promise<string> => {
+  const digest = await sha256Hex(new TextEncoder().encode(buyer));
+  return `${novaGroupId}_fp_${digest.slice(0, 12)}`;
+};
+
+/**
+ * The NOVA group a buyer was granted: their copy's group on fingerprinted
+ * listings, the listing's group otherwise
+ */
+export const getBuyerNovaGroup = async (
+  productId: number,
+  novaGroupId: string,
+  buyer: string,
+  contract: MarketplaceContractClient
+): Promise<string> => {
+  const copy = await contract.getBuyerCopy({ p_id: productId, buyer });
+  return copy?.nova_group_id ?? novaGroupId;
+};
+
+export const createOriginalLoader = (source: FingerprintSource, ownerWallet: string): OriginalLoader => {
+  let original: Promise<Blob> | null = null;
+  return () => {
+    if (!original) {
+      original = (async () => {
+        const { data } = await retrieveFile(source.novaGroupId, source.cid, ownerWallet);
+        const bytes = new Uint8Array(data);
+        await verifyHash(bytes, source.fileHash, 'Original file');
+        return new Blob([bytes], { type: source.mimeType });
+      })();
+      // A failed retrieval is tried again by the next copy
+      original.catch(() => {
+        original = null;
+      });
+    }
+    return original;
+  };
+};
+
+/**
+ * Watermark the original for `buyer` and upload it to their own NOVA group,
+ * registering the group first if needed. Does not add the buyer to the group
+ * (see ensureBuyerCopyAccess).
+ */
+export const createBuyerCopy = async (
+  source: FingerprintSource,
+  buyer: string,
+  ownerWallet: string,
+  loadOriginal: OriginalLoader
+): Promise<BuyerCopy> => {
+  const groupId = await getBuyerCopyGroupId(source.novaGroupId, buyer);
+  if (!(await getGroupOwner(groupId, ownerWallet))) {
+    await registerGroup(groupId, ownerWallet);
+  }
+
+  const copy = await fingerprintImage(await loadOriginal(), source.mimeType, buyer, { visible: source.visible });
+  const upload = await uploadFile(groupId, new Uint8Array(await copy.arrayBuffer()), source.fileName, ownerWallet);
+  return { buyer, nova_group_id: groupId, cid: upload.cid, file_hash: upload.file_hash };
+};
+
+/** Add the buyer to their copy's group unless an earlier attempt already did */
+export const ensureBuyerCopyAccess = async (copy: BuyerCopy, novaAccountId: string, ownerWallet: string): Promise<void> => {
+  if (!(await isAuthorized(copy.nova_group_id, novaAccountId, ownerWallet))) {
+    await addGroupMember(copy.nova_group_id, novaAccountId, ownerWallet);
+  }
+};
+
+/**
+ * The buyer's copy recorded on the contract, or a new one. A copy made by a
+ * grant that failed before reaching the contract is made again.
+ */
+export const getOrCreateBuyerCopy = async (
+  productId: number,
+  source: FingerprintSource,
+  buyer: string,
+  contract: MarketplaceContractClient,
+  ownerWallet: string,
+  loadOriginal: OriginalLoader
+): Promise<BuyerCopy> => {
+  const recorded = await contract.getBuyerCopy({ p_id: productId, buyer });
+  return recorded ?? createBuyerCopy(source, buyer, ownerWallet, loadOriginal);
+};
@@ -0,0 +1,81 @@
+// ============================================================================
+// DOWNLOAD INTEGRITY
+// NOVA records the SHA-256 of every plaintext it encrypts, and the listing
+// stores it on-chain (metadata.file_hash). Downloads hash what they decrypted
+// and refuse to save anything that doesn't match. For bundles and chunked
+// files the on-chain hash covers the manifest, and the manifest carries the
+// hash of each file or chunk, so every byte is checked against the chain.
+// The outcome is remembered per purchase in localStorage for the profile page.
+// ============================================================================
+
+export type VerificationStatus = 'verified' | 'mismatch' | 'unverified';
+
+export interface DownloadVerification {
+  /** unverified: the listing has no hash to check against */
+  status: VerificationStatus;
+  checkedAt: number;
+}
+
+/** Decrypted data doesn't match the hash recorded at upload */
+export class IntegrityError extends Error {
+  constructor(
+    what: string,
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`${what} does not match its recorded hash; it may be corrupted or tampered with`);
+    this.name = 'IntegrityError';
+  }
+}
+
+const STORAGE_KEY = 'download_verifications';
+
+/** Lowercase hex SHA-256, the format NOVA reports as file_hash */
+export const sha256Hex = async (data: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Check data against a recorded hash. Resolves false when there is no hash
+ * to check (listings created before hashes were recorded); throws
+ * IntegrityError on a mismatch.
+ */
+export const verifyHash = async (data: Uint8Array<ArrayBuffer>, expectedHash: string, what: string): Promise<boolean> => {
+  if (!expectedHash) return false;
+
+  const actual = await sha256Hex(data);
+  if (actual !== expectedHash.toLowerCase()) {
+    throw new IntegrityError(what, expectedHash, actual);
+  }
+  return true;
+};
+
+const readVerifications = (): Record<string, DownloadVerification> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Failed to read download verifications:', error);
+    return {};
+  }
+};
+
+export const recordDownloadVerification = (
+  buyerWallet: string,
+  productId: number,
+  status: VerificationStatus,
+  now = Date.now()
+): void => {
+  try {
+    const all = readVerifications();
+    all[`${buyerWallet}:${productId}`] = { status, checkedAt: now };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error(`Failed to record verification for product ${productId}:`, error);
+  }
+};
+
+/** Result of the buyer's last download of this purchase, null if never downloaded here */
+export const getDownloadVerification = (buyerWallet: string, productId: number): DownloadVerification | null => {
+  return readVerifications()[`${buyerWallet}:${productId}`] ?? null;
+};
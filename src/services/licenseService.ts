@@ -0,0 +1,146 @@
+import { isTimeLimitedLicense, listingPriceToYocto } from './listingModel';
+import type { Listing } from './listingModel';
+import type { MarketplaceContractClient } from './marketplaceContract';
+
+// ============================================================================
+// LICENSES
+// Fixed-term and subscription listings grant access until a per-buyer expiry
+// stored on-chain. The contract stops reporting access once that time passes
+// but can't revoke on its own, so lapsed licenses are revoked in NOVA and on
+// the contract by the seller: from Profile with one click, or automatically
+// by the auto-grant agent.
+// ============================================================================
+
+export interface ExpiredLicense {
+  productId: number;
+  novaGroupId: string;
+  buyer: string;
+  expiresAtMs: number;
+}
+
+/** Removes one buyer's access in NOVA and on the contract (e.g. buyerAccessService.revokeBuyerAccess) */
+export type RevokeExpiredLicense = (license: ExpiredLicense) => Promise<void>;
+
+export interface LicenseSweepResult {
+  revoked: ExpiredLicense[];
+  failed: Array<{ license: ExpiredLicense; error: string }>;
+}
+
+/**
+ * When the buyer's license lapses, in ms. Null for perpetual licenses, buyers
+ * not yet granted access, or if the lookup fails.
+ */
+export const getLicenseExpiry = async (
+  productId: number,
+  buyerAccountId: string,
+  contract: MarketplaceContractClient
+): Promise<number | null> => {
+  try {
+    return await contract.getLicenseExpiry({ p_id: productId, buyer: buyerAccountId });
+  } catch (error) {
+    console.error(`Failed to fetch license expiry for product ${productId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Milliseconds of access left (0 once the license has lapsed)
+ */
+export const getLicenseRemaining = (expiresAtMs: number, now = Date.now()): number => {
+  return Math.max(0, expiresAtMs - now);
+};
+
+/**
+ * A subscriber can renew while they still hold access, even after the term
+ * ran out but before the seller's sweep revoked it. Mirrors `renew_license`.
+ */
+export const canRenewLicense = (listing: Listing, accountId?: string | null): boolean => {
+  return (
+    listing.license.kind === 'Subscription' &&
+    !!accountId &&
+    listing.buyers_with_access.includes(accountId)
+  );
+};
+
+/**
+ * Buyers whose license on one of these listings has lapsed but who still hold access
+ */
+export const findExpiredLicenses = async (
+  listings: Listing[],
+  contract: MarketplaceContractClient,
+  now = Date.now()
+): Promise<ExpiredLicense[]> => {
+  const candidates = listings.filter(
+    (listing) => isTimeLimitedLicense(listing.license) && listing.buyers_with_access.length > 0
+  );
+
+  const expired = await Promise.all(
+    candidates.map(async (listing) => {
+      const expiries = await contract.getLicenseExpiries({ p_id: listing.product_id });
+      return expiries
+        .filter(([, expiresAtMs]) => expiresAtMs <= now)
+        .map(([buyer, expiresAtMs]) => ({
+          productId: listing.product_id,
+          novaGroupId: listing.nova_group_id,
+          buyer,
+          expiresAtMs,
+        }));
+    })
+  );
+
+  return expired.flat();
+};
+
+/**
+ * Lapsed licenses grouped by listing, for one batched revocation per listing
+ */
+export const groupExpiredLicenses = (
+  licenses: ExpiredLicense[]
+): Array<{ productId: number; novaGroupId: string; buyers: string[] }> => {
+  const groups = new Map<number, { productId: number; novaGroupId: string; buyers: string[] }>();
+  for (const { productId, novaGroupId, buyer } of licenses) {
+    const group = groups.get(productId) ?? { productId, novaGroupId, buyers: [] };
+    group.buyers.push(buyer);
+    groups.set(productId, group);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Revoke every lapsed license on the seller's listings, one buyer at a time.
+ * A failed revocation is reported and retried on the next sweep.
+ */
+export const sweepExpiredLicenses = async (
+  listings: Listing[],
+  contract: MarketplaceContractClient,
+  revoke: RevokeExpiredLicense,
+  now = Date.now()
+): Promise<LicenseSweepResult> => {
+  const result: LicenseSweepResult = { revoked: [], failed: [] };
+
+  for (const license of await findExpiredLicenses(listings, contract, now)) {
+    try {
+      await revoke(license);
+      result.revoked.push(license);
+    } catch (error) {
+      result.failed.push({ license, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Pay the listing price again to extend a subscription by one term
+ */
+export const renewLicense = async (
+  listing: Listing,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.renewLicense({ p_id: listing.product_id }, { deposit: listingPriceToYocto(listing.price) });
+  } catch (error) {
+    console.error(`Failed to renew license for product ${listing.product_id}:`, error);
+    throw error;
+  }
+};
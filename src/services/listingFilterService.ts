@@ -0,0 +1,154 @@
+import { LISTING_KINDS, getAverageRating, getListingCreatedAt, nearToListingPrice } from './listingModel';
+import type { Listing, ListingKind } from './listingModel';
+import { matchesListingSearch } from './listingQueryService';
+
+// ============================================================================
+// MARKETPLACE FILTERS
+// Filters and sort order for the catalog. They round-trip through the URL
+// query string so a filtered search can be bookmarked or shared.
+// ============================================================================
+
+export type ListingSort = 'newest' | 'price_asc' | 'price_desc' | 'popular' | 'rating' | 'score';
+
+export interface ListingFilters {
+  query: string;
+  /** Empty means every kind */
+  kinds: ListingKind[];
+  /** In NEAR, as typed by the user */
+  minPrice: number | null;
+  maxPrice: number | null;
+  minScore: number | null;
+  teeOnly: boolean;
+  seller: string;
+  /** Hide listings the viewer already bought */
+  notPurchased: boolean;
+  sort: ListingSort;
+}
+
+export const DEFAULT_LISTING_FILTERS: ListingFilters = {
+  query: '',
+  kinds: [],
+  minPrice: null,
+  maxPrice: null,
+  minScore: null,
+  teeOnly: false,
+  seller: '',
+  notPurchased: false,
+  sort: 'newest',
+};
+
+export const LISTING_SORT_LABELS: Record<ListingSort, string> = {
+  newest: 'Newest',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  popular: 'Most purchased',
+  rating: 'Top rated',
+  score: 'Credibility score',
+};
+
+const SORTS = Object.keys(LISTING_SORT_LABELS) as ListingSort[];
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Read filters from a query string. Unknown or malformed values fall back to
+ * the defaults, so a hand-edited URL never breaks the page.
+ */
+export const parseListingFilters = (params: URLSearchParams): ListingFilters => {
+  const kinds = (params.get('type') ?? '')
+    .split(',')
+    .filter((kind): kind is ListingKind => LISTING_KINDS.includes(kind as ListingKind));
+  const sort = params.get('sort') as ListingSort | null;
+
+  return {
+    query: params.get('q') ?? '',
+    kinds,
+    minPrice: parseNumber(params.get('min')),
+    maxPrice: parseNumber(params.get('max')),
+    minScore: parseNumber(params.get('score')),
+    teeOnly: params.get('tee') === '1',
+    seller: params.get('seller') ?? '',
+    notPurchased: params.get('unowned') === '1',
+    sort: sort && SORTS.includes(sort) ? sort : DEFAULT_LISTING_FILTERS.sort,
+  };
+};
+
+/**
+ * Inverse of parseListingFilters. Defaults are left out to keep URLs short.
+ */
+export const serializeListingFilters = (filters: ListingFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.kinds.length > 0) params.set('type', filters.kinds.join(','));
+  if (filters.minPrice !== null) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('max', String(filters.maxPrice));
+  if (filters.minScore !== null) params.set('score', String(filters.minScore));
+  if (filters.teeOnly) params.set('tee', '1');
+  if (filters.seller) params.set('seller', filters.seller);
+  if (filters.notPurchased) params.set('unowned', '1');
+  if (filters.sort !== DEFAULT_LISTING_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+/** Number of filters (not counting search and sort) that differ from the defaults */
+export const countActiveFilters = (filters: ListingFilters): number => {
+  return [
+    filters.kinds.length > 0,
+    filters.minPrice !== null,
+    filters.maxPrice !== null,
+    filters.minScore !== null,
+    filters.teeOnly,
+    filters.seller !== '',
+    filters.notPurchased,
+  ].filter(Boolean).length;
+};
+
+/**
+ * The catalog is paged newest first, so only the default sort with no search
+ * or filters is right on a partial catalog. Anything else needs every listing.
+ */
+export const needsFullCatalog = (filters: ListingFilters): boolean => {
+  return filters.query.trim() !== '' || filters.sort !== DEFAULT_LISTING_FILTERS.sort || countActiveFilters(filters) > 0;
+};
+
+const matchesFilters = (listing: Listing, filters: ListingFilters, viewer?: string | null): boolean => {
+  if (!matchesListingSearch(listing, filters.query)) return false;
+  if (filters.kinds.length > 0 && !filters.kinds.includes(listing.list_type)) return false;
+  if (filters.minPrice !== null && listing.price < nearToListingPrice(filters.minPrice)) return false;
+  if (filters.maxPrice !== null && listing.price > nearToListingPrice(filters.maxPrice)) return false;
+  if (filters.minScore !== null && (listing.credibility_score ?? -1) < filters.minScore) return false;
+  if (filters.teeOnly && !(listing.is_tee_verified && listing.credibility_score !== null)) return false;
+  if (filters.seller && !listing.owner.toLowerCase().includes(filters.seller.trim().toLowerCase())) return false;
+  if (filters.notPurchased && viewer && listing.buyers.includes(viewer)) return false;
+  return true;
+};
+
+const COMPARATORS: Record<ListingSort, (a: Listing, b: Listing) => number> = {
+  newest: (a, b) => getListingCreatedAt(b) - getListingCreatedAt(a),
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  popular: (a, b) => b.purchase_number - a.purchase_number,
+  // Unreviewed listings sort last; ties go to the listing with more reviews
+  rating: (a, b) =>
+    (getAverageRating(b) ?? 0) - (getAverageRating(a) ?? 0) || b.review_count - a.review_count,
+  // Unscored listings sort last
+  score: (a, b) => (b.credibility_score ?? -1) - (a.credibility_score ?? -1),
+};
+
+/**
+ * Filter and sort listings. `viewer` is the signed-in account, needed for
+ * the "not yet purchased" filter.
+ */
+export const applyListingFilters = (
+  listings: Listing[],
+  filters: ListingFilters,
+  viewer?: string | null
+): Listing[] => {
+  return listings
+    .filter((listing) => matchesFilters(listing, filters, viewer))
+    .sort(COMPARATORS[filters.sort]);
+};
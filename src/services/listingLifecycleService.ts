@@ -0,0 +1,151 @@
+import { MAX_DESCRIPTION_LENGTH, MAX_TAGS, MAX_TAG_LENGTH, MAX_TITLE_LENGTH } from './marketplaceContract';
+import type { ListingKind, MarketplaceContractClient, UpdateListingArgs } from './marketplaceContract';
+import type { LicenseTerms, Listing } from './listingModel';
+
+/** Seller edits to a listing; price is the on-chain price (hundredths of a NEAR) */
+export interface ListingChanges {
+  price?: number;
+  list_type?: ListingKind;
+  description?: string;
+  title?: string;
+  tags?: string[];
+  license?: LicenseTerms;
+}
+
+/**
+ * A listing is shown on the marketplace while active, and to anyone who
+ * bought it even after the seller deactivated it, so they can still download.
+ */
+export const isListingVisibleTo = (listing: Listing, accountId?: string | null): boolean => {
+  return listing.is_active || (!!accountId && listing.buyers.includes(accountId));
+};
+
+/**
+ * How the connected account relates to a listing: its seller, a buyer who was
+ * granted access, a buyer still waiting for it, or anyone else (also when no
+ * wallet is connected)
+ */
+export type ViewerStatus = 'owner' | 'granted' | 'pending' | 'none';
+
+export const getViewerStatus = (
+  listing: Pick<Listing, 'owner' | 'buyers' | 'buyers_with_access'>,
+  accountId?: string | null
+): ViewerStatus => {
+  if (!accountId) return 'none';
+  if (listing.owner === accountId) return 'owner';
+  if (listing.buyers_with_access.includes(accountId)) return 'granted';
+  if (listing.buyers.includes(accountId)) return 'pending';
+  return 'none';
+};
+
+const byteLength = (value: string): number => new TextEncoder().encode(value).length;
+
+const sameTags = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((tag, i) => tag === b[i]);
+
+const sameLicense = (a: LicenseTerms, b: LicenseTerms): boolean =>
+  a.kind === b.kind && (a.kind === 'Perpetual' || a.duration_ms === b.duration_ms);
+
+/** Throws if the contract would reject these license terms */
+const validateLicense = (license: LicenseTerms): void => {
+  if (license.kind !== 'Perpetual' && (!Number.isInteger(license.duration_ms) || license.duration_ms <= 0)) {
+    throw new Error('Time-limited licenses need a duration');
+  }
+};
+
+/**
+ * Keep only the fields that differ from the listing, so the contract call
+ * doesn't rewrite unchanged values. Returns null when nothing changed.
+ * Throws on values the contract would reject.
+ */
+export const diffListingChanges = (listing: Listing, changes: ListingChanges): UpdateListingArgs | null => {
+  const args: UpdateListingArgs = { p_id: listing.product_id };
+
+  if (changes.price !== undefined && changes.price !== listing.price) {
+    if (!Number.isInteger(changes.price) || changes.price <= 0) {
+      throw new Error('Price must be greater than zero');
+    }
+    args.price = changes.price;
+  }
+  if (changes.list_type !== undefined && changes.list_type !== listing.list_type) {
+    args.list_type = changes.list_type;
+  }
+  if (changes.description !== undefined && changes.description !== listing.description) {
+    if (byteLength(changes.description) > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Description must be at most ${MAX_DESCRIPTION_LENGTH} bytes`);
+    }
+    args.description = changes.description;
+  }
+  if (changes.title !== undefined && changes.title !== listing.metadata.title) {
+    if (byteLength(changes.title) > MAX_TITLE_LENGTH) {
+      throw new Error(`Title must be at most ${MAX_TITLE_LENGTH} bytes`);
+    }
+    args.title = changes.title;
+  }
+  if (changes.tags !== undefined && !sameTags(changes.tags, listing.metadata.tags)) {
+    if (changes.tags.length > MAX_TAGS) {
+      throw new Error(`At most ${MAX_TAGS} tags per listing`);
+    }
+    if (changes.tags.some((tag) => byteLength(tag) > MAX_TAG_LENGTH)) {
+      throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} bytes`);
+    }
+    args.tags = changes.tags;
+  }
+  if (changes.license !== undefined && !sameLicense(changes.license, listing.license)) {
+    validateLicense(changes.license);
+    args.license = changes.license;
+  }
+
+  return Object.keys(args).length > 1 ? args : null;
+};
+
+/**
+ * Update price, type, description, title, tags and/or license of a listing (owner only).
+ * Returns false without a transaction if nothing changed.
+ */
+export const updateListing = async (
+  listing: Listing,
+  changes: ListingChanges,
+  contract: MarketplaceContractClient
+): Promise<boolean> => {
+  const args = diffListingChanges(listing, changes);
+  if (!args) return false;
+
+  try {
+    await contract.updateListing(args);
+    return true;
+  } catch (error) {
+    console.error(`Failed to update listing ${listing.product_id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Stop new sales of a listing (owner only). Existing buyers keep access.
+ */
+export const deactivateListing = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.deactivateListing({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to deactivate listing ${productId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Put a deactivated listing back on sale (owner only)
+ */
+export const reactivateListing = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  try {
+    await contract.reactivateListing({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to reactivate listing ${productId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+
+// ============================================================================
+// LISTING DOMAIN MODEL
+// The single shape every hook, service and component uses for a listing.
+// Contract JSON is validated here, so a field change in listingContract.rs
+// fails loudly at this boundary instead of rendering wrong data.
+// ============================================================================
+
+/** Mirrors `enum ListingKind` */
+export const listingKindSchema = z.enum(['Image', 'Dataset', 'Audio', 'Other']);
+
+/**
+ * Mirrors `struct ListingMetadata`; empty strings / 0 mean unknown.
+ * file_count > 1 marks a bundle and chunk_count > 0 a file uploaded in chunks;
+ * either way cid / file_hash point at a manifest instead of the file.
+ */
+export const listingMetadataSchema = z.object({
+  title: z.string(),
+  tags: z.array(z.string()),
+  file_name: z.string(),
+  mime_type: z.string(),
+  size: z.number().int().nonnegative(),
+  file_hash: z.string(),
+  file_count: z.number().int().nonnegative(),
+  chunk_count: z.number().int().nonnegative(),
+});
+
+/** Mirrors `enum LicenseKind` */
+export const licenseKindSchema = z.enum(['Perpetual', 'FixedTerm', 'Subscription']);
+
+/** Mirrors `struct LicenseTerms`; duration_ms is unused for Perpetual */
+export const licenseTermsSchema = z.object({
+  kind: licenseKindSchema,
+  duration_ms: z.number().int().nonnegative(),
+});
+
+/** Mirrors `enum UsageLicenseKind` */
+export const usageLicenseKindSchema = z.enum(['Personal', 'Commercial', 'CcBy', 'CcBySa', 'CcByNc', 'Cc0', 'Custom']);
+
+/** Mirrors `struct UsageLicense`; custom_text is empty unless kind is Custom */
+export const usageLicenseSchema = z.object({
+  kind: usageLicenseKindSchema,
+  custom_text: z.string(),
+  text_hash: z.string(),
+});
+
+/** Mirrors `struct ListingPreview`; a public, unencrypted teaser on IPFS (see previewService) */
+export const listingPreviewSchema = z.object({
+  cid: z.string().min(1),
+  mime_type: z.string(),
+});
+
+/** Mirrors `struct FingerprintSettings`; buyers get their own watermarked copy (see fingerprintService) */
+export const fingerprintSettingsSchema = z.object({
+  visible: z.boolean(),
+});
+
+/** Mirrors `struct Listing` as returned by the JSON serializer */
+export const contractListingSchema = z.object({
+  product_id: z.number().int().nonnegative(),
+  price: z.number().int().nonnegative(),
+  nova_group_id: z.string(),
+  owner: z.string().min(1),
+  purchase_number: z.number().int().nonnegative(),
+  list_type: listingKindSchema,
+  cid: z.string(),
+  description: z.string(),
+  metadata: listingMetadataSchema,
+  is_active: z.boolean(),
+  buyers: z.array(z.string()),
+  buyers_with_access: z.array(z.string()),
+  is_tee_verified: z.boolean(),
+  tee_signature: z.string().nullable(),
+  review_count: z.number().int().nonnegative(),
+  rating_total: z.number().int().nonnegative(),
+  license: licenseTermsSchema,
+  usage_license: usageLicenseSchema.nullable(),
+  preview: listingPreviewSchema.nullable(),
+  fingerprint: fingerprintSettingsSchema.nullable(),
+});
+
+export type ListingKind = z.infer<typeof listingKindSchema>;
+export type ListingMetadata = z.infer<typeof listingMetadataSchema>;
+export type LicenseKind = z.infer<typeof licenseKindSchema>;
+export type LicenseTerms = z.infer<typeof licenseTermsSchema>;
+export type UsageLicenseKind = z.infer<typeof usageLicenseKindSchema>;
+export type UsageLicense = z.infer<typeof usageLicenseSchema>;
+export type ListingPreview = z.infer<typeof listingPreviewSchema>;
+export type FingerprintSettings = z.infer<typeof fingerprintSettingsSchema>;
+export type ContractListing = z.infer<typeof contractListingSchema>;
+
+export const LISTING_KINDS: ListingKind[] = listingKindSchema.options;
+export const LICENSE_KINDS: LicenseKind[] = licenseKindSchema.options;
+export const USAGE_LICENSE_KINDS: UsageLicenseKind[] = usageLicenseKindSchema.options;
+
+export const PERPETUAL_LICENSE: LicenseTerms = { kind: 'Perpetual', duration_ms: 0 };
+
+export interface Listing extends ContractListing {
+  /** tee_signature parsed as the 0-100 AI credibility score, null if absent or not numeric */
+  credibility_score: number | null;
+}
+
+// ============================================================================
+// METADATA
+// ============================================================================
+
+/** A product id from a URL segment; null unless it is a plain, safe integer */
+export const parseProductId = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const id = Number(value);
+  return Number.isSafeInteger(id) ? id : null;
+};
+
+/** Seller's title, or "Product #id" for listings created without one */
+export const getListingTitle = (listing: Pick<Listing, 'product_id' | 'metadata'>): string => {
+  return listing.metadata.title || `Product #${listing.product_id}`;
+};
+
+/** Several files sold together; the listing's cid is their manifest (see bundleService) */
+export const isBundle = (listing: Pick<Listing, 'metadata'>): boolean => listing.metadata.file_count > 1;
+
+/** A large file uploaded in encrypted chunks; the listing's cid is their manifest (see chunkedFileService) */
+export const isChunked = (listing: Pick<Listing, 'metadata'>): boolean => listing.metadata.chunk_count > 0;
+
+/**
+ * Approximate creation time in ms. Product ids are generated as
+ * unix seconds * 1000 + a 3-digit random suffix (see combinedUploadService).
+ */
+export const getListingCreatedAt = (listing: Pick<Listing, 'product_id'>): number => {
+  return Math.floor(listing.product_id / 1000) * 1000;
+};
+
+/** Mean buyer rating (1-5), null until the listing has a review */
+export const getAverageRating = (listing: Pick<Listing, 'review_count' | 'rating_total'>): number | null => {
+  return listing.review_count > 0 ? listing.rating_total / listing.review_count : null;
+};
+
+// ============================================================================
+// LICENSES
+// ============================================================================
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTimeLimitedLicense = (license: LicenseTerms): boolean => license.kind !== 'Perpetual';
+
+const formatDays = (ms: number): string => {
+  const days = Math.round(ms / DAY_MS);
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
+
+/** "Perpetual", "30 days" or "30 days, renewable" */
+export const formatLicense = (license: LicenseTerms): string => {
+  switch (license.kind) {
+    case 'Perpetual':
+      return 'Perpetual';
+    case 'FixedTerm':
+      return formatDays(license.duration_ms);
+    case 'Subscription':
+      return `${formatDays(license.duration_ms)}, renewable`;
+  }
+};
+
+/** Split comma-separated input into lowercase, de-duplicated tags */
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// ============================================================================
+// PRICES
+// `price` is stored on-chain in hundredths of a NEAR (250 = 2.5 NEAR);
+// keep in sync with YOCTO_PER_PRICE_UNIT in listingContract.rs
+// ============================================================================
+
+export const PRICE_UNITS_PER_NEAR = 100;
+const YOCTO_PER_PRICE_UNIT = 10n ** 22n;
+
+/** Exact yoctoNEAR amount `buy` requires as attached deposit */
+export const listingPriceToYocto = (price: number): string => {
+  return (BigInt(price) * YOCTO_PER_PRICE_UNIT).toString();
+};
+
+/** Convert a NEAR amount typed by a seller into the on-chain price; throws on NaN or negative input */
+export const nearToListingPrice = (near: number): number => {
+  if (!Number.isFinite(near) || near < 0) {
+    throw new ListingValidationError('Price must be a positive number of NEAR');
+  }
+  return Math.round(near * PRICE_UNITS_PER_NEAR);
+};
+
+export const formatListingPrice = (price: number): string => {
+  return `${(price / PRICE_UNITS_PER_NEAR).toFixed(2)} NEAR`;
+};
+
+export class ListingValidationError extends Error {
+  constructor(message: string, public readonly issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = 'ListingValidationError';
+  }
+}
+
+const parseCredibilityScore = (teeSignature: string | null): number | null => {
+  if (teeSignature === null) return null;
+  const score = Number.parseFloat(teeSignature);
+  return Number.isFinite(score) ? score : null;
+};
+
+/**
+ * Validate one contract listing row and convert it to the domain model.
+ * Throws ListingValidationError if the row does not match the contract struct.
+ */
+export const parseListing = (raw: unknown): Listing => {
+  const result = contractListingSchema.safeParse(raw);
+  if (!result.success) {
+    const productId = (raw as { product_id?: unknown } | null)?.product_id ?? 'unknown';
+    throw new ListingValidationError(
+      `Malformed listing ${productId}: ${result.error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join(', ')}`,
+      result.error.issues
+    );
+  }
+
+  return {
+    ...result.data,
+    credibility_score: parseCredibilityScore(result.data.tee_signature),
+  };
+};
+
+/**
+ * Validate a list of contract listings.
+ * Malformed rows are logged and dropped so one bad row can't break a whole page;
+ * a payload that isn't an array at all throws.
+ */
+export const parseListings = (raw: unknown): Listing[] => {
+  if (!Array.isArray(raw)) {
+    throw new ListingValidationError('Expected an array of listings from the contract');
+  }
+
+  const listings: Listing[] = [];
+  for (const row of raw) {
+    try {
+      listings.push(parseListing(row));
+    } catch (error) {
+      console.warn('Skipping malformed listing:', error);
+    }
+  }
+  return listings;
+};
@@ -0,0 +1,115 @@
+import type { MarketplaceContractClient } from './marketplaceContract';
+import type { Listing } from './listingModel';
+
+// Must not exceed MAX_PAGE_LIMIT in listingContract.rs
+export const LISTINGS_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export interface ListingsPage {
+  listings: Listing[];
+  /** endIndex of the next (older) page, null when this was the oldest page */
+  nextIndex: number | null;
+  total: number;
+}
+
+/**
+ * Fetch one page of the global listing catalog, newest first.
+ * The contract pages oldest first, so this reads the `limit` listings before
+ * `endIndex` (exclusive), or the last ones when it is null. Later pages pass
+ * the previous page's nextIndex, so listings created meanwhile don't shift them.
+ */
+export const getListingsPage = async (
+  contract: MarketplaceContractClient,
+  endIndex: number | null = null,
+  limit = LISTINGS_PAGE_SIZE
+): Promise<ListingsPage> => {
+  try {
+    const total = await contract.getListingsCount();
+    const end = Math.min(endIndex ?? total, total);
+    const fromIndex = Math.max(end - limit, 0);
+    const listings =
+      end > fromIndex
+        ? await contract.getListingsPaginated({ from_index: fromIndex, limit: end - fromIndex })
+        : [];
+
+    return {
+      listings: listings.reverse(),
+      nextIndex: fromIndex > 0 ? fromIndex : null,
+      total,
+    };
+  } catch (error) {
+    console.error(`Failed to fetch listings page ending at ${endIndex ?? 'the newest'}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Page through an indexed view until a page comes back short.
+ * Used for per-account lookups, which are small but unbounded, and for
+ * loading the whole catalog when it is searched, filtered or re-sorted.
+ */
+const fetchAllPages = async (
+  fetchPage: (fromIndex: number, limit: number) => Promise<Listing[]>
+): Promise<Listing[]> => {
+  const all: Listing[] = [];
+  let fromIndex = 0;
+
+  for (;;) {
+    const page = await fetchPage(fromIndex, MAX_PAGE_SIZE);
+    all.push(...page);
+    if (page.length < MAX_PAGE_SIZE) break;
+    fromIndex += MAX_PAGE_SIZE;
+  }
+
+  return all;
+};
+
+/**
+ * Fetch the whole catalog, oldest first.
+ */
+export const getAllListings = async (contract: MarketplaceContractClient): Promise<Listing[]> => {
+  return fetchAllPages((fromIndex, limit) => contract.getListingsPaginated({ from_index: fromIndex, limit }));
+};
+
+/**
+ * Fetch every listing created by an account (uses the contract's owner index).
+ */
+export const getListingsByOwner = async (
+  contract: MarketplaceContractClient,
+  owner: string
+): Promise<Listing[]> => {
+  return fetchAllPages((fromIndex, limit) =>
+    contract.getListingsByOwner({ owner, from_index: fromIndex, limit })
+  );
+};
+
+/**
+ * Fetch every listing an account has bought (uses the contract's buyer index).
+ */
+export const getListingsByBuyer = async (
+  contract: MarketplaceContractClient,
+  buyer: string
+): Promise<Listing[]> => {
+  return fetchAllPages((fromIndex, limit) =>
+    contract.getListingsByBuyer({ buyer, from_index: fromIndex, limit })
+  );
+};
+
+/**
+ * Case-insensitive search over a listing's title, description, tags,
+ * file name, NOVA group and CID. An empty query matches everything.
+ */
+export const matchesListingSearch = (listing: Listing, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    listing.metadata.title,
+    listing.description,
+    listing.metadata.file_name,
+    listing.nova_group_id,
+    listing.cid,
+    ...listing.metadata.tags,
+  ];
+  return haystack.some((field) => field.toLowerCase().includes(needle));
+};
@@ -0,0 +1,74 @@
+/**
+ * Marketplace deployment configuration
+ *
+ * Every contract call in the app resolves the contract id, network and gas
+ * from here, so pointing the whole app at a testnet or sandbox deployment is
+ * a matter of setting the VITE_* variables below in .env:
+ *
+ * - VITE_MARKETPLACE_CONTRACT_ID  (default: singlelibrary5839.near)
+ * - VITE_NEAR_NETWORK             ('mainnet' | 'testnet', default: mainnet)
+ * - VITE_NEAR_RPC_URL             (custom RPC, e.g. http://localhost:3030 for sandbox)
+ * - VITE_MARKETPLACE_GAS          (default gas for change calls, in gas units)
+ */
+
+export type NearNetwork = 'mainnet' | 'testnet';
+
+export interface MarketplaceGasConfig {
+  default: string;
+  createListing: string;
+  buy: string;
+  grantAccess: string;
+  /** grant/revoke_buyer_access_many, which may release up to MAX_BATCH_BUYERS escrows */
+  batchAccess: string;
+}
+
+export interface MarketplaceConfig {
+  contractId: string;
+  network: NearNetwork;
+  rpcUrl: string;
+  gas: MarketplaceGasConfig;
+}
+
+export type MarketplaceEnv = Record<string, string | boolean | undefined>;
+
+const DEFAULT_CONTRACT_ID = 'singlelibrary5839.near';
+
+const DEFAULT_RPC_URLS: Record<NearNetwork, string> = {
+  mainnet: 'https://rpc.mainnet.near.org',
+  testnet: 'https://rpc.testnet.near.org',
+};
+
+const THIRTY_TGAS = '30000000000000';
+const MAX_TGAS = '300000000000000';
+
+const readString = (env: MarketplaceEnv, key: string): string | undefined => {
+  const value = env[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * Build a config from an env-like record.
+ * The browser passes import.meta.env; Node scripts can pass process.env.
+ */
+export const resolveMarketplaceConfig = (env: MarketplaceEnv = {}): MarketplaceConfig => {
+  const network: NearNetwork = readString(env, 'VITE_NEAR_NETWORK') === 'testnet' ? 'testnet' : 'mainnet';
+  const defaultGas = readString(env, 'VITE_MARKETPLACE_GAS') || THIRTY_TGAS;
+
+  return {
+    contractId: readString(env, 'VITE_MARKETPLACE_CONTRACT_ID') || DEFAULT_CONTRACT_ID,
+    network,
+    rpcUrl: readString(env, 'VITE_NEAR_RPC_URL') || DEFAULT_RPC_URLS[network],
+    gas: {
+      default: defaultGas,
+      createListing: defaultGas,
+      buy: defaultGas,
+      grantAccess: defaultGas,
+      batchAccess: MAX_TGAS,
+    },
+  };
+};
+
+// import.meta.env only exists when bundled by Vite
+export const marketplaceConfig: MarketplaceConfig = resolveMarketplaceConfig(
+  (import.meta as { env?: MarketplaceEnv }).env ?? {}
+);
@@ -0,0 +1,447 @@
+import type { FinalExecutionOutcome } from 'near-api-js';
+import type { FunctionCallParams, ViewFunctionParams } from 'near-connect-hooks';
+import { marketplaceConfig, MarketplaceConfig } from './marketplaceConfig';
+import { parseListing, parseListings } from './listingModel';
+import type {
+  FingerprintSettings,
+  LicenseTerms,
+  Listing,
+  ListingKind,
+  ListingMetadata,
+  ListingPreview,
+  UsageLicense,
+} from './listingModel';
+
+// ============================================================================
+// CONTRACT TYPES
+// Kept in lockstep with contract/listingContract.rs - if a struct or method
+// signature changes there, change it here too.
+// ============================================================================
+
+// Listing / ListingKind live in the domain model, which validates contract JSON
+export type {
+  ContractListing,
+  FingerprintSettings,
+  LicenseKind,
+  LicenseTerms,
+  Listing,
+  ListingKind,
+  ListingMetadata,
+  ListingPreview,
+  UsageLicense,
+  UsageLicenseKind,
+} from './listingModel';
+export { LICENSE_KINDS, LISTING_KINDS, USAGE_LICENSE_KINDS } from './listingModel';
+
+/** Args of `create_listing` */
+export interface CreateListingArgs {
+  product_id: number;
+  price: number;
+  nova_group_id: string;
+  list_type: ListingKind;
+  cid: string;
+  gp_owner: string;
+  is_tee_verified: boolean;
+  tee_signature: string | null;
+  description: string | null;
+  metadata: ListingMetadata | null;
+  /** null creates a perpetual license */
+  license: LicenseTerms | null;
+  /** What buyers may do with the file; fixed once the listing exists */
+  usage_license: UsageLicense | null;
+  /** Public teaser uploaded unencrypted; null when there is none */
+  preview: ListingPreview | null;
+  /** Single images only; null grants every buyer the same file */
+  fingerprint: FingerprintSettings | null;
+}
+
+/** Args of `update_listing`; omitted fields are left unchanged */
+export interface UpdateListingArgs {
+  p_id: number;
+  price?: number;
+  list_type?: ListingKind;
+  description?: string;
+  title?: string;
+  tags?: string[];
+  /** Applies from the next grant; running licenses keep their expiry */
+  license?: LicenseTerms;
+}
+
+// Must match the MAX_* limits in listingContract.rs (lengths in bytes)
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_LICENSE_TEXT_LENGTH = 4000;
+export const MAX_BUNDLE_FILES = 1000;
+
+/** Args of `buy` */
+export interface BuyArgs {
+  p_id: number;
+  nova_account_id: string;
+}
+
+/** Args of `grant_buyer_access` / `revoke_buyer_access` / `has_access` */
+export interface BuyerAccessArgs {
+  p_id: number;
+  buyer: string;
+}
+
+/** Args of `grant_buyer_access_many` / `revoke_buyer_access_many` */
+export interface BuyersAccessArgs {
+  p_id: number;
+  buyers: string[];
+}
+
+/** Args of `grant_buyer_access`; fingerprinted listings need the copy on a buyer's first grant */
+export interface GrantBuyerAccessArgs extends BuyerAccessArgs {
+  copy?: BuyerCopy;
+}
+
+/** Args of `grant_buyer_access_many`; copies of the buyers granted for the first time */
+export interface GrantBuyersAccessArgs extends BuyersAccessArgs {
+  copies?: BuyerCopy[];
+}
+
+// Must match MAX_BATCH_BUYERS in listingContract.rs
+export const MAX_BATCH_BUYERS = 15;
+
+/** Args of `has_purchased` */
+export interface HasPurchasedArgs {
+  p_id: number;
+  account_id: string;
+}
+
+/** Args of every view that only takes a product id */
+export interface ProductIdArgs {
+  p_id: number;
+}
+
+/** Args of `get_listings_paginated` / `get_purchases` (both optional, contract caps the limit) */
+export interface PaginationArgs {
+  from_index?: number;
+  limit?: number;
+}
+
+/** `get_license_expiries` row: buyer and when their license lapses (ms) */
+export type LicenseExpiry = [buyer: string, expiresAtMs: number];
+
+/** `get_access_grants` row: buyer and when they were first granted (ms), revoked or not */
+export type AccessGrant = [buyer: string, grantedAtMs: number];
+
+/** Args of `get_listings_by_owner` */
+export interface ListingsByOwnerArgs extends PaginationArgs {
+  owner: string;
+}
+
+/** Args of `get_listings_by_buyer` */
+export interface ListingsByBuyerArgs extends PaginationArgs {
+  buyer: string;
+}
+
+/** Args of `get_nova_account` */
+export interface NovaAccountArgs {
+  near_wallet: string;
+}
+
+/** Args of `submit_review` */
+export interface SubmitReviewArgs {
+  p_id: number;
+  /** 1 to 5 */
+  rating: number;
+  text: string;
+}
+
+/** Args of `get_reviews` */
+export interface ReviewsArgs extends PaginationArgs {
+  p_id: number;
+}
+
+/** Args of `get_review` */
+export interface ReviewArgs {
+  p_id: number;
+  reviewer: string;
+}
+
+// Must match MAX_REVIEW_LEN in listingContract.rs (bytes)
+export const MAX_REVIEW_LENGTH = 1000;
+
+/** Args of `open_dispute` */
+export interface OpenDisputeArgs {
+  p_id: number;
+  reason: string;
+}
+
+/** Args of `add_dispute_note` */
+export interface DisputeNoteArgs {
+  p_id: number;
+  buyer: string;
+  note: string;
+}
+
+/** Args of `resolve_dispute` (arbiter only) */
+export interface ResolveDisputeArgs {
+  p_id: number;
+  buyer: string;
+  /** true refunds the buyer from escrow, false sides with the seller */
+  refund: boolean;
+  note: string;
+}
+
+// Must match MAX_DISPUTE_NOTE_LEN in listingContract.rs (bytes)
+export const MAX_DISPUTE_NOTE_LENGTH = 1000;
+// Must match DISPUTE_STALE_MS in listingContract.rs
+export const DISPUTE_STALE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** `(AccountId, String)` tuple returned by `get_pending_buyers_with_nova_accounts` */
+export type BuyerNovaAccountPair = [string, string];
+
+/** Mirrors `struct PurchaseRecord` returned by `get_purchases` */
+export interface PurchaseRecord {
+  p_id: number;
+  buyer: string;
+  seller: string;
+  purchased_at_ms: number;
+}
+
+/** Mirrors `struct Review` returned by `get_reviews` / `get_review` */
+export interface ContractReview {
+  p_id: number;
+  reviewer: string;
+  rating: number;
+  text: string;
+  created_at_ms: number;
+}
+
+/** Mirrors `enum DisputeStatus` */
+export type DisputeStatus = 'Open' | 'Refunded' | 'Rejected' | 'Withdrawn' | 'Expired';
+
+/** Mirrors `enum DisputeAction` */
+export type DisputeAction = 'Opened' | 'Note' | 'Refunded' | 'Rejected' | 'Withdrawn' | 'Expired';
+
+/** Mirrors `struct DisputeEvent` */
+export interface DisputeEvent {
+  action: DisputeAction;
+  actor: string;
+  note: string;
+  at_ms: number;
+}
+
+/** Mirrors `struct Dispute` returned by `get_dispute` / `get_listing_disputes` / `get_disputes` */
+export interface ContractDispute {
+  p_id: number;
+  buyer: string;
+  seller: string;
+  status: DisputeStatus;
+  /** Oldest first; the first event is always Opened with the buyer's reason */
+  events: DisputeEvent[];
+}
+
+/** Mirrors `enum EscrowStatus`; RefundFailed is a refund whose transfer failed, still owed to the buyer */
+export type EscrowStatus = 'Held' | 'Released' | 'Refunded' | 'RefundFailed';
+
+/** Mirrors `enum RefundReason`: a timed-out claim, the seller, or the arbiter */
+export type RefundReason = 'Timeout' | 'Seller' | 'Arbiter';
+
+/** Mirrors `enum PaymentAsset` */
+export type PaymentAsset = 'Near' | 'WrappedNear';
+
+/** Mirrors `struct Escrow` returned by `get_escrow` */
+export interface ContractEscrow {
+  p_id: number;
+  buyer: string;
+  seller: string;
+  /** yoctoNEAR (U128 serializes as a string) */
+  amount: string;
+  asset: PaymentAsset;
+  status: EscrowStatus;
+  purchased_at_ms: number;
+  refundable_at_ms: number;
+  /** Set when the seller first grants access, null until then */
+  granted_at_ms: number | null;
+  /** Set with status Refunded */
+  refund_reason: RefundReason | null;
+}
+
+/** Mirrors `struct BuyerCopy` returned by `get_buyer_copy` */
+export interface BuyerCopy {
+  buyer: string;
+  nova_group_id: string;
+  cid: string;
+  /** Hash of the watermarked file as reported by NOVA */
+  file_hash: string;
+}
+
+export interface CallOptions {
+  gas?: string;
+  deposit?: string;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * The subset of the wallet API the client needs.
+ * Matches useNearWallet() so the hook result can be passed straight in;
+ * leave callFunction out for a read-only client.
+ */
+export interface MarketplaceContractTransport {
+  viewFunction: (params: ViewFunctionParams) => Promise<unknown>;
+  callFunction?: (params: FunctionCallParams) => Promise<FinalExecutionOutcome>;
+}
+
+export interface MarketplaceContractClient {
+  readonly contractId: string;
+
+  // View methods
+  getListings(): Promise<Listing[]>;
+  getListing(args: ProductIdArgs): Promise<Listing | null>;
+  getListingsCount(): Promise<number>;
+  getListingsPaginated(args: PaginationArgs): Promise<Listing[]>;
+  getListingsByOwner(args: ListingsByOwnerArgs): Promise<Listing[]>;
+  getListingsByBuyer(args: ListingsByBuyerArgs): Promise<Listing[]>;
+  getNovaAccount(args: NovaAccountArgs): Promise<string | null>;
+  getPendingBuyersWithNovaAccounts(args: ProductIdArgs): Promise<BuyerNovaAccountPair[]>;
+  getPendingAccessBuyers(args: ProductIdArgs): Promise<string[]>;
+  getBuyersWithAccess(args: ProductIdArgs): Promise<string[]>;
+  hasAccess(args: BuyerAccessArgs): Promise<boolean>;
+  hasPurchased(args: HasPurchasedArgs): Promise<boolean>;
+  getPurchasesCount(): Promise<number>;
+  getPurchases(args: PaginationArgs): Promise<PurchaseRecord[]>;
+  getEscrow(args: BuyerAccessArgs): Promise<ContractEscrow | null>;
+  getListingEscrows(args: ProductIdArgs): Promise<ContractEscrow[]>;
+  getEscrowTimeout(): Promise<number>;
+  getReviews(args: ReviewsArgs): Promise<ContractReview[]>;
+  getReview(args: ReviewArgs): Promise<ContractReview | null>;
+  getDispute(args: BuyerAccessArgs): Promise<ContractDispute | null>;
+  getListingDisputes(args: ProductIdArgs): Promise<ContractDispute[]>;
+  getDisputesCount(): Promise<number>;
+  getDisputes(args: PaginationArgs): Promise<ContractDispute[]>;
+  getArbiter(): Promise<string | null>;
+  getLicenseExpiry(args: BuyerAccessArgs): Promise<number | null>;
+  getLicenseExpiries(args: ProductIdArgs): Promise<LicenseExpiry[]>;
+  getBuyerCopy(args: BuyerAccessArgs): Promise<BuyerCopy | null>;
+  getAccessGrantedAt(args: BuyerAccessArgs): Promise<number | null>;
+  getAccessGrants(args: ProductIdArgs): Promise<AccessGrant[]>;
+
+  // Change methods (require a signed-in wallet)
+  createListing(args: CreateListingArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  updateListing(args: UpdateListingArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  deactivateListing(args: ProductIdArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  reactivateListing(args: ProductIdArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  buy(args: BuyArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  grantBuyerAccess(args: GrantBuyerAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  revokeBuyerAccess(args: BuyerAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  grantBuyerAccessMany(args: GrantBuyersAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  revokeBuyerAccessMany(args: BuyersAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  claimRefund(args: ProductIdArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  submitReview(args: SubmitReviewArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  openDispute(args: OpenDisputeArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  addDisputeNote(args: DisputeNoteArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  /** Payable: attach the payment again if it already left escrow */
+  refundDispute(args: BuyerAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  resolveDispute(args: ResolveDisputeArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  withdrawDispute(args: ProductIdArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  /** Seller only, once DISPUTE_STALE_MS passed without a new event */
+  closeStaleDispute(args: BuyerAccessArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+  /** Payable: attach the listing price to extend a subscription by one term */
+  renewLicense(args: ProductIdArgs, options?: CallOptions): Promise<FinalExecutionOutcome>;
+}
+
+const NO_DEPOSIT = '0';
+
+/**
+ * Create a typed client for the marketplace contract.
+ * Contract id and gas defaults come from marketplaceConfig unless overridden.
+ */
+export const createMarketplaceContract = (
+  transport: MarketplaceContractTransport,
+  config: MarketplaceConfig = marketplaceConfig
+): MarketplaceContractClient => {
+  const { contractId, gas } = config;
+
+  const view = async <T>(method: string, args: object = {}): Promise<T> => {
+    const result = await transport.viewFunction({
+      contractId,
+      method,
+      args: args as Record<string, unknown>,
+    });
+    return result as T;
+  };
+
+  const call = async (
+    method: string,
+    args: object,
+    defaultGas: string,
+    options: CallOptions = {}
+  ): Promise<FinalExecutionOutcome> => {
+    if (!transport.callFunction) {
+      throw new Error(`Cannot call ${method}: no NEAR wallet connected`);
+    }
+    return transport.callFunction({
+      contractId,
+      method,
+      args: args as Record<string, unknown>,
+      gas: options.gas ?? defaultGas,
+      deposit: options.deposit ?? NO_DEPOSIT,
+    });
+  };
+
+  return {
+    contractId,
+
+    getListings: async () => parseListings(await view<unknown>('get_listings')),
+    getListing: async (args) => {
+      const raw = await view<unknown>('get_listing', args);
+      return raw === null ? null : parseListing(raw);
+    },
+    getListingsCount: () => view<number>('get_listings_count'),
+    getListingsPaginated: async (args) => parseListings(await view<unknown>('get_listings_paginated', args)),
+    getListingsByOwner: async (args) => parseListings(await view<unknown>('get_listings_by_owner', args)),
+    getListingsByBuyer: async (args) => parseListings(await view<unknown>('get_listings_by_buyer', args)),
+    getNovaAccount: (args) => view<string | null>('get_nova_account', args),
+    getPendingBuyersWithNovaAccounts: (args) =>
+      view<BuyerNovaAccountPair[]>('get_pending_buyers_with_nova_accounts', args),
+    getPendingAccessBuyers: (args) => view<string[]>('get_pending_access_buyers', args),
+    getBuyersWithAccess: (args) => view<string[]>('get_buyers_with_access', args),
+    hasAccess: (args) => view<boolean>('has_access', args),
+    hasPurchased: (args) => view<boolean>('has_purchased', args),
+    getPurchasesCount: () => view<number>('get_purchases_count'),
+    getPurchases: (args) => view<PurchaseRecord[]>('get_purchases', args),
+    getEscrow: (args) => view<ContractEscrow | null>('get_escrow', args),
+    getListingEscrows: (args) => view<ContractEscrow[]>('get_listing_escrows', args),
+    getEscrowTimeout: () => view<number>('get_escrow_timeout'),
+    getReviews: (args) => view<ContractReview[]>('get_reviews', args),
+    getReview: (args) => view<ContractReview | null>('get_review', args),
+    getDispute: (args) => view<ContractDispute | null>('get_dispute', args),
+    getListingDisputes: (args) => view<ContractDispute[]>('get_listing_disputes', args),
+    getDisputesCount: () => view<number>('get_disputes_count'),
+    getDisputes: (args) => view<ContractDispute[]>('get_disputes', args),
+    getArbiter: () => view<string | null>('get_arbiter'),
+    getLicenseExpiry: (args) => view<number | null>('get_license_expiry', args),
+    getLicenseExpiries: (args) => view<LicenseExpiry[]>('get_license_expiries', args),
+    getBuyerCopy: (args) => view<BuyerCopy | null>('get_buyer_copy', args),
+    getAccessGrantedAt: (args) => view<number | null>('get_access_granted_at', args),
+    getAccessGrants: (args) => view<AccessGrant[]>('get_access_grants', args),
+
+    createListing: (args, options) => call('create_listing', args, gas.createListing, options),
+    updateListing: (args, options) => call('update_listing', args, gas.default, options),
+    deactivateListing: (args, options) => call('deactivate_listing', args, gas.default, options),
+    reactivateListing: (args, options) => call('reactivate_listing', args, gas.default, options),
+    buy: (args, options) => call('buy', args, gas.buy, options),
+    grantBuyerAccess: (args, options) => call('grant_buyer_access', args, gas.grantAccess, options),
+    revokeBuyerAccess: (args, options) => call('revoke_buyer_access', args, gas.grantAccess, options),
+    grantBuyerAccessMany: (args, options) => call('grant_buyer_access_many', args, gas.batchAccess, options),
+    revokeBuyerAccessMany: (args, options) => call('revoke_buyer_access_many', args, gas.batchAccess, options),
+    claimRefund: (args, options) => call('claim_refund', args, gas.default, options),
+    submitReview: (args, options) => call('submit_review', args, gas.default, options),
+    openDispute: (args, options) => call('open_dispute', args, gas.default, options),
+    addDisputeNote: (args, options) => call('add_dispute_note', args, gas.default, options),
+    refundDispute: (args, options) => call('refund_dispute', args, gas.default, options),
+    resolveDispute: (args, options) => call('resolve_dispute', args, gas.default, options),
+    withdrawDispute: (args, options) => call('withdraw_dispute', args, gas.default, options),
+    closeStaleDispute: (args, options) => call('close_stale_dispute', args, gas.default, options),
+    renewLicense: (args, options) => call('renew_license', args, gas.default, options),
+  };
+};
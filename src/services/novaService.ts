@@ -1,6 +1,7 @@
 import { NovaSdk } from 'nova-sdk-js';
 import { Buffer } from 'buffer';
 import { getNovaCredentials, hasNovaCredentials } from './novaCredentialsService';
+import type { NovaCredentials } from './novaCredentialsService';
 
 // Polyfill Buffer for browser environment
 if (typeof window !== 'undefined' && typeof window.Buffer === 'undefined') {
@@ -85,17 +86,17 @@ export const getNovaSDK = (nearWallet?: string): NovaSdk => {
 
   console.log(`🔍 Getting NOVA SDK for wallet: ${wallet}`);
 
-  if (!hasNovaCredentials(wallet)) {
-    console.error(`❌ No NOVA credentials found for wallet: ${wallet}`);
-    throw new Error('NOVA credentials not configured. Please set up your NOVA account in the navbar settings.');
-  }
-
-  // Return cached instance if available
+  // Return cached instance if available (saving/deleting credentials busts the cache)
   if (sdkCache[wallet]) {
     console.log(`✅ Using cached SDK for wallet: ${wallet}`);
     return sdkCache[wallet];
   }
 
+  if (!hasNovaCredentials(wallet)) {
+    console.error(`❌ No NOVA credentials found for wallet: ${wallet}`);
+    throw new Error('NOVA credentials not configured. Please set up your NOVA account in the navbar settings.');
+  }
+
   const creds = getNovaCredentials(wallet);
   if (!creds) {
     console.error(`❌ Failed to load credentials for wallet: ${wallet}`);
@@ -118,6 +119,20 @@ export const getNovaSDK = (nearWallet?: string): NovaSdk => {
   return sdk;
 };
 
+/**
+ * Create the SDK for a wallet from credentials passed in directly.
+ * For environments without browser storage (e.g. the seller agent in Node);
+ * every novaService call for `nearWallet` uses these credentials afterwards.
+ */
+export const primeNovaSDK = (nearWallet: string, credentials: NovaCredentials): NovaSdk => {
+  const sdk = new NovaSdk(credentials.accountId, {
+    apiKey: credentials.apiKey,
+  });
+  sdkCache[nearWallet] = sdk;
+  console.log(`✅ NOVA SDK primed for wallet: ${nearWallet} (${credentials.accountId})`);
+  return sdk;
+};
+
 /**
  * Invalidate the cached SDK for a wallet (call this after credentials are updated/deleted).
  */
@@ -0,0 +1,399 @@
+import { z } from 'zod';
+import { getPreviewUrl, isPreviewStorageConfigured, uploadPublicFile } from './previewStorageService';
+import type { ListingPreview } from './listingModel';
+
+// ============================================================================
+// PREVIEWS
+// A small public teaser generated in the browser at upload time, so buyers
+// can judge a listing before paying for the encrypted file:
+// - images: a downscaled JPEG with a PREVIEW watermark across it
+// - audio: the first 15 seconds as mono 8 kHz 8-bit WAV
+// - datasets (CSV/TSV/JSON/JSONL): the first rows and an inferred schema
+// The preview is uploaded unencrypted (see previewStorageService) and its cid
+// stored on the listing. It is best effort: any failure lists without one.
+// ============================================================================
+
+export type PreviewKind = 'image' | 'audio' | 'dataset';
+
+export const PREVIEW_IMAGE_MAX_SIDE = 480;
+export const PREVIEW_AUDIO_SECONDS = 15;
+export const PREVIEW_AUDIO_SAMPLE_RATE = 8000;
+export const PREVIEW_DATASET_ROWS = 20;
+
+// Enough encoded audio for 15 s at any common bitrate, without reading the whole file
+const AUDIO_SAMPLE_BYTES = 16 * 1024 * 1024;
+// Line-based datasets are previewed from their start only
+const DATASET_SAMPLE_BYTES = 256 * 1024;
+// A JSON document has to be parsed whole, so larger ones get no preview
+const MAX_JSON_PREVIEW_BYTES = 8 * 1024 * 1024;
+const MAX_CELL_LENGTH = 200;
+
+const DATASET_EXTENSIONS = ['csv', 'tsv', 'json', 'jsonl', 'ndjson'] as const;
+type DatasetFormat = 'csv' | 'tsv' | 'json' | 'jsonl';
+
+export const columnTypeSchema = z.enum(['string', 'number', 'boolean', 'object', 'array', 'null', 'mixed']);
+
+export const datasetPreviewSchema = z.object({
+  type: z.literal('dataset-preview'),
+  version: z.literal(1),
+  format: z.enum(['csv', 'tsv', 'json', 'jsonl']),
+  columns: z.array(z.object({ name: z.string(), type: columnTypeSchema })),
+  rows: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))),
+  /** Rows in the whole file, null when only its start was read */
+  total_rows: z.number().int().nonnegative().nullable(),
+});
+
+export type ColumnType = z.infer<typeof columnTypeSchema>;
+export type DatasetPreview = z.infer<typeof datasetPreviewSchema>;
+type Cell = DatasetPreview['rows'][number][number];
+
+export interface GeneratedPreview {
+  data: Blob;
+  mimeType: string;
+  fileName: string;
+}
+
+const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const getDatasetFormat = (file: Pick<File, 'name' | 'type'>): DatasetFormat | null => {
+  const ext = getExtension(file.name);
+  if (ext === 'ndjson') return 'jsonl';
+  if ((DATASET_EXTENSIONS as readonly string[]).includes(ext)) return ext as DatasetFormat;
+  if (file.type === 'text/csv') return 'csv';
+  if (file.type === 'application/json') return 'json';
+  return null;
+};
+
+/** Which preview a file gets, from its MIME type or extension; null for none */
+export const getPreviewKind = (file: Pick<File, 'name' | 'type'>): PreviewKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return getDatasetFormat(file) ? 'dataset' : null;
+};
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+/** Scale to fit a maxSide square, never upscaling */
+export const fitWithin = (width: number, height: number, maxSide: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawWatermark = (context: CanvasRenderingContext2D, width: number, height: number) => {
+  const fontSize = Math.max(14, Math.round(Math.max(width, height) / 12));
+  context.save();
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  context.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+  context.translate(width / 2, height / 2);
+  context.rotate(-Math.PI / 6);
+
+  // Tile diagonally so cropping can't remove it
+  const step = fontSize * 4;
+  const reach = Math.hypot(width, height) / 2;
+  for (let y = -reach; y <= reach; y += step) {
+    for (let x = -reach; x <= reach; x += step * 2) {
+      context.fillText('PREVIEW', x, y);
+      context.strokeText('PREVIEW', x, y);
+    }
+  }
+  context.restore();
+};
+
+const renderImagePreview = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, PREVIEW_IMAGE_MAX_SIDE);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available');
+
+    context.drawImage(bitmap, 0, 0, width, height);
+    drawWatermark(context, width, height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode preview image'))), 'image/jpeg', 0.7);
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// ============================================================================
+// AUDIO
+// ============================================================================
+
+/** Mono 8-bit PCM WAV; samples are -1..1 floats */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(44 + samples.length);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // byte rate
+  view.setUint16(32, 1, true); // block align
+  view.setUint16(34, 8, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, samples.length, true);
+
+  // 8-bit WAV is unsigned, silence at 128
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    bytes[44 + i] = Math.round((sample + 1) * 127.5);
+  }
+  return bytes;
+};
+
+const renderAudioPreview = async (file: Blob): Promise<Blob> => {
+  const encoded = await file.slice(0, AUDIO_SAMPLE_BYTES).arrayBuffer();
+  const length = PREVIEW_AUDIO_SECONDS * PREVIEW_AUDIO_SAMPLE_RATE;
+  // One output channel: the context downmixes and resamples while rendering
+  const context = new OfflineAudioContext(1, length, PREVIEW_AUDIO_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(encoded);
+
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  // Fade out over the last second instead of cutting off
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(1, PREVIEW_AUDIO_SECONDS - 1);
+  gain.gain.linearRampToValueAtTime(0, PREVIEW_AUDIO_SECONDS);
+  source.connect(gain).connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  const clipLength = Math.min(length, Math.ceil(decoded.duration * PREVIEW_AUDIO_SAMPLE_RATE));
+  return new Blob([encodeWav(rendered.getChannelData(0).subarray(0, clipLength), PREVIEW_AUDIO_SAMPLE_RATE)], {
+    type: 'audio/wav',
+  });
+};
+
+// ============================================================================
+// DATASETS
+// ============================================================================
+
+/** RFC 4180 records: quoted fields may hold delimiters, newlines and "" */
+export const parseDelimited = (text: string, delimiter: string, maxRecords: number): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      if (record.length > 1 || record[0] !== '') records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (records.length < maxRecords && (field !== '' || record.length > 0)) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+/** Text cells typed the way a spreadsheet would read them */
+const typeTextCell = (cell: string): unknown => {
+  const trimmed = cell.trim();
+  if (trimmed === '') return null;
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  if (/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(trimmed)) return Number(trimmed);
+  return cell;
+};
+
+const getValueType = (value: unknown): ColumnType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+};
+
+/** Type shared by a column's non-null values */
+const inferColumnType = (values: unknown[]): ColumnType => {
+  const types = new Set(values.map(getValueType).filter((type) => type !== 'null'));
+  if (types.size === 0) return 'null';
+  return types.size === 1 ? [...types][0] : 'mixed';
+};
+
+const toCell = (value: unknown): Cell => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH)}…` : text;
+};
+
+/** Column names in order of first appearance; scalar rows become one "value" column */
+const objectRowsToTable = (items: unknown[]): { names: string[]; values: unknown[][] } => {
+  const isRecord = (item: unknown): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null && !Array.isArray(item);
+  if (!items.every(isRecord)) {
+    return { names: ['value'], values: items.map((item) => [item]) };
+  }
+
+  const names = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  return { names, values: items.map((item) => names.map((name) => item[name] ?? null)) };
+};
+
+/**
+ * Build a dataset preview from the start of a file. `complete` says whether
+ * `text` is the whole file; if not, a trailing partial line is dropped and
+ * the total row count is left unknown.
+ */
+export const buildDatasetPreview = (
+  text: string,
+  format: DatasetFormat,
+  complete: boolean,
+  maxRows: number = PREVIEW_DATASET_ROWS
+): DatasetPreview => {
+  const body = complete ? text : text.slice(0, text.lastIndexOf('\n') + 1);
+  let names: string[];
+  let values: unknown[][];
+  let totalRows: number | null = null;
+
+  if (format === 'csv' || format === 'tsv') {
+    // A complete file is small enough to count every row
+    const delimiter = format === 'tsv' ? '\t' : ',';
+    const [header = [], ...records] = parseDelimited(body, delimiter, complete ? Infinity : maxRows + 1);
+    names = header.map((name, i) => name.trim() || `column_${i + 1}`);
+    values = records.slice(0, maxRows).map((record) => names.map((_, i) => typeTextCell(record[i] ?? '')));
+    if (complete) totalRows = records.length;
+  } else if (format === 'jsonl') {
+    const lines = body.split(/\r?\n/).filter((line) => line.trim());
+    const items = lines.slice(0, maxRows).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${i + 1} is not valid JSON`);
+      }
+    });
+    ({ names, values } = objectRowsToTable(items));
+    if (complete) totalRows = lines.length;
+  } else {
+    const json: unknown = JSON.parse(body);
+    const items = Array.isArray(json) ? json : [json];
+    ({ names, values } = objectRowsToTable(items.slice(0, maxRows)));
+    totalRows = items.length;
+  }
+
+  return {
+    type: 'dataset-preview',
+    version: 1,
+    format,
+    columns: names.map((name, i) => ({ name, type: inferColumnType(values.map((row) => row[i])) })),
+    rows: values.map((row) => row.map(toCell)),
+    total_rows: totalRows,
+  };
+};
+
+/** Throws if the bytes aren't a dataset preview this version understands */
+export const parseDatasetPreview = (data: string): DatasetPreview => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    throw new Error('Dataset preview is not valid JSON');
+  }
+
+  const result = datasetPreviewSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid dataset preview: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+  return result.data;
+};
+
+const renderDatasetPreview = async (file: File, format: DatasetFormat): Promise<Blob | null> => {
+  if (format === 'json' && file.size > MAX_JSON_PREVIEW_BYTES) return null;
+
+  const complete = format === 'json' || file.size <= DATASET_SAMPLE_BYTES;
+  const text = await (complete ? file : file.slice(0, DATASET_SAMPLE_BYTES)).text();
+  const preview = buildDatasetPreview(text, format, complete);
+  return new Blob([JSON.stringify(preview)], { type: 'application/json' });
+};
+
+// ============================================================================
+// GENERATE & PUBLISH
+// ============================================================================
+
+/** Render a file's preview, or null if its type has none */
+export const generatePreview = async (file: File): Promise<GeneratedPreview | null> => {
+  const base = file.name.replace(/\.[^/.]+$/, '');
+  switch (getPreviewKind(file)) {
+    case 'image':
+      return { data: await renderImagePreview(file), mimeType: 'image/jpeg', fileName: `${base}.preview.jpg` };
+    case 'audio':
+      return { data: await renderAudioPreview(file), mimeType: 'audio/wav', fileName: `${base}.preview.wav` };
+    case 'dataset': {
+      const data = await renderDatasetPreview(file, getDatasetFormat(file) as DatasetFormat);
+      return data && { data, mimeType: 'application/json', fileName: `${base}.preview.json` };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Generate and upload a public preview of the first file that can have one.
+ * Resolves null when preview storage isn't configured, no file has a preview
+ * type, or anything fails; the listing is then created without a preview.
+ */
+export const publishPreview = async (files: File[]): Promise<ListingPreview | null> => {
+  if (!isPreviewStorageConfigured()) return null;
+
+  const file = files.find((candidate) => getPreviewKind(candidate) !== null);
+  if (!file) return null;
+
+  try {
+    const preview = await generatePreview(file);
+    if (!preview) return null;
+    const cid = await uploadPublicFile(preview.data, preview.fileName);
+    return { cid, mime_type: preview.mimeType };
+  } catch (error) {
+    console.warn(`No preview for ${file.name}:`, error);
+    return null;
+  }
+};
+
+/** Fetch and validate a dataset preview from the gateway */
+export const fetchDatasetPreview = async (preview: ListingPreview): Promise<DatasetPreview> => {
+  const response = await fetch(getPreviewUrl(preview.cid));
+  if (!response.ok) {
+    throw new Error(`Preview gateway returned ${response.status}`);
+  }
+  return parseDatasetPreview(await response.text());
+};
@@ -0,0 +1,78 @@
+/**
+ * Public preview storage
+ *
+ * Listing previews are the one thing the marketplace stores unencrypted, so
+ * they bypass NOVA and go to any IPFS node that speaks the Kubo RPC API
+ * (a local node, or a pinning service with a Kubo-compatible endpoint):
+ *
+ * - VITE_IPFS_API_URL      (e.g. http://127.0.0.1:5001; previews are skipped when unset)
+ * - VITE_IPFS_GATEWAY_URL  (where previews are read from, default https://ipfs.io/ipfs/)
+ *
+ * Everything VITE_* ends up in the bundle, so no credentials are read here.
+ * A node that needs a token goes behind the /api/ipfs proxy (api/ipfs.js),
+ * which adds it on the server; set VITE_IPFS_API_URL=/api/ipfs then.
+ */
+
+import type { MarketplaceEnv } from './marketplaceConfig';
+
+export interface PreviewStorageConfig {
+  /** null when no IPFS node is configured */
+  apiUrl: string | null;
+  gatewayUrl: string;
+}
+
+const DEFAULT_GATEWAY_URL = 'https://ipfs.io/ipfs/';
+
+const readString = (env: MarketplaceEnv, key: string): string | undefined => {
+  const value = env[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+export const resolvePreviewStorageConfig = (env: MarketplaceEnv = {}): PreviewStorageConfig => {
+  const gatewayUrl = readString(env, 'VITE_IPFS_GATEWAY_URL') || DEFAULT_GATEWAY_URL;
+  return {
+    apiUrl: readString(env, 'VITE_IPFS_API_URL')?.replace(/\/+$/, '') ?? null,
+    gatewayUrl: gatewayUrl.endsWith('/') ? gatewayUrl : `${gatewayUrl}/`,
+  };
+};
+
+// import.meta.env only exists when bundled by Vite
+export const previewStorageConfig: PreviewStorageConfig = resolvePreviewStorageConfig(
+  (import.meta as { env?: MarketplaceEnv }).env ?? {}
+);
+
+export const isPreviewStorageConfigured = (config: PreviewStorageConfig = previewStorageConfig): boolean => {
+  return config.apiUrl !== null;
+};
+
+/** Gateway URL a preview can be loaded from by anyone */
+export const getPreviewUrl = (cid: string, config: PreviewStorageConfig = previewStorageConfig): string => {
+  return `${config.gatewayUrl}${encodeURIComponent(cid)}`;
+};
+
+/** Add and pin a file on the configured IPFS node; resolves its cid */
+export const uploadPublicFile = async (
+  data: Blob,
+  fileName: string,
+  config: PreviewStorageConfig = previewStorageConfig
+): Promise<string> => {
+  if (!config.apiUrl) {
+    throw new Error('No IPFS node configured for previews (VITE_IPFS_API_URL)');
+  }
+
+  const body = new FormData();
+  body.append('file', data, fileName);
+  const response = await fetch(`${config.apiUrl}/api/v0/add?pin=true&cid-version=1`, {
+    method: 'POST',
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`IPFS node returned ${response.status}: ${await response.text()}`);
+  }
+
+  const result = (await response.json()) as { Hash?: string };
+  if (!result.Hash) {
+    throw new Error('IPFS node did not return a cid');
+  }
+  return result.Hash;
+};
@@ -1,99 +1,281 @@
 import { getPendingAccessBuyers, getBuyersWithAccess, checkBuyerAccess } from './buyerAccessService';
 import { retrieveFile } from './novaService';
+import { retrieveBundleFiles, uniqueFileNames } from './bundleService';
+import { createZip } from './zipService';
+import { retrieveChunkedFile } from './chunkedFileService';
+import { DownloadCancelledError, canStreamToDisk, streamChunkedFileToDisk } from './chunkedDownloadService';
+import { IntegrityError, getDownloadVerification, recordDownloadVerification, verifyHash } from './integrityService';
+import type { DownloadVerification } from './integrityService';
+import { getListingsByOwner, getListingsByBuyer } from './listingQueryService';
+import { getPurchaseEscrow } from './escrowService';
+import { getAccountReview } from './reviewService';
+import { getListingDisputes, getPurchaseDispute } from './disputeService';
+import { getLicenseExpiry } from './licenseService';
+import { buildLicenseReceipt, signLicenseReceipt } from './usageLicenseService';
+import type { LicenseReceiptSigner } from './usageLicenseService';
+import { marketplaceConfig } from './marketplaceConfig';
+import { readOnlyTransport } from './readOnlyTransport';
+import { createMarketplaceContract } from './marketplaceContract';
+import type { ContractDispute, ContractEscrow, ContractReview, MarketplaceContractClient } from './marketplaceContract';
+import { formatFileSize, isBundle, isChunked, isTimeLimitedLicense } from './listingModel';
+import type { Listing } from './listingModel';
 import { toast } from 'sonner';
 
-const MARKETPLACE_CONTRACT = 'singlelibrary5839.near';
-
 export interface UserStats {
   listingsCreated: number;
   itemsPurchased: number;
   totalSpent: number;
 }
 
-export interface UserListing {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  purchase_number: number;
-  list_type: 'Image' | 'Dataset' | 'Audio' | 'Other';
-  cid: string;
-  is_active: boolean;
-  buyers: string[];
-}
-
-export interface PurchasedItem {
-  product_id: number;
-  price: number;
-  nova_group_id: string;
-  owner: string;
-  list_type: 'Image' | 'Dataset' | 'Audio' | 'Other';
-  cid: string;
-}
-
 // Extended types with access info
-export interface ListingWithAccessInfo extends UserListing {
+export interface ListingWithAccessInfo extends Listing {
   pendingBuyers: number;
   activeBuyers: number;
+  /** Disputes buyers opened on this listing, open and closed */
+  disputes: ContractDispute[];
 }
 
-export interface PurchasedItemWithAccessInfo extends PurchasedItem {
+export interface PurchasedItemWithAccessInfo extends Listing {
   hasAccess: boolean;
-  accessStatus: 'pending' | 'granted' | 'unknown';
+  /** 'expired': granted, but the time-limited license lapsed and the seller hasn't revoked it yet */
+  accessStatus: 'pending' | 'granted' | 'expired' | 'unknown';
+  /** Payment held for this purchase, null for purchases made before escrow */
+  escrow: ContractEscrow | null;
+  /** The buyer's own review, null until they write one */
+  review: ContractReview | null;
+  dispute: ContractDispute | null;
+  /** When a time-limited license lapses (ms); null if perpetual or not granted yet */
+  licenseExpiresAt: number | null;
+  /** Hash check of the buyer's last download in this browser, null if never downloaded here */
+  verification: DownloadVerification | null;
 }
 
+/**
+ * Hand a blob to the browser as a file download
+ */
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  
+  // Cleanup
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Save the license receipt next to the file as `<file>.license.json`.
+ * Never fails the download it belongs to.
+ */
+const saveLicenseReceipt = async (
+  listing: Listing,
+  buyerWallet: string,
+  filename: string,
+  signReceipt?: LicenseReceiptSigner
+) => {
+  if (!listing.usage_license) return;
+  
+  try {
+    const receipt = buildLicenseReceipt(
+      { ...listing, usage_license: listing.usage_license },
+      buyerWallet,
+      marketplaceConfig.contractId
+    );
+    const signed = await signLicenseReceipt(receipt, signReceipt);
+    saveBlob(
+      new Blob([JSON.stringify(signed, null, 2)], { type: 'application/json' }),
+      `${filename}.license.json`
+    );
+    if (!signed.signature) {
+      toast.warning('License receipt saved without a wallet signature');
+    }
+  } catch (error) {
+    console.error(`Failed to save license receipt for product ${listing.product_id}:`, error);
+  }
+};
+
+/**
+ * Decrypt every file of a bundle and pack them into one zip, with a toast
+ * that follows the file being fetched
+ */
+const retrieveBundleZip = async (listing: Listing, buyerWallet?: string): Promise<{ blob: Blob; verified: boolean }> => {
+  const toastId = toast.loading('Retrieving bundle manifest from NOVA...');
+  
+  try {
+    const { files, verified } = await retrieveBundleFiles(listing, buyerWallet, ({ index, count, name }) => {
+      toast.loading(`Decrypting file ${index + 1} of ${count}: ${name}`, { id: toastId });
+    });
+    
+    toast.loading('Creating zip...', { id: toastId });
+    const names = uniqueFileNames(
+      files.map(({ entry }, index) => sanitizeFilename(entry.name) || `file_${index + 1}`)
+    );
+    return { blob: createZip(files.map(({ data }, index) => ({ name: names[index], data }))), verified };
+  } finally {
+    toast.dismiss(toastId);
+  }
+};
+
+/**
+ * Decrypt a file that was uploaded in chunks, with a toast showing how much
+ * of it has arrived
+ */
+const retrieveChunkedBlob = async (listing: Listing, buyerWallet?: string): Promise<{ blob: Blob; verified: boolean }> => {
+  const toastId = toast.loading('Retrieving chunk manifest from NOVA...');
+  
+  try {
+    return await retrieveChunkedFile(listing, buyerWallet, ({ received, total }) => {
+      toast.loading(`Decrypting ${formatFileSize(received)} of ${formatFileSize(total)}`, { id: toastId });
+    });
+  } finally {
+    toast.dismiss(toastId);
+  }
+};
+
+/**
+ * Stream a chunked file to disk with a cancellable progress toast. A failed
+ * or cancelled download resumes the next time the buyer downloads it.
+ */
+const streamToDisk = async (listing: Listing, buyerWallet: string, filename: string): Promise<boolean> => {
+  const controller = new AbortController();
+  const cancel = { label: 'Cancel', onClick: () => controller.abort() };
+  const toastId = toast.loading('Retrieving chunk manifest from NOVA...', { action: cancel });
+  
+  try {
+    return await streamChunkedFileToDisk(listing, buyerWallet, filename, {
+      signal: controller.signal,
+      onProgress: ({ received, total }) => {
+        if (controller.signal.aborted) return;
+        toast.loading(`Saving ${formatFileSize(received)} of ${formatFileSize(total)}`, { id: toastId, action: cancel });
+      },
+    });
+  } catch (error) {
+    // A chunk that failed its hash check would fail again on resume
+    if (!(error instanceof DownloadCancelledError) && !(error instanceof IntegrityError)) {
+      toast.info('The part already saved is kept. Download again to resume.');
+    }
+    throw error;
+  } finally {
+    toast.dismiss(toastId);
+  }
+};
+
+/**
+ * Where a single-file download comes from: the buyer's own watermarked copy
+ * on fingerprinted listings (see fingerprintService), the listing's file otherwise
+ */
+const getDownloadSource = async (
+  listing: Listing,
+  buyerWallet?: string
+): Promise<{ groupId: string; cid: string; fileHash: string }> => {
+  if (!listing.fingerprint) {
+    return { groupId: listing.nova_group_id, cid: listing.cid, fileHash: listing.metadata.file_hash };
+  }
+  if (!buyerWallet) {
+    throw new Error('No wallet connected to download your copy with');
+  }
+
+  const contract = createMarketplaceContract(readOnlyTransport);
+  const copy = await contract.getBuyerCopy({ p_id: listing.product_id, buyer: buyerWallet });
+  if (!copy) {
+    throw new Error('Your copy is not ready yet. The seller makes it when granting you access.');
+  }
+  return { groupId: copy.nova_group_id, cid: copy.cid, fileHash: copy.file_hash };
+};
+
 /**
  * Retrieve and download a file from NOVA
- * Only works if the buyer has been granted access to the NOVA group
+ * Only works if the buyer has been granted access to the NOVA group.
+ * The file is saved under its original name and MIME type when the listing has them.
+ * Bundles are downloaded file by file and saved as a single zip. Chunked
+ * files are streamed to a file the buyer picks where the browser allows it,
+ * and joined in memory otherwise (up to MAX_IN_MEMORY_DOWNLOAD_SIZE). Fingerprinted listings download the buyer's own copy.
+ * Listings with a usage license also get a license receipt, signed by the
+ * buyer's wallet when a signer is passed.
  * Client-side only - requires browser APIs
  */
 export const retrieveAndDownloadFile = async (
-  novaGroupId: string,
-  cid: string,
-  productId: number,
-  listType: string,
-  buyerWallet?: string  // CRITICAL: Added buyer's wallet parameter
+  listing: Listing,
+  buyerWallet?: string,  // CRITICAL: Added buyer's wallet parameter
+  signReceipt?: LicenseReceiptSigner
 ): Promise<void> => {
   // Ensure we're in browser environment (required for download)
   if (typeof window === 'undefined') {
     throw new Error('Download function can only be called in browser environment');
   }
   
+  const { cid, product_id: productId, list_type: listType, metadata } = listing;
+  
   try {
-    toast.info('Retrieving file from NOVA...');
-    
-    // CRITICAL: Pass buyerWallet to retrieveFile so it uses the correct credentials
-    const result = await retrieveFile(novaGroupId, cid, buyerWallet);
-    
-    // Convert Buffer to Uint8Array for browser compatibility
-    // This works because Buffer extends Uint8Array in Node.js
-    const uint8Array = new Uint8Array(result.data);
-    
-    // Create a blob from the decrypted data
-    const blob = new Blob([uint8Array], { 
-      type: getMimeType(listType) 
-    });
-    
-    // Generate filename based on product ID and type
-    const filename = generateFilename(productId, listType, cid);
+    // Original filename if known, otherwise one based on product ID and type
+    const filename = sanitizeFilename(metadata.file_name) || generateFilename(productId, listType, cid);
     
-    // Create download link and trigger download
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
+    // Every path checks the decrypted bytes against the recorded hashes before saving
+    let verified: boolean;
+    if (isBundle(listing)) {
+      const bundle = await retrieveBundleZip(listing, buyerWallet);
+      verified = bundle.verified;
+      saveBlob(bundle.blob, filename);
+      toast.success(`Bundle downloaded: ${filename}`);
+    } else if (isChunked(listing) && buyerWallet && canStreamToDisk()) {
+      verified = await streamToDisk(listing, buyerWallet, filename);
+      toast.success(`File saved: ${filename}`);
+    } else if (isChunked(listing)) {
+      const file = await retrieveChunkedBlob(listing, buyerWallet);
+      verified = file.verified;
+      saveBlob(file.blob, filename);
+      toast.success(`File downloaded: ${filename}`);
+    } else {
+      toast.info('Retrieving file from NOVA...');
+      const source = await getDownloadSource(listing, buyerWallet);
+      
+      // CRITICAL: Pass buyerWallet to retrieveFile so it uses the correct credentials
+      const result = await retrieveFile(source.groupId, source.cid, buyerWallet);
+      
+      // Convert Buffer to Uint8Array for browser compatibility
+      // This works because Buffer extends Uint8Array in Node.js
+      const uint8Array = new Uint8Array(result.data);
+      verified = await verifyHash(uint8Array, source.fileHash, 'Downloaded file');
+      
+      // Create a blob from the decrypted data
+      const blob = new Blob([uint8Array], { 
+        type: metadata.mime_type || getMimeType(listType) 
+      });
+      
+      saveBlob(blob, filename);
+      toast.success(`File downloaded: ${filename}`);
+    }
     
-    // Cleanup
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+    if (buyerWallet) {
+      recordDownloadVerification(buyerWallet, productId, verified ? 'verified' : 'unverified');
+    }
+    if (!verified) {
+      toast.warning('This listing has no recorded file hash, so the download could not be verified');
+    }
     
-    toast.success(`File downloaded: ${filename}`);
+    if (buyerWallet) {
+      await saveLicenseReceipt(listing, buyerWallet, filename, signReceipt);
+    }
     
   } catch (error: any) {
+    if (error instanceof DownloadCancelledError) {
+      toast.info(error.message);
+      return;
+    }
+    
     console.error('Failed to retrieve and download file:', error);
     
+    if (error instanceof IntegrityError) {
+      if (buyerWallet) {
+        recordDownloadVerification(buyerWallet, productId, 'mismatch');
+      }
+      toast.error(`${error.message}. The download was stopped; you can report a problem on this purchase.`);
+      throw error;
+    }
+    
     // Provide helpful error messages
     if (error.message?.includes('not authorized')) {
       toast.error('Access denied. You may not have been granted NOVA access yet.');
@@ -126,6 +308,14 @@ const getMimeType = (listType: string): string => {
   }
 };
 
+/**
+ * Strip path separators and control characters from a seller-supplied file name
+ */
+const sanitizeFilename = (name: string): string => {
+  const printable = [...name].filter((char) => char.charCodeAt(0) >= 0x20).join('');
+  return printable.replace(/[\\/:*?"<>|]/g, '_').replace(/^\.+/, '').trim();
+};
+
 /**
  * Generate filename for download
  */
@@ -156,19 +346,12 @@ const getFileExtension = (listType: string): string => {
  * Fetch all listings created by the current user
  */
 export const getUserCreatedListings = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
-): Promise<UserListing[]> => {
+): Promise<Listing[]> => {
   try {
-    const allListings = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_listings'
-    });
-    
-    // Filter listings where the user is the owner
-    return allListings.filter((listing: UserListing) => 
-      listing.owner === userAccountId
-    );
+    // Uses the contract's owner index instead of scanning every listing
+    return await getListingsByOwner(contract, userAccountId);
   } catch (error) {
     console.error('Failed to fetch user created listings:', error);
     throw error;
@@ -179,25 +362,27 @@ export const getUserCreatedListings = async (
  * Fetch all listings created by user WITH access status info
  */
 export const getUserCreatedListingsWithAccess = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
 ): Promise<ListingWithAccessInfo[]> => {
   try {
-    const listings = await getUserCreatedListings(viewFunction, userAccountId);
+    const listings = await getUserCreatedListings(contract, userAccountId);
     
     // Fetch access info for each listing
     const listingsWithAccess = await Promise.all(
       listings.map(async (listing) => {
         try {
-          const [pending, active] = await Promise.all([
-            getPendingAccessBuyers(listing.product_id, viewFunction),
-            getBuyersWithAccess(listing.product_id, viewFunction),
+          const [pending, active, disputes] = await Promise.all([
+            getPendingAccessBuyers(listing.product_id, contract),
+            getBuyersWithAccess(listing.product_id, contract),
+            getListingDisputes(listing.product_id, contract),
           ]);
           
           return {
             ...listing,
             pendingBuyers: pending.length,
             activeBuyers: active.length,
+            disputes,
           } as ListingWithAccessInfo;
         } catch (e) {
           console.error(`Failed to fetch access info for listing ${listing.product_id}:`, e);
@@ -205,6 +390,7 @@ export const getUserCreatedListingsWithAccess = async (
             ...listing,
             pendingBuyers: 0,
             activeBuyers: 0,
+            disputes: [],
           } as ListingWithAccessInfo;
         }
       })
@@ -221,26 +407,12 @@ export const getUserCreatedListingsWithAccess = async (
  * Fetch all items purchased by the current user
  */
 export const getUserPurchasedItems = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
-): Promise<PurchasedItem[]> => {
+): Promise<Listing[]> => {
   try {
-    const allListings = await viewFunction({
-      contractId: MARKETPLACE_CONTRACT,
-      method: 'get_listings'
-    });
-    
-    // Filter listings where the user is in the buyers list
-    return allListings.filter((listing: UserListing) => 
-      listing.buyers && listing.buyers.includes(userAccountId)
-    ).map((listing: UserListing) => ({
-      product_id: listing.product_id,
-      price: listing.price,
-      nova_group_id: listing.nova_group_id,
-      owner: listing.owner,
-      list_type: listing.list_type,
-      cid: listing.cid,
-    }));
+    // Uses the contract's buyer index instead of scanning every listing
+    return await getListingsByBuyer(contract, userAccountId);
   } catch (error) {
     console.error('Failed to fetch user purchased items:', error);
     throw error;
@@ -251,26 +423,38 @@ export const getUserPurchasedItems = async (
  * Fetch all items purchased by user WITH access status info
  */
 export const getUserPurchasedItemsWithAccess = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
 ): Promise<PurchasedItemWithAccessInfo[]> => {
   try {
-    const purchased = await getUserPurchasedItems(viewFunction, userAccountId);
+    const purchased = await getUserPurchasedItems(contract, userAccountId);
     
     // Check access status for each purchased item
     const purchasedWithAccess = await Promise.all(
       purchased.map(async (item) => {
         try {
-          const hasAccess = await checkBuyerAccess(
-            item.product_id,
-            userAccountId,
-            viewFunction
-          );
+          const [hasAccess, escrow, dispute] = await Promise.all([
+            checkBuyerAccess(item.product_id, userAccountId, contract),
+            getPurchaseEscrow(item.product_id, userAccountId, contract),
+            getPurchaseDispute(item.product_id, userAccountId, contract),
+          ]);
+          // has_access is false once a license lapses, even before the seller revokes it
+          const granted = item.buyers_with_access.includes(userAccountId);
+          // Only buyers who were granted access can review, so skip the lookup otherwise
+          const review = granted ? await getAccountReview(item.product_id, userAccountId, contract) : null;
+          const licenseExpiresAt = granted && isTimeLimitedLicense(item.license)
+            ? await getLicenseExpiry(item.product_id, userAccountId, contract)
+            : null;
           
           return {
             ...item,
             hasAccess,
-            accessStatus: hasAccess ? 'granted' : 'pending',
+            accessStatus: hasAccess ? 'granted' : granted ? 'expired' : 'pending',
+            escrow,
+            review,
+            dispute,
+            licenseExpiresAt,
+            verification: getDownloadVerification(userAccountId, item.product_id),
           } as PurchasedItemWithAccessInfo;
         } catch (e) {
           console.error(`Failed to check access for item ${item.product_id}:`, e);
@@ -278,6 +462,11 @@ export const getUserPurchasedItemsWithAccess = async (
             ...item,
             hasAccess: false,
             accessStatus: 'unknown',
+            escrow: null,
+            review: null,
+            dispute: null,
+            licenseExpiresAt: null,
+            verification: getDownloadVerification(userAccountId, item.product_id),
           } as PurchasedItemWithAccessInfo;
         }
       })
@@ -294,13 +483,13 @@ export const getUserPurchasedItemsWithAccess = async (
  * Calculate user statistics
  */
 export const getUserStats = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
 ): Promise<UserStats> => {
   try {
     const [createdListings, purchasedItems] = await Promise.all([
-      getUserCreatedListings(viewFunction, userAccountId),
-      getUserPurchasedItems(viewFunction, userAccountId)
+      getUserCreatedListings(contract, userAccountId),
+      getUserPurchasedItems(contract, userAccountId)
     ]);
     
     const totalSpent = purchasedItems.reduce((sum, item) => sum + item.price, 0);
@@ -321,14 +510,14 @@ export const getUserStats = async (
  * One-stop function to fetch everything needed for profile page
  */
 export const getUserProfileData = async (
-  viewFunction: any,
+  contract: MarketplaceContractClient,
   userAccountId: string
 ) => {
   try {
     const [stats, createdListings, purchasedItems] = await Promise.all([
-      getUserStats(viewFunction, userAccountId),
-      getUserCreatedListingsWithAccess(viewFunction, userAccountId),
-      getUserPurchasedItemsWithAccess(viewFunction, userAccountId),
+      getUserStats(contract, userAccountId),
+      getUserCreatedListingsWithAccess(contract, userAccountId),
+      getUserPurchasedItemsWithAccess(contract, userAccountId),
     ]);
     
     return {
@@ -0,0 +1,22 @@
+import { JsonRpcProvider } from 'near-api-js';
+import { marketplaceConfig } from './marketplaceConfig';
+import type { MarketplaceContractTransport } from './marketplaceContract';
+
+/**
+ * View-only contract transport talking straight to an RPC node.
+ * Needs no signer, so listings can be read before (or without) a wallet
+ * connection; a client built on it throws on change calls.
+ */
+export const createReadOnlyTransport = (
+  rpcUrl: string = marketplaceConfig.rpcUrl
+): MarketplaceContractTransport => {
+  const provider = new JsonRpcProvider({ url: rpcUrl });
+
+  return {
+    viewFunction: ({ contractId, method, args }) =>
+      provider.callFunction({ contractId, method, args: args ?? {} }),
+  };
+};
+
+// Shared by every client in the app so views use one provider
+export const readOnlyTransport: MarketplaceContractTransport = createReadOnlyTransport();
@@ -0,0 +1,221 @@
+import { addGroupMember, isAuthorized } from './novaService';
+import type { MarketplaceContractClient } from './marketplaceContract';
+import { isTimeLimitedLicense } from './listingModel';
+import type { Listing } from './listingModel';
+
+// ============================================================================
+// ACCESS RECONCILIATION
+// Granting access writes to two systems (NOVA group membership, then the
+// contract's buyers_with_access). A failure between the two leaves them out of
+// sync; this compares both for every buyer of a listing and repairs drift.
+// ============================================================================
+
+/**
+ * - nova_only: in the NOVA group but not in buyers_with_access (contract write failed, or a
+ *   contract-only revoke)
+ * - contract_only: in buyers_with_access but not in the NOVA group (buyer can't decrypt)
+ * - paid_no_access: bought the listing but is in neither, and was never granted. A buyer
+ *   in neither with a grant on record was revoked, which is not drift
+ * - unknown: in neither, bought before the contract kept escrows or grant records, so it
+ *   can't tell whether they are still waiting or were revoked. Only repaired one at a time
+ */
+export type DriftKind = 'nova_only' | 'contract_only' | 'paid_no_access' | 'unknown';
+
+export interface BuyerDrift {
+  productId: number;
+  novaGroupId: string;
+  buyer: string;
+  novaAccountId: string;
+  kind: DriftKind;
+}
+
+export interface ReconciliationError {
+  productId: number;
+  buyer: string;
+  message: string;
+}
+
+export interface ListingReconciliation {
+  productId: number;
+  novaGroupId: string;
+  buyersChecked: number;
+  drift: BuyerDrift[];
+  errors: ReconciliationError[];
+}
+
+export interface ReconciliationReport {
+  listings: ListingReconciliation[];
+  drift: BuyerDrift[];
+  errors: ReconciliationError[];
+  checkedAt: number;
+}
+
+export const DRIFT_LABELS: Record<DriftKind, string> = {
+  nova_only: 'In NOVA, not in contract',
+  contract_only: 'In contract, not in NOVA',
+  paid_no_access: 'Paid, no access',
+  unknown: 'No access, maybe revoked',
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const classify = (inNova: boolean, inContract: boolean, wasGranted: boolean | null): DriftKind | null => {
+  if (inNova && !inContract) return 'nova_only';
+  if (!inNova && inContract) return 'contract_only';
+  if (!inNova && !inContract && wasGranted === null) return 'unknown';
+  if (!inNova && !inContract && !wasGranted) return 'paid_no_access';
+  return null;
+};
+
+/**
+ * Compare NOVA group membership with the contract for every buyer of one listing.
+ * Buyers whose state can't be read (no NOVA account mapped, NOVA unreachable)
+ * are reported as errors rather than drift. On fingerprinted listings each
+ * buyer is checked against their copy's group; a buyer with no copy yet is an
+ * error too, since only a grant can make the copy. Buyers whose license
+ * lapsed are skipped: they are revoked, not repaired.
+ */
+export const reconcileListing = async (
+  listing: Listing,
+  contract: MarketplaceContractClient,
+  ownerWallet: string
+): Promise<ListingReconciliation> => {
+  const result: ListingReconciliation = {
+    productId: listing.product_id,
+    novaGroupId: listing.nova_group_id,
+    buyersChecked: listing.buyers.length,
+    drift: [],
+    errors: [],
+  };
+
+  const [withAccess, grants, escrows, expiries] = await Promise.all([
+    contract.getBuyersWithAccess({ p_id: listing.product_id }),
+    contract.getAccessGrants({ p_id: listing.product_id }),
+    contract.getListingEscrows({ p_id: listing.product_id }),
+    isTimeLimitedLicense(listing.license) ? contract.getLicenseExpiries({ p_id: listing.product_id }) : [],
+  ]);
+  const contractAccess = new Set(withAccess);
+  // Grant records are kept through a revoke, escrow granted_at_ms too (unless a
+  // dispute held the payment). Buyers with neither record nor escrow bought
+  // before either existed, so whether they were granted is unknown
+  // Earlier purchases of a buyer who bought again come first: keep the current one
+  const currentEscrows = [...new Map(escrows.map((escrow) => [escrow.buyer, escrow])).values()];
+  const granted = new Set([
+    ...grants.map(([buyer]) => buyer),
+    ...currentEscrows.filter((escrow) => escrow.granted_at_ms !== null).map((escrow) => escrow.buyer),
+  ]);
+  const escrowed = new Set(currentEscrows.map((escrow) => escrow.buyer));
+  const wasGranted = (buyer: string): boolean | null =>
+    granted.has(buyer) ? true : escrowed.has(buyer) ? false : null;
+  // get_buyers_with_access leaves these out, and a repair would grant them a new term
+  const now = Date.now();
+  const lapsed = new Set(expiries.filter(([, expiresAtMs]) => expiresAtMs <= now).map(([buyer]) => buyer));
+
+  for (const buyer of listing.buyers) {
+    if (lapsed.has(buyer)) continue;
+    try {
+      const novaAccountId = await contract.getNovaAccount({ near_wallet: buyer });
+      if (!novaAccountId) {
+        throw new Error('No NOVA account mapped for this buyer');
+      }
+
+      let novaGroupId = listing.nova_group_id;
+      if (listing.fingerprint) {
+        const copy = await contract.getBuyerCopy({ p_id: listing.product_id, buyer });
+        if (!copy) {
+          throw new Error('No fingerprinted copy yet; use Grant Access to make one');
+        }
+        novaGroupId = copy.nova_group_id;
+      }
+
+      const inNova = await isAuthorized(novaGroupId, novaAccountId, ownerWallet);
+      const kind = classify(inNova, contractAccess.has(buyer), wasGranted(buyer));
+      if (kind) {
+        result.drift.push({
+          productId: listing.product_id,
+          novaGroupId,
+          buyer,
+          novaAccountId,
+          kind,
+        });
+      }
+    } catch (error) {
+      result.errors.push({ productId: listing.product_id, buyer, message: errorMessage(error) });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Reconcile every listing that has buyers, one listing at a time
+ */
+export const reconcileListings = async (
+  listings: Listing[],
+  contract: MarketplaceContractClient,
+  ownerWallet: string,
+  onProgress?: (current: number, total: number, productId: number) => void
+): Promise<ReconciliationReport> => {
+  const withBuyers = listings.filter((listing) => listing.buyers.length > 0);
+  const results: ListingReconciliation[] = [];
+
+  for (let i = 0; i < withBuyers.length; i++) {
+    onProgress?.(i + 1, withBuyers.length, withBuyers[i].product_id);
+    results.push(await reconcileListing(withBuyers[i], contract, ownerWallet));
+  }
+
+  return {
+    listings: results,
+    drift: results.flatMap((r) => r.drift),
+    errors: results.flatMap((r) => r.errors),
+    checkedAt: Date.now(),
+  };
+};
+
+/** Drift that "Repair all" may fix; unknown buyers may have been revoked on purpose */
+export const isBulkRepairable = (drift: BuyerDrift): boolean => drift.kind !== 'unknown';
+
+/**
+ * Bring NOVA and the contract back in line for one buyer.
+ * Every kind is repaired towards "buyer has access", since they paid for it.
+ */
+export const repairDrift = async (
+  drift: BuyerDrift,
+  contract: MarketplaceContractClient,
+  ownerWallet: string
+): Promise<void> => {
+  const grantsBoth = drift.kind === 'paid_no_access' || drift.kind === 'unknown';
+  if (drift.kind === 'contract_only' || grantsBoth) {
+    await addGroupMember(drift.novaGroupId, drift.novaAccountId, ownerWallet);
+  }
+  if (drift.kind === 'nova_only' || grantsBoth) {
+    await contract.grantBuyerAccess({ p_id: drift.productId, buyer: drift.buyer });
+  }
+};
+
+/**
+ * Repair a list of drift entries, continuing past failures
+ */
+export const repairAllDrift = async (
+  drift: BuyerDrift[],
+  contract: MarketplaceContractClient,
+  ownerWallet: string,
+  onProgress?: (current: number, total: number, item: BuyerDrift) => void
+): Promise<{ repaired: BuyerDrift[]; failed: Array<{ drift: BuyerDrift; error: string }> }> => {
+  const repaired: BuyerDrift[] = [];
+  const failed: Array<{ drift: BuyerDrift; error: string }> = [];
+
+  for (let i = 0; i < drift.length; i++) {
+    onProgress?.(i + 1, drift.length, drift[i]);
+    try {
+      await repairDrift(drift[i], contract, ownerWallet);
+      repaired.push(drift[i]);
+    } catch (error) {
+      console.error(`Failed to repair ${drift[i].buyer} on #${drift[i].productId}:`, error);
+      failed.push({ drift: drift[i], error: errorMessage(error) });
+    }
+  }
+
+  return { repaired, failed };
+};
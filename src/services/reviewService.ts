@@ -0,0 +1,91 @@
+import { MAX_REVIEW_LENGTH } from './marketplaceContract';
+import type { ContractReview, MarketplaceContractClient } from './marketplaceContract';
+import type { Listing } from './listingModel';
+
+// Must not exceed MAX_PAGE_LIMIT in listingContract.rs
+const REVIEWS_PAGE_SIZE = 100;
+
+/**
+ * Only buyers the seller granted access to can review, only once, and not
+ * after a time-limited license lapsed. Mirrors the checks in `submit_review`.
+ */
+export const canReview = (
+  listing: Pick<Listing, 'buyers_with_access'>,
+  accountId: string | null | undefined,
+  existingReview: ContractReview | null,
+  licenseExpiresAt: number | null = null,
+  now = Date.now()
+): boolean => {
+  return (
+    !!accountId &&
+    listing.buyers_with_access.includes(accountId) &&
+    existingReview === null &&
+    (licenseExpiresAt === null || licenseExpiresAt > now)
+  );
+};
+
+/**
+ * Throws with a user-facing message if the contract would reject the review
+ */
+export const validateReview = (rating: number, text: string): void => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Rating must be between 1 and 5 stars');
+  }
+  if (new TextEncoder().encode(text).length > MAX_REVIEW_LENGTH) {
+    throw new Error(`Review is longer than ${MAX_REVIEW_LENGTH} bytes`);
+  }
+};
+
+/**
+ * Submit the caller's review of a listing they have access to
+ */
+export const submitReview = async (
+  productId: number,
+  rating: number,
+  text: string,
+  contract: MarketplaceContractClient
+): Promise<void> => {
+  validateReview(rating, text);
+  try {
+    await contract.submitReview({ p_id: productId, rating, text: text.trim() });
+  } catch (error) {
+    console.error(`Failed to submit review for product ${productId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * The account's review of a listing, null if they haven't reviewed it or the lookup fails
+ */
+export const getAccountReview = async (
+  productId: number,
+  reviewer: string,
+  contract: MarketplaceContractClient
+): Promise<ContractReview | null> => {
+  try {
+    return await contract.getReview({ p_id: productId, reviewer });
+  } catch (error) {
+    console.error(`Failed to fetch review of product ${productId} by ${reviewer}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetch every review of a listing, newest first
+ */
+export const getListingReviews = async (
+  contract: MarketplaceContractClient,
+  productId: number
+): Promise<ContractReview[]> => {
+  const all: ContractReview[] = [];
+  let fromIndex = 0;
+
+  for (;;) {
+    const page = await contract.getReviews({ p_id: productId, from_index: fromIndex, limit: REVIEWS_PAGE_SIZE });
+    all.push(...page);
+    if (page.length < REVIEWS_PAGE_SIZE) break;
+    fromIndex += REVIEWS_PAGE_SIZE;
+  }
+
+  return all.reverse();
+};
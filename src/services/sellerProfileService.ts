@@ -0,0 +1,128 @@
+import { getListingsByOwner } from './listingQueryService';
+import type { ContractEscrow, MarketplaceContractClient } from './marketplaceContract';
+import type { Listing } from './listingModel';
+
+// ============================================================================
+// SELLER PROFILES
+// Public storefront data for one account: what they sell and how reliably
+// they grant access once paid. Everything is aggregated client-side from the
+// owner index and each listing's escrows, which keep a buyer's earlier
+// purchases when they buy again.
+// ============================================================================
+
+export interface SellerReputation {
+  activeListings: number;
+  /** Purchases across all of the seller's listings, delisted ones included */
+  totalSales: number;
+  /** Average over TEE-verified listings, null if none are scored */
+  averageCredibilityScore: number | null;
+  /** Mean buyer rating over all reviews of all listings, null without reviews */
+  averageRating: number | null;
+  reviewCount: number;
+  /** Escrowed purchases the seller granted access to */
+  grantedPurchases: number;
+  /** Still inside the escrow window, waiting for a grant */
+  pendingPurchases: number;
+  /** Past the escrow timeout without a grant (refundable or already refunded) */
+  overduePurchases: number;
+  /** Mean time from purchase to first grant, null until there is a grant */
+  averageGrantLatencyMs: number | null;
+  /** Has overdue purchases and has never granted anyone access */
+  neverGrants: boolean;
+}
+
+export interface SellerProfile {
+  accountId: string;
+  /** Active listings, newest first */
+  listings: Listing[];
+  reputation: SellerReputation;
+}
+
+const average = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Aggregate a seller's reputation from their listings and escrowed purchases.
+ * Purchases made before escrow existed have no timestamps; they only count
+ * towards sales and, if granted, towards "has granted access".
+ */
+export const computeSellerReputation = (
+  listings: Listing[],
+  escrows: ContractEscrow[],
+  now = Date.now()
+): SellerReputation => {
+  const scores = listings
+    .filter((listing) => listing.is_tee_verified && listing.credibility_score !== null)
+    .map((listing) => listing.credibility_score as number);
+
+  const granted = escrows.filter((escrow) => escrow.granted_at_ms !== null);
+  const held = escrows.filter((escrow) => escrow.status === 'Held');
+  const pending = held.filter((escrow) => now < escrow.refundable_at_ms);
+  // Refunds by the seller or the arbiter settle a dispute; only timed-out claims mean the seller never granted
+  const overdue = [
+    ...held.filter((escrow) => now >= escrow.refundable_at_ms),
+    ...escrows.filter((escrow) => escrow.refund_reason === 'Timeout'),
+  ];
+
+  const reviewCount = listings.reduce((sum, listing) => sum + listing.review_count, 0);
+  const ratingTotal = listings.reduce((sum, listing) => sum + listing.rating_total, 0);
+
+  const hasGranted = granted.length > 0 || listings.some((listing) => listing.buyers_with_access.length > 0);
+
+  return {
+    activeListings: listings.filter((listing) => listing.is_active).length,
+    totalSales: listings.reduce((sum, listing) => sum + listing.purchase_number, 0),
+    averageCredibilityScore: average(scores),
+    averageRating: reviewCount > 0 ? ratingTotal / reviewCount : null,
+    reviewCount,
+    grantedPurchases: granted.length,
+    pendingPurchases: pending.length,
+    overduePurchases: overdue.length,
+    averageGrantLatencyMs: average(
+      granted.map((escrow) => (escrow.granted_at_ms as number) - escrow.purchased_at_ms)
+    ),
+    neverGrants: !hasGranted && overdue.length > 0,
+  };
+};
+
+/**
+ * Escrows of one listing; a failed lookup counts as none rather than
+ * failing the whole storefront
+ */
+const getListingEscrows = async (
+  productId: number,
+  contract: MarketplaceContractClient
+): Promise<ContractEscrow[]> => {
+  try {
+    return await contract.getListingEscrows({ p_id: productId });
+  } catch (error) {
+    console.error(`Failed to fetch escrows for product ${productId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Fetch a seller's active listings and reputation. Works without a signed-in wallet.
+ */
+export const getSellerProfile = async (
+  contract: MarketplaceContractClient,
+  accountId: string
+): Promise<SellerProfile> => {
+  try {
+    const listings = await getListingsByOwner(contract, accountId);
+    const escrows = await Promise.all(
+      listings.map((listing) => getListingEscrows(listing.product_id, contract))
+    );
+
+    return {
+      accountId,
+      listings: listings.filter((listing) => listing.is_active).reverse(),
+      reputation: computeSellerReputation(listings, escrows.flat()),
+    };
+  } catch (error) {
+    console.error(`Failed to fetch seller profile for ${accountId}:`, error);
+    throw error;
+  }
+};
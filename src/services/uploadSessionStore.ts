@@ -0,0 +1,65 @@
+import type { UploadSession } from './chunkedFileService';
+
+/**
+ * Where chunked uploads record finished chunks so they survive a page reload
+ */
+export interface UploadSessionStore {
+  put(session: UploadSession): Promise<void>;
+  get(id: string): Promise<UploadSession | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = 'singlelibrary-upload-sessions';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return promisify(request);
+};
+
+/**
+ * IndexedDB-backed session store. The database is opened on first use.
+ */
+export const createIndexedDbUploadSessionStore = (): UploadSessionStore => {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    if (!db) {
+      db = openDatabase().catch((error) => {
+        db = null;
+        throw error;
+      });
+    }
+    const store = (await db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(run(store));
+  };
+
+  return {
+    put: async (session) => {
+      await withStore('readwrite', (store) => store.put(session));
+    },
+    get: (id) => withStore('readonly', (store) => store.get(id) as IDBRequest<UploadSession | undefined>),
+    delete: async (id) => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+export const uploadSessionStore: UploadSessionStore = createIndexedDbUploadSessionStore();
@@ -0,0 +1,223 @@
+import { MAX_LICENSE_TEXT_LENGTH } from './marketplaceContract';
+import { getListingTitle } from './listingModel';
+import { sha256Hex } from './integrityService';
+import type { Listing, UsageLicense, UsageLicenseKind } from './listingModel';
+
+// ============================================================================
+// USAGE LICENSES
+// What a buyer may do with a file. Listings store the license kind and the
+// SHA-256 of its full text; template texts live here, custom texts on-chain.
+// Template texts are part of every listing hash that uses them: never edit
+// one in place, add a new kind instead.
+// ============================================================================
+
+interface UsageLicenseTemplate {
+  name: string;
+  /** One line for cards */
+  summary: string;
+  /** Canonical text buyers agree to; empty for Custom */
+  text: string;
+}
+
+export const USAGE_LICENSE_TEMPLATES: Record<UsageLicenseKind, UsageLicenseTemplate> = {
+  Personal: {
+    name: 'Personal use',
+    summary: 'Personal, non-commercial use only',
+    text: [
+      'Personal Use License v1',
+      '',
+      'The buyer may download, view and use the licensed file for personal, non-commercial purposes.',
+      'The buyer may not resell, redistribute, sublicense or publish the file, or use it in any product or service offered to others.',
+      'All rights not expressly granted remain with the seller.',
+    ].join('\n'),
+  },
+  Commercial: {
+    name: 'Commercial use',
+    summary: 'Use in personal and commercial projects, no resale of the file itself',
+    text: [
+      'Commercial Use License v1',
+      '',
+      'The buyer may use, modify and incorporate the licensed file in personal and commercial projects, including products and services sold to others.',
+      'The buyer may not resell, redistribute or sublicense the file on its own or as the main part of a competing asset.',
+      'All rights not expressly granted remain with the seller.',
+    ].join('\n'),
+  },
+  CcBy: {
+    name: 'CC BY 4.0',
+    summary: 'Any use, including commercial, with credit to the seller',
+    text: [
+      'Creative Commons Attribution 4.0 International (CC BY 4.0)',
+      '',
+      'The buyer may share and adapt the licensed file for any purpose, including commercially, provided they give appropriate credit to the seller, link to the license and indicate if changes were made.',
+      '',
+      'Legal code: https://creativecommons.org/licenses/by/4.0/legalcode',
+    ].join('\n'),
+  },
+  CcBySa: {
+    name: 'CC BY-SA 4.0',
+    summary: 'Any use with credit; adaptations must use the same license',
+    text: [
+      'Creative Commons Attribution-ShareAlike 4.0 International (CC BY-SA 4.0)',
+      '',
+      'The buyer may share and adapt the licensed file for any purpose, including commercially, provided they give appropriate credit to the seller, link to the license, indicate if changes were made and distribute adaptations under the same license.',
+      '',
+      'Legal code: https://creativecommons.org/licenses/by-sa/4.0/legalcode',
+    ].join('\n'),
+  },
+  CcByNc: {
+    name: 'CC BY-NC 4.0',
+    summary: 'Non-commercial use with credit to the seller',
+    text: [
+      'Creative Commons Attribution-NonCommercial 4.0 International (CC BY-NC 4.0)',
+      '',
+      'The buyer may share and adapt the licensed file for non-commercial purposes, provided they give appropriate credit to the seller, link to the license and indicate if changes were made.',
+      '',
+      'Legal code: https://creativecommons.org/licenses/by-nc/4.0/legalcode',
+    ].join('\n'),
+  },
+  Cc0: {
+    name: 'CC0 1.0',
+    summary: 'No rights reserved',
+    text: [
+      'Creative Commons Zero 1.0 Universal (CC0 1.0) Public Domain Dedication',
+      '',
+      'The seller waives all copyright and related rights in the licensed file to the extent possible under law. The buyer may copy, modify, distribute and use it for any purpose without asking permission.',
+      '',
+      'Legal code: https://creativecommons.org/publicdomain/zero/1.0/legalcode',
+    ].join('\n'),
+  },
+  Custom: {
+    name: 'Custom license',
+    summary: 'Seller-written terms',
+    text: '',
+  },
+};
+
+/** Full text the buyer agrees to */
+export const getUsageLicenseText = (license: UsageLicense): string => {
+  return license.kind === 'Custom' ? license.custom_text : USAGE_LICENSE_TEMPLATES[license.kind].text;
+};
+
+/** Lowercase hex SHA-256, as stored in `UsageLicense.text_hash` */
+export const hashLicenseText = async (text: string): Promise<string> => {
+  return sha256Hex(new TextEncoder().encode(text));
+};
+
+/**
+ * Build the on-chain license for a new listing. Throws on custom text the
+ * contract would reject.
+ */
+export const createUsageLicense = async (kind: UsageLicenseKind, customText = ''): Promise<UsageLicense> => {
+  const custom_text = kind === 'Custom' ? customText.trim() : '';
+  if (kind === 'Custom') {
+    if (!custom_text) {
+      throw new Error('Please write the terms of your custom license');
+    }
+    if (new TextEncoder().encode(custom_text).length > MAX_LICENSE_TEXT_LENGTH) {
+      throw new Error(`Custom license must be at most ${MAX_LICENSE_TEXT_LENGTH} bytes`);
+    }
+  }
+
+  const license = { kind, custom_text, text_hash: '' };
+  return { ...license, text_hash: await hashLicenseText(getUsageLicenseText(license)) };
+};
+
+/**
+ * The text shown matches the hash stored on-chain. False means the template
+ * changed since the listing was created, so the text can't be trusted.
+ */
+export const verifyUsageLicense = async (license: UsageLicense): Promise<boolean> => {
+  return (await hashLicenseText(getUsageLicenseText(license))) === license.text_hash;
+};
+
+// ============================================================================
+// RECEIPTS
+// Saved next to each download: which file, who bought it from whom, under
+// which license. The buyer's wallet signs it (NEP-413), which proves that
+// account accepted these exact terms.
+// ============================================================================
+
+export interface LicenseReceipt {
+  type: 'license-receipt';
+  version: 1;
+  contract_id: string;
+  product_id: number;
+  title: string;
+  file_name: string;
+  file_hash: string;
+  seller: string;
+  buyer: string;
+  license: {
+    kind: UsageLicenseKind;
+    name: string;
+    text_hash: string;
+    text: string;
+  };
+  issued_at: string;
+}
+
+/** NEP-413 signature over the receipt JSON */
+export interface ReceiptSignature {
+  account_id: string;
+  public_key: string;
+  signature: string;
+  /** base64 */
+  nonce: string;
+  recipient: string;
+}
+
+export interface SignedLicenseReceipt {
+  /** Exactly the string that was signed */
+  message: string;
+  receipt: LicenseReceipt;
+  /** null if the buyer declined to sign */
+  signature: ReceiptSignature | null;
+}
+
+export type LicenseReceiptSigner = (message: string) => Promise<ReceiptSignature>;
+
+export const buildLicenseReceipt = (
+  listing: Listing & { usage_license: UsageLicense },
+  buyer: string,
+  contractId: string,
+  now = Date.now()
+): LicenseReceipt => {
+  const license = listing.usage_license;
+  return {
+    type: 'license-receipt',
+    version: 1,
+    contract_id: contractId,
+    product_id: listing.product_id,
+    title: getListingTitle(listing),
+    file_name: listing.metadata.file_name,
+    file_hash: listing.metadata.file_hash,
+    seller: listing.owner,
+    buyer,
+    license: {
+      kind: license.kind,
+      name: USAGE_LICENSE_TEMPLATES[license.kind].name,
+      text_hash: license.text_hash,
+      text: getUsageLicenseText(license),
+    },
+    issued_at: new Date(now).toISOString(),
+  };
+};
+
+/**
+ * Ask the buyer's wallet to sign the receipt. Declining still yields a
+ * receipt, just without a signature, so the download isn't blocked.
+ */
+export const signLicenseReceipt = async (
+  receipt: LicenseReceipt,
+  signer?: LicenseReceiptSigner
+): Promise<SignedLicenseReceipt> => {
+  const message = JSON.stringify(receipt);
+  if (!signer) return { message, receipt, signature: null };
+
+  try {
+    return { message, receipt, signature: await signer(message) };
+  } catch (error) {
+    console.warn(`License receipt for product ${receipt.product_id} left unsigned:`, error);
+    return { message, receipt, signature: null };
+  }
+};
@@ -0,0 +1,245 @@
+import { crc32 } from './zipService';
+
+// ============================================================================
+// WATERMARKS
+// Invisible per-buyer fingerprint for images, written in the pixel domain:
+// - the image is cut into 8x8 blocks, aligned with JPEG's own DCT blocks
+// - each block carries one bit in the mean of its luma, nudged onto one of
+//   two interleaved lattices (quantization index modulation)
+// - the payload (magic, version, account id, CRC-32) repeats over every
+//   block, and extraction takes a weighted vote per bit
+// The block means only move by a few levels, so the mark is invisible and
+// survives re-encoding as JPEG or PNG. It does not survive cropping,
+// resizing or rotating, which shift the block grid.
+// ============================================================================
+
+/** RGBA pixels, row by row; an ImageData satisfies it */
+export interface PixelImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface FingerprintOptions {
+  /** Also stamp "Licensed to <account>" in the corner */
+  visible: boolean;
+}
+
+// Largest NEAR account id
+export const MAX_FINGERPRINT_ACCOUNT_LENGTH = 64;
+
+const BLOCK_SIZE = 8;
+// Distance between two means carrying the same bit; a block moves by at most half of it
+const QUANT_STEP = 6;
+// Every payload bit must land in at least this many blocks
+const MIN_REPEATS = 3;
+// Passes that push unclamped pixels further when clamping ate part of a nudge
+const EMBED_PASSES = 4;
+
+const MAGIC = [0x4e, 0x46]; // "NF"
+const VERSION = 1;
+// magic, version, account length, zero-padded account id, CRC-32 of what precedes it
+const HEADER_BYTES = MAGIC.length + 2;
+const PAYLOAD_BYTES = HEADER_BYTES + MAX_FINGERPRINT_ACCOUNT_LENGTH + 4;
+const PAYLOAD_BITS = PAYLOAD_BYTES * 8;
+
+/** Smallest number of 8x8 blocks an image needs to carry a fingerprint */
+export const MIN_FINGERPRINT_BLOCKS = PAYLOAD_BITS * MIN_REPEATS;
+
+const encodePayload = (accountId: string): Uint8Array => {
+  const account = new TextEncoder().encode(accountId);
+  if (account.length === 0 || account.length > MAX_FINGERPRINT_ACCOUNT_LENGTH) {
+    throw new Error(`Account id must be 1 to ${MAX_FINGERPRINT_ACCOUNT_LENGTH} bytes`);
+  }
+
+  const payload = new Uint8Array(PAYLOAD_BYTES);
+  payload.set(MAGIC, 0);
+  payload[MAGIC.length] = VERSION;
+  payload[MAGIC.length + 1] = account.length;
+  payload.set(account, HEADER_BYTES);
+  new DataView(payload.buffer).setUint32(PAYLOAD_BYTES - 4, crc32(payload.subarray(0, PAYLOAD_BYTES - 4)));
+  return payload;
+};
+
+/** The account id, or null when the bytes are not an intact payload */
+const decodePayload = (payload: Uint8Array): string | null => {
+  const checksum = new DataView(payload.buffer, payload.byteOffset).getUint32(PAYLOAD_BYTES - 4);
+  if (checksum !== crc32(payload.subarray(0, PAYLOAD_BYTES - 4))) return null;
+  if (payload[0] !== MAGIC[0] || payload[1] !== MAGIC[1] || payload[MAGIC.length] !== VERSION) return null;
+
+  const length = payload[MAGIC.length + 1];
+  if (length === 0 || length > MAX_FINGERPRINT_ACCOUNT_LENGTH) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(payload.subarray(HEADER_BYTES, HEADER_BYTES + length));
+  } catch {
+    return null;
+  }
+};
+
+const blockCount = ({ width, height }: PixelImage) =>
+  Math.floor(width / BLOCK_SIZE) * Math.floor(height / BLOCK_SIZE);
+
+/** Calls `visit` with the index in `data` of each pixel of block `block` */
+const forEachPixel = (image: PixelImage, block: number, visit: (offset: number) => void) => {
+  const columns = Math.floor(image.width / BLOCK_SIZE);
+  const left = (block % columns) * BLOCK_SIZE;
+  const top = Math.floor(block / columns) * BLOCK_SIZE;
+  for (let y = top; y < top + BLOCK_SIZE; y++) {
+    for (let x = left; x < left + BLOCK_SIZE; x++) {
+      visit((y * image.width + x) * 4);
+    }
+  }
+};
+
+// BT.601 luma, the Y that JPEG compresses at full resolution
+const blockLuma = (image: PixelImage, block: number): number => {
+  const { data } = image;
+  let sum = 0;
+  forEachPixel(image, block, (i) => {
+    sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  });
+  return sum / (BLOCK_SIZE * BLOCK_SIZE);
+};
+
+/** Nearest mean on the bit's lattice that stays inside 0..255 */
+const quantize = (luma: number, bit: number): number => {
+  const offset = bit ? QUANT_STEP / 2 : 0;
+  let target = Math.round((luma - offset) / QUANT_STEP) * QUANT_STEP + offset;
+  if (target > 255) target -= QUANT_STEP;
+  if (target < 0) target += QUANT_STEP;
+  return target;
+};
+
+const bitAt = (payload: Uint8Array, index: number) => (payload[index >> 3] >> (7 - (index & 7))) & 1;
+
+/**
+ * Hide `accountId` in the image, in place. Throws when the image has too
+ * few blocks to carry it (under about 384x288 pixels).
+ */
+export const embedFingerprint = (image: PixelImage, accountId: string): void => {
+  const blocks = blockCount(image);
+  if (blocks < MIN_FINGERPRINT_BLOCKS) {
+    throw new Error('Image is too small to fingerprint');
+  }
+
+  const payload = encodePayload(accountId);
+  const { data } = image;
+  for (let block = 0; block < blocks; block++) {
+    const target = quantize(blockLuma(image, block), bitAt(payload, block % PAYLOAD_BITS));
+    // Shifting R, G and B alike moves luma by the same amount, since the weights add up to 1
+    for (let pass = 0; pass < EMBED_PASSES; pass++) {
+      const delta = target - blockLuma(image, block);
+      if (Math.abs(delta) < 0.25) break;
+      forEachPixel(image, block, (i) => {
+        data[i] += delta;
+        data[i + 1] += delta;
+        data[i + 2] += delta;
+      });
+    }
+  }
+};
+
+/** The account id hidden in the image, or null when it carries no readable fingerprint */
+export const extractFingerprint = (image: PixelImage): string | null => {
+  const blocks = blockCount(image);
+  if (blocks < PAYLOAD_BITS) return null;
+
+  // Positive votes for 1: how much closer each mean is to the 1 lattice than to the 0 lattice
+  const votes = new Float64Array(PAYLOAD_BITS);
+  for (let block = 0; block < blocks; block++) {
+    const phase = ((blockLuma(image, block) % QUANT_STEP) + QUANT_STEP) % QUANT_STEP;
+    const distanceToZero = Math.min(phase, QUANT_STEP - phase);
+    const distanceToOne = Math.abs(phase - QUANT_STEP / 2);
+    votes[block % PAYLOAD_BITS] += distanceToZero - distanceToOne;
+  }
+
+  const payload = new Uint8Array(PAYLOAD_BYTES);
+  votes.forEach((vote, index) => {
+    if (vote > 0) payload[index >> 3] |= 1 << (7 - (index & 7));
+  });
+  return decodePayload(payload);
+};
+
+// ============================================================================
+// BROWSER
+// ============================================================================
+
+// Keep the decoded pixels exactly as stored so the block means survive
+const BITMAP_OPTIONS: ImageBitmapOptions = { colorSpaceConversion: 'none', premultiplyAlpha: 'none' };
+
+const drawToCanvas = async (data: Blob): Promise<CanvasRenderingContext2D> => {
+  const bitmap = await createImageBitmap(data, BITMAP_OPTIONS);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D is not available');
+    context.drawImage(bitmap, 0, 0);
+    return context;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const drawLicenseStamp = (context: CanvasRenderingContext2D, accountId: string) => {
+  const { width, height } = context.canvas;
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 32));
+  const padding = Math.round(fontSize / 2);
+  const text = `Licensed to ${accountId}`;
+
+  context.save();
+  context.font = `${fontSize}px sans-serif`;
+  context.textBaseline = 'bottom';
+  context.textAlign = 'right';
+  const textWidth = Math.min(context.measureText(text).width, width - padding * 3);
+  context.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  context.fillRect(width - textWidth - padding * 3, height - fontSize - padding * 3, textWidth + padding * 2, fontSize + padding * 2);
+  context.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  context.fillText(text, width - padding * 2, height - padding * 2, textWidth);
+  context.restore();
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, mimeType: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), mimeType, 0.95);
+  });
+
+/**
+ * The buyer's copy of a JPEG or PNG: optionally stamped with their account
+ * id, then fingerprinted, in the original format. The encoded result is
+ * read back, so a copy that would not reveal its buyer is never handed out.
+ * Client-side only - requires canvas
+ */
+export const fingerprintImage = async (
+  data: Blob,
+  mimeType: string,
+  accountId: string,
+  { visible }: FingerprintOptions
+): Promise<Blob> => {
+  const context = await drawToCanvas(data);
+  const { width, height } = context.canvas;
+  if (visible) {
+    drawLicenseStamp(context, accountId);
+  }
+
+  const image = context.getImageData(0, 0, width, height);
+  embedFingerprint(image, accountId);
+  context.putImageData(image, 0, 0);
+  const copy = await encodeCanvas(context.canvas, mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png');
+
+  if ((await readFingerprint(copy)) !== accountId) {
+    throw new Error('The fingerprint did not survive encoding; the image may be too flat or too small');
+  }
+  return copy;
+};
+
+/**
+ * The buyer account id hidden in an image file, or null when none can be
+ * read (not fingerprinted, or cropped / resized since)
+ * Client-side only - requires canvas
+ */
+export const readFingerprint = async (data: Blob): Promise<string | null> => {
+  const context = await drawToCanvas(data);
+  return extractFingerprint(context.getImageData(0, 0, context.canvas.width, context.canvas.height));
+};
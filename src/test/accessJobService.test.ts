@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from "vitest";
+import { File as NodeFile } from "node:buffer";
+import type { AccessJob } from "@/services/accessJobService";
+import type { AccessJobStore } from "@/services/accessJobStore";
+import type { MarketplaceContractClient } from "@/services/marketplaceContract";
+
+const nova = vi.hoisted(() => ({
+  isAuthorized: vi.fn(async () => false),
+  addGroupMember: vi.fn(async () => "ok"),
+  revokeGroupMember: vi.fn(async () => "ok"),
+  getGroupOwner: vi.fn(async () => null),
+  registerGroup: vi.fn(async () => "ok"),
+  retrieveFile: vi.fn(async () => ({ data: Buffer.from("original") })),
+  uploadFile: vi.fn(async (groupId: string) => ({ cid: `cid-${groupId}`, file_hash: `hash-${groupId}` })),
+}));
+vi.mock("@/services/novaService", () => nova);
+const watermark = vi.hoisted(() => ({
+  fingerprintImage: vi.fn(
+    async (_data: Blob, type: string, buyer: string, _options: { visible: boolean }) =>
+      new NodeFile([buyer], "copy", { type })
+  ),
+}));
+vi.mock("@/services/watermarkService", () => watermark);
+vi.mock("@/services/accessJobStore", () => ({ accessJobStore: null }));
+
+import { createAccessJob, retryFailedBuyers, runAccessJob } from "@/services/accessJobService";
+
+const memoryStore = (): AccessJobStore & { saved: Map<string, AccessJob> } => {
+  const saved = new Map<string, AccessJob>();
+  return {
+    saved,
+    put: async (job) => {
+      saved.set(job.id, structuredClone(job));
+    },
+    get: async (id) => saved.get(id),
+    listByOwner: async (owner) => [...saved.values()].filter((job) => job.ownerWallet === owner),
+    delete: async (id) => {
+      saved.delete(id);
+    },
+  };
+};
+
+describe("accessJobService", () => {
+  it("records the failed step and resumes from it on retry", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const store = memoryStore();
+    const grantBuyerAccess = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("wallet rejected"))
+      .mockResolvedValue({});
+    const contract = { grantBuyerAccess } as unknown as MarketplaceContractClient;
+
+    const job = await createAccessJob(
+      {
+        action: "grant",
+        productId: 5,
+        novaGroupId: "audio_5",
+        ownerWallet: "seller.near",
+        buyers: [{ nearWallet: "a.near", novaAccountId: "a.nova-sdk.near" }],
+      },
+      store
+    );
+
+    const events: string[] = [];
+    await runAccessJob(job, contract, { store, onEvent: (e) => events.push(e.type) });
+
+    expect(store.saved.get(job.id)?.status).toBe("failed");
+    expect(store.saved.get(job.id)?.buyers[0]).toMatchObject({
+      state: "failed",
+      resumeFrom: "nova_added",
+      error: "wallet rejected",
+    });
+    expect(events).toEqual(["job_started", "buyer_updated", "buyer_updated", "job_finished"]);
+
+    await retryFailedBuyers(job, contract, { store });
+
+    // NOVA step already succeeded, so only the contract call is repeated
+    expect(nova.addGroupMember).toHaveBeenCalledTimes(1);
+    expect(grantBuyerAccess).toHaveBeenCalledTimes(2);
+    expect(store.saved.get(job.id)?.status).toBe("completed");
+    expect(store.saved.get(job.id)?.buyers[0].state).toBe("contract_updated");
+    vi.restoreAllMocks();
+  });
+
+  it("batches the contract update into one call after all NOVA additions", async () => {
+    const store = memoryStore();
+    nova.addGroupMember.mockClear();
+    const grantBuyerAccessMany = vi.fn().mockResolvedValue({});
+    const contract = { grantBuyerAccessMany } as unknown as MarketplaceContractClient;
+
+    const job = await createAccessJob(
+      {
+        action: "grant",
+        productId: 6,
+        novaGroupId: "image_6",
+        ownerWallet: "seller.near",
+        buyers: ["a", "b", "c"].map((b) => ({ nearWallet: `${b}.near`, novaAccountId: `${b}.nova-sdk.near` })),
+        batch: true,
+      },
+      store
+    );
+    await runAccessJob(job, contract, { store });
+
+    // Every NOVA addition lands before the single contract transaction
+    expect(nova.addGroupMember).toHaveBeenCalledTimes(3);
+    expect(grantBuyerAccessMany).toHaveBeenCalledTimes(1);
+    expect(grantBuyerAccessMany).toHaveBeenCalledWith({ p_id: 6, buyers: ["a.near", "b.near", "c.near"] });
+    expect(Math.max(...nova.addGroupMember.mock.invocationCallOrder)).toBeLessThan(
+      grantBuyerAccessMany.mock.invocationCallOrder[0]
+    );
+    expect(store.saved.get(job.id)?.buyers.every((b) => b.state === "contract_updated")).toBe(true);
+  });
+
+  it("grants fingerprinted listings with a copy per buyer made from one decrypted original", async () => {
+    const store = memoryStore();
+    nova.addGroupMember.mockClear();
+    const grantBuyerAccessMany = vi.fn().mockResolvedValue({});
+    const getBuyerCopy = vi.fn(async () => null);
+    const contract = { grantBuyerAccessMany, getBuyerCopy } as unknown as MarketplaceContractClient;
+
+    const job = await createAccessJob(
+      {
+        action: "grant",
+        productId: 8,
+        novaGroupId: "photo_8",
+        ownerWallet: "seller.near",
+        buyers: ["a", "b"].map((b) => ({ nearWallet: `${b}.near`, novaAccountId: `${b}.nova-sdk.near` })),
+        batch: true,
+        fingerprint: {
+          novaGroupId: "photo_8",
+          cid: "original",
+          fileHash: "",
+          fileName: "photo.png",
+          mimeType: "image/png",
+          visible: true,
+        },
+      },
+      store
+    );
+    await runAccessJob(job, contract, { store });
+
+    expect(nova.retrieveFile).toHaveBeenCalledTimes(1);
+    expect(watermark.fingerprintImage.mock.calls.map(([, , buyer, options]) => [buyer, options])).toEqual([
+      ["a.near", { visible: true }],
+      ["b.near", { visible: true }],
+    ]);
+
+    // Each buyer joins only their own copy's group, and the copies go to the contract with the grant
+    const { copies } = grantBuyerAccessMany.mock.calls[0][0];
+    expect(copies).toHaveLength(2);
+    expect(copies[0].nova_group_id).toMatch(/^photo_8_fp_[0-9a-f]{12}$/);
+    expect(copies[0].nova_group_id).not.toBe(copies[1].nova_group_id);
+    expect(copies[0]).toEqual({
+      buyer: "a.near",
+      nova_group_id: copies[0].nova_group_id,
+      cid: `cid-${copies[0].nova_group_id}`,
+      file_hash: `hash-${copies[0].nova_group_id}`,
+    });
+    expect(nova.addGroupMember.mock.calls).toEqual([
+      [copies[0].nova_group_id, "a.nova-sdk.near", "seller.near"],
+      [copies[1].nova_group_id, "b.nova-sdk.near", "seller.near"],
+    ]);
+    expect(nova.registerGroup).toHaveBeenCalledTimes(2);
+    expect(store.saved.get(job.id)?.status).toBe("completed");
+  });
+
+  it("skips buyers refunded before a batch grant and grants the rest one by one", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = memoryStore();
+    nova.revokeGroupMember.mockClear();
+    nova.isAuthorized.mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    const grantBuyerAccessMany = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Account b.near has not purchased this listing"))
+      .mockResolvedValue({});
+    const getListing = vi.fn(async () => ({ buyers: ["a.near"] }));
+    const contract = { grantBuyerAccessMany, getListing } as unknown as MarketplaceContractClient;
+
+    const job = await createAccessJob(
+      {
+        action: "grant",
+        productId: 9,
+        novaGroupId: "image_9",
+        ownerWallet: "seller.near",
+        buyers: ["a", "b"].map((b) => ({ nearWallet: `${b}.near`, novaAccountId: `${b}.nova-sdk.near` })),
+        batch: true,
+      },
+      store
+    );
+    await runAccessJob(job, contract, { store });
+
+    expect(grantBuyerAccessMany).toHaveBeenLastCalledWith({ p_id: 9, buyers: ["a.near"] });
+    expect(grantBuyerAccessMany).toHaveBeenCalledTimes(2);
+    expect(nova.revokeGroupMember).toHaveBeenCalledWith("image_9", "b.nova-sdk.near", "seller.near");
+    expect(store.saved.get(job.id)?.buyers.map((b) => b.state)).toEqual(["contract_updated", "skipped"]);
+    expect(store.saved.get(job.id)?.status).toBe("completed");
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+
+const nova = vi.hoisted(() => ({ retrieveFile: vi.fn(), uploadFile: vi.fn() }));
+vi.mock("@/services/novaService", () => nova);
+vi.mock("@/services/uploadSessionStore", () => ({ uploadSessionStore: null }));
+
+import {
+  buildBundleManifest,
+  getBundleSize,
+  parseBundleManifest,
+  retrieveBundleFiles,
+  uniqueFileNames,
+} from "@/services/bundleService";
+import { buildChunkManifest } from "@/services/chunkedFileService";
+import { sha256Hex } from "@/services/integrityService";
+import { crc32, createZip } from "@/services/zipService";
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const entry = (name: string, size: number) => ({
+  name,
+  size,
+  mime_type: "text/csv",
+  file_hash: `hash-${name}`,
+  cid: `Qm${name}`,
+});
+
+describe("bundleService", () => {
+  it("round-trips a manifest and totals its size", () => {
+    const manifest = buildBundleManifest([entry("shard-0.csv", 100), entry("shard-1.csv", 250)]);
+
+    expect(parseBundleManifest(encode(manifest))).toEqual(manifest);
+    expect(getBundleSize(manifest)).toBe(350);
+  });
+
+  it("rejects bytes that aren't a manifest", () => {
+    expect(() => parseBundleManifest(new TextEncoder().encode("PK\u0003\u0004"))).toThrow("not valid JSON");
+    expect(() => parseBundleManifest(encode({ type: "bundle-manifest", version: 1, files: [] }))).toThrow(
+      "Invalid bundle manifest"
+    );
+    expect(() => parseBundleManifest(encode({ ...buildBundleManifest([entry("a", 1)]), version: 2 }))).toThrow(
+      "Invalid bundle manifest"
+    );
+  });
+
+  it("joins the chunks of a bundle file that was uploaded in chunks", async () => {
+    const small = new Uint8Array([1, 2, 3]);
+    const parts = [new Uint8Array([4, 5, 6, 7]), new Uint8Array([8, 9])];
+    const chunks = await Promise.all(
+      parts.map(async (data, index) => ({ index, size: data.length, cid: `chunk-${index}`, file_hash: await sha256Hex(data) }))
+    );
+    const chunkManifest = new TextEncoder().encode(
+      JSON.stringify(buildChunkManifest({ name: "big.bin", type: "", size: 6 }, 4, chunks))
+    );
+    const manifest = new TextEncoder().encode(
+      JSON.stringify(
+        buildBundleManifest([
+          { ...entry("small.bin", 3), file_hash: await sha256Hex(small) },
+          { ...entry("big.bin", 6), cid: "big-manifest", file_hash: await sha256Hex(chunkManifest), chunk_count: 2 },
+        ])
+      )
+    );
+    const served: Record<string, Uint8Array> = {
+      bundle: manifest,
+      "Qmsmall.bin": small,
+      "big-manifest": chunkManifest,
+      "chunk-0": parts[0],
+      "chunk-1": parts[1],
+    };
+    nova.retrieveFile.mockImplementation(async (_group: string, cid: string) => ({ data: Buffer.from(served[cid]) }));
+
+    const listing = { nova_group_id: "bundle_1", cid: "bundle", metadata: { file_hash: await sha256Hex(manifest) } };
+    const { files, verified } = await retrieveBundleFiles(listing as Parameters<typeof retrieveBundleFiles>[0]);
+
+    expect(files.map(({ data }) => [...data])).toEqual([[1, 2, 3], [4, 5, 6, 7, 8, 9]]);
+    expect(verified).toBe(true);
+  });
+
+  it("numbers duplicate names before the extension, ignoring case", () => {
+    expect(uniqueFileNames(["a.csv", "A.csv", "a.csv", "a (1).csv", "README", "README"])).toEqual([
+      "a.csv",
+      "A (1).csv",
+      "a (2).csv",
+      "a (1) (1).csv",
+      "README",
+      "README (1)",
+    ]);
+  });
+});
+
+describe("zipService", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("stores each file after a local header and indexes them at the end", async () => {
+    const files = [
+      { name: "a.txt", data: new TextEncoder().encode("hello") },
+      { name: "dir/ü.txt", data: new Uint8Array([1, 2, 3]) },
+    ];
+    const zip = await readBlob(createZip(files));
+    const view = new DataView(zip.buffer);
+
+    // First local header, followed by the name and the stored bytes
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(files[0].data));
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe("a.txt");
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe("hello");
+
+    // End of central directory points back at both entries
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(centralStart + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { DownloadSession } from "@/services/chunkedDownloadService";
+import type { DownloadSessionStore } from "@/services/downloadSessionStore";
+
+const nova = vi.hoisted(() => ({ retrieveFile: vi.fn(), uploadFile: vi.fn() }));
+vi.mock("@/services/novaService", () => nova);
+vi.mock("@/services/downloadSessionStore", () => ({ downloadSessionStore: null }));
+vi.mock("@/services/uploadSessionStore", () => ({ uploadSessionStore: null }));
+
+import { DownloadCancelledError, streamChunkedFileToDisk } from "@/services/chunkedDownloadService";
+import { buildChunkManifest } from "@/services/chunkedFileService";
+import { IntegrityError, sha256Hex } from "@/services/integrityService";
+
+const chunks = [
+  [1, 2, 3, 4],
+  [5, 6, 7, 8],
+  [9, 10],
+];
+
+const memoryStore = (): DownloadSessionStore & { saved: Map<string, DownloadSession> } => {
+  const saved = new Map<string, DownloadSession>();
+  return {
+    saved,
+    put: async (session) => {
+      saved.set(session.id, { ...session });
+    },
+    get: async (id) => saved.get(id),
+    delete: async (id) => {
+      saved.delete(id);
+    },
+  };
+};
+
+/** Like the browser: writes go to a copy that replaces the file on close */
+const fakeFileHandle = () => {
+  const file = { committed: [] as number[] };
+  const handle = {
+    queryPermission: async () => "granted",
+    createWritable: async ({ keepExistingData = false } = {}) => {
+      let swap = keepExistingData ? [...file.committed] : [];
+      let position = 0;
+      return {
+        truncate: async (size: number) => {
+          swap = swap.slice(0, size);
+        },
+        seek: async (offset: number) => {
+          position = offset;
+        },
+        write: async (data: Uint8Array) => {
+          swap.splice(position, data.length, ...data);
+          position += data.length;
+        },
+        close: async () => {
+          file.committed = swap;
+        },
+      };
+    },
+  };
+  return { file, handle };
+};
+
+/** A listing whose manifest and chunks are served by the mocked NOVA, with correct hashes */
+const serveChunks = async (served: number[][] = chunks) => {
+  const entries = await Promise.all(
+    chunks.map(async (bytes, index) => ({
+      index,
+      size: bytes.length,
+      cid: `chunk-${index}`,
+      file_hash: await sha256Hex(new Uint8Array(bytes)),
+    }))
+  );
+  const manifest = JSON.stringify(buildChunkManifest({ name: "data.bin", type: "", size: 10 }, 4, entries));
+  nova.retrieveFile.mockImplementation(async (_group: string, cid: string) => ({
+    data: cid === "manifest" ? Buffer.from(manifest) : Buffer.from(served[Number(cid.replace("chunk-", ""))]),
+  }));
+
+  const file_hash = await sha256Hex(new TextEncoder().encode(manifest));
+  return { product_id: 7, nova_group_id: "data_7", cid: "manifest", metadata: { file_hash } } as Parameters<
+    typeof streamChunkedFileToDisk
+  >[0];
+};
+
+afterEach(() => {
+  delete (window as unknown as { showSaveFilePicker?: unknown }).showSaveFilePicker;
+});
+
+describe("chunkedDownloadService", () => {
+  it("keeps the chunks written before a cancel and appends the rest on resume", async () => {
+    const listing = await serveChunks();
+
+    const { file, handle } = fakeFileHandle();
+    const picker = vi.fn(async () => handle);
+    Object.assign(window, { showSaveFilePicker: picker });
+    const store = memoryStore();
+
+    const controller = new AbortController();
+    const first = streamChunkedFileToDisk(listing, "buyer.near", "data.bin", {
+      store,
+      signal: controller.signal,
+      onProgress: ({ received }) => received >= 4 && controller.abort(),
+    });
+    await expect(first).rejects.toThrow(DownloadCancelledError);
+    expect(file.committed).toEqual([1, 2, 3, 4]);
+    expect(store.saved.get("buyer.near:7:manifest")).toMatchObject({ chunksWritten: 1, bytesWritten: 4 });
+
+    nova.retrieveFile.mockClear();
+    const progress: number[] = [];
+    const verified = await streamChunkedFileToDisk(listing, "buyer.near", "data.bin", {
+      store,
+      onProgress: ({ received }) => progress.push(received),
+    });
+
+    expect(picker).toHaveBeenCalledTimes(1);
+    expect(nova.retrieveFile.mock.calls.map(([, cid]) => cid)).toEqual(["manifest", "chunk-1", "chunk-2"]);
+    expect(file.committed).toEqual(chunks.flat());
+    expect(progress).toEqual([4, 8, 10]);
+    expect(store.saved.size).toBe(0);
+    expect(verified).toBe(true);
+  });
+
+  it("refuses to write a chunk that doesn't match its hash", async () => {
+    const listing = await serveChunks([chunks[0], [5, 6, 7, 0], chunks[2]]);
+    const { file, handle } = fakeFileHandle();
+    Object.assign(window, { showSaveFilePicker: async () => handle });
+
+    await expect(streamChunkedFileToDisk(listing, "buyer.near", "data.bin", { store: memoryStore() })).rejects.toThrow(
+      IntegrityError
+    );
+    expect(file.committed).toEqual([1, 2, 3, 4]);
+  });
+});
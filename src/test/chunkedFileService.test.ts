@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import { File as NodeFile } from "node:buffer";
+import type { UploadSession } from "@/services/chunkedFileService";
+import type { UploadSessionStore } from "@/services/uploadSessionStore";
+
+const nova = vi.hoisted(() => ({
+  uploadFile: vi.fn(),
+  retrieveFile: vi.fn(),
+}));
+vi.mock("@/services/novaService", () => nova);
+vi.mock("@/services/uploadSessionStore", () => ({ uploadSessionStore: null }));
+
+import {
+  MAX_IN_MEMORY_DOWNLOAD_SIZE,
+  buildChunkManifest,
+  parseChunkManifest,
+  readChunks,
+  retrieveChunkedFile,
+  uploadChunks,
+} from "@/services/chunkedFileService";
+
+const memoryStore = (): UploadSessionStore & { saved: Map<string, UploadSession> } => {
+  const saved = new Map<string, UploadSession>();
+  return {
+    saved,
+    put: async (session) => {
+      saved.set(session.id, structuredClone(session));
+    },
+    get: async (id) => saved.get(id),
+    delete: async (id) => {
+      saved.delete(id);
+    },
+  };
+};
+
+const streamOf = (...pieces: number[][]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(new Uint8Array(piece)));
+      controller.close();
+    },
+  });
+
+const collect = async (chunks: AsyncGenerator<Uint8Array>) => {
+  const out: number[][] = [];
+  for await (const chunk of chunks) out.push([...chunk]);
+  return out;
+};
+
+describe("chunkedFileService", () => {
+  it("cuts a stream into fixed-size chunks regardless of how it arrives", async () => {
+    expect(await collect(readChunks(streamOf([1, 2, 3], [4, 5], [6, 7, 8, 9, 10]), 4))).toEqual([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10],
+    ]);
+    expect(await collect(readChunks(streamOf([1, 2, 3, 4]), 4))).toEqual([[1, 2, 3, 4]]);
+  });
+
+  it("resumes after a failed chunk without uploading earlier chunks again", async () => {
+    const bytes = Array.from({ length: 10 }, (_, i) => i);
+    const file = new NodeFile([new Uint8Array(bytes)], "data.bin") as unknown as File;
+    const store = memoryStore();
+    const session: UploadSession = {
+      id: "seller.near:data.bin",
+      ownerWallet: "seller.near",
+      groupId: "data_42",
+      productId: 1,
+      groupRegistered: true,
+      fileName: "data.bin",
+      size: 10,
+      chunkSize: 4,
+      chunks: [],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    const uploaded: number[][] = [];
+    let failed = false;
+    nova.uploadFile.mockImplementation(async (_group: string, data: Uint8Array, name: string) => {
+      if (name === "data.bin.part1" && !failed) {
+        failed = true;
+        throw new Error("network down");
+      }
+      uploaded.push([...data]);
+      return { cid: `cid-${name}`, file_hash: `hash-${name}` };
+    });
+
+    await expect(uploadChunks(file, session, { store })).rejects.toThrow("network down");
+    expect(store.saved.get(session.id)?.chunks).toHaveLength(1);
+
+    const progress: number[] = [];
+    const resumed = structuredClone(store.saved.get(session.id)!);
+    const chunks = await uploadChunks(file, resumed, { store, onProgress: (p) => progress.push(p.uploaded) });
+
+    expect(uploaded).toEqual([
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9],
+    ]);
+    expect(chunks.map((chunk) => [chunk.index, chunk.size, chunk.cid])).toEqual([
+      [0, 4, "cid-data.bin.part0"],
+      [1, 4, "cid-data.bin.part1"],
+      [2, 2, "cid-data.bin.part2"],
+    ]);
+    expect(progress).toEqual([4, 8, 10]);
+  });
+
+  it("rejects manifests whose chunks don't add up to the file", () => {
+    const chunk = (index: number, size: number) => ({ index, size, cid: `cid-${index}`, file_hash: "" });
+    const manifest = buildChunkManifest({ name: "a.bin", type: "", size: 6 }, 4, [chunk(0, 4), chunk(1, 2)]);
+    const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+    expect(parseChunkManifest(encode(manifest))).toEqual(manifest);
+    expect(() => parseChunkManifest(encode({ ...manifest, size: 7 }))).toThrow("do not add up");
+    expect(() => parseChunkManifest(encode({ ...manifest, chunks: [chunk(1, 2), chunk(0, 4)] }))).toThrow(
+      "out of order"
+    );
+  });
+
+  it("refuses to join a file too large for memory before fetching any chunk", async () => {
+    const size = MAX_IN_MEMORY_DOWNLOAD_SIZE + 1;
+    const chunks = [
+      { index: 0, size: MAX_IN_MEMORY_DOWNLOAD_SIZE, cid: "cid-0", file_hash: "" },
+      { index: 1, size: 1, cid: "cid-1", file_hash: "" },
+    ];
+    const manifest = buildChunkManifest({ name: "huge.bin", type: "", size }, MAX_IN_MEMORY_DOWNLOAD_SIZE, chunks);
+    nova.retrieveFile.mockReset();
+    nova.retrieveFile.mockResolvedValue({ data: Buffer.from(JSON.stringify(manifest)) });
+    const listing = { nova_group_id: "data_42", cid: "manifest", metadata: { file_hash: "" } };
+
+    await expect(retrieveChunkedFile(listing as Parameters<typeof retrieveChunkedFile>[0])).rejects.toThrow(
+      "this browser can only download files up to 1 GB"
+    );
+    expect(nova.retrieveFile).toHaveBeenCalledTimes(1);
+  });
+});
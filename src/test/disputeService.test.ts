@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getDisputeRole,
+  getOpenDisputes,
+  getSellerRefundDeposit,
+  validateDisputeNote,
+} from "@/services/disputeService";
+import type { ContractDispute, ContractEscrow, MarketplaceContractClient } from "@/services/marketplaceContract";
+
+const dispute = (p_id: number, status: ContractDispute["status"] = "Open"): ContractDispute => ({
+  p_id,
+  buyer: "buyer.near",
+  seller: "seller.near",
+  status,
+  events: [],
+});
+
+const escrow = { amount: "2500000000000000000000000", status: "Released" } as ContractEscrow;
+
+describe("disputeService", () => {
+  it("works out the viewer's side of a dispute", () => {
+    expect(getDisputeRole(dispute(1), "buyer.near", "judge.near")).toBe("buyer");
+    expect(getDisputeRole(dispute(1), "seller.near", "judge.near")).toBe("seller");
+    expect(getDisputeRole(dispute(1), "judge.near", "judge.near")).toBe("arbiter");
+    expect(getDisputeRole(dispute(1), "someone.near", null)).toBeNull();
+  });
+
+  it("asks the seller to attach a refund only once the payment left escrow", () => {
+    expect(getSellerRefundDeposit({ ...escrow, status: "Held" }, { price: 250 })).toBe("0");
+    expect(getSellerRefundDeposit(escrow, { price: 999 })).toBe(escrow.amount);
+    // Purchases from before escrow are refunded at the listing price
+    expect(getSellerRefundDeposit(null, { price: 250 })).toBe("2500000000000000000000000");
+  });
+
+  it("requires a reason within the contract limit", () => {
+    expect(() => validateDisputeNote("  ")).toThrow("describe the problem");
+    expect(() => validateDisputeNote("x".repeat(1001))).toThrow("longer than 1000 bytes");
+    expect(() => validateDisputeNote("File is corrupt")).not.toThrow();
+  });
+
+  it("pages through the dispute log and keeps only open disputes", async () => {
+    const log = [...Array.from({ length: 120 }, (_, i) => dispute(i)), dispute(120, "Refunded")];
+    const getDisputes = vi.fn(async ({ from_index = 0, limit = 100 }) => log.slice(from_index, from_index + limit));
+    const contract = {
+      getDisputesCount: vi.fn().mockResolvedValue(log.length),
+      getDisputes,
+    } as unknown as MarketplaceContractClient;
+
+    const open = await getOpenDisputes(contract);
+    expect(getDisputes).toHaveBeenCalledTimes(2);
+    expect(open).toHaveLength(120);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  claimRefund,
+  formatCountdown,
+  getPurchaseEscrow,
+  getRefundCountdown,
+  isRefundClaimable,
+} from "@/services/escrowService";
+import type { ContractEscrow, MarketplaceContractClient } from "@/services/marketplaceContract";
+
+const HOUR = 60 * 60 * 1000;
+
+const escrow: ContractEscrow = {
+  p_id: 7,
+  buyer: "buyer.near",
+  seller: "seller.near",
+  amount: "2500000000000000000000000",
+  asset: "Near",
+  status: "Held",
+  purchased_at_ms: 0,
+  refundable_at_ms: 10 * HOUR,
+  granted_at_ms: null,
+  refund_reason: null,
+};
+
+const purchase = { hasAccess: false, hasOpenDispute: false };
+
+describe("escrowService", () => {
+  it("counts down to the refund deadline and stops at zero", () => {
+    expect(getRefundCountdown(escrow, 4 * HOUR)).toBe(6 * HOUR);
+    expect(getRefundCountdown(escrow, 12 * HOUR)).toBe(0);
+  });
+
+  it("allows a refund only for a held payment past its deadline", () => {
+    expect(isRefundClaimable(escrow, purchase, 10 * HOUR)).toBe(true);
+    expect(isRefundClaimable(escrow, purchase, 10 * HOUR - 1)).toBe(false);
+    expect(isRefundClaimable({ ...escrow, status: "Released" }, purchase, 20 * HOUR)).toBe(false);
+    expect(isRefundClaimable({ ...escrow, status: "Refunded" }, purchase, 20 * HOUR)).toBe(false);
+    expect(isRefundClaimable(null, purchase, 20 * HOUR)).toBe(false);
+  });
+
+  it("refuses a refund once access was granted or while a dispute is open", () => {
+    expect(isRefundClaimable(escrow, { ...purchase, hasAccess: true }, 20 * HOUR)).toBe(false);
+    expect(isRefundClaimable(escrow, { ...purchase, hasOpenDispute: true }, 20 * HOUR)).toBe(false);
+  });
+
+  it("lets a failed refund be claimed again regardless of the timeout, access or disputes", () => {
+    const failed = { ...escrow, status: "RefundFailed" as const, refund_reason: "Seller" as const };
+    expect(isRefundClaimable(failed, { hasAccess: true, hasOpenDispute: true }, 0)).toBe(true);
+  });
+
+  it("formats countdowns with their two largest units", () => {
+    expect(formatCountdown(2 * 24 * HOUR + 4 * HOUR + 59_000)).toBe("2d 4h");
+    expect(formatCountdown(3 * HOUR + 12 * 60_000)).toBe("3h 12m");
+    expect(formatCountdown(90_000)).toBe("1m 30s");
+    expect(formatCountdown(44_200)).toBe("45s");
+  });
+
+  it("treats a failed escrow lookup as no escrow", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const contract = {
+      getEscrow: vi.fn().mockRejectedValue(new Error("RPC down")),
+    } as unknown as MarketplaceContractClient;
+
+    expect(await getPurchaseEscrow(7, "buyer.near", contract)).toBeNull();
+    expect(contract.getEscrow).toHaveBeenCalledWith({ p_id: 7, buyer: "buyer.near" });
+    error.mockRestore();
+  });
+
+  it("passes refund failures on to the caller", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const contract = {
+      claimRefund: vi.fn().mockRejectedValue(new Error("Refund is available from 36000000 ms")),
+    } as unknown as MarketplaceContractClient;
+
+    await expect(claimRefund(7, contract)).rejects.toThrow("Refund is available");
+    expect(contract.claimRefund).toHaveBeenCalledWith({ p_id: 7 });
+    error.mockRestore();
+  });
+});
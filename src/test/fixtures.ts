@@ -0,0 +1,42 @@
+import type { Listing, ListingMetadata } from "@/services/listingModel";
+
+export type ListingOverrides = Partial<Omit<Listing, "metadata">> & { metadata?: Partial<ListingMetadata> };
+
+/**
+ * A complete, valid listing with no buyers; `metadata` overrides are merged
+ * into the defaults, every other field is replaced.
+ */
+export const makeListing = ({ metadata, ...overrides }: ListingOverrides = {}): Listing => ({
+  product_id: 1,
+  price: 100,
+  nova_group_id: "group_1",
+  owner: "seller.near",
+  purchase_number: 0,
+  list_type: "Image",
+  cid: "QmTestCID",
+  description: "",
+  metadata: {
+    title: "",
+    tags: [],
+    file_name: "",
+    mime_type: "",
+    size: 0,
+    file_hash: "",
+    file_count: 0,
+    chunk_count: 0,
+    ...metadata,
+  },
+  is_active: true,
+  buyers: [],
+  buyers_with_access: [],
+  is_tee_verified: false,
+  tee_signature: null,
+  review_count: 0,
+  rating_total: 0,
+  license: { kind: "Perpetual", duration_ms: 0 },
+  usage_license: null,
+  preview: null,
+  fingerprint: null,
+  credibility_score: null,
+  ...overrides,
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import {
+  IntegrityError,
+  getDownloadVerification,
+  recordDownloadVerification,
+  sha256Hex,
+  verifyHash,
+} from "@/services/integrityService";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const ABC_SHA256 = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+describe("integrityService", () => {
+  it("hashes like NOVA does: lowercase hex SHA-256 of the plaintext", async () => {
+    expect(await sha256Hex(bytes("abc"))).toBe(ABC_SHA256);
+  });
+
+  it("passes matching data, flags missing hashes and throws on a mismatch", async () => {
+    expect(await verifyHash(bytes("abc"), ABC_SHA256.toUpperCase(), "File")).toBe(true);
+    expect(await verifyHash(bytes("abc"), "", "File")).toBe(false);
+
+    const mismatch = verifyHash(bytes("abd"), ABC_SHA256, "Chunk 3");
+    await expect(mismatch).rejects.toThrow(IntegrityError);
+    await expect(mismatch).rejects.toThrow("Chunk 3 does not match its recorded hash");
+  });
+
+  it("remembers the last result per buyer and purchase", () => {
+    recordDownloadVerification("buyer.near", 7, "mismatch", 1000);
+    recordDownloadVerification("buyer.near", 7, "verified", 2000);
+
+    expect(getDownloadVerification("buyer.near", 7)).toEqual({ status: "verified", checkedAt: 2000 });
+    expect(getDownloadVerification("other.near", 7)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  canRenewLicense,
+  findExpiredLicenses,
+  groupExpiredLicenses,
+  sweepExpiredLicenses,
+} from "@/services/licenseService";
+import { formatLicense } from "@/services/listingModel";
+import type { LicenseTerms } from "@/services/listingModel";
+import type { MarketplaceContractClient } from "@/services/marketplaceContract";
+import { makeListing } from "./fixtures";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_760_000_000_000;
+
+const listing = (product_id: number, license: LicenseTerms, buyers_with_access: string[]) =>
+  makeListing({ product_id, nova_group_id: `group_${product_id}`, license, buyers_with_access });
+
+const subscription: LicenseTerms = { kind: "Subscription", duration_ms: 30 * DAY };
+
+const contractWith = (expiries: Record<number, Array<[string, number]>>) => {
+  const getLicenseExpiries = vi.fn(async ({ p_id }: { p_id: number }) => expiries[p_id] ?? []);
+  return {
+    contract: { getLicenseExpiries } as unknown as MarketplaceContractClient,
+    getLicenseExpiries,
+  };
+};
+
+describe("licenseService", () => {
+  it("describes license terms in days", () => {
+    expect(formatLicense({ kind: "Perpetual", duration_ms: 0 })).toBe("Perpetual");
+    expect(formatLicense({ kind: "FixedTerm", duration_ms: DAY })).toBe("1 day");
+    expect(formatLicense(subscription)).toBe("30 days, renewable");
+  });
+
+  it("only lets subscribers who still hold access renew", () => {
+    const sub = listing(1, subscription, ["buyer.near"]);
+    expect(canRenewLicense(sub, "buyer.near")).toBe(true);
+    expect(canRenewLicense(sub, "other.near")).toBe(false);
+    expect(canRenewLicense(listing(2, { kind: "FixedTerm", duration_ms: DAY }, ["buyer.near"]), "buyer.near")).toBe(false);
+  });
+
+  it("finds lapsed licenses without querying perpetual or empty listings", async () => {
+    const { contract, getLicenseExpiries } = contractWith({
+      1: [
+        ["late.near", NOW - 1],
+        ["current.near", NOW + DAY],
+      ],
+    });
+
+    const expired = await findExpiredLicenses(
+      [
+        listing(1, subscription, ["late.near", "current.near"]),
+        listing(2, { kind: "Perpetual", duration_ms: 0 }, ["buyer.near"]),
+        listing(3, subscription, []),
+      ],
+      contract,
+      NOW
+    );
+
+    expect(getLicenseExpiries).toHaveBeenCalledTimes(1);
+    expect(expired).toEqual([{ productId: 1, novaGroupId: "group_1", buyer: "late.near", expiresAtMs: NOW - 1 }]);
+  });
+
+  it("groups lapsed licenses by listing for batched revocation", () => {
+    const lapsed = (productId: number, buyer: string) => ({
+      productId, novaGroupId: `group_${productId}`, buyer, expiresAtMs: NOW - 1,
+    });
+
+    expect(groupExpiredLicenses([lapsed(1, "a.near"), lapsed(2, "b.near"), lapsed(1, "c.near")])).toEqual([
+      { productId: 1, novaGroupId: "group_1", buyers: ["a.near", "c.near"] },
+      { productId: 2, novaGroupId: "group_2", buyers: ["b.near"] },
+    ]);
+  });
+
+  it("keeps sweeping after a failed revocation and reports it", async () => {
+    const { contract } = contractWith({
+      1: [
+        ["a.near", NOW - DAY],
+        ["b.near", NOW - DAY],
+      ],
+    });
+    const revoke = vi.fn(async ({ buyer }: { buyer: string }) => {
+      if (buyer === "a.near") throw new Error("NOVA unavailable");
+    });
+
+    const result = await sweepExpiredLicenses([listing(1, subscription, ["a.near", "b.near"])], contract, revoke, NOW);
+
+    expect(revoke).toHaveBeenCalledTimes(2);
+    expect(result.revoked.map((license) => license.buyer)).toEqual(["b.near"]);
+    expect(result.failed).toEqual([
+      { license: expect.objectContaining({ buyer: "a.near" }), error: "NOVA unavailable" },
+    ]);
+  });
+});
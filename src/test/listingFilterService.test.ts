@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_LISTING_FILTERS,
+  applyListingFilters,
+  needsFullCatalog,
+  parseListingFilters,
+  serializeListingFilters,
+} from "@/services/listingFilterService";
+import { makeListing as make } from "./fixtures";
+
+const old = make({ product_id: 1700000000001, price: 500, purchase_number: 9, credibility_score: 90, is_tee_verified: true });
+const fresh = make({ product_id: 1739000000002, price: 150, list_type: "Audio", buyers: ["me.near"] });
+const cheap = make({ product_id: 1720000000003, price: 50, owner: "other.near", credibility_score: 45, is_tee_verified: true });
+
+describe("listingFilterService", () => {
+  it("round-trips filters through the query string and drops defaults", () => {
+    const filters = { ...DEFAULT_LISTING_FILTERS, kinds: ["Audio", "Image"], minPrice: 1.5, teeOnly: true, sort: "price_asc" } as const;
+    const params = serializeListingFilters({ ...filters, kinds: [...filters.kinds] });
+
+    expect(params.toString()).toBe("type=Audio%2CImage&min=1.5&tee=1&sort=price_asc");
+    expect(parseListingFilters(params)).toEqual({ ...filters, kinds: ["Audio", "Image"] });
+    expect(serializeListingFilters(DEFAULT_LISTING_FILTERS).toString()).toBe("");
+  });
+
+  it("ignores malformed values in a hand-edited URL", () => {
+    const filters = parseListingFilters(new URLSearchParams("type=Video,Audio&min=abc&sort=random"));
+    expect(filters.kinds).toEqual(["Audio"]);
+    expect(filters.minPrice).toBeNull();
+    expect(filters.sort).toBe("newest");
+  });
+
+  it("needs the whole catalog for any search, filter or non-default sort", () => {
+    expect(needsFullCatalog(DEFAULT_LISTING_FILTERS)).toBe(false);
+    expect(needsFullCatalog({ ...DEFAULT_LISTING_FILTERS, query: "storm" })).toBe(true);
+    expect(needsFullCatalog({ ...DEFAULT_LISTING_FILTERS, teeOnly: true })).toBe(true);
+    expect(needsFullCatalog({ ...DEFAULT_LISTING_FILTERS, sort: "price_asc" })).toBe(true);
+  });
+
+  it("sorts newest first by the timestamp in the product id", () => {
+    const ids = applyListingFilters([old, fresh, cheap], DEFAULT_LISTING_FILTERS).map((l) => l.product_id);
+    expect(ids).toEqual([fresh.product_id, cheap.product_id, old.product_id]);
+  });
+
+  it("combines price, score, seller and ownership filters", () => {
+    const list = [old, fresh, cheap];
+    const by = (changes: object, viewer?: string) =>
+      applyListingFilters(list, { ...DEFAULT_LISTING_FILTERS, ...changes }, viewer).map((l) => l.product_id);
+
+    expect(by({ maxPrice: 1.5 })).toEqual([fresh.product_id, cheap.product_id]);
+    expect(by({ minScore: 60 })).toEqual([old.product_id]);
+    expect(by({ seller: "OTHER" })).toEqual([cheap.product_id]);
+    expect(by({ notPurchased: true }, "me.near")).toEqual([cheap.product_id, old.product_id]);
+    expect(by({ sort: "score" })).toEqual([old.product_id, cheap.product_id, fresh.product_id]);
+  });
+
+  it("sorts top rated first, breaking ties by number of reviews", () => {
+    const once = make({ product_id: 1, review_count: 1, rating_total: 5 });
+    const often = make({ product_id: 2, review_count: 4, rating_total: 20 });
+    const mixed = make({ product_id: 3, review_count: 2, rating_total: 7 });
+    const unrated = make({ product_id: 4 });
+
+    const ids = applyListingFilters([unrated, once, mixed, often], { ...DEFAULT_LISTING_FILTERS, sort: "rating" });
+    expect(ids.map((l) => l.product_id)).toEqual([2, 1, 3, 4]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { diffListingChanges, getViewerStatus, isListingVisibleTo } from "@/services/listingLifecycleService";
+import { makeListing } from "./fixtures";
+
+const listing = makeListing({
+  product_id: 7,
+  price: 250,
+  list_type: "Image",
+  description: "Sunset over the bay",
+  metadata: { title: "Sunset", tags: ["sea"], file_name: "sunset.jpg", mime_type: "image/jpeg", size: 1024, file_count: 1 },
+  is_active: false,
+  buyers: ["buyer.near"],
+});
+
+describe("listingLifecycleService", () => {
+  it("hides inactive listings from everyone but their buyers", () => {
+    expect(isListingVisibleTo(listing, "buyer.near")).toBe(true);
+    expect(isListingVisibleTo(listing, "someone.near")).toBe(false);
+    expect(isListingVisibleTo(listing, null)).toBe(false);
+    expect(isListingVisibleTo({ ...listing, is_active: true }, null)).toBe(true);
+  });
+
+  it("tells the seller, granted and waiting buyers apart from everyone else", () => {
+    const sold = { ...listing, buyers: ["granted.near", "pending.near"], buyers_with_access: ["granted.near"] };
+    expect(getViewerStatus(sold, "seller.near")).toBe("owner");
+    expect(getViewerStatus(sold, "granted.near")).toBe("granted");
+    expect(getViewerStatus(sold, "pending.near")).toBe("pending");
+    expect(getViewerStatus(sold, "someone.near")).toBe("none");
+    expect(getViewerStatus(sold, null)).toBe("none");
+  });
+
+  it("sends only the fields that changed", () => {
+    expect(diffListingChanges(listing, { price: 300, list_type: "Image", description: "Sunset over the bay" })).toEqual({
+      p_id: 7,
+      price: 300,
+    });
+    expect(diffListingChanges(listing, { price: 250, list_type: "Image", tags: ["sea"] })).toBeNull();
+    expect(diffListingChanges(listing, { title: "Sunset", tags: ["sea", "dusk"] })).toEqual({
+      p_id: 7,
+      tags: ["sea", "dusk"],
+    });
+  });
+
+  it("rejects a price the contract would refuse", () => {
+    expect(() => diffListingChanges(listing, { price: 0 })).toThrow("Price must be greater than zero");
+  });
+});
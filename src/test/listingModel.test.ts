@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseListing,
+  parseListings,
+  parseTags,
+  getListingTitle,
+  ListingValidationError,
+  listingPriceToYocto,
+  nearToListingPrice,
+  formatListingPrice,
+  parseProductId,
+} from "@/services/listingModel";
+import { makeListing } from "./fixtures";
+
+// Contract JSON has no credibility_score; parseListing derives it
+const { credibility_score, ...row } = makeListing({
+  product_id: 1739000000123,
+  price: 500,
+  nova_group_id: "dataset_1234",
+  purchase_number: 1,
+  list_type: "Dataset",
+  metadata: {
+    title: "Street trees of Lisbon",
+    tags: ["trees", "geo"],
+    file_name: "lisbon_trees.csv",
+    mime_type: "text/csv",
+    size: 48213,
+    file_hash: "9f86d081884c7d65",
+    file_count: 1,
+  },
+  buyers: ["buyer.near"],
+  is_tee_verified: true,
+  tee_signature: "87",
+  review_count: 2,
+  rating_total: 9,
+  license: { kind: "Subscription", duration_ms: 2592000000 },
+});
+
+describe("listingModel", () => {
+  it("parses a contract row and derives the credibility score", () => {
+    const listing = parseListing(row);
+    expect(listing.list_type).toBe("Dataset");
+    expect(listing.tee_signature).toBe("87");
+    expect(listing.credibility_score).toBe(87);
+  });
+
+  it("treats a missing or non-numeric tee_signature as no score", () => {
+    expect(parseListing({ ...row, tee_signature: null }).credibility_score).toBeNull();
+    expect(parseListing({ ...row, tee_signature: "n/a" }).credibility_score).toBeNull();
+  });
+
+  it("rejects rows that don't match the contract struct", () => {
+    expect(() => parseListing({ ...row, tee_signature: 87 })).toThrow(ListingValidationError);
+    expect(() => parseListing({ ...row, list_type: "Video" })).toThrow(ListingValidationError);
+  });
+
+  it("drops malformed rows from a list", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const listings = parseListings([row, { ...row, owner: undefined }]);
+    expect(listings).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  it("throws if the payload is not an array", () => {
+    expect(() => parseListings({})).toThrow(ListingValidationError);
+  });
+
+  it("falls back to the product number for listings without a title", () => {
+    const listing = parseListing(row);
+    expect(getListingTitle(listing)).toBe("Street trees of Lisbon");
+    expect(getListingTitle({ ...listing, metadata: { ...listing.metadata, title: "" } })).toBe("Product #1739000000123");
+  });
+
+  it("accepts only plain, safe integer product ids from the URL", () => {
+    expect(parseProductId("1739000000123")).toBe(1739000000123);
+    expect(parseProductId("0")).toBe(0);
+    for (const value of [undefined, "", "-1", "1.5", "1e3", " 12", "0x1f", "abc", "9007199254740993"]) {
+      expect(parseProductId(value)).toBeNull();
+    }
+  });
+
+  it("normalizes comma-separated tags", () => {
+    expect(parseTags(" Trees, geo,,TREES , open data")).toEqual(["trees", "geo", "open data"]);
+  });
+
+  it("converts prices between NEAR, on-chain hundredths and yoctoNEAR", () => {
+    expect(nearToListingPrice(2.5)).toBe(250);
+    // Float input like 0.1 + 0.2 still lands on a whole price unit
+    expect(nearToListingPrice(0.1 + 0.2)).toBe(30);
+    expect(() => nearToListingPrice(Number.NaN)).toThrow("positive number of NEAR");
+    expect(() => nearToListingPrice(-1)).toThrow("positive number of NEAR");
+    expect(formatListingPrice(250)).toBe("2.50 NEAR");
+    expect(formatListingPrice(5)).toBe("0.05 NEAR");
+    expect(listingPriceToYocto(250)).toBe("2500000000000000000000000");
+    expect(listingPriceToYocto(0)).toBe("0");
+  });
+});
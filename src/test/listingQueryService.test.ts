@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { getAllListings, getListingsByOwner, getListingsPage, matchesListingSearch } from "@/services/listingQueryService";
+import type { MarketplaceContractClient } from "@/services/marketplaceContract";
+import { makeListing } from "./fixtures";
+
+const listing = makeListing({
+  nova_group_id: "audio_4821",
+  cid: "QmAudioCID",
+  description: "Field recording of a summer storm",
+  metadata: { title: "Thunder", tags: ["weather", "ambient"], file_name: "storm.wav" },
+});
+
+describe("matchesListingSearch", () => {
+  it("matches title, description, tags and file name case-insensitively", () => {
+    expect(matchesListingSearch(listing, "thunder")).toBe(true);
+    expect(matchesListingSearch(listing, "SUMMER")).toBe(true);
+    expect(matchesListingSearch(listing, "ambient")).toBe(true);
+    expect(matchesListingSearch(listing, "storm.wav")).toBe(true);
+    expect(matchesListingSearch(listing, "piano")).toBe(false);
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(matchesListingSearch(listing, "  ")).toBe(true);
+  });
+});
+
+const listingsWithIds = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => makeListing({ product_id: from + i }));
+
+describe("getListingsPage", () => {
+  it("pages from the newest listing back until the catalog is exhausted", async () => {
+    const getListingsPaginated = vi.fn(async ({ from_index, limit }: { from_index: number; limit: number }) =>
+      listingsWithIds(from_index, Math.min(limit, 30 - from_index))
+    );
+    const contract = { getListingsPaginated, getListingsCount: async () => 30 } as unknown as MarketplaceContractClient;
+
+    const first = await getListingsPage(contract, null, 24);
+    expect(first.listings.map((l) => l.product_id)).toEqual(listingsWithIds(6, 24).map((l) => l.product_id).reverse());
+    expect(first).toMatchObject({ nextIndex: 6, total: 30 });
+
+    const last = await getListingsPage(contract, 6, 24);
+    expect(last.listings.map((l) => l.product_id)).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(last.nextIndex).toBeNull();
+    expect(getListingsPaginated).toHaveBeenLastCalledWith({ from_index: 0, limit: 6 });
+  });
+});
+
+describe("getAllListings", () => {
+  it("loads every page of the catalog", async () => {
+    const getListingsPaginated = vi.fn(async ({ from_index, limit }: { from_index: number; limit: number }) =>
+      listingsWithIds(from_index, Math.min(limit, 130 - from_index))
+    );
+    const contract = { getListingsPaginated } as unknown as MarketplaceContractClient;
+
+    expect(await getAllListings(contract)).toHaveLength(130);
+    expect(getListingsPaginated).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("getListingsByOwner", () => {
+  it("stops after a short page instead of asking for an empty one", async () => {
+    const byOwner = vi.fn(async ({ from_index }: { from_index: number }) =>
+      listingsWithIds(from_index, from_index === 0 ? 100 : 3)
+    );
+    const contract = { getListingsByOwner: byOwner } as unknown as MarketplaceContractClient;
+
+    const listings = await getListingsByOwner(contract, "seller.near");
+    expect(listings.map((l) => l.product_id)).toEqual(listingsWithIds(0, 103).map((l) => l.product_id));
+    expect(byOwner).toHaveBeenCalledTimes(2);
+    expect(byOwner).toHaveBeenLastCalledWith({ owner: "seller.near", from_index: 100, limit: 100 });
+  });
+
+  it("makes a single call for an account with a few listings", async () => {
+    const byOwner = vi.fn(async () => listingsWithIds(0, 2));
+    const contract = { getListingsByOwner: byOwner } as unknown as MarketplaceContractClient;
+
+    expect(await getListingsByOwner(contract, "seller.near")).toHaveLength(2);
+    expect(byOwner).toHaveBeenCalledTimes(1);
+  });
+});
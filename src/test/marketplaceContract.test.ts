@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { resolveMarketplaceConfig } from "@/services/marketplaceConfig";
+import { createMarketplaceContract } from "@/services/marketplaceContract";
+
+describe("resolveMarketplaceConfig", () => {
+  it("defaults to the mainnet deployment", () => {
+    const config = resolveMarketplaceConfig();
+    expect(config).toMatchObject({
+      contractId: "singlelibrary5839.near",
+      network: "mainnet",
+      rpcUrl: "https://rpc.mainnet.near.org",
+    });
+    expect(config.gas.default).toBe("30000000000000");
+    expect(config.gas.batchAccess).toBe("300000000000000");
+  });
+
+  it("reads the VITE_* overrides, trimming whitespace", () => {
+    const config = resolveMarketplaceConfig({
+      VITE_MARKETPLACE_CONTRACT_ID: " market.testnet ",
+      VITE_NEAR_NETWORK: "testnet",
+      VITE_MARKETPLACE_GAS: "50000000000000",
+    });
+    expect(config.contractId).toBe("market.testnet");
+    expect(config.rpcUrl).toBe("https://rpc.testnet.near.org");
+    expect(config.gas).toMatchObject({ default: "50000000000000", buy: "50000000000000", grantAccess: "50000000000000" });
+  });
+
+  it("prefers a custom RPC and ignores blank or unknown values", () => {
+    const config = resolveMarketplaceConfig({
+      VITE_MARKETPLACE_CONTRACT_ID: "  ",
+      VITE_NEAR_NETWORK: "betanet",
+      VITE_NEAR_RPC_URL: "http://localhost:3030",
+      VITE_MARKETPLACE_GAS: true,
+    });
+    expect(config).toMatchObject({
+      contractId: "singlelibrary5839.near",
+      network: "mainnet",
+      rpcUrl: "http://localhost:3030",
+    });
+    expect(config.gas.default).toBe("30000000000000");
+  });
+});
+
+describe("createMarketplaceContract", () => {
+  const config = resolveMarketplaceConfig({ VITE_MARKETPLACE_CONTRACT_ID: "market.testnet", VITE_NEAR_NETWORK: "testnet" });
+
+  it("sends view calls to the configured contract", async () => {
+    const viewFunction = vi.fn(async () => true);
+    const contract = createMarketplaceContract({ viewFunction }, config);
+
+    expect(contract.contractId).toBe("market.testnet");
+    expect(await contract.hasAccess({ p_id: 7, buyer: "buyer.near" })).toBe(true);
+    expect(viewFunction).toHaveBeenCalledWith({
+      contractId: "market.testnet",
+      method: "has_access",
+      args: { p_id: 7, buyer: "buyer.near" },
+    });
+  });
+
+  it("validates listings returned by the contract", async () => {
+    const contract = createMarketplaceContract({ viewFunction: async () => [{ product_id: "not a listing" }] }, config);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await contract.getListingsPaginated({ from_index: 0, limit: 10 })).toEqual([]);
+    warn.mockRestore();
+
+    const missing = createMarketplaceContract({ viewFunction: async () => null }, config);
+    expect(await missing.getListing({ p_id: 1 })).toBeNull();
+  });
+
+  it("applies the method's default gas and no deposit unless overridden", async () => {
+    const callFunction = vi.fn().mockResolvedValue({});
+    const contract = createMarketplaceContract({ viewFunction: vi.fn(), callFunction }, config);
+
+    await contract.revokeBuyerAccessMany({ p_id: 7, buyers: ["a.near"] });
+    expect(callFunction).toHaveBeenLastCalledWith({
+      contractId: "market.testnet",
+      method: "revoke_buyer_access_many",
+      args: { p_id: 7, buyers: ["a.near"] },
+      gas: "300000000000000",
+      deposit: "0",
+    });
+
+    await contract.buy({ p_id: 7, nova_account_id: "buyer.nova-sdk.near" }, { deposit: "250" });
+    expect(callFunction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: "buy", gas: "30000000000000", deposit: "250" })
+    );
+  });
+
+  it("refuses change calls without a wallet", async () => {
+    const contract = createMarketplaceContract({ viewFunction: vi.fn() }, config);
+    await expect(contract.claimRefund({ p_id: 7 })).rejects.toThrow("Cannot call claim_refund: no NEAR wallet connected");
+  });
+});
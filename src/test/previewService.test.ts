@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { File as NodeFile } from "node:buffer";
+
+const storage = vi.hoisted(() => ({
+  isPreviewStorageConfigured: vi.fn(() => true),
+  uploadPublicFile: vi.fn(async () => "bafypreview"),
+  getPreviewUrl: vi.fn((cid: string) => `https://gateway.test/ipfs/${cid}`),
+}));
+vi.mock("@/services/previewStorageService", () => storage);
+
+import {
+  buildDatasetPreview,
+  encodeWav,
+  fitWithin,
+  getPreviewKind,
+  parseDatasetPreview,
+  parseDelimited,
+  publishPreview,
+} from "@/services/previewService";
+
+const blobText = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+const file = (content: string, name: string, type = "") => new NodeFile([content], name, { type }) as unknown as File;
+
+beforeEach(() => {
+  storage.isPreviewStorageConfigured.mockReturnValue(true);
+  storage.uploadPublicFile.mockClear();
+});
+
+describe("previewService", () => {
+  it("picks a preview kind from the MIME type or extension", () => {
+    expect(getPreviewKind({ name: "a.png", type: "image/png" })).toBe("image");
+    expect(getPreviewKind({ name: "a.mp3", type: "audio/mpeg" })).toBe("audio");
+    expect(getPreviewKind({ name: "rows.CSV", type: "" })).toBe("dataset");
+    expect(getPreviewKind({ name: "events.ndjson", type: "" })).toBe("dataset");
+    expect(getPreviewKind({ name: "model.bin", type: "application/octet-stream" })).toBeNull();
+  });
+
+  it("scales images down to fit without upscaling", () => {
+    expect(fitWithin(1920, 1080, 480)).toEqual({ width: 480, height: 270 });
+    expect(fitWithin(1000, 4000, 480)).toEqual({ width: 120, height: 480 });
+    expect(fitWithin(200, 100, 480)).toEqual({ width: 200, height: 100 });
+  });
+
+  it("encodes mono 8-bit WAV", () => {
+    const wav = encodeWav(new Float32Array([-1, 0, 1, 2]), 8000);
+    const view = new DataView(wav.buffer);
+
+    expect(new TextDecoder().decode(wav.slice(0, 4))).toBe("RIFF");
+    expect(new TextDecoder().decode(wav.slice(8, 12))).toBe("WAVE");
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(8000);
+    expect(view.getUint16(34, true)).toBe(8);
+    expect(view.getUint32(40, true)).toBe(4);
+    expect([...wav.slice(44)]).toEqual([0, 128, 255, 255]);
+  });
+
+  it("parses quoted CSV fields", () => {
+    expect(parseDelimited('a,b\r\n"x, y","say ""hi""\nthere"\n\n3,4', ",", 10)).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+      ["3", "4"],
+    ]);
+  });
+
+  it("previews the first CSV rows with inferred column types", () => {
+    const csv = ["id,name,score,active", ...Array.from({ length: 30 }, (_, i) => `${i},n${i},${i / 2},true`)].join("\n");
+    const preview = buildDatasetPreview(csv, "csv", true, 5);
+
+    expect(preview.columns).toEqual([
+      { name: "id", type: "number" },
+      { name: "name", type: "string" },
+      { name: "score", type: "number" },
+      { name: "active", type: "boolean" },
+    ]);
+    expect(preview.rows).toHaveLength(5);
+    expect(preview.rows[1]).toEqual([1, "n1", 0.5, true]);
+    expect(preview.total_rows).toBe(30);
+  });
+
+  it("drops a cut-off last line and leaves the row count unknown for a partial read", () => {
+    const preview = buildDatasetPreview('{"a":1,"b":"x"}\n{"a":2,"c":[1]}\n{"a":3,"b', "jsonl", false);
+
+    expect(preview.columns).toEqual([
+      { name: "a", type: "number" },
+      { name: "b", type: "string" },
+      { name: "c", type: "array" },
+    ]);
+    expect(preview.rows).toEqual([
+      [1, "x", null],
+      [2, null, "[1]"],
+    ]);
+    expect(preview.total_rows).toBeNull();
+  });
+
+  it("previews JSON arrays and rejects malformed previews", () => {
+    const preview = buildDatasetPreview(JSON.stringify([1, "two", null]), "json", true);
+    expect(preview.columns).toEqual([{ name: "value", type: "mixed" }]);
+    expect(preview.total_rows).toBe(3);
+
+    expect(parseDatasetPreview(JSON.stringify(preview))).toEqual(preview);
+    expect(() => parseDatasetPreview("{")).toThrow(/not valid JSON/);
+    expect(() => parseDatasetPreview(JSON.stringify({ ...preview, version: 2 }))).toThrow(/Invalid dataset preview/);
+  });
+
+  it("publishes a dataset preview of the first previewable file", async () => {
+    const preview = await publishPreview([file("weights", "model.bin"), file("x,y\n1,2\n", "points.csv")]);
+
+    expect(preview).toEqual({ cid: "bafypreview", mime_type: "application/json" });
+    const [data, name] = storage.uploadPublicFile.mock.calls[0] as unknown as [Blob, string];
+    expect(name).toBe("points.preview.json");
+    expect(parseDatasetPreview(await blobText(data)).rows).toEqual([[1, 2]]);
+  });
+
+  it("lists without a preview when storage isn't configured or the upload fails", async () => {
+    storage.isPreviewStorageConfigured.mockReturnValue(false);
+    expect(await publishPreview([file("x\n1\n", "a.csv")])).toBeNull();
+
+    storage.isPreviewStorageConfigured.mockReturnValue(true);
+    storage.uploadPublicFile.mockRejectedValueOnce(new Error("IPFS node returned 500"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await publishPreview([file("x\n1\n", "a.csv")])).toBeNull();
+  });
+});
+
+describe("previewStorageService", () => {
+  it("reads the IPFS endpoint and gateway from env", async () => {
+    const { resolvePreviewStorageConfig } = await vi.importActual<typeof import("@/services/previewStorageService")>(
+      "@/services/previewStorageService"
+    );
+    expect(resolvePreviewStorageConfig({})).toEqual({
+      apiUrl: null,
+      gatewayUrl: "https://ipfs.io/ipfs/",
+    });
+    expect(
+      resolvePreviewStorageConfig({
+        VITE_IPFS_API_URL: "http://127.0.0.1:5001/",
+        VITE_IPFS_GATEWAY_URL: "https://gw.example/ipfs",
+      })
+    ).toEqual({ apiUrl: "http://127.0.0.1:5001", gatewayUrl: "https://gw.example/ipfs/" });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+import type { MarketplaceContractClient } from "@/services/marketplaceContract";
+import { makeListing } from "./fixtures";
+
+const { isAuthorized } = vi.hoisted(() => ({ isAuthorized: vi.fn() }));
+vi.mock("@/services/novaService", () => ({ isAuthorized, addGroupMember: vi.fn() }));
+
+import { reconcileListing } from "@/services/reconciliationService";
+
+const listing = makeListing({
+  product_id: 3,
+  nova_group_id: "image_3",
+  buyers: [
+    "synced.near",
+    "nova-only.near",
+    "contract-only.near",
+    "neither.near",
+    "revoked.near",
+    "revoked-in-dispute.near",
+    "legacy.near",
+    "unmapped.near",
+  ],
+});
+
+describe("reconciliationService", () => {
+  it("classifies each buyer by where they have access, skipping revoked buyers", async () => {
+    const contract = {
+      getBuyersWithAccess: async () => ["synced.near", "contract-only.near"],
+      // A grant during a dispute leaves the escrow held, but is on record
+      getAccessGrants: async () => [["revoked-in-dispute.near", 1500]],
+      getListingEscrows: async () => [
+        { buyer: "neither.near", status: "Held", granted_at_ms: null },
+        { buyer: "revoked.near", status: "Released", granted_at_ms: 1000 },
+        { buyer: "revoked-in-dispute.near", status: "Held", granted_at_ms: null },
+      ],
+      getNovaAccount: async ({ near_wallet }: { near_wallet: string }) =>
+        near_wallet === "unmapped.near" ? null : near_wallet.replace(".near", ".nova-sdk.near"),
+    } as unknown as MarketplaceContractClient;
+    isAuthorized.mockImplementation(async (_group: string, novaId: string) =>
+      ["synced.nova-sdk.near", "nova-only.nova-sdk.near"].includes(novaId)
+    );
+
+    const result = await reconcileListing(listing, contract, "seller.near");
+
+    expect(result.drift.map((d) => [d.buyer, d.kind])).toEqual([
+      ["nova-only.near", "nova_only"],
+      ["contract-only.near", "contract_only"],
+      ["neither.near", "paid_no_access"],
+      ["legacy.near", "unknown"],
+    ]);
+    expect(result.errors).toEqual([
+      { productId: 3, buyer: "unmapped.near", message: "No NOVA account mapped for this buyer" },
+    ]);
+  });
+
+  it("leaves buyers whose license lapsed to revocation", async () => {
+    const subscription = makeListing({
+      product_id: 4,
+      license: { kind: "Subscription", duration_ms: 1000 },
+      buyers: ["lapsed.near"],
+      buyers_with_access: ["lapsed.near"],
+    });
+    const contract = {
+      getBuyersWithAccess: async () => [],
+      getAccessGrants: async () => [["lapsed.near", 1000]],
+      getListingEscrows: async () => [{ buyer: "lapsed.near", status: "Released", granted_at_ms: 1000 }],
+      getLicenseExpiries: async () => [["lapsed.near", 2000]],
+      getNovaAccount: vi.fn(),
+    } as unknown as MarketplaceContractClient;
+    isAuthorized.mockResolvedValue(true);
+
+    const result = await reconcileListing(subscription, contract, "seller.near");
+
+    expect(result.drift).toEqual([]);
+    expect(result.errors).toEqual([]);
+    expect(contract.getNovaAccount).not.toHaveBeenCalled();
+  });
+});
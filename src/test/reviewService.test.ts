@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { canReview, validateReview } from "@/services/reviewService";
+import type { ContractReview } from "@/services/marketplaceContract";
+
+const listing = { buyers_with_access: ["buyer.near"] };
+const review: ContractReview = { p_id: 7, reviewer: "buyer.near", rating: 4, text: "", created_at_ms: 0 };
+
+describe("reviewService", () => {
+  it("lets only buyers with access review, once", () => {
+    expect(canReview(listing, "buyer.near", null)).toBe(true);
+    expect(canReview(listing, "buyer.near", review)).toBe(false);
+    expect(canReview(listing, "pending.near", null)).toBe(false);
+    expect(canReview(listing, null, null)).toBe(false);
+  });
+
+  it("stops reviews once a time-limited license lapsed", () => {
+    expect(canReview(listing, "buyer.near", null, 2000, 1000)).toBe(true);
+    expect(canReview(listing, "buyer.near", null, 1000, 1000)).toBe(false);
+  });
+
+  it("rejects ratings and text the contract would refuse", () => {
+    expect(() => validateReview(5, "Exactly as described")).not.toThrow();
+    expect(() => validateReview(0, "")).toThrow("between 1 and 5");
+    expect(() => validateReview(4.5, "")).toThrow("between 1 and 5");
+    // 1000 byte limit counts UTF-8 bytes, not characters
+    expect(() => validateReview(3, "é".repeat(501))).toThrow("longer than 1000 bytes");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { computeSellerReputation } from "@/services/sellerProfileService";
+import type { ContractEscrow } from "@/services/marketplaceContract";
+import { makeListing as listing } from "./fixtures";
+
+const HOUR = 3_600_000;
+
+const escrow = (overrides: Partial<ContractEscrow>): ContractEscrow => ({
+  p_id: 1,
+  buyer: "buyer.near",
+  seller: "seller.near",
+  amount: "1",
+  asset: "Near",
+  status: "Held",
+  purchased_at_ms: 0,
+  refundable_at_ms: 10 * HOUR,
+  granted_at_ms: null,
+  refund_reason: null,
+  ...overrides,
+});
+
+describe("computeSellerReputation", () => {
+  it("aggregates sales, scores and grant latency", () => {
+    const listings = [
+      listing({
+        purchase_number: 3,
+        is_tee_verified: true,
+        credibility_score: 90,
+        buyers_with_access: ["a.near"],
+        review_count: 2,
+        rating_total: 9,
+      }),
+      listing({
+        product_id: 2,
+        purchase_number: 1,
+        is_active: false,
+        is_tee_verified: true,
+        credibility_score: 70,
+        review_count: 1,
+        rating_total: 3,
+      }),
+      listing({ product_id: 3, credibility_score: 10 }),
+    ];
+    const escrows = [
+      escrow({ status: "Released", granted_at_ms: 2 * HOUR }),
+      escrow({ status: "Released", purchased_at_ms: HOUR, granted_at_ms: 5 * HOUR }),
+      escrow({ purchased_at_ms: 4 * HOUR, refundable_at_ms: 14 * HOUR }),
+    ];
+
+    expect(computeSellerReputation(listings, escrows, 6 * HOUR)).toEqual({
+      activeListings: 2,
+      totalSales: 4,
+      averageCredibilityScore: 80,
+      averageRating: 4,
+      reviewCount: 3,
+      grantedPurchases: 2,
+      pendingPurchases: 1,
+      overduePurchases: 0,
+      averageGrantLatencyMs: 3 * HOUR,
+      neverGrants: false,
+    });
+  });
+
+  it("flags sellers whose buyers only ever time out", () => {
+    const listings = [listing({ purchase_number: 1 })];
+    const escrows = [escrow({}), escrow({ buyer: "b.near", status: "Refunded", refund_reason: "Timeout" })];
+
+    const reputation = computeSellerReputation(listings, escrows, 11 * HOUR);
+    expect(reputation.overduePurchases).toBe(2);
+    expect(reputation.neverGrants).toBe(true);
+
+    // A refunded dispute is not a missed grant
+    const refunded = [escrow({ status: "Refunded", refund_reason: "Seller" })];
+    expect(computeSellerReputation(listings, refunded, 11 * HOUR).overduePurchases).toBe(0);
+
+    // Still inside the escrow window: not flagged yet
+    expect(computeSellerReputation(listings, [escrow({})], HOUR).neverGrants).toBe(false);
+  });
+
+  it("keeps a timed-out purchase on record after the buyer buys again", () => {
+    const listings = [listing({ purchase_number: 2 })];
+    // get_listing_escrows returns the settled escrow of the earlier purchase before the current one
+    const escrows = [
+      escrow({ status: "Refunded", refund_reason: "Timeout" }),
+      escrow({ purchased_at_ms: 12 * HOUR, refundable_at_ms: 22 * HOUR }),
+    ];
+
+    const reputation = computeSellerReputation(listings, escrows, 13 * HOUR);
+    expect(reputation).toMatchObject({ overduePurchases: 1, pendingPurchases: 1, neverGrants: true });
+  });
+});
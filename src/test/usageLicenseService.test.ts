@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildLicenseReceipt,
+  createUsageLicense,
+  hashLicenseText,
+  signLicenseReceipt,
+  verifyUsageLicense,
+} from "@/services/usageLicenseService";
+import type { Listing, UsageLicense } from "@/services/listingModel";
+import { makeListing } from "./fixtures";
+
+const listing = (usage_license: UsageLicense) =>
+  makeListing({
+    product_id: 1739000000123,
+    metadata: { title: "Field recordings", file_name: "rain.wav", file_hash: "9f86d081884c7d65" },
+    usage_license,
+  }) as Listing & { usage_license: UsageLicense };
+
+describe("usageLicenseService", () => {
+  it("hashes license text as lowercase hex SHA-256", async () => {
+    expect(await hashLicenseText("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("hashes the template text, or the trimmed custom text", async () => {
+    const personal = await createUsageLicense("Personal", "ignored");
+    expect(personal.custom_text).toBe("");
+    expect(await verifyUsageLicense(personal)).toBe(true);
+
+    const custom = await createUsageLicense("Custom", "  Editorial use only.  ");
+    expect(custom.custom_text).toBe("Editorial use only.");
+    expect(custom.text_hash).toBe(await hashLicenseText("Editorial use only."));
+    expect(await verifyUsageLicense({ ...custom, custom_text: "Any use." })).toBe(false);
+  });
+
+  it("rejects custom licenses the contract would refuse", async () => {
+    await expect(createUsageLicense("Custom", "   ")).rejects.toThrow("custom license");
+    await expect(createUsageLicense("Custom", "x".repeat(4001))).rejects.toThrow("at most 4000 bytes");
+  });
+
+  it("builds a receipt and still returns it when the buyer declines to sign", async () => {
+    const license = await createUsageLicense("CcBy");
+    const receipt = buildLicenseReceipt(listing(license), "buyer.near", "market.near", Date.UTC(2026, 0, 2));
+
+    expect(receipt).toMatchObject({
+      contract_id: "market.near",
+      product_id: 1739000000123,
+      title: "Field recordings",
+      seller: "seller.near",
+      buyer: "buyer.near",
+      license: { kind: "CcBy", name: "CC BY 4.0", text_hash: license.text_hash },
+      issued_at: "2026-01-02T00:00:00.000Z",
+    });
+
+    const signer = vi.fn().mockRejectedValue(new Error("User rejected"));
+    const signed = await signLicenseReceipt(receipt, signer);
+    expect(signer).toHaveBeenCalledWith(JSON.stringify(receipt));
+    expect(signed.signature).toBeNull();
+    expect(JSON.parse(signed.message)).toEqual(receipt);
+  });
+});
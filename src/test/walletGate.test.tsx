@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+
+const wallet = vi.hoisted(() => ({ signedAccountId: null as string | null, signIn: vi.fn() }));
+vi.mock("near-connect-hooks", () => ({ useNearWallet: () => wallet }));
+
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { useWalletGate } from "@/components/useWalletGate";
+
+const BuyButton = ({ onBuy }: { onBuy: () => void }) => {
+  const { requireWallet } = useWalletGate();
+  return <button onClick={() => requireWallet("buy this item", onBuy)}>Buy</button>;
+};
+
+const page = (onBuy: () => void) => (
+  <ProtectedRoute soft>
+    <BuyButton onBuy={onBuy} />
+  </ProtectedRoute>
+);
+
+describe("soft wallet gate", () => {
+  beforeEach(() => {
+    wallet.signedAccountId = null;
+    wallet.signIn.mockClear();
+  });
+
+  it("asks for a wallet, then runs the deferred action once the user signs in", () => {
+    const onBuy = vi.fn();
+    const { rerender } = render(page(onBuy));
+
+    fireEvent.click(screen.getByText("Buy"));
+    expect(screen.getByText("Connect your NEAR wallet to buy this item.")).toBeInTheDocument();
+    fireEvent.click(screen.getByText("LOGIN"));
+    expect(wallet.signIn).toHaveBeenCalledTimes(1);
+    expect(onBuy).not.toHaveBeenCalled();
+
+    wallet.signedAccountId = "buyer.near";
+    rerender(page(onBuy));
+    expect(onBuy).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText("Connect your NEAR wallet to buy this item.")).not.toBeInTheDocument();
+
+    // Later renders don't run it again
+    rerender(page(onBuy));
+    expect(onBuy).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the action when the user cancels", () => {
+    const onBuy = vi.fn();
+    const { rerender } = render(page(onBuy));
+
+    fireEvent.click(screen.getByText("Buy"));
+    fireEvent.click(screen.getByText("Cancel"));
+
+    wallet.signedAccountId = "buyer.near";
+    rerender(page(onBuy));
+    expect(onBuy).not.toHaveBeenCalled();
+  });
+
+  it("runs the action straight away when a wallet is connected", () => {
+    wallet.signedAccountId = "buyer.near";
+    const onBuy = vi.fn();
+    render(page(onBuy));
+
+    fireEvent.click(screen.getByText("Buy"));
+    expect(onBuy).toHaveBeenCalledTimes(1);
+    expect(wallet.signIn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { embedFingerprint, extractFingerprint } from "@/services/watermarkService";
+import type { PixelImage } from "@/services/watermarkService";
+
+/** Deterministic photo-like test image: gradients plus texture */
+const makeImage = (width: number, height: number, fill?: number): PixelImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const texture = random() * 30;
+      data[i] = fill ?? (x / width) * 200 + texture;
+      data[i + 1] = fill ?? (y / height) * 180 + texture;
+      data[i + 2] = fill ?? 120 + Math.sin(x / 9) * 60 + texture;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+const maxDifference = (a: PixelImage, b: PixelImage) => a.data.reduce((max, value, i) => Math.max(max, Math.abs(value - b.data[i])), 0);
+
+describe("watermarkService", () => {
+  it("reads back the account id it embedded, with small pixel changes", () => {
+    const original = makeImage(400, 300);
+    const marked = makeImage(400, 300);
+    embedFingerprint(marked, "buyer-account.testnet");
+
+    expect(extractFingerprint(marked)).toBe("buyer-account.testnet");
+    expect(maxDifference(original, marked)).toBeLessThanOrEqual(4);
+    expect(extractFingerprint(original)).toBeNull();
+  });
+
+  it("survives pixel noise like a lossy re-encode", () => {
+    const image = makeImage(480, 360);
+    embedFingerprint(image, "alice.near");
+
+    let seed = 7;
+    for (let i = 0; i < image.data.length; i++) {
+      if (i % 4 === 3) continue;
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      image.data[i] += (seed % 7) - 3;
+    }
+    expect(extractFingerprint(image)).toBe("alice.near");
+  });
+
+  it("marks images with clipped highlights and shadows", () => {
+    for (const fill of [0, 255]) {
+      const image = makeImage(400, 300, fill);
+      embedFingerprint(image, "bob.near");
+      expect(extractFingerprint(image)).toBe("bob.near");
+    }
+  });
+
+  it("refuses images too small to carry the payload and over-long account ids", () => {
+    expect(() => embedFingerprint(makeImage(200, 200), "bob.near")).toThrow(/too small/);
+    expect(() => embedFingerprint(makeImage(400, 300), "a".repeat(65))).toThrow(/1 to 64 bytes/);
+    expect(extractFingerprint(makeImage(64, 64))).toBeNull();
+  });
+
+  it("doesn't read a fingerprint once the block grid has shifted", () => {
+    const image = makeImage(408, 300);
+    embedFingerprint(image, "carol.near");
+
+    // Crop the first 4 columns
+    const width = 404;
+    const cropped = new Uint8ClampedArray(width * 300 * 4);
+    for (let y = 0; y < 300; y++) {
+      cropped.set(image.data.subarray((y * 408 + 4) * 4, (y * 408 + 408) * 4), y * width * 4);
+    }
+    expect(extractFingerprint({ data: cropped, width, height: 300 })).toBeNull();
+  });
+});
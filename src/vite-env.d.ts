@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MARKETPLACE_CONTRACT_ID?: string;
+  readonly VITE_NEAR_NETWORK?: "mainnet" | "testnet";
+  readonly VITE_NEAR_RPC_URL?: string;
+  readonly VITE_MARKETPLACE_GAS?: string;
+  readonly VITE_IPFS_API_URL?: string;
+  readonly VITE_IPFS_GATEWAY_URL?: string;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Config for running the seller agent under vite-node (`npm run agent`).
+// Kept apart from vite.config.ts, whose browser `define` of process.env
+// would hide the agent's environment variables.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+});